@@ -40,6 +40,9 @@ export async function saveConfig(
 
 /**
  * Loads the current config, returning the parsed config plus paths.
+ *
+ * Profiles are not applied: the settings screen edits (and saves) the base
+ * config, so an active profile must not be baked into it.
  */
 export async function loadCurrentConfig(): Promise<{
 	config: ApiConfig;
@@ -48,7 +51,7 @@ export async function loadCurrentConfig(): Promise<{
 }> {
 	const projectRoot = await findProjectRoot();
 	const configPath = getConfigPath(projectRoot);
-	const { config } = await loadConfig(configPath);
+	const { config } = await loadConfig(configPath, { profile: "" });
 	return { config, configPath, projectRoot };
 }
 
@@ -7,26 +7,33 @@ import { createHash } from "node:crypto";
 
 import type { Logger } from "../../adapters/logger-interface.js";
 import {
+	type ApiConfig,
 	ensureOutputFolder,
 	getOutputPaths,
 	loadConfig,
 	resolveSpecSource,
+	selectApis,
 } from "../config.js";
-import { formatError, SpecNotFoundError } from "../errors.js";
+import { ConfigError, formatError, SpecNotFoundError } from "../errors.js";
 import {
 	computeHash,
 	fetchOpenApiSpec,
 	hasLocalSpec,
 	loadCacheMetadata,
 	loadLocalSpec,
+	runSpecCommand,
 } from "../fetcher.js";
 import { HTTP_METHODS } from "../http-methods.js";
+import { loadOverlays } from "../overlay.js";
+import { resolveAuthHeaders } from "./fetch.js";
 
 /**
  * Options for the diff action.
  */
 export interface DiffActionOptions {
 	configPath?: string;
+	/** Only diff the named `[[apis]]` entry (default: all of them) */
+	api?: string;
 	specFile?: string;
 }
 
@@ -60,8 +67,22 @@ export interface DiffResult {
 	identical: boolean;
 	currentSpecHash?: string;
 	newSpecHash: string;
+	/**
+	 * Per-API diffs when the config declares `[[apis]]`. The top-level
+	 * operation lists concatenate these, `identical` holds only when every
+	 * API is identical, and the hashes are those of the first API.
+	 */
+	apis?: ApiDiffResult[];
 }
 
+/**
+ * Diff of a single `[[apis]]` entry.
+ */
+export type ApiDiffResult = Omit<DiffResult, "apis"> & {
+	/** Name of the `[[apis]]` entry */
+	name: string;
+};
+
 /**
  * Returns a stable, canonical-JSON projection of the operation's
  * structural shape — the inputs that actually affect the generated
@@ -176,124 +197,199 @@ export async function executeDiff(
 	try {
 		// Load configuration
 		const { config, projectRoot } = await loadConfig(options.configPath);
-		const outputPaths = getOutputPaths(config, projectRoot);
-
-		await ensureOutputFolder(outputPaths.folder);
 
-		// Load current spec (if exists)
-		const hasCurrentSpec = await hasLocalSpec(outputPaths.spec);
-		let currentOperations: Map<string, OperationInfo> = new Map();
-		let currentSpecHash: string | undefined;
-
-		if (hasCurrentSpec) {
-			const { spec: currentSpec } = await loadLocalSpec(outputPaths.spec);
-			currentOperations = extractOperations(currentSpec);
-			logger.info(
-				{ operations: currentOperations.size },
-				"Loaded current spec"
+		const apis = selectApis(config, options.api);
+		if (apis.length > 1 && options.specFile) {
+			throw new ConfigError(
+				"--spec applies to a single API",
+				"Pick one with --api <name>.",
 			);
+		}
 
-			// Get current spec hash from cache metadata
-			const currentCacheMetadata = await loadCacheMetadata(outputPaths.cache);
-			if (currentCacheMetadata) {
-				currentSpecHash = currentCacheMetadata.hash;
-			}
-		} else {
-			logger.info("No current spec found - will show all as new");
+		if (!config.apis) {
+			return await diffApi(config, projectRoot, options.specFile, logger);
 		}
 
-		// Load new spec (from flag or fetch)
-		let newSpec: unknown;
-		let newHash: string;
+		const results: ApiDiffResult[] = [];
+		for (const api of apis) {
+			const result = await diffApi(api, projectRoot, options.specFile, logger);
+			results.push({ name: api.name ?? "", ...result });
+		}
 
-		const specSource = resolveSpecSource(
-			config,
-			projectRoot,
-			options.specFile,
-		);
+		const [first] = results;
+		return {
+			added: results.flatMap((r) => r.added),
+			removed: results.flatMap((r) => r.removed),
+			modified: results.flatMap((r) => r.modified),
+			identical: results.every((r) => r.identical),
+			currentSpecHash: first?.currentSpecHash,
+			newSpecHash: first?.newSpecHash ?? "",
+			apis: results,
+		};
+	} catch (error) {
+		if (error instanceof SpecNotFoundError) {
+			logger.warn("No local spec found - nothing to compare against");
+			throw error;
+		}
 
-		if (specSource.type === "local") {
-			// Load from local path (CLI flag or config.spec_file)
-			const result = await loadLocalSpec(specSource.path);
-			newSpec = result.spec;
-			newHash = computeHash(result.buffer);
-			logger.info({ spec: specSource.path }, "Loaded new spec from file");
-		} else {
-			// Fetch from remote
-			logger.info(
-				{ endpoint: specSource.endpoint },
-				"Fetching new spec from endpoint..."
-			);
+		logger.error(formatError(error));
+		throw error;
+	}
+}
 
-			const fetchResult = await fetchOpenApiSpec({
-				endpoint: specSource.endpoint,
-				specPath: outputPaths.spec,
-				cachePath: outputPaths.cache,
-				logger,
-				force: true, // Always fetch fresh for diff
-			});
+/**
+ * Diffs a single API (the root config, or one `[[apis]]` entry) against its
+ * cached spec.
+ */
+async function diffApi(
+	config: ApiConfig,
+	projectRoot: string,
+	specFile: string | undefined,
+	logger: Logger,
+): Promise<DiffResult> {
+	const outputPaths = getOutputPaths(config, projectRoot);
 
-			newSpec = JSON.parse(fetchResult.buffer.toString("utf8"));
-			newHash = fetchResult.hash;
-		}
+	await ensureOutputFolder(outputPaths.folder);
 
-		// Check hash against cache for identical detection (reuse already-loaded metadata)
-		if (currentSpecHash && currentSpecHash === newHash && !options.specFile) {
-			return {
-				added: [],
-				removed: [],
-				modified: [],
-				identical: true,
-				currentSpecHash,
-				newSpecHash: newHash,
-			};
-		}
+	// Load current spec (if exists)
+	const hasCurrentSpec = await hasLocalSpec(outputPaths.spec);
+	let currentOperations: Map<string, OperationInfo> = new Map();
+	let currentSpecHash: string | undefined;
 
-		// Extract operations from new spec
-		const newOperations = extractOperations(newSpec);
-		logger.info({ operations: newOperations.size }, "Analyzed new spec");
+	if (hasCurrentSpec) {
+		const { spec: currentSpec } = await loadLocalSpec(outputPaths.spec);
+		currentOperations = extractOperations(currentSpec);
+		logger.info(
+			{ operations: currentOperations.size },
+			"Loaded current spec"
+		);
 
-		// Compute differences
-		const added: OperationInfo[] = [];
-		const removed: OperationInfo[] = [];
-		const modified: Array<{ old: OperationInfo; new: OperationInfo }> = [];
+		// Get current spec hash from cache metadata
+		const currentCacheMetadata = await loadCacheMetadata(outputPaths.cache);
+		if (currentCacheMetadata) {
+			currentSpecHash = currentCacheMetadata.hash;
+		}
+	} else {
+		logger.info("No current spec found - will show all as new");
+	}
 
-		// Find added and modified operations
-		for (const [id, newOp] of newOperations) {
-			const currentOp = currentOperations.get(id);
+	// Load new spec (from flag or fetch)
+	let newSpec: unknown;
+	let newHash: string;
 
-			if (!currentOp) {
-				added.push(newOp);
-			} else if (hasChanges(currentOp, newOp)) {
-				modified.push({ old: currentOp, new: newOp });
-			}
-		}
+	const specSource = resolveSpecSource(
+		config,
+		projectRoot,
+		specFile,
+	);
+	const overlays = await loadOverlays(config.overlays, projectRoot);
+
+	if (specSource.type === "local") {
+		// Load from local path (CLI flag or config.spec_file)
+		const result = await loadLocalSpec(specSource.path, { logger, overlays });
+		newSpec = result.spec;
+		newHash = computeHash(result.buffer);
+		logger.info({ spec: specSource.path }, "Loaded new spec from file");
+	} else if (specSource.type === "command") {
+		// Capture from spec_command
+		logger.info(
+			{ command: specSource.command },
+			"Running spec command for new spec..."
+		);
 
-		// Find removed operations
-		for (const [id, currentOp] of currentOperations) {
-			if (!newOperations.has(id)) {
-				removed.push(currentOp);
-			}
-		}
+		const commandResult = await runSpecCommand({
+			command: specSource.command,
+			cwd: specSource.cwd,
+			cachePath: outputPaths.cache,
+			logger,
+			force: true,
+			timeoutMs: config.fetch?.timeout_ms,
+			maxBytes: config.fetch?.max_bytes,
+			overlays,
+		});
+
+		newSpec = JSON.parse(commandResult.buffer.toString("utf8"));
+		newHash = commandResult.hash;
+	} else {
+		// Fetch from remote
+		logger.info(
+			{ endpoint: specSource.endpoint },
+			"Fetching new spec from endpoint..."
+		);
 
-		const identical =
-			added.length === 0 && removed.length === 0 && modified.length === 0;
+		const authHeaders = config.fetch?.auth
+			? await resolveAuthHeaders(config.fetch.auth, {
+					logger,
+					tokenCachePath: outputPaths.oauthToken,
+					timeoutMs: config.fetch.timeout_ms,
+				})
+			: undefined;
+
+		const fetchResult = await fetchOpenApiSpec({
+			endpoint: specSource.endpoint,
+			specPath: outputPaths.spec,
+			cachePath: outputPaths.cache,
+			logger,
+			force: true, // Always fetch fresh for diff
+			headers: config.fetch?.headers,
+			authHeaders,
+			timeoutMs: config.fetch?.timeout_ms,
+			maxBytes: config.fetch?.max_bytes,
+			overlays,
+		});
+
+		newSpec = JSON.parse(fetchResult.buffer.toString("utf8"));
+		newHash = fetchResult.hash;
+	}
 
+	// Check hash against cache for identical detection (reuse already-loaded metadata)
+	if (currentSpecHash && currentSpecHash === newHash && !specFile) {
 		return {
-			added,
-			removed,
-			modified,
-			identical,
+			added: [],
+			removed: [],
+			modified: [],
+			identical: true,
 			currentSpecHash,
 			newSpecHash: newHash,
 		};
-	} catch (error) {
-		if (error instanceof SpecNotFoundError) {
-			logger.warn("No local spec found - nothing to compare against");
-			throw error;
+	}
+
+	// Extract operations from new spec
+	const newOperations = extractOperations(newSpec);
+	logger.info({ operations: newOperations.size }, "Analyzed new spec");
+
+	// Compute differences
+	const added: OperationInfo[] = [];
+	const removed: OperationInfo[] = [];
+	const modified: Array<{ old: OperationInfo; new: OperationInfo }> = [];
+
+	// Find added and modified operations
+	for (const [id, newOp] of newOperations) {
+		const currentOp = currentOperations.get(id);
+
+		if (!currentOp) {
+			added.push(newOp);
+		} else if (hasChanges(currentOp, newOp)) {
+			modified.push({ old: currentOp, new: newOp });
 		}
+	}
 
-		logger.error(formatError(error));
-		throw error;
+	// Find removed operations
+	for (const [id, currentOp] of currentOperations) {
+		if (!newOperations.has(id)) {
+			removed.push(currentOp);
+		}
 	}
+
+	const identical =
+		added.length === 0 && removed.length === 0 && modified.length === 0;
+
+	return {
+		added,
+		removed,
+		modified,
+		identical,
+		currentSpecHash,
+		newSpecHash: newHash,
+	};
 }
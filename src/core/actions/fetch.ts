@@ -7,20 +7,27 @@
 import type { Logger } from "../../adapters/logger-interface.js";
 import { formatDuration } from "../../adapters/logger-interface.js";
 import {
+	type ApiConfig,
+	type BasicFetchAuthConfig,
 	ensureOutputFolders,
 	type FetchAuthConfig,
 	getOutputPaths,
 	loadConfig,
 	resolveSpecSource,
+	selectApis,
 } from "../config.js";
+import { ConfigError } from "../errors.js";
 import {
+	fetchOAuth2Token,
 	fetchOpenApiSpec,
 	interpolateEnvVars,
 	loadLocalSpecFile,
+	runSpecCommand,
 	saveSpec,
 } from "../fetcher.js";
 import { generate, generateClientFiles } from "../generator.js";
 import { loadHooks } from "../hooks-loader.js";
+import { loadOverlays } from "../overlay.js";
 import type { PromptProvider } from "./init.js";
 import type { ClientFilesResult, DryRunResult } from "./types.js";
 
@@ -30,6 +37,8 @@ import type { ClientFilesResult, DryRunResult } from "./types.js";
 export interface FetchActionOptions {
 	/** Path to api.config.toml */
 	configPath?: string;
+	/** Only fetch the named `[[apis]]` entry (default: all of them) */
+	api?: string;
 	/** Override API endpoint URL */
 	endpoint?: string;
 	/** Use local spec file instead of fetching from remote */
@@ -48,6 +57,8 @@ export interface FetchActionOptions {
 	 * Used by the TUI to collect credentials via its own UI layer.
 	 */
 	auth?: { username: string; password: string };
+	/** AbortSignal for cancelling an in-flight fetch (e.g., from TUI) */
+	signal?: AbortSignal;
 }
 
 /**
@@ -70,14 +81,27 @@ export interface FetchActionResult {
 	clientFilesCreated: ClientFilesResult;
 	/** Dry run result (only present when dryRun is true) */
 	dryRunResult?: DryRunResult;
+	/**
+	 * Per-API results when the config declares `[[apis]]`. The top-level
+	 * fields above aggregate these.
+	 */
+	apis?: ApiFetchResult[];
 }
 
+/**
+ * Result of fetching a single `[[apis]]` entry.
+ */
+export type ApiFetchResult = Omit<FetchActionResult, "apis"> & {
+	/** Name of the `[[apis]]` entry */
+	name: string;
+};
+
 /**
  * Resolves Basic Auth credentials from config, env vars, or interactive prompts.
  * Returns resolved credentials or undefined if no auth is configured.
  */
 async function resolveBasicAuth(
-	authConfig: FetchAuthConfig,
+	authConfig: BasicFetchAuthConfig,
 	logger: Logger,
 	prompts?: PromptProvider,
 ): Promise<{ username: string; password: string }> {
@@ -143,8 +167,122 @@ async function resolveBasicAuth(
 	);
 }
 
+/**
+ * Resolves a single `[fetch.auth]` secret: config value (with env var
+ * interpolation) first, then an interactive prompt, else an error naming
+ * the missing setting.
+ */
+async function resolveAuthSecret(
+	value: string | undefined,
+	field: { key: string; label: string; secret: boolean },
+	prompts?: PromptProvider,
+): Promise<string> {
+	if (value) {
+		try {
+			const resolved = interpolateEnvVars(value);
+			if (resolved) return resolved;
+		} catch {
+			// Env var not set — will prompt or error below
+		}
+	}
+
+	if (prompts) {
+		const answer = field.secret
+			? await prompts.password({ message: `${field.label}:`, mask: "*" })
+			: await prompts.input({
+					message: `${field.label}:`,
+					validate: (input) =>
+						input.trim().length > 0 ? true : `${field.label} is required`,
+				});
+		if (answer.trim()) return answer.trim();
+	}
+
+	throw new Error(
+		`${field.label} for spec fetching is not set. ` +
+			`Set '${field.key}' in [fetch.auth] (or the environment variable it references), ` +
+			"or run interactively to be prompted."
+	);
+}
+
+/**
+ * Resolves `[fetch.auth]` into the request headers that authenticate a
+ * spec fetch. OAuth2 tokens are cached at `tokenCachePath`.
+ *
+ * Exported so `watch` and `diff` authenticate the same way; they pass no
+ * prompt provider, so missing secrets fail fast there.
+ */
+export async function resolveAuthHeaders(
+	authConfig: FetchAuthConfig,
+	context: {
+		logger: Logger;
+		prompts?: PromptProvider;
+		tokenCachePath: string;
+		timeoutMs?: number;
+		signal?: AbortSignal;
+	},
+): Promise<Record<string, string>> {
+	const { logger, prompts } = context;
+
+	switch (authConfig.type) {
+		case "basic": {
+			const { username, password } = await resolveBasicAuth(
+				authConfig,
+				logger,
+				prompts,
+			);
+			const credentials = Buffer.from(`${username}:${password}`).toString(
+				"base64",
+			);
+			return { Authorization: `Basic ${credentials}` };
+		}
+
+		case "bearer": {
+			const token = await resolveAuthSecret(
+				authConfig.token,
+				{ key: "token", label: "Bearer token", secret: true },
+				prompts,
+			);
+			return { Authorization: `Bearer ${token}` };
+		}
+
+		case "header": {
+			const value = await resolveAuthSecret(
+				authConfig.value,
+				{ key: "value", label: `${authConfig.name} header`, secret: true },
+				prompts,
+			);
+			return { [authConfig.name]: value };
+		}
+
+		case "oauth2-client-credentials": {
+			const clientId = await resolveAuthSecret(
+				authConfig.client_id,
+				{ key: "client_id", label: "OAuth2 client id", secret: false },
+				prompts,
+			);
+			const clientSecret = await resolveAuthSecret(
+				authConfig.client_secret,
+				{ key: "client_secret", label: "OAuth2 client secret", secret: true },
+				prompts,
+			);
+			const token = await fetchOAuth2Token({
+				tokenUrl: authConfig.token_url,
+				clientId,
+				clientSecret,
+				scopes: authConfig.scopes,
+				cachePath: context.tokenCachePath,
+				logger,
+				timeoutMs: context.timeoutMs,
+				signal: context.signal,
+			});
+			return { Authorization: `Bearer ${token}` };
+		}
+	}
+}
+
 /**
  * Executes the fetch action: fetch OpenAPI spec, cache it, and generate types/operations.
+ * With `[[apis]]` configured, runs once per selected API and aggregates the results.
  *
  * @param options - Fetch action options (replaces CLI flags)
  * @param logger - Logger instance for output
@@ -178,6 +316,71 @@ export async function executeFetch(
 		throw new Error("Cannot use --types-only and --operations-only together");
 	}
 
+	const apis = selectApis(config, options.api);
+	if (apis.length > 1 && (options.endpoint || options.specFile)) {
+		throw new ConfigError(
+			"--endpoint and --spec-file apply to a single API",
+			"Pick one with --api <name>.",
+		);
+	}
+
+	if (!config.apis) {
+		return fetchApi(config, projectRoot, options, logger, prompts, startTime);
+	}
+
+	const results: ApiFetchResult[] = [];
+	for (const api of apis) {
+		logger.step("api", `[${api.name}]`);
+		const result = await fetchApi(
+			api,
+			projectRoot,
+			options,
+			logger,
+			prompts,
+			Date.now(),
+		);
+		results.push({ name: api.name ?? "", ...result });
+	}
+
+	return {
+		specChanged: results.some((r) => r.specChanged),
+		fromCache: results.some((r) => r.fromCache),
+		operationCount: results.reduce((sum, r) => sum + r.operationCount, 0),
+		durationMs: Date.now() - startTime,
+		typesGenerated: results.some((r) => r.typesGenerated),
+		operationsGenerated: results.some((r) => r.operationsGenerated),
+		clientFilesCreated: {
+			helpers: results.some((r) => r.clientFilesCreated.helpers),
+			instance: results.some((r) => r.clientFilesCreated.instance),
+			error: results.some((r) => r.clientFilesCreated.error),
+			client: results.some((r) => r.clientFilesCreated.client),
+		},
+		...(options.dryRun
+			? {
+					dryRunResult: {
+						operationCount: results.reduce(
+							(sum, r) => sum + (r.dryRunResult?.operationCount ?? 0),
+							0,
+						),
+						files: results.flatMap((r) => r.dryRunResult?.files ?? []),
+					},
+				}
+			: {}),
+		apis: results,
+	};
+}
+
+/**
+ * Fetches and generates a single API (the root config, or one `[[apis]]` entry).
+ */
+async function fetchApi(
+	config: ApiConfig,
+	projectRoot: string,
+	options: FetchActionOptions,
+	logger: Logger,
+	prompts: PromptProvider | undefined,
+	startTime: number,
+): Promise<Omit<FetchActionResult, "apis">> {
 	// Get output paths
 	const outputPaths = getOutputPaths(config, projectRoot);
 	logger.debug({ outputPaths }, "Resolved output paths");
@@ -186,12 +389,15 @@ export async function executeFetch(
 	await ensureOutputFolders(outputPaths);
 	logger.debug({ folder: outputPaths.folder }, "Output folders ready");
 
-	// Resolve spec source (flag > config spec_file > config api_endpoint)
+	// Resolve spec source (flag > config spec_file > config spec_command > config api_endpoint)
 	// Note: --endpoint flag overrides spec_file for remote fetching
 	const specSource = options.endpoint
 		? { type: "remote" as const, endpoint: options.endpoint }
 		: resolveSpecSource(config, projectRoot, options.specFile);
 
+	// Overlays are re-read on every fetch so edits take effect immediately
+	const overlays = await loadOverlays(config.overlays, projectRoot);
+
 	let fetchResult;
 	let sourceIdentifier: string;
 
@@ -204,6 +410,24 @@ export async function executeFetch(
 			cachePath: outputPaths.cache,
 			logger,
 			force: options.force,
+			overlays,
+		});
+	} else if (specSource.type === "command") {
+		// Capture the spec from a local command's stdout
+		sourceIdentifier = specSource.command;
+		logger.step("fetch", "Running spec command...");
+		logger.debug({ command: specSource.command, cwd: specSource.cwd }, "command");
+
+		fetchResult = await runSpecCommand({
+			command: specSource.command,
+			cwd: specSource.cwd,
+			cachePath: outputPaths.cache,
+			logger,
+			force: options.force,
+			timeoutMs: config.fetch?.timeout_ms,
+			maxBytes: config.fetch?.max_bytes,
+			signal: options.signal,
+			overlays,
 		});
 	} else {
 		// Fetch from remote endpoint
@@ -215,11 +439,18 @@ export async function executeFetch(
 		// Caller-supplied options.auth (e.g., from TUI) takes precedence
 		// over config-based env var lookup and interactive prompts.
 		let auth: { username: string; password: string } | undefined;
+		let authHeaders: Record<string, string> | undefined;
 		if (options.auth) {
 			auth = options.auth;
 			logger.debug("Using Basic Auth credentials from caller");
-		} else if (config.fetch?.auth?.type === "basic") {
-			auth = await resolveBasicAuth(config.fetch.auth, logger, prompts);
+		} else if (config.fetch?.auth) {
+			authHeaders = await resolveAuthHeaders(config.fetch.auth, {
+				logger,
+				prompts,
+				tokenCachePath: outputPaths.oauthToken,
+				timeoutMs: config.fetch.timeout_ms,
+				signal: options.signal,
+			});
 		}
 
 		fetchResult = await fetchOpenApiSpec({
@@ -230,6 +461,11 @@ export async function executeFetch(
 			force: options.force,
 			headers: config.fetch?.headers,
 			auth,
+			authHeaders,
+			timeoutMs: config.fetch?.timeout_ms,
+			maxBytes: config.fetch?.max_bytes,
+			signal: options.signal,
+			overlays,
 		});
 
 		// Handle network fallback
@@ -259,6 +495,9 @@ export async function executeFetch(
 		endpoint: sourceIdentifier,
 		specPath: outputPaths.spec,
 		cachePath: outputPaths.cache,
+		etag: fetchResult.etag,
+		lastModified: fetchResult.lastModified,
+		overlays: fetchResult.overlays,
 	});
 
 	logger.info(
@@ -276,7 +515,7 @@ export async function executeFetch(
 		logger,
 	});
 
-	// Load optional generator hooks from chowbea.config.{mjs,js}
+	// Load optional generator hooks from chowbea.config.{ts,mts,mjs,js}
 	const hooks = await loadHooks(projectRoot, logger);
 
 	// Run generation
@@ -288,6 +527,17 @@ export async function executeFetch(
 		skipTypes: options.operationsOnly,
 		skipOperations: options.typesOnly,
 		hooks,
+		filter: config.filter,
+		operationsConfig: config.operations,
+		zod: config.output.zod,
+		tanstackQuery: config.output.tanstack_query,
+		msw: config.output.msw,
+		enumObjects: config.output.enum_objects,
+		splitByTag: config.output.split_by_tag,
+		scalars: config.scalars,
+		validation: config.validation,
+		envAccessor: config.instance.env_accessor,
+		transport: config.instance.transport,
 	});
 
 	// Handle dry-run output
@@ -297,6 +547,10 @@ export async function executeFetch(
 			{ operations: result.dryRunResult.operationCount },
 			"Operations found",
 		);
+		if (result.dryRunResult.filter) {
+			const { kept, dropped } = result.dryRunResult.filter;
+			logger.info(`Filter keeps ${kept} of ${kept + dropped} operations (${dropped} dropped)`);
+		}
 		for (const file of result.dryRunResult.files) {
 			const info = file.lines > 0 ? ` (${file.lines} lines)` : " (types)";
 			logger.info(`Would ${file.action}: ${file.path}${info}`);
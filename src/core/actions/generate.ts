@@ -9,12 +9,14 @@ import { writeFile } from "node:fs/promises";
 import type { Logger } from "../../adapters/logger-interface.js";
 import { formatDuration } from "../../adapters/logger-interface.js";
 import {
+	type ApiConfig,
 	ensureOutputFolders,
 	getOutputPaths,
 	loadConfig,
 	resolveSpecSource,
+	selectApis,
 } from "../config.js";
-import { SpecNotFoundError } from "../errors.js";
+import { ConfigError, SpecNotFoundError } from "../errors.js";
 import {
 	computeHash,
 	hasLocalSpec,
@@ -23,6 +25,7 @@ import {
 } from "../fetcher.js";
 import { generate, generateClientFiles } from "../generator.js";
 import { loadHooks } from "../hooks-loader.js";
+import { loadOverlays } from "../overlay.js";
 import type { ClientFilesResult, DryRunResult } from "./types.js";
 
 /**
@@ -31,6 +34,8 @@ import type { ClientFilesResult, DryRunResult } from "./types.js";
 export interface GenerateActionOptions {
 	/** Path to api.config.toml */
 	configPath?: string;
+	/** Only generate the named `[[apis]]` entry (default: all of them) */
+	api?: string;
 	/** Use local spec file (copies to cache before generating) */
 	specFile?: string;
 	/** Show what would be generated without writing files */
@@ -57,10 +62,24 @@ export interface GenerateActionResult {
 	clientFilesCreated: ClientFilesResult;
 	/** Dry run result (only present when dryRun is true) */
 	dryRunResult?: DryRunResult;
+	/**
+	 * Per-API results when the config declares `[[apis]]`. The top-level
+	 * fields above aggregate these.
+	 */
+	apis?: ApiGenerateResult[];
 }
 
+/**
+ * Result of generating a single `[[apis]]` entry.
+ */
+export type ApiGenerateResult = Omit<GenerateActionResult, "apis"> & {
+	/** Name of the `[[apis]]` entry */
+	name: string;
+};
+
 /**
  * Executes the generate action: generate types/operations from cached or local spec.
+ * With `[[apis]]` configured, runs once per selected API and aggregates the results.
  *
  * @param options - Generate action options (replaces CLI flags)
  * @param logger - Logger instance for output
@@ -92,6 +111,67 @@ export async function executeGenerate(
 		throw new Error("Cannot use --types-only and --operations-only together");
 	}
 
+	const apis = selectApis(config, options.api);
+	if (apis.length > 1 && options.specFile) {
+		throw new ConfigError(
+			"--spec-file applies to a single API",
+			"Pick one with --api <name>.",
+		);
+	}
+
+	if (!config.apis) {
+		return generateApi(config, projectRoot, options, logger, startTime);
+	}
+
+	const results: ApiGenerateResult[] = [];
+	for (const api of apis) {
+		logger.step("api", `[${api.name}]`);
+		const result = await generateApi(
+			api,
+			projectRoot,
+			options,
+			logger,
+			Date.now(),
+		);
+		results.push({ name: api.name ?? "", ...result });
+	}
+
+	return {
+		operationCount: results.reduce((sum, r) => sum + r.operationCount, 0),
+		durationMs: Date.now() - startTime,
+		typesGenerated: results.some((r) => r.typesGenerated),
+		operationsGenerated: results.some((r) => r.operationsGenerated),
+		clientFilesCreated: {
+			helpers: results.some((r) => r.clientFilesCreated.helpers),
+			instance: results.some((r) => r.clientFilesCreated.instance),
+			error: results.some((r) => r.clientFilesCreated.error),
+			client: results.some((r) => r.clientFilesCreated.client),
+		},
+		...(options.dryRun
+			? {
+					dryRunResult: {
+						operationCount: results.reduce(
+							(sum, r) => sum + (r.dryRunResult?.operationCount ?? 0),
+							0,
+						),
+						files: results.flatMap((r) => r.dryRunResult?.files ?? []),
+					},
+				}
+			: {}),
+		apis: results,
+	};
+}
+
+/**
+ * Generates a single API (the root config, or one `[[apis]]` entry).
+ */
+async function generateApi(
+	config: ApiConfig,
+	projectRoot: string,
+	options: GenerateActionOptions,
+	logger: Logger,
+	startTime: number,
+): Promise<Omit<GenerateActionResult, "apis">> {
 	// Get output paths
 	const outputPaths = getOutputPaths(config, projectRoot);
 	logger.debug({ outputPaths }, "Resolved output paths");
@@ -101,9 +181,10 @@ export async function executeGenerate(
 	logger.debug({ folder: outputPaths.folder }, "Output folders ready");
 
 	// Resolve spec source — honors both --spec-file CLI flag AND config.spec_file
-	// (priority: flag > config.spec_file > config.api_endpoint, per resolveSpecSource).
-	// For local sources, copy into the cache location so the rest of the pipeline
-	// reads from a consistent place.
+	// (priority: flag > config.spec_file > config.spec_command > config.api_endpoint,
+	// per resolveSpecSource). For local sources, copy into the cache location so
+	// the rest of the pipeline reads from a consistent place. Remote and command
+	// sources are only refreshed by `fetch`; generate reads their cached spec.
 	const specSource = resolveSpecSource(config, projectRoot, options.specFile);
 	if (specSource.type === "local") {
 		logger.info(
@@ -112,7 +193,10 @@ export async function executeGenerate(
 		);
 
 		// Load and validate the spec
-		const { buffer } = await loadLocalSpec(specSource.path);
+		const { buffer, overlays } = await loadLocalSpec(specSource.path, {
+			logger,
+			overlays: await loadOverlays(config.overlays, projectRoot),
+		});
 		const hash = computeHash(buffer);
 
 		// Copy to cache location
@@ -121,6 +205,7 @@ export async function executeGenerate(
 			hash,
 			timestamp: Date.now(),
 			endpoint: specSource.path,
+			...(overlays ? { overlays } : {}),
 		});
 
 		logger.info(
@@ -143,7 +228,7 @@ export async function executeGenerate(
 		logger,
 	});
 
-	// Load optional generator hooks from chowbea.config.{mjs,js}
+	// Load optional generator hooks from chowbea.config.{ts,mts,mjs,js}
 	const hooks = await loadHooks(projectRoot, logger);
 
 	// Run generation
@@ -155,6 +240,17 @@ export async function executeGenerate(
 		skipTypes: options.operationsOnly,
 		skipOperations: options.typesOnly,
 		hooks,
+		filter: config.filter,
+		operationsConfig: config.operations,
+		zod: config.output.zod,
+		tanstackQuery: config.output.tanstack_query,
+		msw: config.output.msw,
+		enumObjects: config.output.enum_objects,
+		splitByTag: config.output.split_by_tag,
+		scalars: config.scalars,
+		validation: config.validation,
+		envAccessor: config.instance.env_accessor,
+		transport: config.instance.transport,
 	});
 
 	// Handle dry-run output
@@ -164,6 +260,10 @@ export async function executeGenerate(
 			{ operations: result.dryRunResult.operationCount },
 			"Operations found",
 		);
+		if (result.dryRunResult.filter) {
+			const { kept, dropped } = result.dryRunResult.filter;
+			logger.info(`Filter keeps ${kept} of ${kept + dropped} operations (${dropped} dropped)`);
+		}
 		for (const file of result.dryRunResult.files) {
 			const info = file.lines > 0 ? ` (${file.lines} lines)` : " (types)";
 			logger.info(`Would ${file.action}: ${file.path}${info}`);
@@ -1159,14 +1159,16 @@ export async function executeInit(
         auth_mode: config.instance.auth_mode,
         with_credentials: config.instance.with_credentials,
         timeout: config.instance.timeout,
+        ...(config.instance.transport ? { transport: config.instance.transport } : {}),
       };
     } catch {
       // Config parsing failed — continue with prompted values as fallback
     }
   }
 
-  // Step 2: Install axios dependency
-  const axiosInstalled = await ensureAxios(projectRoot, pm, logger);
+  // Step 2: Install axios dependency (not needed by the fetch transport)
+  const axiosInstalled =
+    instanceConfig.transport === "fetch" ? false : await ensureAxios(projectRoot, pm, logger);
 
   // Step 3: Add npm scripts to package.json
   let scriptsAdded: string[] = [];
@@ -0,0 +1,131 @@
+/**
+ * Mock action - serves the cached OpenAPI spec from a local HTTP server.
+ * Runs until the AbortSignal fires, like the watch action.
+ */
+
+import { readFile } from "node:fs/promises";
+import type { Server } from "node:http";
+
+import type { Logger } from "../../adapters/logger-interface.js";
+import { getOutputPaths, loadConfig, selectApis } from "../config.js";
+import { MockServerError, SpecNotFoundError } from "../errors.js";
+import { loadCachedSpec } from "../fetcher.js";
+import { createMockServer } from "../mock-server.js";
+
+/** Port of the first served API; further `[[apis]]` entries count up from it. */
+export const DEFAULT_MOCK_PORT = 4010;
+
+/**
+ * Options for the mock action.
+ */
+export interface MockActionOptions {
+	/** Path to api.config.toml */
+	configPath?: string;
+	/** Only serve the named `[[apis]]` entry (default: all of them) */
+	api?: string;
+	/** Port to listen on (default: 4010) */
+	port?: number;
+	/** Host to bind (default: 127.0.0.1) */
+	host?: string;
+	/** Milliseconds to wait before every response */
+	delayMs?: number;
+	/** Seed mixed into synthesized payloads */
+	seed?: string;
+	/** AbortSignal that stops the server */
+	signal?: AbortSignal;
+	/** Called with each server's URL once it is listening */
+	onListening?(url: string, api?: string): void;
+}
+
+function listen(server: Server, port: number, host: string): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const onError = (error: Error) => reject(new MockServerError(`${host}:${port}`, error.message));
+		server.once("error", onError);
+		server.listen(port, host, () => {
+			server.off("error", onError);
+			const address = server.address();
+			resolve(typeof address === "object" && address ? address.port : port);
+		});
+	});
+}
+
+/**
+ * The operation names api.mocks.ts was generated with, from
+ * api.manifest.json; empty when every name comes from the spec or nothing
+ * was generated yet.
+ */
+async function loadOperationIds(manifestPath: string): Promise<Record<string, string>> {
+	try {
+		const manifest = JSON.parse(await readFile(manifestPath, "utf8")) as {
+			synthesizedOperationIds?: Record<string, string>;
+			qualifiedOperationIds?: Record<string, string>;
+		};
+		return { ...manifest.synthesizedOperationIds, ...manifest.qualifiedOperationIds };
+	} catch {
+		return {};
+	}
+}
+
+function close(server: Server): Promise<void> {
+	return new Promise((resolve) => {
+		server.close(() => resolve());
+		server.closeAllConnections();
+	});
+}
+
+/**
+ * Starts a mock server per selected API and keeps them running until
+ * `options.signal` aborts.
+ */
+export async function executeMock(options: MockActionOptions, logger: Logger): Promise<void> {
+	logger.header("chowbea-axios mock");
+
+	logger.step("config", "Loading configuration...");
+	const { config, projectRoot } = await loadConfig(options.configPath);
+
+	const host = options.host ?? "127.0.0.1";
+	const basePort = options.port ?? DEFAULT_MOCK_PORT;
+	const servers: Server[] = [];
+
+	try {
+		for (const [index, api] of selectApis(config, options.api).entries()) {
+			const outputPaths = getOutputPaths(api, projectRoot);
+			const buffer = await loadCachedSpec(outputPaths.spec);
+			if (!buffer) {
+				throw new SpecNotFoundError(outputPaths.spec);
+			}
+
+			const server = createMockServer(JSON.parse(buffer.toString("utf8")), {
+				...(options.seed !== undefined ? { seed: options.seed } : {}),
+				operationIds: await loadOperationIds(outputPaths.manifest),
+				...(options.delayMs !== undefined ? { delayMs: options.delayMs } : {}),
+				logger,
+			});
+			servers.push(server);
+
+			// Port 0 picks a free port per API instead of counting up.
+			const port = await listen(server, basePort === 0 ? 0 : basePort + index, host);
+			const url = `http://${host.includes(":") ? `[${host}]` : host}:${port}`;
+			logger.info({ url, ...(api.name ? { api: api.name } : {}) }, "Mock server listening");
+			options.onListening?.(url, api.name);
+		}
+
+		if (options.delayMs) {
+			logger.info({ delayMs: options.delayMs }, "Delaying every response");
+		}
+		logger.info("Send 'Prefer: code=<status>' to pick another documented response");
+
+		const signal = options.signal;
+		if (signal && !signal.aborted) {
+			await new Promise<void>((resolve) => {
+				signal.addEventListener("abort", () => resolve(), { once: true });
+			});
+		} else if (!signal) {
+			await new Promise<void>(() => {});
+		}
+	} finally {
+		await Promise.all(servers.map(close));
+	}
+
+	logger.info("Mock server stopped");
+}
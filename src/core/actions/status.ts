@@ -7,11 +7,13 @@ import { stat } from "node:fs/promises";
 import path from "node:path";
 
 import type { Logger } from "../../adapters/logger-interface.js";
-import { getOutputPaths, loadConfig } from "../config.js";
-import type { OutputPaths } from "../config.js";
+import { getOutputPaths, loadConfig, selectApis } from "../config.js";
+import type { ApiConfig, FilterConfig, OutputPaths } from "../config.js";
 import { formatError } from "../errors.js";
 import { hasLocalSpec, loadCacheMetadata, loadLocalSpec } from "../fetcher.js";
 import type { CacheMetadata } from "../fetcher.js";
+import { filterSpec, isFilterActive } from "../filter.js";
+import type { FilterSummary } from "../filter.js";
 import { HTTP_METHODS } from "../http-methods.js";
 import {
 	executionSource,
@@ -25,6 +27,8 @@ import type { ExecutionSource } from "../local-resolution.js";
  */
 export interface StatusActionOptions {
 	configPath?: string;
+	/** Only report the named `[[apis]]` entry (default: all of them) */
+	api?: string;
 }
 
 /**
@@ -50,12 +54,12 @@ export interface MethodCounts {
 export type FileStatus = Record<string, { exists: boolean; modifiedAgo?: string }>;
 
 /**
- * Result of the status action.
+ * Spec, cache, and generated-file state of a single API.
  */
-export interface StatusResult {
-	configPath: string;
-	wasCreated: boolean;
-	/** Remote URL or local spec file path — whichever is configured. */
+export interface ApiStatus {
+	/** `[[apis]]` entry name; undefined for a single-API config. */
+	name?: string;
+	/** Remote URL, local spec file path, or `$ <spec_command>` — whichever is configured. */
 	endpoint: string;
 	/** True when `endpoint` is a local spec_file path rather than a remote URL. */
 	isLocalSpec: boolean;
@@ -63,10 +67,28 @@ export interface StatusResult {
 	cacheMetadata: CacheMetadata | null;
 	specExists: boolean;
 	methodCounts: MethodCounts | null;
+	/** Operations `[filter]` keeps and drops from the cached spec; null without a filter */
+	filterCounts: FilterSummary | null;
 	fileStatus: FileStatus;
+}
+
+/**
+ * Result of the status action. The top-level API fields describe the first
+ * selected API so single-API consumers keep working; `apis` lists every
+ * selected `[[apis]]` entry.
+ */
+export interface StatusResult extends ApiStatus {
+	configPath: string;
+	wasCreated: boolean;
+	/** Active `[profiles.<name>]` table, if any. */
+	profile?: string;
+	/** Every profile declared in api.config.toml. */
+	profiles: string[];
 	projectRoot: string;
 	/** Whether the running CLI is the project-local install or a global one. */
 	executionSource: ExecutionSource;
+	/** Per-API status when the config declares `[[apis]]`. */
+	apis?: ApiStatus[];
 }
 
 /**
@@ -127,6 +149,21 @@ export async function countEndpoints(specPath: string): Promise<MethodCounts> {
 	return counts;
 }
 
+/**
+ * Counts how many operations of the cached spec `[filter]` keeps and drops.
+ */
+export async function countFilteredOperations(
+	specPath: string,
+	filter: FilterConfig,
+): Promise<FilterSummary | null> {
+	try {
+		const { spec } = await loadLocalSpec(specPath);
+		return filterSpec(spec, filter).summary;
+	} catch {
+		return null;
+	}
+}
+
 /**
  * Checks which generated files exist and their modification times.
  */
@@ -159,6 +196,50 @@ export async function checkGeneratedFiles(
 	return status;
 }
 
+/**
+ * Gathers spec, cache, and generated-file state for one API.
+ */
+async function gatherApiStatus(
+	config: ApiConfig,
+	projectRoot: string,
+): Promise<ApiStatus> {
+	// Get output paths
+	const outputPaths = getOutputPaths(config, projectRoot);
+
+	// Gather all status info
+	const cacheMetadata = await loadCacheMetadata(outputPaths.cache);
+	const specExists = await hasLocalSpec(outputPaths.spec);
+	const methodCounts = specExists
+		? await countEndpoints(outputPaths.spec)
+		: null;
+	const filterCounts =
+		specExists && isFilterActive(config.filter)
+			? await countFilteredOperations(outputPaths.spec, config.filter)
+			: null;
+	const fileStatus = await checkGeneratedFiles(outputPaths);
+
+	// Resolve displayed source in resolveSpecSource order: spec_file, then
+	// spec_command, else api_endpoint.
+	const isLocalSpec = Boolean(config.spec_file);
+	const endpoint = isLocalSpec
+		? (config.spec_file as string)
+		: config.spec_command
+			? `$ ${config.spec_command}`
+			: (config.api_endpoint ?? "");
+
+	return {
+		...(config.name ? { name: config.name } : {}),
+		endpoint,
+		isLocalSpec,
+		outputFolder: config.output.folder,
+		cacheMetadata,
+		specExists,
+		methodCounts,
+		filterCounts,
+		fileStatus,
+	};
+}
+
 /**
  * Executes the status action: gathers config, cache, spec, and file status.
  * Returns structured data without any UI rendering.
@@ -173,16 +254,11 @@ export async function executeStatus(
 			options.configPath
 		);
 
-		// Get output paths
-		const outputPaths = getOutputPaths(config, projectRoot);
-
-		// Gather all status info
-		const cacheMetadata = await loadCacheMetadata(outputPaths.cache);
-		const specExists = await hasLocalSpec(outputPaths.spec);
-		const methodCounts = specExists
-			? await countEndpoints(outputPaths.spec)
-			: null;
-		const fileStatus = await checkGeneratedFiles(outputPaths);
+		const apis = await Promise.all(
+			selectApis(config, options.api).map((api) =>
+				gatherApiStatus(api, projectRoot),
+			),
+		);
 
 		// Which install is actually running — project-local or global.
 		const runtimeSource = executionSource({
@@ -190,24 +266,15 @@ export async function executeStatus(
 			localRoot: resolveLocalInstall(process.cwd())?.root ?? null,
 		});
 
-		// Resolve displayed source: prefer local spec_file when set, else api_endpoint.
-		const isLocalSpec = Boolean(config.spec_file);
-		const endpoint = isLocalSpec
-			? (config.spec_file as string)
-			: (config.api_endpoint ?? "");
-
 		return {
+			...apis[0],
 			configPath: path.relative(projectRoot, configPath),
 			wasCreated,
-			endpoint,
-			isLocalSpec,
-			outputFolder: config.output.folder,
-			cacheMetadata,
-			specExists,
-			methodCounts,
-			fileStatus,
+			...(config.profile ? { profile: config.profile } : {}),
+			profiles: Object.keys(config.profiles ?? {}),
 			projectRoot,
 			executionSource: runtimeSource,
+			...(config.apis ? { apis } : {}),
 		};
 	} catch (error) {
 		logger.error(formatError(error));
@@ -2,6 +2,8 @@
  * Shared types for action functions.
  */
 
+import type { FilterSummary } from "../filter.js";
+
 /** Result of client file generation (which files were created) */
 export interface ClientFilesResult {
   helpers: boolean;
@@ -14,4 +16,6 @@ export interface ClientFilesResult {
 export interface DryRunResult {
   operationCount: number;
   files: Array<{ path: string; action: string; lines: number }>;
+  /** Operations kept and dropped by `[filter]`, when one is configured */
+  filter?: FilterSummary;
 }
@@ -8,9 +8,11 @@ import {
 	ensureOutputFolder,
 	getOutputPaths,
 	loadConfig,
+	selectApis,
 } from "../config.js";
 import { formatError, SpecNotFoundError } from "../errors.js";
-import { hasLocalSpec, loadLocalSpec } from "../fetcher.js";
+import { hasLocalSpec, loadCacheMetadata, loadLocalSpec } from "../fetcher.js";
+import type { AppliedOverlay } from "../overlay.js";
 import {
 	resolveRef,
 	resolveObject,
@@ -25,6 +27,8 @@ import {
 
 export interface ValidateActionOptions {
 	configPath?: string;
+	/** Only validate the named `[[apis]]` entry (default: all of them) */
+	api?: string;
 	specFile?: string;
 	strict?: boolean;
 }
@@ -36,13 +40,16 @@ export type ValidationCategory =
 	| "parameters"
 	| "responses"
 	| "type-quality"
-	| "schemas";
+	| "schemas"
+	| "overlays";
 
 export interface ValidationIssue {
 	severity: "error" | "warning" | "info";
 	category: ValidationCategory;
 	path: string;
 	message: string;
+	/** `[[apis]]` entry the issue belongs to (multi-API configs only) */
+	api?: string;
 }
 
 export interface CategorySummary {
@@ -60,8 +67,21 @@ export interface ValidateResult {
 	warnings: ValidationIssue[];
 	valid: boolean;
 	categories: CategorySummary[];
+	/**
+	 * Per-API results when the config declares `[[apis]]`. The top-level
+	 * fields aggregate these; every issue carries its `api`.
+	 */
+	apis?: ApiValidateResult[];
 }
 
+/**
+ * Validation result of a single `[[apis]]` entry.
+ */
+export type ApiValidateResult = Omit<ValidateResult, "apis"> & {
+	/** Name of the `[[apis]]` entry */
+	name: string;
+};
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -497,7 +517,9 @@ function validateTypeQuality(spec: Record<string, unknown>): CategoryResult {
 					resolved.type === "object" &&
 					(!resolved.properties || Object.keys(resolved.properties).length === 0) &&
 					!resolved.oneOf &&
-					!resolved.anyOf
+					!resolved.anyOf &&
+					!resolved.additionalProperties &&
+					!resolved.conditional
 				) {
 					issues.push({
 						severity: "info",
@@ -505,7 +527,7 @@ function validateTypeQuality(spec: Record<string, unknown>): CategoryResult {
 						path: `${opPath}/responses/${code}`,
 						message: "Response object has 0 properties — may be a stub or placeholder",
 					});
-				} else if (resolved.type === "array" && !resolved.items) {
+				} else if (resolved.type === "array" && !resolved.items && !resolved.prefixItems) {
 					issues.push({
 						severity: "warning",
 						category: "type-quality",
@@ -552,7 +574,9 @@ function validateTypeQuality(spec: Record<string, unknown>): CategoryResult {
 							resolved.type === "object" &&
 							(!resolved.properties || Object.keys(resolved.properties).length === 0) &&
 							!resolved.oneOf &&
-							!resolved.anyOf
+							!resolved.anyOf &&
+							!resolved.additionalProperties &&
+							!resolved.conditional
 						) {
 							issues.push({
 								severity: "info",
@@ -685,40 +709,139 @@ export function validateSpec(spec: unknown): {
 // Execute
 // ---------------------------------------------------------------------------
 
+/**
+ * Sums per-API category summaries into one summary per category.
+ */
+function mergeCategories(results: ApiValidateResult[]): CategorySummary[] {
+	const merged = new Map<ValidationCategory, CategorySummary>();
+	for (const result of results) {
+		for (const summary of result.categories) {
+			const existing = merged.get(summary.category);
+			if (!existing) {
+				merged.set(summary.category, { ...summary, issues: [...summary.issues] });
+				continue;
+			}
+			existing.totalChecks += summary.totalChecks;
+			existing.passed += summary.passed;
+			existing.failed += summary.failed;
+			existing.issues.push(...summary.issues);
+		}
+	}
+	return [...merged.values()];
+}
+
+/**
+ * Reports overlay actions recorded in the cache metadata whose target
+ * matched nothing when the spec was fetched — usually a sign the overlay
+ * has drifted from the upstream spec.
+ */
+function validateOverlayTargets(
+	overlays: AppliedOverlay[],
+): CategoryResult {
+	const issues: ValidationIssue[] = [];
+	let totalChecks = 0;
+
+	for (const overlay of overlays) {
+		totalChecks += overlay.actions;
+		for (const target of overlay.unmatched) {
+			issues.push({
+				severity: "warning",
+				category: "overlays",
+				path: overlay.path,
+				message: `Overlay target ${target} matched nothing in the spec`,
+			});
+		}
+	}
+
+	return { issues, totalChecks };
+}
+
+/**
+ * Validates one spec file and classifies its issues. When `cachePath` is
+ * given, overlays recorded in the cache metadata are checked as well.
+ */
+async function validateSpecFile(
+	specPath: string,
+	strict: boolean | undefined,
+	logger: Logger,
+	cachePath?: string,
+): Promise<Omit<ValidateResult, "apis">> {
+	logger.debug({ specPath }, "spec path");
+
+	const exists = await hasLocalSpec(specPath);
+	if (!exists) {
+		throw new SpecNotFoundError(specPath);
+	}
+
+	const { spec } = await loadLocalSpec(specPath);
+	const { issues, categories } = validateSpec(spec);
+
+	const overlays = cachePath
+		? (await loadCacheMetadata(cachePath))?.overlays
+		: undefined;
+	if (overlays && overlays.length > 0) {
+		const overlayResult = validateOverlayTargets(overlays);
+		categories.push(buildSummary("overlays", "Overlays", overlayResult));
+		issues.push(...overlayResult.issues);
+	}
+
+	const errors = issues.filter((i) => i.severity === "error");
+	const warnings = issues.filter((i) => i.severity === "warning");
+
+	const valid = strict
+		? errors.length + warnings.length === 0
+		: errors.length === 0;
+
+	return { issues, errors, warnings, valid, categories };
+}
+
 export async function executeValidate(
 	options: ValidateActionOptions,
 	logger: Logger,
 ): Promise<ValidateResult> {
 	try {
-		let specPath: string;
-
 		if (options.specFile) {
-			specPath = options.specFile;
-		} else {
-			const { config, projectRoot } = await loadConfig(options.configPath);
-			const outputPaths = getOutputPaths(config, projectRoot);
-			await ensureOutputFolder(outputPaths.folder);
-			specPath = outputPaths.spec;
+			return await validateSpecFile(options.specFile, options.strict, logger);
 		}
 
-		logger.debug({ specPath }, "spec path");
+		const { config, projectRoot } = await loadConfig(options.configPath);
+		const apis = selectApis(config, options.api);
 
-		const exists = await hasLocalSpec(specPath);
-		if (!exists) {
-			throw new SpecNotFoundError(specPath);
+		if (!config.apis) {
+			const outputPaths = getOutputPaths(config, projectRoot);
+			await ensureOutputFolder(outputPaths.folder);
+			return await validateSpecFile(
+				outputPaths.spec,
+				options.strict,
+				logger,
+				outputPaths.cache,
+			);
 		}
 
-		const { spec } = await loadLocalSpec(specPath);
-		const { issues, categories } = validateSpec(spec);
-
-		const errors = issues.filter((i) => i.severity === "error");
-		const warnings = issues.filter((i) => i.severity === "warning");
-
-		const valid = options.strict
-			? errors.length + warnings.length === 0
-			: errors.length === 0;
+		const results: ApiValidateResult[] = [];
+		for (const api of apis) {
+			const name = api.name ?? "";
+			const outputPaths = getOutputPaths(api, projectRoot);
+			await ensureOutputFolder(outputPaths.folder);
+			const result = await validateSpecFile(
+				outputPaths.spec,
+				options.strict,
+				logger,
+				outputPaths.cache,
+			);
+			// Tag every issue with its API so merged output stays attributable.
+			for (const issue of result.issues) issue.api = name;
+			results.push({ name, ...result });
+		}
 
-		return { issues, errors, warnings, valid, categories };
+		return {
+			issues: results.flatMap((r) => r.issues),
+			errors: results.flatMap((r) => r.errors),
+			warnings: results.flatMap((r) => r.warnings),
+			valid: results.every((r) => r.valid),
+			categories: mergeCategories(results),
+			apis: results,
+		};
 	} catch (error) {
 		if (error instanceof SpecNotFoundError) {
 			throw error;
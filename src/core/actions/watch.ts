@@ -10,21 +10,36 @@ import type { Logger } from "../../adapters/logger-interface.js";
 import { formatDuration } from "../../adapters/logger-interface.js";
 import {
 	ensureOutputFolders,
+	type FetchConfig,
+	type FilterConfig,
 	getOutputPaths,
 	loadConfig,
+	type OperationsConfig,
 	resolveSpecSource,
+	selectApis,
+	type ScalarsConfig,
 	type SpecSource,
+	type Transport,
+	type ValidationConfig,
 } from "../config.js";
+import { FetchAbortedError } from "../errors.js";
 import {
 	computeHash,
 	fetchOpenApiSpec,
 	loadCacheMetadata,
 	loadLocalSpec,
+	runSpecCommand,
 	saveSpec,
 } from "../fetcher.js";
 import { generate, generateClientFiles } from "../generator.js";
 import type { GenerationHooks } from "../generator.js";
 import { loadHooks } from "../hooks-loader.js";
+import {
+	type AppliedOverlay,
+	loadOverlays,
+	overlayFingerprint,
+} from "../overlay.js";
+import { resolveAuthHeaders } from "./fetch.js";
 
 /**
  * Options for the watch action.
@@ -32,6 +47,8 @@ import { loadHooks } from "../hooks-loader.js";
 export interface WatchActionOptions {
 	/** Path to api.config.toml */
 	configPath?: string;
+	/** Only watch the named `[[apis]]` entry (default: all of them) */
+	api?: string;
 	/** Polling interval in milliseconds (overrides config) */
 	intervalMs?: number;
 	/** Enable debug logging (overrides config) */
@@ -55,6 +72,40 @@ export interface WatchCallbacks {
 	onShutdown?(): void;
 }
 
+/**
+ * One API polled by the watch loop.
+ */
+interface WatchTarget {
+	/** `[[apis]]` entry name; undefined for a single-API config */
+	name?: string;
+	specSource: SpecSource;
+	outputPaths: ReturnType<typeof getOutputPaths>;
+	/** `[fetch]` settings: headers, timeout and size cap */
+	fetch?: FetchConfig;
+	/** Overlay file paths, re-read every cycle so edits are picked up */
+	overlays?: string[];
+	/** Directory overlay paths are resolved against */
+	projectRoot: string;
+	/** `[filter]` settings applied on every regeneration */
+	filter?: FilterConfig;
+	/** `[operations]` settings: the shape of `api.op` */
+	operations?: OperationsConfig;
+	/** Opt-in emitters from `[output]` */
+	zod?: boolean;
+	tanstackQuery?: boolean;
+	msw?: boolean;
+	enumObjects?: boolean;
+	splitByTag?: boolean;
+	/** `[scalars]` format mappings */
+	scalars?: ScalarsConfig;
+	/** `[validation]` settings baked into the operations file */
+	validation?: ValidationConfig;
+	/** `instance.env_accessor`, for warn-mode validation */
+	envAccessor: string;
+	/** `instance.transport`: request config type of the operations */
+	transport?: Transport;
+}
+
 /**
  * Delays execution for the specified milliseconds.
  * Respects AbortSignal for early termination.
@@ -116,36 +167,65 @@ export async function executeWatch(
 		);
 	}
 
-	// Get output paths
-	const outputPaths = getOutputPaths(config, projectRoot);
-	logger.debug({ outputPaths }, "Resolved output paths");
+	// Resolve every watched API up front: output folders, client files
+	// (once at startup) and spec source.
+	const targets: WatchTarget[] = [];
+	for (const api of selectApis(config, options.api)) {
+		const outputPaths = getOutputPaths(api, projectRoot);
+		logger.debug({ api: api.name, outputPaths }, "Resolved output paths");
 
-	// Ensure output folders exist (_internal, _generated)
-	await ensureOutputFolders(outputPaths);
+		// Ensure output folders exist (_internal, _generated)
+		await ensureOutputFolders(outputPaths);
 
-	// Generate client files if they don't exist (once at startup)
-	await generateClientFiles({
-		paths: outputPaths,
-		instanceConfig: config.instance,
-		logger,
-	});
+		// Generate client files if they don't exist (once at startup)
+		await generateClientFiles({
+			paths: outputPaths,
+			instanceConfig: api.instance,
+			logger,
+		});
+
+		targets.push({
+			name: api.name,
+			specSource: resolveSpecSource(api, projectRoot),
+			outputPaths,
+			fetch: api.fetch,
+			overlays: api.overlays,
+			projectRoot,
+			filter: api.filter,
+			operations: api.operations,
+			zod: api.output.zod,
+			tanstackQuery: api.output.tanstack_query,
+			msw: api.output.msw,
+			enumObjects: api.output.enum_objects,
+			splitByTag: api.output.split_by_tag,
+			scalars: api.scalars,
+			validation: api.validation,
+			envAccessor: api.instance.env_accessor,
+			transport: api.instance.transport,
+		});
+	}
 
 	// Load optional generator hooks once at startup; reused on every cycle.
 	const hooks = await loadHooks(projectRoot, logger);
 
-	// Determine polling interval and spec source (local file or remote endpoint)
+	// Determine polling interval (shared by all watched APIs)
 	const intervalMs = options.intervalMs ?? config.poll_interval_ms;
-	const specSource = resolveSpecSource(config, projectRoot);
-	const sourceLabel =
-		specSource.type === "local" ? specSource.path : specSource.endpoint;
 
 	// Announce the watch loop at info level so the user knows what's being
 	// polled and at what cadence. In debug mode the full context also fires.
-	logger.step(
-		"watch",
-		`Polling every ${formatDuration(intervalMs)} — ${sourceLabel}`,
-	);
-	logger.debug({ specSource, intervalMs }, "config");
+	for (const target of targets) {
+		const sourceLabel =
+			target.specSource.type === "local"
+				? target.specSource.path
+				: target.specSource.type === "command"
+					? `$ ${target.specSource.command}`
+					: target.specSource.endpoint;
+		logger.step(
+			"watch",
+			`Polling every ${formatDuration(intervalMs)} — ${target.name ? `[${target.name}] ` : ""}${sourceLabel}`,
+		);
+	}
+	logger.debug({ targets, intervalMs }, "config");
 
 	let cycleCounter = 0;
 	let consecutiveFailures = 0;
@@ -165,12 +245,11 @@ export async function executeWatch(
 
 		const failed = await runCycle({
 			cycleId,
-			specSource,
-			outputPaths,
+			targets,
 			logger,
-			headers: config.fetch?.headers,
 			hooks,
 			callbacks,
+			signal,
 		});
 
 		if (failed) {
@@ -214,31 +293,22 @@ export async function executeWatch(
 }
 
 /**
- * Runs a single watch cycle - load (fetch or read) the spec, check for changes,
- * regenerate if needed.
+ * Runs a single watch cycle - check every target API and report the cycle
+ * once to the callbacks.
  *
- * Returns `true` when the cycle failed (so the outer loop can apply
+ * Returns `true` when any target failed (so the outer loop can apply
  * exponential backoff and exit after too many consecutive failures —
  * issue #34). Returns `false` on success.
  */
 async function runCycle(options: {
 	cycleId: number;
-	specSource: SpecSource;
-	outputPaths: ReturnType<typeof getOutputPaths>;
+	targets: WatchTarget[];
 	logger: Logger;
-	headers?: Record<string, string>;
 	hooks: GenerationHooks;
 	callbacks?: WatchCallbacks;
+	signal?: AbortSignal;
 }): Promise<boolean> {
-	const {
-		cycleId,
-		specSource,
-		outputPaths,
-		logger,
-		headers,
-		hooks,
-		callbacks,
-	} = options;
+	const { cycleId, targets, logger, hooks, callbacks, signal } = options;
 	const startTime = Date.now();
 
 	// Notify cycle start
@@ -249,107 +319,209 @@ async function runCycle(options: {
 		logger.step("cycle", `Cycle ${cycleId}`);
 	}
 
-	try {
-		let newBuffer: Buffer;
-		let newHash: string;
-		let sourceIdentifier: string;
-		let hasChanged: boolean;
-
-		if (specSource.type === "local") {
-			// Local file mode — hash file contents and compare against cache
-			sourceIdentifier = specSource.path;
-			logger.debug({ cycleId, path: specSource.path }, "Checking local spec...");
-			const { buffer } = await loadLocalSpec(specSource.path);
-			newBuffer = buffer;
-			newHash = computeHash(buffer);
-
-			// Compare against previously-saved spec hash
-			const existingCache = await loadCacheMetadata(outputPaths.cache);
-			hasChanged = existingCache?.hash !== newHash;
-		} else {
-			// Remote mode — fetch with retry
-			sourceIdentifier = specSource.endpoint;
-			logger.debug(
-				{ cycleId, endpoint: specSource.endpoint },
-				"Checking for API changes...",
-			);
-			const fetchResult = await fetchOpenApiSpec({
-				endpoint: specSource.endpoint,
-				specPath: outputPaths.spec,
-				cachePath: outputPaths.cache,
-				logger,
-				force: false,
-				headers,
-			});
-
-			if (fetchResult.fromCache) {
-				logger.warn({ cycleId }, "Using cached spec due to network issues");
+	let changed = false;
+	let cycleError: Error | undefined;
+
+	// A failing API doesn't stop the others from being checked this cycle.
+	for (const target of targets) {
+		try {
+			changed =
+				(await checkTarget(cycleId, target, logger, hooks, signal)) || changed;
+		} catch (error) {
+			// Shutting down mid-fetch is not a failed cycle.
+			if (error instanceof FetchAbortedError || signal?.aborted) {
+				return false;
 			}
 
-			newBuffer = fetchResult.buffer;
-			newHash = fetchResult.hash;
-			hasChanged = fetchResult.hasChanged;
-		}
-
-		// Heartbeat: one line per cycle so watch mode isn't silent when
-		// nothing changes. Compact format so it's tolerable at any interval.
-		if (!hasChanged) {
-			const durationMs = Date.now() - startTime;
-			logger.info(
-				{ cycle: cycleId, duration: formatDuration(durationMs) },
-				"no changes",
+			const targetError =
+				error instanceof Error ? error : new Error(String(error));
+			cycleError ??= targetError;
+
+			// Log error so the outer loop can apply exponential backoff.
+			// Issue #34.
+			logger.error(
+				{
+					cycleId,
+					...(target.name ? { api: target.name } : {}),
+					error: targetError.message,
+				},
+				"Cycle failed, backing off before retry",
 			);
-			callbacks?.onCycleComplete?.(cycleId, false, durationMs);
-			return false;
 		}
+	}
 
-		// Save the new spec
-		await saveSpec({
-			buffer: newBuffer,
-			hash: newHash,
-			endpoint: sourceIdentifier,
-			specPath: outputPaths.spec,
-			cachePath: outputPaths.cache,
-		});
+	const durationMs = Date.now() - startTime;
+
+	if (cycleError) {
+		callbacks?.onCycleError?.(cycleId, cycleError);
+		return true;
+	}
 
+	// Heartbeat: one line per cycle so watch mode isn't silent when
+	// nothing changes. Compact format so it's tolerable at any interval.
+	if (!changed) {
 		logger.info(
-			{ cycleId, bytes: newBuffer.length },
-			"New spec detected, regenerating...",
+			{ cycle: cycleId, duration: formatDuration(durationMs) },
+			"no changes",
 		);
+	}
 
-		// Run generation
-		const result = await generate({
-			paths: outputPaths,
+	callbacks?.onCycleComplete?.(cycleId, changed, durationMs);
+	return false;
+}
+
+/**
+ * Checks one API - load (fetch or read) the spec, check for changes,
+ * regenerate if needed. Returns whether the spec changed; throws on failure.
+ */
+async function checkTarget(
+	cycleId: number,
+	target: WatchTarget,
+	logger: Logger,
+	hooks: GenerationHooks,
+	signal?: AbortSignal,
+): Promise<boolean> {
+	const { specSource, outputPaths, fetch: fetchConfig } = target;
+	const api = target.name ? { api: target.name } : {};
+	const overlays = await loadOverlays(target.overlays, target.projectRoot);
+
+	let newBuffer: Buffer;
+	let newHash: string;
+	let sourceIdentifier: string;
+	let hasChanged: boolean;
+	let validators: { etag?: string; lastModified?: string } = {};
+	let appliedOverlays: AppliedOverlay[] | undefined;
+
+	if (specSource.type === "local") {
+		// Local file mode — hash file contents and compare against cache
+		sourceIdentifier = specSource.path;
+		logger.debug(
+			{ cycleId, ...api, path: specSource.path },
+			"Checking local spec...",
+		);
+		const local = await loadLocalSpec(specSource.path, { logger, overlays });
+		newBuffer = local.buffer;
+		newHash = computeHash(local.buffer);
+		appliedOverlays = local.overlays;
+
+		// Compare against previously-saved spec hash and overlays
+		const existingCache = await loadCacheMetadata(outputPaths.cache);
+		hasChanged =
+			existingCache?.hash !== newHash ||
+			overlayFingerprint(existingCache.overlays) !== overlayFingerprint(appliedOverlays);
+	} else if (specSource.type === "command") {
+		// Command mode — re-run the command and compare its output hash
+		sourceIdentifier = specSource.command;
+		logger.debug(
+			{ cycleId, ...api, command: specSource.command },
+			"Running spec command...",
+		);
+		const commandResult = await runSpecCommand({
+			command: specSource.command,
+			cwd: specSource.cwd,
+			cachePath: outputPaths.cache,
 			logger,
-			hooks,
+			timeoutMs: fetchConfig?.timeout_ms,
+			maxBytes: fetchConfig?.max_bytes,
+			signal,
+			overlays,
 		});
 
-		const durationMs = Date.now() - startTime;
-		logger.info(
-			{
-				cycleId,
-				operations: result.operationCount,
-				duration: formatDuration(result.durationMs),
-			},
-			"Generation completed",
+		newBuffer = commandResult.buffer;
+		newHash = commandResult.hash;
+		hasChanged = commandResult.hasChanged;
+		appliedOverlays = commandResult.overlays;
+	} else {
+		// Remote mode — fetch with retry
+		sourceIdentifier = specSource.endpoint;
+		logger.debug(
+			{ cycleId, ...api, endpoint: specSource.endpoint },
+			"Checking for API changes...",
 		);
+		// Resolved every cycle so expired OAuth2 tokens get refreshed.
+		const authHeaders = fetchConfig?.auth
+			? await resolveAuthHeaders(fetchConfig.auth, {
+					logger,
+					tokenCachePath: outputPaths.oauthToken,
+					timeoutMs: fetchConfig.timeout_ms,
+					signal,
+				})
+			: undefined;
+		const fetchResult = await fetchOpenApiSpec({
+			endpoint: specSource.endpoint,
+			specPath: outputPaths.spec,
+			cachePath: outputPaths.cache,
+			logger,
+			force: false,
+			headers: fetchConfig?.headers,
+			authHeaders,
+			timeoutMs: fetchConfig?.timeout_ms,
+			maxBytes: fetchConfig?.max_bytes,
+			signal,
+			overlays,
+		});
 
-		callbacks?.onCycleComplete?.(cycleId, true, durationMs);
-		return false;
-	} catch (error) {
-		const cycleError = error instanceof Error ? error : new Error(String(error));
-
-		// Log error and return failed=true so the outer loop can apply
-		// exponential backoff. Issue #34.
-		logger.error(
-			{
-				cycleId,
-				error: cycleError.message,
-			},
-			"Cycle failed, backing off before retry",
-		);
+		if (fetchResult.fromCache) {
+			logger.warn({ cycleId, ...api }, "Using cached spec due to network issues");
+		}
 
-		callbacks?.onCycleError?.(cycleId, cycleError);
-		return true;
+		newBuffer = fetchResult.buffer;
+		newHash = fetchResult.hash;
+		hasChanged = fetchResult.hasChanged;
+		appliedOverlays = fetchResult.overlays;
+		validators = {
+			etag: fetchResult.etag,
+			lastModified: fetchResult.lastModified,
+		};
+	}
+
+	if (!hasChanged) {
+		return false;
 	}
+
+	// Save the new spec
+	await saveSpec({
+		buffer: newBuffer,
+		hash: newHash,
+		endpoint: sourceIdentifier,
+		specPath: outputPaths.spec,
+		cachePath: outputPaths.cache,
+		...validators,
+		overlays: appliedOverlays,
+	});
+
+	logger.info(
+		{ cycleId, ...api, bytes: newBuffer.length },
+		"New spec detected, regenerating...",
+	);
+
+	// Run generation
+	const result = await generate({
+		paths: outputPaths,
+		logger,
+		hooks,
+		filter: target.filter,
+		operationsConfig: target.operations,
+		zod: target.zod,
+		tanstackQuery: target.tanstackQuery,
+		msw: target.msw,
+		enumObjects: target.enumObjects,
+		splitByTag: target.splitByTag,
+		scalars: target.scalars,
+		validation: target.validation,
+		envAccessor: target.envAccessor,
+		transport: target.transport,
+	});
+
+	logger.info(
+		{
+			cycleId,
+			...api,
+			operations: result.operationCount,
+			duration: formatDuration(result.durationMs),
+		},
+		"Generation completed",
+	);
+
+	return true;
 }
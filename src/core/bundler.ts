@@ -0,0 +1,352 @@
+/**
+ * Bundles multi-file OpenAPI specs into a single document.
+ *
+ * External `$ref`s (`./schemas/user.yaml#/User`, `https://…/common.json`)
+ * are loaded and hoisted into `components` under a name derived from the
+ * ref, so the cached spec only ever contains in-document `#/` pointers —
+ * which is all openapi-typescript and `ref-utils` understand.
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { SpecRefError } from "./errors.js";
+import { resolveRef } from "./ref-utils.js";
+
+/**
+ * Loads and parses the document at `url` (a `file:` or `http(s):` URL
+ * without a fragment).
+ */
+export type RefLoader = (url: URL) => Promise<unknown>;
+
+/**
+ * Component sections an external ref can be hoisted into.
+ */
+type ComponentKind =
+	| "schemas"
+	| "parameters"
+	| "responses"
+	| "requestBodies"
+	| "headers"
+	| "examples"
+	| "links"
+	| "callbacks";
+
+/**
+ * Returns true when any `$ref` in the spec points outside the document.
+ */
+export function hasExternalRefs(node: unknown): boolean {
+	if (Array.isArray(node)) return node.some(hasExternalRefs);
+	if (node === null || typeof node !== "object") return false;
+
+	const ref = (node as Record<string, unknown>).$ref;
+	if (typeof ref === "string" && !ref.startsWith("#")) return true;
+
+	return Object.values(node).some(hasExternalRefs);
+}
+
+/**
+ * Where a `$ref` at `location` lives in the OpenAPI object model: a
+ * component section to hoist the target into, or `null` when the target
+ * must be inlined (path items, and component slots that are themselves a
+ * ref to another file).
+ */
+function componentKind(location: string[]): ComponentKind | null {
+	const last = location[location.length - 1];
+	const parent = location[location.length - 2];
+
+	if (location[0] === "components" && location.length === 3) return null;
+	if (
+		(location[0] === "paths" || location[0] === "webhooks") &&
+		location.length === 2
+	) {
+		return null;
+	}
+	if (location[location.length - 3] === "callbacks") return null;
+
+	// Everything below a `schema` keyword (or inside components.schemas)
+	// is JSON Schema, whatever its property names happen to be.
+	if (
+		location.includes("schema") ||
+		(location[0] === "components" && location[1] === "schemas")
+	) {
+		return "schemas";
+	}
+
+	if (parent === "parameters") return "parameters";
+	if (parent === "responses") return "responses";
+	if (last === "requestBody") return "requestBodies";
+	if (parent === "headers") return "headers";
+	if (parent === "examples") return "examples";
+	if (parent === "links") return "links";
+	if (parent === "callbacks") return "callbacks";
+	return "schemas";
+}
+
+/**
+ * Readable name of a document for error messages.
+ */
+function displayName(url: URL): string {
+	return url.protocol === "file:" ? fileURLToPath(url) : url.href;
+}
+
+/**
+ * Component name for a hoisted target: the last pointer segment, or the
+ * file name when the ref points at a whole document.
+ */
+function baseComponentName(url: URL, pointer: string): string {
+	const segments = pointer.split("/").filter(Boolean);
+	const raw =
+		segments.length > 0
+			? (segments[segments.length - 1] as string)
+					.replace(/~1/g, "/")
+					.replace(/~0/g, "~")
+			: path.posix.basename(url.pathname).replace(/\.(ya?ml|json)$/i, "");
+	return raw.replace(/[^A-Za-z0-9._-]/g, "_") || "Component";
+}
+
+/**
+ * Bundles every external `$ref` reachable from `spec` (loaded from `source`,
+ * a `file:` or `http(s):` URL) into the root document.
+ *
+ * - Refs in schema, parameter, response, … positions are hoisted into the
+ *   matching `components` section and rewritten to `#/components/…`. The
+ *   same target is hoisted once, however many files reference it.
+ * - Path items and component entries that are themselves a ref are inlined.
+ * - Recursive schemas across files become recursive component refs; an
+ *   inlining cycle (e.g. two path items referencing each other) throws.
+ *
+ * Throws `SpecRefError` naming the referencing file when a target can't be
+ * loaded or its JSON pointer doesn't resolve.
+ */
+export async function bundleSpec(
+	spec: unknown,
+	source: URL,
+	load: RefLoader,
+): Promise<unknown> {
+	if (spec === null || typeof spec !== "object" || Array.isArray(spec)) {
+		return spec;
+	}
+
+	const rootHref = stripHash(source);
+	const root = spec as Record<string, unknown>;
+	const documents = new Map<string, Promise<unknown>>([
+		[rootHref, Promise.resolve(root)],
+	]);
+	/** `href#pointer` of every hoisted target → its local `#/components/…` ref */
+	const hoisted = new Map<string, string>();
+	const added: Partial<Record<ComponentKind, Record<string, unknown>>> = {};
+	const inlining: string[] = [];
+
+	const existingComponents = (root.components ?? {}) as Record<
+		string,
+		Record<string, unknown> | undefined
+	>;
+
+	// Swagger 2.0 keeps these at the root; they're merged into components
+	// when the spec is converted, so hoisted names must not collide.
+	const legacySections: Partial<Record<ComponentKind, unknown>> = {
+		schemas: root.definitions,
+		parameters: root.parameters,
+		responses: root.responses,
+	};
+
+	const isNameTaken = (kind: ComponentKind, name: string): boolean =>
+		Object.hasOwn(existingComponents[kind] ?? {}, name) ||
+		Object.hasOwn(added[kind] ?? {}, name) ||
+		(typeof legacySections[kind] === "object" &&
+			legacySections[kind] !== null &&
+			Object.hasOwn(legacySections[kind] as object, name));
+
+	// Component slots in the root that point at another file keep their
+	// own name — `components.schemas.User: {$ref: ./user.yaml}` stays `User`.
+	for (const [kind, entries] of Object.entries(existingComponents)) {
+		if (!entries || typeof entries !== "object") continue;
+		for (const [name, entry] of Object.entries(entries)) {
+			const ref = (entry as Record<string, unknown> | null)?.$ref;
+			if (typeof ref !== "string" || ref.startsWith("#")) continue;
+			hoisted.set(
+				targetKey(ref, source),
+				`#/components/${kind}/${escapePointerSegment(name)}`,
+			);
+		}
+	}
+
+	async function loadDocument(url: URL, ref: string, from: URL): Promise<unknown> {
+		const href = stripHash(url);
+		let document = documents.get(href);
+		if (!document) {
+			document = load(new URL(href));
+			documents.set(href, document);
+		}
+		try {
+			return await document;
+		} catch (error) {
+			throw new SpecRefError(
+				ref,
+				displayName(from),
+				`could not load ${displayName(url)} (${error instanceof Error ? error.message : String(error)})`,
+			);
+		}
+	}
+
+	async function loadTarget(
+		ref: string,
+		from: URL,
+	): Promise<{ url: URL; pointer: string; value: unknown }> {
+		let url: URL;
+		let pointer: string;
+		try {
+			url = new URL(ref, from);
+			pointer = decodeURIComponent(url.hash.slice(1));
+		} catch {
+			throw new SpecRefError(ref, displayName(from), "not a valid URI reference");
+		}
+		if (!["file:", "http:", "https:"].includes(url.protocol)) {
+			throw new SpecRefError(
+				ref,
+				displayName(from),
+				`unsupported protocol ${url.protocol}`,
+			);
+		}
+		// A downloaded spec must not be able to pull local files into the cache.
+		if (url.protocol === "file:" && source.protocol !== "file:") {
+			throw new SpecRefError(
+				ref,
+				displayName(from),
+				"a remote spec cannot reference local files",
+			);
+		}
+
+		const document = await loadDocument(url, ref, from);
+		const value = pointer === "" ? document : resolveRef(`#${pointer}`, document);
+		if (value === undefined) {
+			throw new SpecRefError(
+				ref,
+				displayName(from),
+				`${displayName(url)} has nothing at #${pointer}`,
+			);
+		}
+		return { url, pointer, value };
+	}
+
+	async function visit(
+		node: unknown,
+		base: URL,
+		location: string[],
+	): Promise<unknown> {
+		if (Array.isArray(node)) {
+			const items: unknown[] = [];
+			for (const [index, item] of node.entries()) {
+				items.push(await visit(item, base, [...location, String(index)]));
+			}
+			return items;
+		}
+		if (node === null || typeof node !== "object") return node;
+
+		const object = node as Record<string, unknown>;
+		const ref = object.$ref;
+		const isRoot = stripHash(base) === rootHref;
+
+		if (typeof ref === "string" && !(isRoot && ref.startsWith("#"))) {
+			return visitRef(object, ref, base, location);
+		}
+
+		const result: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(object)) {
+			result[key] = await visit(value, base, [...location, key]);
+		}
+		return result;
+	}
+
+	async function visitRef(
+		object: Record<string, unknown>,
+		ref: string,
+		base: URL,
+		location: string[],
+	): Promise<unknown> {
+		const key = targetKey(ref, base);
+
+		// A ref from another file back into the root document.
+		if (key.startsWith(`${rootHref}#`)) {
+			return { ...object, $ref: key.slice(rootHref.length) || "#" };
+		}
+
+		const kind = componentKind(location);
+
+		if (kind === null) {
+			if (inlining.includes(key)) {
+				throw new SpecRefError(
+					ref,
+					displayName(base),
+					`circular reference (${[...inlining, key].join(" -> ")})`,
+				);
+			}
+			const target = await loadTarget(ref, base);
+			inlining.push(key);
+			try {
+				return await visit(target.value, target.url, location);
+			} finally {
+				inlining.pop();
+			}
+		}
+
+		const existing = hoisted.get(key);
+		if (existing) return { ...object, $ref: existing };
+
+		const target = await loadTarget(ref, base);
+		const baseName = baseComponentName(target.url, target.pointer);
+		let name = baseName;
+		for (let n = 2; isNameTaken(kind, name); n++) {
+			name = `${baseName}${n}`;
+		}
+
+		// Register before visiting so recursive schemas point back here.
+		const section = (added[kind] ??= {});
+		section[name] = null;
+		const localRef = `#/components/${kind}/${escapePointerSegment(name)}`;
+		hoisted.set(key, localRef);
+		section[name] = await visit(target.value, target.url, [
+			"components",
+			kind,
+			name,
+		]);
+
+		return { ...object, $ref: localRef };
+	}
+
+	const bundled = (await visit(root, source, [])) as Record<string, unknown>;
+
+	if (Object.keys(added).length === 0) return bundled;
+
+	const components = { ...((bundled.components ?? {}) as Record<string, unknown>) };
+	for (const [kind, entries] of Object.entries(added)) {
+		components[kind] = {
+			...((components[kind] ?? {}) as Record<string, unknown>),
+			...entries,
+		};
+	}
+	return { ...bundled, components };
+}
+
+/**
+ * `href#pointer` identity of a ref target, resolved against `base`.
+ */
+function targetKey(ref: string, base: URL): string {
+	try {
+		const url = new URL(ref, base);
+		return `${stripHash(url)}#${decodeURIComponent(url.hash.slice(1))}`;
+	} catch {
+		return ref;
+	}
+}
+
+function stripHash(url: URL): string {
+	const copy = new URL(url.href);
+	copy.hash = "";
+	return copy.href;
+}
+
+function escapePointerSegment(segment: string): string {
+	return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
@@ -10,11 +10,9 @@ import toml from "toml";
 import { ConfigError, ConfigValidationError } from "./errors.js";
 
 /**
- * Auth configuration for fetching the OpenAPI spec.
- * Currently only supports Basic Auth.
+ * HTTP Basic Auth for the spec endpoint.
  */
-export interface FetchAuthConfig {
-  /** Auth type — only "basic" is supported */
+export interface BasicFetchAuthConfig {
   type: "basic";
   /** Username (supports $VAR env var interpolation) */
   username?: string;
@@ -22,6 +20,59 @@ export interface FetchAuthConfig {
   password?: string;
 }
 
+/**
+ * `Authorization: Bearer <token>` for the spec endpoint.
+ */
+export interface BearerFetchAuthConfig {
+  type: "bearer";
+  /** Static token (supports $VAR env var interpolation) */
+  token?: string;
+}
+
+/**
+ * An arbitrary header carrying a key, e.g. `X-API-Key`.
+ */
+export interface HeaderFetchAuthConfig {
+  type: "header";
+  /** Header name */
+  name: string;
+  /** Header value (supports $VAR env var interpolation) */
+  value?: string;
+}
+
+/**
+ * OAuth2 client-credentials grant. The access token is requested from
+ * `token_url` and cached in `_internal/` until it expires.
+ */
+export interface OAuth2ClientCredentialsFetchAuthConfig {
+  type: "oauth2-client-credentials";
+  /** Token endpoint URL */
+  token_url: string;
+  /** Client id (supports $VAR env var interpolation) */
+  client_id?: string;
+  /** Client secret (supports $VAR env var interpolation) */
+  client_secret?: string;
+  /** Scopes requested with the token */
+  scopes?: string[];
+}
+
+/**
+ * Auth configuration for fetching the OpenAPI spec.
+ */
+export type FetchAuthConfig =
+  | BasicFetchAuthConfig
+  | BearerFetchAuthConfig
+  | HeaderFetchAuthConfig
+  | OAuth2ClientCredentialsFetchAuthConfig;
+
+/** Accepted `[fetch.auth] type` values. */
+const FETCH_AUTH_TYPES = [
+  "basic",
+  "bearer",
+  "header",
+  "oauth2-client-credentials",
+] as const;
+
 /**
  * Fetch configuration for remote spec retrieval.
  */
@@ -30,8 +81,120 @@ export interface FetchConfig {
   headers?: Record<string, string>;
   /** Auth configuration for spec endpoint */
   auth?: FetchAuthConfig;
+  /** Per-attempt request timeout in ms (default: 30000) */
+  timeout_ms?: number;
+  /** Maximum spec response size in bytes (default: 52428800, i.e. 50 MiB) */
+  max_bytes?: number;
+}
+
+/**
+ * Operation filter applied before generation. Every `include_*` list that
+ * is set must match (any entry within a list); any `exclude_*` match drops
+ * the operation. Path and operationId patterns are globs: `*` stays within
+ * one path segment, `**` spans segments.
+ */
+export interface FilterConfig {
+  /** Keep operations tagged with any of these tags */
+  include_tags?: string[];
+  /** Drop operations tagged with any of these tags */
+  exclude_tags?: string[];
+  /** Keep operations whose path matches any of these globs */
+  include_paths?: string[];
+  /** Drop operations whose path matches any of these globs */
+  exclude_paths?: string[];
+  /** Keep operations whose operationId matches any of these globs */
+  include_operation_ids?: string[];
+  /** Drop operations whose operationId matches any of these globs */
+  exclude_operation_ids?: string[];
+  /**
+   * Drop operations (or whole path items) where any of these vendor
+   * extensions is truthy, e.g. `["x-internal"]`
+   */
+  exclude_extensions?: string[];
+}
+
+/** Keys accepted in `[filter]`, in template order. */
+const FILTER_KEYS = [
+  "include_tags",
+  "exclude_tags",
+  "include_paths",
+  "exclude_paths",
+  "include_operation_ids",
+  "exclude_operation_ids",
+  "exclude_extensions",
+] as const satisfies ReadonlyArray<keyof FilterConfig>;
+
+/**
+ * How the generated operations react to bodies that don't match the spec.
+ * `warn` checks only outside production builds and logs mismatches;
+ * `enforce` returns them as `RESPONSE_VALIDATION_ERROR` /
+ * `REQUEST_VALIDATION_ERROR` results.
+ */
+export type ValidationMode = "off" | "warn" | "enforce";
+
+/** Accepted `[validation]` modes, in template order. */
+const VALIDATION_MODES = ["off", "warn", "enforce"] as const satisfies ReadonlyArray<ValidationMode>;
+
+/**
+ * Runtime validation of request and response bodies against the zod
+ * schemas in `_generated/api.schemas.ts`.
+ */
+export interface ValidationConfig {
+  /** What to do with a mismatch (default: "off") */
+  mode: ValidationMode;
+  /** Also validate request bodies before they are sent */
+  request_bodies?: boolean;
+}
+
+/**
+ * `[scalars]`: the type a schema `format` takes in the generated code,
+ * e.g. `date-time = "Date"`. "Date" and "bigint" values are converted by
+ * the generated operations; any other (PascalCase) name becomes a branded
+ * type over the schema's own type.
+ */
+export type ScalarsConfig = Record<string, string>;
+
+/** Scalar targets the generated operations convert at runtime. */
+export const RUNTIME_SCALARS = ["Date", "bigint"] as const;
+
+/** Brand names: a PascalCase identifier. */
+const SCALAR_BRAND_PATTERN = /^[A-Z][A-Za-z0-9_]*$/;
+
+/**
+ * How `createOperations` lays out the operations: one flat object
+ * (`api.op.getUserById`), or one namespace per first tag
+ * (`api.op.users.getUserById`) next to flat aliases.
+ */
+export type OperationGrouping = "none" | "tag";
+
+/** Accepted `operations.group_by` values, in template order. */
+const OPERATION_GROUPINGS = ["none", "tag"] as const satisfies ReadonlyArray<OperationGrouping>;
+
+/**
+ * `[operations]`: the shape of the generated `api.op` object.
+ */
+export interface OperationsConfig {
+  /** How operations are grouped (default: "none") */
+  group_by?: OperationGrouping;
+  /** Namespace for operations without tags (default: "default") */
+  fallback_group?: string;
+  /**
+   * Name for operations without an operationId: "skip" (default, they
+   * aren't generated), "method_path" (`GET /users/{id}` → `getUsersById`)
+   * or a template such as "{method}_{path}".
+   */
+  naming?: string;
 }
 
+/** Placeholders an `operations.naming` template may use. */
+export const OPERATION_NAME_PLACEHOLDERS = ["method", "Method", "path", "Path"] as const;
+
+/** Keys accepted in `[operations]`. */
+const OPERATIONS_KEYS = ["group_by", "fallback_group", "naming"] as const satisfies ReadonlyArray<keyof OperationsConfig>;
+
+/** Namespace used for untagged operations unless `fallback_group` is set. */
+export const DEFAULT_FALLBACK_GROUP = "default";
+
 /**
  * Watch mode configuration for controlling debug output.
  */
@@ -48,6 +211,15 @@ export interface WatchConfig {
  */
 export type AuthMode = "bearer-localstorage" | "custom" | "none";
 
+/**
+ * HTTP layer under the generated client.
+ * - "axios": an axios instance (the default)
+ * - "fetch": native fetch, for runtimes that can't ship axios (edge, workers)
+ */
+export type Transport = "axios" | "fetch";
+
+const TRANSPORTS = ["axios", "fetch"] as const satisfies ReadonlyArray<Transport>;
+
 /**
  * Instance configuration for the generated axios client.
  */
@@ -64,31 +236,94 @@ export interface InstanceConfig {
   with_credentials: boolean;
   /** Request timeout in milliseconds */
   timeout: number;
+  /** HTTP layer under the generated client (default: "axios") */
+  transport?: Transport;
 }
 
 /**
  * Configuration structure for api.config.toml
  */
 export interface ApiConfig {
-  /** Remote OpenAPI spec endpoint URL. Optional when `spec_file` is set. */
+  /**
+   * Name of this API. Only set on entries of `apis` (the `[[apis]]` array);
+   * undefined for a single-API config.
+   */
+  name?: string;
+  /** Remote OpenAPI spec endpoint URL. Optional when `spec_file` or `spec_command` is set. */
   api_endpoint?: string;
   /** Local spec file path (takes priority over api_endpoint if set) */
   spec_file?: string;
+  /**
+   * Shell command that prints the spec (JSON or YAML) to stdout, e.g.
+   * `python manage.py spectacular`. Takes priority over api_endpoint.
+   */
+  spec_command?: string;
+  /** Working directory for `spec_command`, relative to the project root */
+  spec_command_cwd?: string;
+  /**
+   * OpenAPI Overlay 1.0 files (relative to the project root) applied in
+   * order to the fetched spec before it is cached. Per-entry with `[[apis]]`.
+   */
+  overlays?: string[];
   /** Polling interval in milliseconds for watch mode */
   poll_interval_ms: number;
   /** Output configuration */
   output: {
     /** Folder where all generated files are written */
     folder: string;
+    /** Also emit `_generated/api.schemas.ts` with zod schemas (requires zod) */
+    zod?: boolean;
+    /**
+     * Also emit `_generated/api.queries.ts` with TanStack Query options
+     * factories (requires @tanstack/react-query v5)
+     */
+    tanstack_query?: boolean;
+    /** Also emit `_generated/api.mocks.ts` with MSW handlers (requires msw v2) */
+    msw?: boolean;
+    /** Emit enums in `api.contracts.ts` as const objects instead of bare unions */
+    enum_objects?: boolean;
+    /**
+     * Also emit standalone, tree-shakable operation functions and their
+     * contracts in `_generated/<tag>/` files, behind `_generated/index.ts`
+     */
+    split_by_tag?: boolean;
   };
   /** Fetch configuration for remote spec retrieval */
   fetch?: FetchConfig;
+  /** Which operations to generate (default: all of them) */
+  filter?: FilterConfig;
+  /** Shape of the generated `api.op` object (default: flat) */
+  operations?: OperationsConfig;
+  /** Runtime body validation in the generated operations (default: off) */
+  validation?: ValidationConfig;
+  /** Custom types for schema formats, keyed by format */
+  scalars?: ScalarsConfig;
   /** Instance configuration for the generated axios client */
   instance: InstanceConfig;
   /** Watch mode configuration */
   watch: WatchConfig;
+  /**
+   * Fully-resolved API entries from `[[apis]]` blocks. Each entry inherits
+   * `[instance]`, `[fetch]`, `[filter]`, `[operations]`, `[validation]` and `[scalars]` from the root and may override their keys;
+   * `poll_interval_ms` and `watch` stay project-wide. Use `selectApis`
+   * rather than reading this directly.
+   */
+  apis?: ApiConfig[];
+  /** Name of the `[profiles.<name>]` table applied by loadConfig, if any. */
+  profile?: string;
+  /**
+   * Raw `[profiles.<name>]` tables as written in api.config.toml. Kept so
+   * the config can be saved back without losing them.
+   */
+  profiles?: Record<string, Record<string, unknown>>;
 }
 
+/**
+ * Environment variable that selects a config profile when `--profile`
+ * isn't passed.
+ */
+export const PROFILE_ENV_VAR = "CHOWBEA_PROFILE";
+
 /**
  * Default watch configuration values.
  */
@@ -153,17 +388,22 @@ export function generateConfigTemplate(config: ApiConfig): string {
   const specSourceBlock = config.spec_file
     ? `# api_endpoint = ${tomlEscape(fallbackEndpoint)}  # Use remote endpoint instead of local file
 spec_file = ${tomlEscape(config.spec_file)}`
+    : config.spec_command
+    ? `# api_endpoint = ${tomlEscape(fallbackEndpoint)}  # Use remote endpoint instead of a command
+${generateSpecCommandLines(config)}`
+    : config.apis && !config.api_endpoint
+    ? `# Spec sources are set per API in the [[apis]] entries below.`
     : `api_endpoint = ${tomlEscape(config.api_endpoint ?? "")}
 # spec_file = "./openapi.json"  # Use local file instead of remote`;
 
   return `# Chowbea Axios Configuration
 
 ${specSourceBlock}
-poll_interval_ms = ${config.poll_interval_ms}
+${generateOverlaysLine(config.overlays, !config.apis)}poll_interval_ms = ${config.poll_interval_ms}
 
 [output]
 folder = ${tomlEscape(config.output.folder)}
-
+${generateOutputFlags(config.output, true)}
 [instance]
 base_url_env = ${tomlEscape(config.instance.base_url_env)}
 env_accessor = ${tomlEscape(config.instance.env_accessor)}
@@ -171,15 +411,283 @@ token_key = ${tomlEscape(config.instance.token_key)}
 auth_mode = ${tomlEscape(config.instance.auth_mode)}
 with_credentials = ${config.instance.with_credentials}
 timeout = ${config.instance.timeout}
+${config.instance.transport ? `transport = ${tomlEscape(config.instance.transport)}\n` : `# transport = "fetch"  # Native fetch instead of axios (edge/worker runtimes)\n`}${generateFetchBlock("fetch", config.fetch, true)}${generateFilterBlock("filter", config.filter, true)}${generateOperationsBlock("operations", config.operations, true)}${generateValidationBlock("validation", config.validation, true)}${generateScalarsBlock("scalars", config.scalars, true)}
+[watch]
+debug = ${config.watch.debug}
+${config.apis ? generateApiEntriesBlock(config.apis) : ""}${config.profiles ? generateProfilesBlock(config.profiles) : ""}`;
+}
+
+/** Bare TOML keys need no quoting; anything else goes through tomlEscape. */
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : tomlEscape(key);
+}
+
+/**
+ * Encodes a scalar (or array of scalars) as a TOML value.
+ */
+function tomlValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(tomlValue).join(", ")}]`;
+  if (typeof value === "string") return tomlEscape(value);
+  return String(value);
+}
+
+/**
+ * Emits a raw table as TOML: scalar keys under `[header]`, then nested
+ * tables and arrays of tables recursively.
+ */
+function generateTable(
+  header: string,
+  table: Record<string, unknown>,
+  arrayItem = false
+): string {
+  const isTable = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+  const isTableArray = (v: unknown): v is Record<string, unknown>[] =>
+    Array.isArray(v) && v.length > 0 && v.every(isTable);
+
+  const scalars = Object.entries(table).filter(
+    ([, v]) => v !== undefined && !isTable(v) && !isTableArray(v)
+  );
+  let out = `\n${arrayItem ? `[[${header}]]` : `[${header}]`}\n`;
+  for (const [key, value] of scalars) {
+    out += `${tomlKey(key)} = ${tomlValue(value)}\n`;
+  }
+  for (const [key, value] of Object.entries(table)) {
+    if (isTable(value)) {
+      out += generateTable(`${header}.${tomlKey(key)}`, value);
+    } else if (isTableArray(value)) {
+      for (const item of value) {
+        out += generateTable(`${header}.${tomlKey(key)}`, item, true);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Writes `[profiles.<name>]` tables back verbatim so saving a config
+ * (e.g. from the TUI settings screen) doesn't drop them.
+ */
+function generateProfilesBlock(
+  profiles: Record<string, Record<string, unknown>>
+): string {
+  return Object.entries(profiles)
+    .map(([name, table]) => generateTable(`profiles.${tomlKey(name)}`, table))
+    .join("");
+}
+
+/**
+ * Emits the `spec_command` line, and `spec_command_cwd` when set.
+ */
+function generateSpecCommandLines(config: ApiConfig): string {
+  return `spec_command = ${tomlEscape(config.spec_command ?? "")}${
+    config.spec_command_cwd
+      ? `\nspec_command_cwd = ${tomlEscape(config.spec_command_cwd)}`
+      : ""
+  }`;
+}
+
+/**
+ * Emits the `overlays` array when configured; otherwise a commented example
+ * (or nothing, for `[[apis]]` entries).
+ */
+function generateOverlaysLine(
+  overlays: string[] | undefined,
+  example = true
+): string {
+  if (overlays && overlays.length > 0) {
+    return `overlays = [${overlays.map(tomlEscape).join(", ")}]\n`;
+  }
+  return example
+    ? `# overlays = ["./overlays/fixes.yaml"]  # OpenAPI Overlays applied before caching\n`
+    : "";
+}
+
+/** Opt-in emitter flags of `[output]`, in template order. */
+const OUTPUT_FLAGS = ["zod", "tanstack_query", "msw", "enum_objects", "split_by_tag"] as const;
+
+type OutputFlags = Pick<ApiConfig["output"], (typeof OUTPUT_FLAGS)[number]>;
+
+const OUTPUT_FLAG_COMMENTS: Record<(typeof OUTPUT_FLAGS)[number], string> = {
+  zod: "Also emit _generated/api.schemas.ts (requires zod)",
+  tanstack_query: "Also emit _generated/api.queries.ts (requires @tanstack/react-query)",
+  msw: "Also emit _generated/api.mocks.ts (requires msw)",
+  enum_objects: "Emit enums as const objects (OrderStatus.Active)",
+  split_by_tag: "Also emit standalone functions in _generated/<tag>/ files",
+};
+
+/**
+ * Emits the opt-in emitter flags of `[output]` that are enabled; with
+ * `examples`, disabled ones are written as commented-out lines.
+ */
+function generateOutputFlags(output: ApiConfig["output"], examples = false): string {
+  return OUTPUT_FLAGS.map((key) =>
+    output[key]
+      ? `${key} = true\n`
+      : examples
+      ? `# ${key} = true  # ${OUTPUT_FLAG_COMMENTS[key]}\n`
+      : ""
+  ).join("");
+}
+
+/**
+ * Emits the `[fetch]` tables when configured; otherwise a commented
+ * example (or nothing, for `[[apis]]` entries).
+ */
+function generateFetchBlock(
+  header: string,
+  fetch: FetchConfig | undefined,
+  example = false
+): string {
+  if (fetch) {
+    return generateTable(header, { ...fetch });
+  }
+  return example
+    ? `
+# [fetch]
+# timeout_ms = 30000                # Abort a spec request after 30s
+# max_bytes = 52428800              # Refuse specs larger than 50 MiB
 
 # [fetch.auth]
-# type = "basic"
+# type = "basic"                    # or "bearer", "header", "oauth2-client-credentials"
 # username = "$SWAGGER_USER"
 # password = "$SWAGGER_PASS"
+`
+    : "";
+}
 
-[watch]
-debug = ${config.watch.debug}
+/**
+ * Emits a `[filter]` table when configured; otherwise a commented example
+ * (or nothing, for `[[apis]]` entries).
+ */
+function generateFilterBlock(
+  header: string,
+  filter: FilterConfig | undefined,
+  example = false
+): string {
+  if (filter) {
+    const lines = FILTER_KEYS.filter((key) => filter[key]).map(
+      (key) => `${key} = ${tomlValue(filter[key])}`
+    );
+    return `
+[${header}]
+${lines.join("\n")}
+`;
+  }
+  return example
+    ? `
+# [filter]
+# include_tags = ["public", "account"]  # Only generate these tags
+# exclude_paths = ["/internal/**"]      # Path globs to drop
+# exclude_extensions = ["x-internal"]   # Drop operations marked x-internal: true
+`
+    : "";
+}
+
+/**
+ * Emits an `[operations]` table when configured; otherwise a commented
+ * example (or nothing, for `[[apis]]` entries).
+ */
+function generateOperationsBlock(
+  header: string,
+  operations: OperationsConfig | undefined,
+  example = false
+): string {
+  if (operations && Object.keys(operations).length > 0) {
+    const lines = OPERATIONS_KEYS.filter((key) => operations[key] !== undefined).map(
+      (key) => `${key} = ${tomlValue(operations[key])}`
+    );
+    return `
+[${header}]
+${lines.join("\n")}
 `;
+  }
+  return example
+    ? `
+# [operations]
+# group_by = "tag"                  # api.op.users.getById, keeping flat aliases
+# fallback_group = "default"        # Namespace for operations without tags
+# naming = "method_path"            # Name operations without an operationId (GET /users/{id} → getUsersById)
+`
+    : "";
+}
+
+/**
+ * Emits a `[validation]` table when configured; otherwise a commented
+ * example (or nothing, for `[[apis]]` entries).
+ */
+function generateValidationBlock(
+  header: string,
+  validation: ValidationConfig | undefined,
+  example = false
+): string {
+  if (validation) {
+    return `
+[${header}]
+mode = ${tomlEscape(validation.mode)}
+${validation.request_bodies !== undefined ? `request_bodies = ${validation.request_bodies}\n` : ""}`;
+  }
+  return example
+    ? `
+# [validation]
+# mode = "warn"                     # "off", "warn" (log mismatches outside production) or "enforce"
+# request_bodies = true             # Also validate request bodies before sending
+`
+    : "";
+}
+
+/**
+ * Emits a `[scalars]` table when configured; otherwise a commented
+ * example (or nothing, for `[[apis]]` entries).
+ */
+function generateScalarsBlock(
+  header: string,
+  scalars: ScalarsConfig | undefined,
+  example = false
+): string {
+  if (scalars && Object.keys(scalars).length > 0) {
+    return generateTable(header, scalars);
+  }
+  return example
+    ? `
+# [scalars]
+# date-time = "Date"                # Revived to Date in responses, sent as ISO strings
+# int64 = "bigint"
+# uuid = "Uuid"                     # Branded type: string & { readonly __brand: "Uuid" }
+`
+    : "";
+}
+
+/**
+ * Emits one `[[apis]]` table per API entry so configs saved from the TUI
+ * keep their multi-API layout. Entries are written fully resolved.
+ */
+function generateApiEntriesBlock(apis: ApiConfig[]): string {
+  return apis
+    .map((api) => {
+      const source = api.spec_file
+        ? `spec_file = ${tomlEscape(api.spec_file)}`
+        : api.spec_command
+        ? generateSpecCommandLines(api)
+        : `api_endpoint = ${tomlEscape(api.api_endpoint ?? "")}`;
+      return `
+[[apis]]
+name = ${tomlEscape(api.name ?? "")}
+${source}
+${generateOverlaysLine(api.overlays, false)}
+[apis.output]
+folder = ${tomlEscape(api.output.folder)}
+${generateOutputFlags(api.output)}
+[apis.instance]
+base_url_env = ${tomlEscape(api.instance.base_url_env)}
+env_accessor = ${tomlEscape(api.instance.env_accessor)}
+token_key = ${tomlEscape(api.instance.token_key)}
+auth_mode = ${tomlEscape(api.instance.auth_mode)}
+with_credentials = ${api.instance.with_credentials}
+timeout = ${api.instance.timeout}
+${api.instance.transport ? `transport = ${tomlEscape(api.instance.transport)}\n` : ""}${generateFetchBlock("apis.fetch", api.fetch)}${generateFilterBlock("apis.filter", api.filter)}${generateOperationsBlock("apis.operations", api.operations)}${generateValidationBlock("apis.validation", api.validation)}${generateScalarsBlock("apis.scalars", api.scalars)}`;
+    })
+    .join("");
 }
 
 /**
@@ -310,41 +818,245 @@ function validateInstanceConfig(instance: unknown): InstanceConfig {
       ? inst.timeout
       : DEFAULT_INSTANCE_CONFIG.timeout;
 
-  return { base_url_env, env_accessor, token_key, auth_mode, with_credentials, timeout };
+  if (inst.transport !== undefined && !(TRANSPORTS as readonly unknown[]).includes(inst.transport)) {
+    throw new ConfigValidationError(
+      "instance.transport",
+      `instance.transport must be one of ${TRANSPORTS.map((t) => `"${t}"`).join(", ")}`
+    );
+  }
+  const transport = inst.transport as Transport | undefined;
+
+  return {
+    base_url_env,
+    env_accessor,
+    token_key,
+    auth_mode,
+    with_credentials,
+    timeout,
+    ...(transport ? { transport } : {}),
+  };
 }
 
 /**
- * Validates the loaded configuration and throws descriptive errors.
+ * Validates the spec source of a config object (root or `[[apis]]` entry):
+ * at least one of api_endpoint, spec_file or spec_command must be set.
+ * spec_file, then spec_command, take priority at resolve time (see
+ * resolveSpecSource), so api_endpoint is only required when both are absent.
  */
-function validateConfig(config: unknown): ApiConfig {
-  if (typeof config !== "object" || config === null) {
-    throw new ConfigValidationError("root", "Configuration must be an object");
-  }
-
-  const cfg = config as Record<string, unknown>;
-
-  // Validate spec source: at least one of api_endpoint or spec_file must be set.
-  // spec_file takes priority at resolve time (see resolveSpecSource), so
-  // api_endpoint is only required when spec_file is absent.
+function validateSpecSource(
+  cfg: Record<string, unknown>,
+  fieldPrefix: string
+): {
+  api_endpoint?: string;
+  spec_file?: string;
+  spec_command?: string;
+  spec_command_cwd?: string;
+} {
   const hasSpecFile =
     typeof cfg.spec_file === "string" && cfg.spec_file.trim().length > 0;
   const hasApiEndpoint =
     typeof cfg.api_endpoint === "string" &&
     cfg.api_endpoint.trim().length > 0;
+  const hasSpecCommand =
+    typeof cfg.spec_command === "string" &&
+    cfg.spec_command.trim().length > 0;
 
-  if (!hasSpecFile && !hasApiEndpoint) {
+  if (!hasSpecFile && !hasApiEndpoint && !hasSpecCommand) {
     throw new ConfigValidationError(
-      "api_endpoint",
-      "Configuration must set either api_endpoint (remote URL) or spec_file (local path)"
+      `${fieldPrefix}api_endpoint`,
+      "Configuration must set api_endpoint (remote URL), spec_file (local path) or spec_command (shell command)"
+    );
+  }
+  if (cfg.spec_command !== undefined && !hasSpecCommand) {
+    throw new ConfigValidationError(
+      `${fieldPrefix}spec_command`,
+      "spec_command must be a non-empty string when provided"
+    );
+  }
+  if (
+    cfg.spec_command_cwd !== undefined &&
+    (typeof cfg.spec_command_cwd !== "string" || !hasSpecCommand)
+  ) {
+    throw new ConfigValidationError(
+      `${fieldPrefix}spec_command_cwd`,
+      "spec_command_cwd must be a string and requires spec_command"
     );
   }
   if (cfg.api_endpoint !== undefined && !hasApiEndpoint) {
     throw new ConfigValidationError(
-      "api_endpoint",
+      `${fieldPrefix}api_endpoint`,
       "api_endpoint must be a non-empty string URL when provided"
     );
   }
 
+  return {
+    api_endpoint: hasApiEndpoint ? (cfg.api_endpoint as string) : undefined,
+    spec_file: hasSpecFile ? (cfg.spec_file as string) : undefined,
+    ...(hasSpecCommand
+      ? {
+          spec_command: cfg.spec_command as string,
+          ...(cfg.spec_command_cwd
+            ? { spec_command_cwd: cfg.spec_command_cwd as string }
+            : {}),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Shallow-merges an `[[apis]]` entry's section over the root section so an
+ * entry only has to spell out the keys it changes. Non-object values are
+ * passed through untouched for the section validator to reject.
+ */
+function mergeSection(rootValue: unknown, entryValue: unknown): unknown {
+  if (entryValue === undefined || entryValue === null) return rootValue;
+  if (
+    typeof rootValue === "object" &&
+    rootValue !== null &&
+    typeof entryValue === "object"
+  ) {
+    return { ...rootValue, ...entryValue };
+  }
+  return entryValue;
+}
+
+/** API names double as `--api` values and default folder names. */
+const API_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Validates the `[[apis]]` array. Each entry needs a unique name and its
+ * own spec source. `[instance]` and `[fetch]` are inherited from the root
+ * config and can be overridden key-by-key per entry. The output folder
+ * defaults to `<output.folder>/<name>`.
+ */
+function validateApiEntries(
+  apis: unknown,
+  root: Record<string, unknown>,
+  base: ApiConfig
+): ApiConfig[] {
+  if (!Array.isArray(apis) || apis.length === 0) {
+    throw new ConfigValidationError(
+      "apis",
+      "apis must be a non-empty array of [[apis]] tables"
+    );
+  }
+
+  const names = new Set<string>();
+  const folders = new Map<string, string>();
+
+  return apis.map((entry: unknown, index) => {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      throw new ConfigValidationError(
+        `apis[${index}]`,
+        "each [[apis]] entry must be a table"
+      );
+    }
+    const e = entry as Record<string, unknown>;
+
+    if (typeof e.name !== "string" || !API_NAME_PATTERN.test(e.name)) {
+      throw new ConfigValidationError(
+        `apis[${index}].name`,
+        "each [[apis]] entry needs a name made of letters, digits, '-' or '_'"
+      );
+    }
+    const name = e.name;
+    if (names.has(name)) {
+      throw new ConfigValidationError(
+        `apis[${index}].name`,
+        `duplicate API name "${name}"`
+      );
+    }
+    names.add(name);
+
+    const prefix = `apis.${name}.`;
+    const source = validateSpecSource(e, prefix);
+    const overlays = validateOverlays(e.overlays, `${prefix}overlays`);
+
+    let folder = path.join(base.output.folder, name);
+    let outputFlags = pickOutputFlags(base.output);
+    if (e.output !== undefined) {
+      const output = e.output as Record<string, unknown> | null;
+      if (
+        typeof output !== "object" ||
+        output === null ||
+        typeof output.folder !== "string" ||
+        output.folder.trim().length === 0
+      ) {
+        throw new ConfigValidationError(
+          `${prefix}output.folder`,
+          `${prefix}output.folder must be a non-empty string path`
+        );
+      }
+      folder = output.folder;
+      outputFlags = {
+        ...outputFlags,
+        ...validateOutputFlags(output, `${prefix}output`),
+      };
+    }
+    const normalizedFolder = path.normalize(folder);
+    const clash = folders.get(normalizedFolder);
+    if (clash) {
+      throw new ConfigValidationError(
+        `${prefix}output.folder`,
+        `APIs "${clash}" and "${name}" share the output folder ${folder}`
+      );
+    }
+    folders.set(normalizedFolder, name);
+
+    try {
+      return {
+        name,
+        ...source,
+        ...(overlays ? { overlays } : {}),
+        // One watch loop polls every API, so the cadence and debug flag
+        // stay project-wide.
+        poll_interval_ms: base.poll_interval_ms,
+        output: { folder, ...outputFlags },
+        fetch: validateFetchConfig(mergeSection(root.fetch, e.fetch)),
+        ...optionalFilter(mergeSection(root.filter, e.filter)),
+        ...optionalOperations(mergeSection(root.operations, e.operations)),
+        ...optionalValidation(mergeSection(root.validation, e.validation)),
+        ...optionalScalars(mergeSection(root.scalars, e.scalars)),
+        instance: validateInstanceConfig(mergeSection(root.instance, e.instance)),
+        watch: base.watch,
+      };
+    } catch (error) {
+      // Re-anchor section errors on the entry so the user knows which
+      // [[apis]] block to fix.
+      if (error instanceof ConfigValidationError) {
+        throw new ConfigValidationError(
+          `${prefix}${error.field}`,
+          `${name}: ${error.message.replace(/^Invalid configuration: /, "")}`
+        );
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Validates the loaded configuration and throws descriptive errors.
+ *
+ * A config with `[[apis]]` entries doesn't need a root spec source or
+ * `[output]` section — the root only supplies defaults for the entries.
+ */
+function validateConfig(config: unknown): ApiConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new ConfigValidationError("root", "Configuration must be an object");
+  }
+
+  const cfg = config as Record<string, unknown>;
+  const hasApis = cfg.apis !== undefined;
+
+  // Validate spec source (optional at the root when [[apis]] is used)
+  const source =
+    hasApis &&
+    cfg.api_endpoint === undefined &&
+    cfg.spec_file === undefined &&
+    cfg.spec_command === undefined
+      ? {}
+      : validateSpecSource(cfg, "");
+
   // Validate poll_interval_ms
   if (typeof cfg.poll_interval_ms !== "number" || cfg.poll_interval_ms < 1000) {
     throw new ConfigValidationError(
@@ -353,12 +1065,17 @@ function validateConfig(config: unknown): ApiConfig {
     );
   }
 
-  // Validate output section
-  if (typeof cfg.output !== "object" || cfg.output === null) {
+  // Validate output section. With [[apis]] it is only the base folder for
+  // entries that don't set their own, so it may be omitted.
+  const rawOutput =
+    hasApis && (cfg.output === undefined || cfg.output === null)
+      ? { folder: DEFAULT_CONFIG.output.folder }
+      : cfg.output;
+  if (typeof rawOutput !== "object" || rawOutput === null) {
     throw new ConfigValidationError("output", "output section is required");
   }
 
-  const output = cfg.output as Record<string, unknown>;
+  const output = rawOutput as Record<string, unknown>;
 
   if (typeof output.folder !== "string" || output.folder.trim().length === 0) {
     throw new ConfigValidationError(
@@ -367,12 +1084,6 @@ function validateConfig(config: unknown): ApiConfig {
     );
   }
 
-  // Validate spec_file if provided (optional)
-  const spec_file =
-    typeof cfg.spec_file === "string" && cfg.spec_file.trim().length > 0
-      ? cfg.spec_file
-      : undefined;
-
   // Validate fetch section if provided (optional)
   const fetchConfig = validateFetchConfig(cfg.fetch);
 
@@ -382,17 +1093,83 @@ function validateConfig(config: unknown): ApiConfig {
   // Validate watch section (uses defaults if missing)
   const watch = validateWatchConfig(cfg.watch);
 
-  return {
-    api_endpoint: hasApiEndpoint ? (cfg.api_endpoint as string) : undefined,
-    spec_file,
+  // Validate filter section if provided (optional)
+  const filter = optionalFilter(cfg.filter);
+
+  // Validate operations section if provided (optional)
+  const operations = optionalOperations(cfg.operations);
+
+  // Validate validation section if provided (optional)
+  const validation = optionalValidation(cfg.validation);
+
+  // Validate scalars section if provided (optional)
+  const scalars = optionalScalars(cfg.scalars);
+
+  // Overlays patch one particular spec, so they are never inherited.
+  const overlays = validateOverlays(cfg.overlays, "overlays");
+  if (overlays && hasApis) {
+    throw new ConfigValidationError(
+      "overlays",
+      "overlays must be set on each [[apis]] entry, not at the root"
+    );
+  }
+
+  const result: ApiConfig = {
+    ...source,
+    ...(overlays ? { overlays } : {}),
     poll_interval_ms: cfg.poll_interval_ms,
     output: {
       folder: output.folder,
+      ...validateOutputFlags(output, "output"),
     },
     fetch: fetchConfig,
+    ...filter,
+    ...operations,
+    ...validation,
+    ...scalars,
     instance,
     watch,
   };
+
+  if (hasApis) {
+    result.apis = validateApiEntries(cfg.apis, cfg, result);
+  }
+
+  return result;
+}
+
+/**
+ * Returns the APIs a command should operate on.
+ *
+ * - Single-API config: returns `[config]`; `apiName` is rejected.
+ * - `[[apis]]` config: returns every entry, or only the one named by
+ *   `apiName` (the `--api` flag).
+ */
+export function selectApis(config: ApiConfig, apiName?: string): ApiConfig[] {
+  const apis = config.apis;
+
+  if (!apis || apis.length === 0) {
+    if (apiName) {
+      throw new ConfigError(
+        `--api "${apiName}" was given but api.config.toml has no [[apis]] entries`,
+        "Remove --api, or declare the API as an [[apis]] entry with a matching name."
+      );
+    }
+    return [config];
+  }
+
+  if (!apiName) {
+    return apis;
+  }
+
+  const match = apis.find((api) => api.name === apiName);
+  if (!match) {
+    throw new ConfigError(
+      `Unknown API "${apiName}"`,
+      `Configured APIs: ${apis.map((api) => api.name).join(", ")}`
+    );
+  }
+  return [match];
 }
 
 /**
@@ -409,24 +1186,69 @@ function validateFetchAuthConfig(auth: unknown): FetchAuthConfig | undefined {
 
   const authObj = auth as Record<string, unknown>;
 
-  if (typeof authObj.type !== "string" || authObj.type !== "basic") {
-    throw new ConfigValidationError(
-      "fetch.auth.type",
-      'fetch.auth.type must be "basic"'
-    );
-  }
-
-  const username =
-    typeof authObj.username === "string" && authObj.username.trim().length > 0
-      ? authObj.username
+  // Blank strings count as unset so they fall through to env/prompting.
+  const optionalString = (key: string): string | undefined => {
+    const value = authObj[key];
+    return typeof value === "string" && value.trim().length > 0
+      ? value
       : undefined;
+  };
 
-  const password =
-    typeof authObj.password === "string" && authObj.password.trim().length > 0
-      ? authObj.password
-      : undefined;
+  const requiredString = (key: string): string => {
+    const value = optionalString(key);
+    if (!value) {
+      throw new ConfigValidationError(
+        `fetch.auth.${key}`,
+        `fetch.auth.${key} is required for type "${authObj.type}"`
+      );
+    }
+    return value;
+  };
 
-  return { type: "basic", username, password };
+  switch (authObj.type) {
+    case "basic":
+      return {
+        type: "basic",
+        username: optionalString("username"),
+        password: optionalString("password"),
+      };
+
+    case "bearer":
+      return { type: "bearer", token: optionalString("token") };
+
+    case "header":
+      return {
+        type: "header",
+        name: requiredString("name"),
+        value: optionalString("value"),
+      };
+
+    case "oauth2-client-credentials": {
+      const scopes = authObj.scopes;
+      if (
+        scopes !== undefined &&
+        (!Array.isArray(scopes) || !scopes.every((s) => typeof s === "string"))
+      ) {
+        throw new ConfigValidationError(
+          "fetch.auth.scopes",
+          "fetch.auth.scopes must be an array of strings"
+        );
+      }
+      return {
+        type: "oauth2-client-credentials",
+        token_url: requiredString("token_url"),
+        client_id: optionalString("client_id"),
+        client_secret: optionalString("client_secret"),
+        ...(scopes ? { scopes: scopes as string[] } : {}),
+      };
+    }
+
+    default:
+      throw new ConfigValidationError(
+        "fetch.auth.type",
+        `fetch.auth.type must be one of ${FETCH_AUTH_TYPES.map((t) => `"${t}"`).join(", ")}`
+      );
+  }
 }
 
 /**
@@ -471,11 +1293,402 @@ function validateFetchConfig(fetch: unknown): FetchConfig | undefined {
   // Validate auth if provided
   const auth = validateFetchAuthConfig(fetchObj.auth);
 
-  if (!headers && !auth) {
+  const timeout_ms = validatePositiveInteger(fetchObj.timeout_ms, "fetch.timeout_ms");
+  const max_bytes = validatePositiveInteger(fetchObj.max_bytes, "fetch.max_bytes");
+
+  if (!headers && !auth && timeout_ms === undefined && max_bytes === undefined) {
+    return;
+  }
+
+  return {
+    ...(headers ? { headers } : {}),
+    ...(auth ? { auth } : {}),
+    ...(timeout_ms !== undefined ? { timeout_ms } : {}),
+    ...(max_bytes !== undefined ? { max_bytes } : {}),
+  };
+}
+
+/**
+ * Validates the opt-in emitter flags of an `[output]` table. Only flags
+ * that are set are returned, so entries can inherit the root's.
+ */
+function validateOutputFlags(
+  output: Record<string, unknown>,
+  field: string
+): OutputFlags {
+  const flags: OutputFlags = {};
+  for (const key of OUTPUT_FLAGS) {
+    const value = output[key];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      throw new ConfigValidationError(`${field}.${key}`, `${field}.${key} must be a boolean`);
+    }
+    flags[key] = value;
+  }
+  return flags;
+}
+
+/** The emitter flags of a resolved `[output]`, without its folder. */
+function pickOutputFlags(output: ApiConfig["output"]): OutputFlags {
+  const flags: OutputFlags = {};
+  for (const key of OUTPUT_FLAGS) {
+    if (output[key] !== undefined) flags[key] = output[key];
+  }
+  return flags;
+}
+
+/**
+ * Validates the filter section. Returns undefined when it is missing or
+ * sets no keys, so an empty `[filter]` table means "generate everything".
+ */
+function validateFilterConfig(filter: unknown): FilterConfig | undefined {
+  if (filter === undefined || filter === null) {
+    return;
+  }
+
+  if (typeof filter !== "object" || Array.isArray(filter)) {
+    throw new ConfigValidationError("filter", "filter section must be an object");
+  }
+
+  const filterObj = filter as Record<string, unknown>;
+  const result: FilterConfig = {};
+
+  for (const [key, value] of Object.entries(filterObj)) {
+    if (!(FILTER_KEYS as readonly string[]).includes(key)) {
+      throw new ConfigValidationError(
+        `filter.${key}`,
+        `unknown filter key "${key}" (expected one of ${FILTER_KEYS.join(", ")})`
+      );
+    }
+    if (
+      !Array.isArray(value) ||
+      value.some((entry) => typeof entry !== "string" || entry.trim().length === 0)
+    ) {
+      throw new ConfigValidationError(
+        `filter.${key}`,
+        `filter.${key} must be an array of non-empty strings`
+      );
+    }
+    if (value.length > 0) {
+      result[key as keyof FilterConfig] = value as string[];
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/** `{ filter }` when the section sets anything, so unset stays absent. */
+function optionalFilter(filter: unknown): { filter?: FilterConfig } {
+  const validated = validateFilterConfig(filter);
+  return validated ? { filter: validated } : {};
+}
+
+/** Namespaces are property names in the generated code. */
+const GROUP_NAME_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Validates the operations section. A missing section means a flat `api.op`.
+ */
+function validateOperationsConfig(operations: unknown): OperationsConfig | undefined {
+  if (operations === undefined || operations === null) {
+    return;
+  }
+
+  if (typeof operations !== "object" || Array.isArray(operations)) {
+    throw new ConfigValidationError(
+      "operations",
+      "operations section must be an object"
+    );
+  }
+
+  const operationsObj = operations as Record<string, unknown>;
+  for (const key of Object.keys(operationsObj)) {
+    if (!(OPERATIONS_KEYS as readonly string[]).includes(key)) {
+      throw new ConfigValidationError(
+        `operations.${key}`,
+        `unknown operations key "${key}" (expected one of ${OPERATIONS_KEYS.join(", ")})`
+      );
+    }
+  }
+
+  const { group_by, fallback_group, naming } = operationsObj;
+  if (group_by !== undefined && !(OPERATION_GROUPINGS as readonly unknown[]).includes(group_by)) {
+    throw new ConfigValidationError(
+      "operations.group_by",
+      `operations.group_by must be one of ${OPERATION_GROUPINGS.map((g) => `"${g}"`).join(", ")}`
+    );
+  }
+  if (
+    fallback_group !== undefined &&
+    (typeof fallback_group !== "string" || !GROUP_NAME_PATTERN.test(fallback_group))
+  ) {
+    throw new ConfigValidationError(
+      "operations.fallback_group",
+      "operations.fallback_group must be a valid identifier"
+    );
+  }
+
+  if (naming !== undefined && !isOperationNaming(naming)) {
+    throw new ConfigValidationError(
+      "operations.naming",
+      `operations.naming must be "skip", "method_path" or a template using ${OPERATION_NAME_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")} that includes {path} or {Path}`
+    );
+  }
+
+  return {
+    ...(group_by !== undefined ? { group_by: group_by as OperationGrouping } : {}),
+    ...(fallback_group !== undefined ? { fallback_group: fallback_group as string } : {}),
+    ...(naming !== undefined ? { naming } : {}),
+  };
+}
+
+/**
+ * True for "skip", "method_path" and templates whose placeholders are all
+ * known and which name the path (else every GET would share a name).
+ */
+function isOperationNaming(naming: unknown): naming is string {
+  if (naming === "skip" || naming === "method_path") return true;
+  if (typeof naming !== "string") return false;
+  const placeholders = [...naming.matchAll(/\{([^}]*)\}/g)].map((match) => match[1]);
+  return (
+    placeholders.every((p) => (OPERATION_NAME_PLACEHOLDERS as readonly (string | undefined)[]).includes(p)) &&
+    (placeholders.includes("path") || placeholders.includes("Path"))
+  );
+}
+
+/** `{ operations }` when the section is present, so unset stays absent. */
+function optionalOperations(operations: unknown): { operations?: OperationsConfig } {
+  const validated = validateOperationsConfig(operations);
+  return validated ? { operations: validated } : {};
+}
+
+/**
+ * Validates the validation section. A missing section means "off".
+ */
+function validateValidationConfig(validation: unknown): ValidationConfig | undefined {
+  if (validation === undefined || validation === null) {
+    return;
+  }
+
+  if (typeof validation !== "object" || Array.isArray(validation)) {
+    throw new ConfigValidationError(
+      "validation",
+      "validation section must be an object"
+    );
+  }
+
+  const validationObj = validation as Record<string, unknown>;
+  const mode = validationObj.mode ?? "off";
+  if (!(VALIDATION_MODES as readonly unknown[]).includes(mode)) {
+    throw new ConfigValidationError(
+      "validation.mode",
+      `validation.mode must be one of ${VALIDATION_MODES.map((m) => `"${m}"`).join(", ")}`
+    );
+  }
+
+  if (
+    validationObj.request_bodies !== undefined &&
+    typeof validationObj.request_bodies !== "boolean"
+  ) {
+    throw new ConfigValidationError(
+      "validation.request_bodies",
+      "validation.request_bodies must be a boolean"
+    );
+  }
+
+  return {
+    mode: mode as ValidationMode,
+    ...(validationObj.request_bodies !== undefined
+      ? { request_bodies: validationObj.request_bodies }
+      : {}),
+  };
+}
+
+/** `{ validation }` when the section is present, so unset stays absent. */
+function optionalValidation(validation: unknown): { validation?: ValidationConfig } {
+  const validated = validateValidationConfig(validation);
+  return validated ? { validation: validated } : {};
+}
+
+/**
+ * Validates the scalars section: each format maps to "Date", "bigint"
+ * or a PascalCase brand name.
+ */
+function validateScalarsConfig(scalars: unknown): ScalarsConfig | undefined {
+  if (scalars === undefined || scalars === null) {
     return;
   }
 
-  return { ...(headers ? { headers } : {}), ...(auth ? { auth } : {}) };
+  if (typeof scalars !== "object" || Array.isArray(scalars)) {
+    throw new ConfigValidationError("scalars", "scalars section must be an object");
+  }
+
+  const result: ScalarsConfig = {};
+  for (const [format, target] of Object.entries(scalars as Record<string, unknown>)) {
+    if (
+      typeof target !== "string" ||
+      !((RUNTIME_SCALARS as readonly string[]).includes(target) || SCALAR_BRAND_PATTERN.test(target))
+    ) {
+      throw new ConfigValidationError(
+        `scalars.${format}`,
+        `scalars.${format} must be "Date", "bigint" or a PascalCase brand name`
+      );
+    }
+    result[format] = target;
+  }
+  return result;
+}
+
+/** `{ scalars }` when the section is present, so unset stays absent. */
+function optionalScalars(scalars: unknown): { scalars?: ScalarsConfig } {
+  const validated = validateScalarsConfig(scalars);
+  return validated ? { scalars: validated } : {};
+}
+
+/**
+ * Validates an `overlays` array of non-empty path strings.
+ */
+function validateOverlays(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.some((entry) => typeof entry !== "string" || entry.trim().length === 0)
+  ) {
+    throw new ConfigValidationError(
+      field,
+      `${field} must be an array of overlay file paths`
+    );
+  }
+  return value as string[];
+}
+
+/**
+ * Validates an optional positive-integer setting such as `fetch.timeout_ms`.
+ */
+function validatePositiveInteger(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new ConfigValidationError(field, `${field} must be a positive integer`);
+  }
+
+  return value;
+}
+
+/**
+ * Validates the `[profiles]` section: a table of named tables.
+ */
+function validateProfiles(
+  profiles: unknown
+): Record<string, Record<string, unknown>> | undefined {
+  if (profiles === undefined || profiles === null) {
+    return;
+  }
+
+  if (typeof profiles !== "object" || Array.isArray(profiles)) {
+    throw new ConfigValidationError(
+      "profiles",
+      "profiles must be a table of [profiles.<name>] tables"
+    );
+  }
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (typeof profile !== "object" || profile === null || Array.isArray(profile)) {
+      throw new ConfigValidationError(
+        `profiles.${name}`,
+        `profiles.${name} must be a table`
+      );
+    }
+    if ("profiles" in profile) {
+      throw new ConfigValidationError(
+        `profiles.${name}.profiles`,
+        "profiles cannot be nested"
+      );
+    }
+  }
+
+  return profiles as Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Overlays the named profile on the raw (pre-validation) config. Top-level
+ * keys are replaced and sections (`[output]`, `[fetch]`, `[instance]`,
+ * `[watch]`) are merged key-by-key, so a profile only spells out what it
+ * changes. `[profiles.<name>.apis.<api>]` tables override the matching
+ * `[[apis]]` entry the same way; a `[[profiles.<name>.apis]]` array
+ * replaces the entries outright.
+ */
+function applyProfile(
+  raw: Record<string, unknown>,
+  profiles: Record<string, Record<string, unknown>> | undefined,
+  profileName: string
+): Record<string, unknown> {
+  const profile = profiles?.[profileName];
+  if (!profile) {
+    const available = Object.keys(profiles ?? {});
+    throw new ConfigError(
+      `Unknown profile "${profileName}"`,
+      available.length > 0
+        ? `Available profiles: ${available.join(", ")}`
+        : `Declare it in api.config.toml as [profiles.${profileName}], or unset ${PROFILE_ENV_VAR}.`
+    );
+  }
+
+  const merged: Record<string, unknown> = { ...raw };
+  for (const [key, value] of Object.entries(profile)) {
+    if (
+      key === "apis" &&
+      typeof value === "object" &&
+      value !== null &&
+      !Array.isArray(value)
+    ) {
+      merged.apis = applyProfileToApis(
+        raw.apis,
+        value as Record<string, unknown>,
+        profileName
+      );
+    } else {
+      merged[key] = mergeSection(raw[key], value);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Applies `[profiles.<name>.apis.<api>]` overrides to the raw `[[apis]]`
+ * entries.
+ */
+function applyProfileToApis(
+  apis: unknown,
+  overrides: Record<string, unknown>,
+  profileName: string
+): unknown {
+  const entries = Array.isArray(apis) ? apis : [];
+  const names = new Set(
+    entries.map((entry) => (entry as Record<string, unknown> | null)?.name)
+  );
+  for (const name of Object.keys(overrides)) {
+    if (!names.has(name)) {
+      throw new ConfigValidationError(
+        `profiles.${profileName}.apis.${name}`,
+        `profile "${profileName}" overrides unknown API "${name}"`
+      );
+    }
+  }
+
+  return entries.map((entry) => {
+    const e = entry as Record<string, unknown>;
+    const override = overrides[e.name as string];
+    if (typeof override !== "object" || override === null) return entry;
+
+    const mergedEntry: Record<string, unknown> = { ...e };
+    for (const [key, value] of Object.entries(override)) {
+      mergedEntry[key] = mergeSection(e[key], value);
+    }
+    return mergedEntry;
+  });
 }
 
 /**
@@ -483,11 +1696,12 @@ function validateFetchConfig(fetch: unknown): FetchConfig | undefined {
  */
 export type SpecSource =
   | { type: "local"; path: string }
-  | { type: "remote"; endpoint: string };
+  | { type: "remote"; endpoint: string }
+  | { type: "command"; command: string; cwd: string };
 
 /**
  * Resolves the spec source based on config and flag overrides.
- * Priority: flag > config spec_file > config api_endpoint
+ * Priority: flag > config spec_file > config spec_command > config api_endpoint
  */
 export function resolveSpecSource(
   config: ApiConfig,
@@ -510,11 +1724,20 @@ export function resolveSpecSource(
     return { type: "local", path: resolvedPath };
   }
 
+  // Then a command that prints the spec, run from spec_command_cwd
+  if (config.spec_command) {
+    const cwd = config.spec_command_cwd
+      ? path.resolve(projectRoot, config.spec_command_cwd)
+      : projectRoot;
+    return { type: "command", command: config.spec_command, cwd };
+  }
+
   // Default to remote endpoint. Validator guarantees api_endpoint is present
-  // whenever spec_file is absent, but we guard here for defense-in-depth.
+  // whenever the other sources are absent, but we guard here for
+  // defense-in-depth.
   if (!config.api_endpoint) {
     throw new Error(
-      "No spec source configured: set either api_endpoint or spec_file in api.config.toml"
+      "No spec source configured: set api_endpoint, spec_file or spec_command in api.config.toml"
     );
   }
   return { type: "remote", endpoint: config.api_endpoint };
@@ -531,6 +1754,11 @@ export interface LoadConfigOptions {
    * silently use a localhost endpoint. Issue #39.
    */
   autoCreate?: boolean;
+  /**
+   * Name of the `[profiles.<name>]` table to apply. Falls back to the
+   * `CHOWBEA_PROFILE` env var; an empty string disables profiles.
+   */
+  profile?: string;
 }
 
 /**
@@ -579,8 +1807,18 @@ export async function loadConfig(
   // Load and parse existing config
   try {
     const content = await readFile(resolvedConfigPath, "utf8");
-    const parsed = toml.parse(content);
-    const config = validateConfig(parsed);
+    const parsed = toml.parse(content) as Record<string, unknown>;
+    const profiles = validateProfiles(parsed.profiles);
+
+    // --profile (via options) beats the env var; an empty value means none.
+    const profile =
+      (options.profile ?? process.env[PROFILE_ENV_VAR])?.trim() || undefined;
+
+    const config = validateConfig(
+      profile ? applyProfile(parsed, profiles, profile) : parsed
+    );
+    if (profile) config.profile = profile;
+    if (profiles) config.profiles = profiles;
 
     return {
       config,
@@ -589,7 +1827,7 @@ export async function loadConfig(
       wasCreated: false,
     };
   } catch (error) {
-    if (error instanceof ConfigValidationError) {
+    if (error instanceof ConfigValidationError || error instanceof ConfigError) {
       throw error;
     }
 
@@ -636,12 +1874,22 @@ export interface OutputPaths {
   operations: string;
   /** Path to api.contracts.ts (concrete type contracts - always overwritten) */
   contracts: string;
+  /** Path to api.schemas.ts (zod schemas, when `output.zod` is on - always overwritten) */
+  schemas: string;
+  /** Path to api.queries.ts (TanStack Query options, when `output.tanstack_query` is on - always overwritten) */
+  queries: string;
+  /** Path to api.mocks.ts (MSW handlers, when `output.msw` is on - always overwritten) */
+  mocks: string;
+  /** Path to api.manifest.json (names chowbea gave operations, when any - always overwritten) */
+  manifest: string;
   /** Path to api.helpers.ts (utility types - generated once) */
   helpers: string;
   /** Path to openapi.json spec file */
   spec: string;
   /** Path to .api-cache.json */
   cache: string;
+  /** Path to .oauth-token.json (cached OAuth2 access token) */
+  oauthToken: string;
   /** Path to api.instance.ts (axios instance - generated once) */
   instance: string;
   /** Path to api.error.ts (error handling - generated once) */
@@ -668,10 +1916,15 @@ export function getOutputPaths(
     // _internal/ files (always overwritten)
     spec: path.join(internal, "openapi.json"),
     cache: path.join(internal, ".api-cache.json"),
+    oauthToken: path.join(internal, ".oauth-token.json"),
     // _generated/ files (always overwritten)
     types: path.join(generated, "api.types.ts"),
     operations: path.join(generated, "api.operations.ts"),
     contracts: path.join(generated, "api.contracts.ts"),
+    schemas: path.join(generated, "api.schemas.ts"),
+    queries: path.join(generated, "api.queries.ts"),
+    mocks: path.join(generated, "api.mocks.ts"),
+    manifest: path.join(generated, "api.manifest.json"),
     // Root files (generated once, user-editable)
     helpers: path.join(folder, "api.helpers.ts"),
     instance: path.join(folder, "api.instance.ts"),
@@ -58,15 +58,25 @@ export class NetworkError extends ChowbeaAxiosError {
 	public readonly url: string;
 	public readonly statusCode?: number;
 
-	constructor(url: string, message: string, statusCode?: number) {
+	/**
+	 * `variant` lets the subclasses below swap in their own error code and
+	 * recovery hint while staying `instanceof NetworkError`.
+	 */
+	constructor(
+		url: string,
+		message: string,
+		statusCode?: number,
+		variant?: { code: string; recoveryHint: string }
+	) {
 		super(
 			message,
-			"NETWORK_ERROR",
-			statusCode === 404
-				? `The OpenAPI endpoint was not found. Verify the 'api_endpoint' in api.config.toml.`
-				: statusCode && statusCode >= 500
-					? "The server returned an error. Try again later or check if the API server is running."
-					: `Check your network connection and ensure the API endpoint is accessible: ${url}`
+			variant?.code ?? "NETWORK_ERROR",
+			variant?.recoveryHint ??
+				(statusCode === 404
+					? `The OpenAPI endpoint was not found. Verify the 'api_endpoint' in api.config.toml.`
+					: statusCode && statusCode >= 500
+						? "The server returned an error. Try again later or check if the API server is running."
+						: `Check your network connection and ensure the API endpoint is accessible: ${url}`)
 		);
 		this.name = "NetworkError";
 		this.url = url;
@@ -74,6 +84,71 @@ export class NetworkError extends ChowbeaAxiosError {
 	}
 }
 
+/**
+ * Thrown when a spec request exceeds `[fetch] timeout_ms`.
+ */
+export class FetchTimeoutError extends NetworkError {
+	public readonly timeoutMs: number;
+
+	constructor(url: string, timeoutMs: number) {
+		super(url, `Request timed out after ${timeoutMs}ms: ${url}`, undefined, {
+			code: "FETCH_TIMEOUT",
+			recoveryHint:
+				"The server did not respond in time. Check that it is running, or raise 'timeout_ms' under [fetch] in api.config.toml.",
+		});
+		this.name = "FetchTimeoutError";
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * Thrown when a spec response exceeds `[fetch] max_bytes`.
+ */
+export class SpecTooLargeError extends NetworkError {
+	public readonly maxBytes: number;
+
+	constructor(url: string, maxBytes: number) {
+		super(url, `Spec response exceeds the ${maxBytes}-byte limit: ${url}`, undefined, {
+			code: "SPEC_TOO_LARGE",
+			recoveryHint:
+				"Verify the endpoint serves the OpenAPI spec, or raise 'max_bytes' under [fetch] in api.config.toml.",
+		});
+		this.name = "SpecTooLargeError";
+		this.maxBytes = maxBytes;
+	}
+}
+
+/**
+ * Thrown when a spec request is cancelled through its `AbortSignal`.
+ */
+export class FetchAbortedError extends NetworkError {
+	constructor(url: string) {
+		super(url, `Request cancelled: ${url}`, undefined, {
+			code: "FETCH_ABORTED",
+			recoveryHint: "The fetch was cancelled before it finished. Run it again when ready.",
+		});
+		this.name = "FetchAbortedError";
+	}
+}
+
+/**
+ * Thrown when a `spec_command` fails, times out, or prints something that
+ * isn't a spec.
+ */
+export class SpecCommandError extends ChowbeaAxiosError {
+	public readonly command: string;
+
+	constructor(command: string, message: string) {
+		super(
+			`spec_command failed: ${message}`,
+			"SPEC_COMMAND_ERROR",
+			`Run \`${command}\` manually (from spec_command_cwd) and check that it prints the OpenAPI spec to stdout.`
+		);
+		this.name = "SpecCommandError";
+		this.command = command;
+	}
+}
+
 /**
  * Thrown when the OpenAPI spec file is missing locally.
  */
@@ -91,6 +166,43 @@ export class SpecNotFoundError extends ChowbeaAxiosError {
 	}
 }
 
+/**
+ * Thrown when an external `$ref` (another file or URL) can't be bundled
+ * into the spec. `file` is the document that contains the ref.
+ */
+export class SpecRefError extends ChowbeaAxiosError {
+	public readonly ref: string;
+	public readonly file: string;
+
+	constructor(ref: string, file: string, message: string) {
+		super(
+			`Unresolved $ref "${ref}" in ${file}: ${message}`,
+			"SPEC_REF_ERROR",
+			"Relative $refs resolve against the file that contains them. Check the referenced file exists and that the JSON pointer after '#' names an existing node."
+		);
+		this.name = "SpecRefError";
+		this.ref = ref;
+		this.file = file;
+	}
+}
+
+/**
+ * Thrown when an overlay listed in `overlays` can't be loaded or applied.
+ */
+export class OverlayError extends ChowbeaAxiosError {
+	public readonly overlayPath: string;
+
+	constructor(overlayPath: string, message: string) {
+		super(
+			`Overlay ${overlayPath}: ${message}`,
+			"OVERLAY_ERROR",
+			"Overlays must be OpenAPI Overlay 1.0 documents (overlay, info, actions), listed relative to the project root, with a JSONPath target on every action."
+		);
+		this.name = "OverlayError";
+		this.overlayPath = overlayPath;
+	}
+}
+
 /**
  * Thrown when the OpenAPI spec is invalid or cannot be parsed.
  */
@@ -142,6 +254,23 @@ export class OutputError extends ChowbeaAxiosError {
 	}
 }
 
+/**
+ * Thrown when the mock server can't listen on its address.
+ */
+export class MockServerError extends ChowbeaAxiosError {
+	public readonly address: string;
+
+	constructor(address: string, message: string) {
+		super(
+			`Mock server can't listen on ${address}: ${message}`,
+			"MOCK_SERVER_ERROR",
+			"Pick a free port with --port <number> (or another host with --host)."
+		);
+		this.name = "MockServerError";
+		this.address = address;
+	}
+}
+
 /**
  * Thrown when validation finds issues with the OpenAPI spec.
  */
@@ -202,6 +331,11 @@ export function formatError(error: unknown): string {
  * (isRecoverable refinement).
  */
 export function isRecoverable(error: unknown): boolean {
+	// Oversized and cancelled fetches fail the same way on every attempt.
+	if (error instanceof SpecTooLargeError || error instanceof FetchAbortedError) {
+		return false;
+	}
+
 	if (error instanceof NetworkError) {
 		const status = error.statusCode;
 		// No status → connection-level error; retry is the right move.
@@ -3,11 +3,30 @@
  * Supports graceful fallback to cached spec on network failures.
  */
 
+import { spawn } from "node:child_process";
 import { createHash } from "node:crypto";
-import { access, readFile, writeFile } from "node:fs/promises";
+import { access, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import { parse as parseYaml } from "yaml";
 
-import { NetworkError, SpecNotFoundError } from "./errors.js";
+import { bundleSpec, hasExternalRefs, type RefLoader } from "./bundler.js";
+import {
+	FetchAbortedError,
+	FetchTimeoutError,
+	NetworkError,
+	SpecCommandError,
+	SpecNotFoundError,
+	SpecRefError,
+	SpecTooLargeError,
+} from "./errors.js";
+import {
+	type AppliedOverlay,
+	applyOverlays,
+	type LoadedOverlay,
+	overlayFingerprint,
+} from "./overlay.js";
+import { convertSwagger2, isSwagger2 } from "./swagger2.js";
 import type { Logger } from "../adapters/logger-interface.js";
 
 /**
@@ -73,6 +92,102 @@ export function normalizeSpecBuffer(buffer: Buffer, sourceHint?: string): {
 	return { spec, jsonBuffer };
 }
 
+/**
+ * Turns a freshly parsed spec into the single OpenAPI 3 document the cache
+ * and generator expect, re-serializing only when something changed:
+ *
+ * 1. External `$ref`s (other files, other URLs) are bundled into the
+ *    document. `source` is where the spec came from — relative refs resolve
+ *    against it. Remote refs are fetched with `headers` only when they share
+ *    the spec's origin, so credentials never leak to a third-party host.
+ * 2. Swagger 2.0 is converted to OpenAPI 3.0; constructs without an exact
+ *    equivalent are reported as warnings through `logger`.
+ * 3. `overlays` are applied in order; targets that match nothing are
+ *    reported as warnings and recorded in the returned `overlays`.
+ */
+async function prepareSpec(
+	normalized: { spec: unknown; jsonBuffer: Buffer },
+	source: URL,
+	options: {
+		logger?: Logger;
+		overlays?: LoadedOverlay[];
+		headers?: Record<string, string>;
+		timeoutMs?: number;
+		maxBytes?: number;
+		signal?: AbortSignal;
+	} = {},
+): Promise<{
+	spec: unknown;
+	jsonBuffer: Buffer;
+	overlays?: AppliedOverlay[];
+}> {
+	let { spec } = normalized;
+	let changed = false;
+
+	if (hasExternalRefs(spec)) {
+		spec = await bundleSpec(spec, source, refLoader(source, options));
+		changed = true;
+	}
+
+	if (isSwagger2(spec)) {
+		const conversion = convertSwagger2(spec);
+		options.logger?.info("Converted Swagger 2.0 spec to OpenAPI 3.0");
+		for (const warning of conversion.warnings) {
+			options.logger?.warn(`Swagger 2.0 conversion: ${warning}`);
+		}
+		spec = conversion.spec;
+		changed = true;
+	}
+
+	let applied: AppliedOverlay[] | undefined;
+	if (options.overlays && options.overlays.length > 0) {
+		({ spec, applied } = applyOverlays(spec, options.overlays));
+		for (const overlay of applied) {
+			for (const target of overlay.unmatched) {
+				options.logger?.warn(`Overlay ${overlay.path}: target ${target} matched nothing`);
+			}
+		}
+		changed = true;
+	}
+
+	const prepared = changed
+		? { spec, jsonBuffer: Buffer.from(JSON.stringify(spec, null, 2), "utf8") }
+		: normalized;
+	return applied ? { ...prepared, overlays: applied } : prepared;
+}
+
+/**
+ * Loads `$ref` documents for the bundler: local files from disk, http(s)
+ * URLs with the same limits as the spec itself.
+ */
+function refLoader(
+	source: URL,
+	options: {
+		headers?: Record<string, string>;
+		timeoutMs?: number;
+		maxBytes?: number;
+		signal?: AbortSignal;
+	},
+): RefLoader {
+	return async (url) => {
+		if (url.protocol === "file:") {
+			const filePath = fileURLToPath(url);
+			return parseSpecContent(await readFile(filePath, "utf8"), filePath);
+		}
+		const sameOrigin = source.protocol !== "file:" && url.origin === source.origin;
+		const { buffer } = await requestSpec(url.href, {
+			headers: sameOrigin && options.headers ? options.headers : {},
+			timeoutMs: options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS,
+			maxBytes: options.maxBytes ?? DEFAULT_MAX_SPEC_BYTES,
+			signal: options.signal,
+		});
+		if (buffer === null) {
+			throw new Error("unexpected 304 Not Modified");
+		}
+		return parseSpecContent(buffer.toString("utf8"), url.pathname);
+	};
+}
+
 /**
  * Cache metadata stored in .api-cache.json
  */
@@ -83,6 +198,12 @@ export interface CacheMetadata {
 	timestamp: number;
 	/** The endpoint URL used to fetch the spec */
 	endpoint: string;
+	/** `ETag` response header, sent back as `If-None-Match` on the next fetch */
+	etag?: string;
+	/** `Last-Modified` response header, sent back as `If-Modified-Since` */
+	lastModified?: string;
+	/** Overlays applied to the cached spec, with their unmatched targets */
+	overlays?: AppliedOverlay[];
 }
 
 /**
@@ -97,6 +218,14 @@ export interface FetchResult {
 	hasChanged: boolean;
 	/** Whether this was loaded from cache due to network failure */
 	fromCache: boolean;
+	/** Whether the server answered 304 Not Modified (buffer is the cached spec) */
+	notModified?: boolean;
+	/** `ETag` returned by the server, if any */
+	etag?: string;
+	/** `Last-Modified` returned by the server, if any */
+	lastModified?: string;
+	/** Overlays applied to `buffer`; store them with the cache via saveSpec */
+	overlays?: AppliedOverlay[];
 }
 
 /**
@@ -117,6 +246,12 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
 	backoffMultiplier: 2,
 };
 
+/** Per-attempt request timeout when `[fetch] timeout_ms` is not set. */
+export const DEFAULT_FETCH_TIMEOUT_MS = 30_000;
+
+/** Response size cap when `[fetch] max_bytes` is not set (50 MiB). */
+export const DEFAULT_MAX_SPEC_BYTES = 50 * 1024 * 1024;
+
 /**
  * Interpolates environment variables in a string.
  *
@@ -166,10 +301,25 @@ export function computeHash(buffer: Buffer): string {
 }
 
 /**
- * Delays execution for the specified milliseconds.
+ * Delays execution for the specified milliseconds. Resolves early when
+ * `signal` aborts so a cancelled fetch doesn't sit out its retry backoff.
  */
-function delay(ms: number): Promise<void> {
-	return new Promise((resolve) => setTimeout(resolve, ms));
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
 }
 
 /**
@@ -252,9 +402,155 @@ function validateEndpointUrl(endpoint: string): URL {
 	return url;
 }
 
+/**
+ * Reads a response body chunk by chunk, aborting as soon as it grows past
+ * `maxBytes` instead of buffering an arbitrarily large payload. A declared
+ * `Content-Length` over the cap is rejected before reading anything.
+ */
+async function readBodyWithLimit(
+	response: Response,
+	endpoint: string,
+	maxBytes: number,
+): Promise<Buffer> {
+	const declared = Number(response.headers.get("content-length"));
+	if (Number.isFinite(declared) && declared > maxBytes) {
+		await response.body?.cancel();
+		throw new SpecTooLargeError(endpoint, maxBytes);
+	}
+
+	if (!response.body) {
+		return Buffer.alloc(0);
+	}
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		total += value.byteLength;
+		if (total > maxBytes) {
+			await reader.cancel();
+			throw new SpecTooLargeError(endpoint, maxBytes);
+		}
+		chunks.push(value);
+	}
+
+	return Buffer.concat(chunks, total);
+}
+
+/**
+ * Outcome of a single spec request. `buffer` is null when the server
+ * answered 304 Not Modified.
+ */
+interface SpecResponse {
+	buffer: Buffer | null;
+	etag?: string;
+	lastModified?: string;
+}
+
+/**
+ * Issues a single spec request bounded by `timeoutMs` (covering both the
+ * response headers and the body) and the caller's `signal`. Abort-driven
+ * failures are reported as `FetchAbortedError` / `FetchTimeoutError`.
+ */
+async function requestSpec(
+	endpoint: string,
+	options: {
+		headers: Record<string, string>;
+		timeoutMs: number;
+		maxBytes: number;
+		signal?: AbortSignal;
+	},
+): Promise<SpecResponse> {
+	const timeoutSignal = AbortSignal.timeout(options.timeoutMs);
+	const signal = options.signal
+		? AbortSignal.any([options.signal, timeoutSignal])
+		: timeoutSignal;
+
+	try {
+		const response = await fetch(endpoint, {
+			headers: options.headers,
+			signal,
+		});
+
+		const validators = {
+			etag: response.headers.get("etag") ?? undefined,
+			lastModified: response.headers.get("last-modified") ?? undefined,
+		};
+
+		if (response.status === 304) {
+			await response.body?.cancel();
+			return { buffer: null, ...validators };
+		}
+
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new NetworkError(
+				endpoint,
+				`HTTP ${response.status}: ${response.statusText}`,
+				response.status
+			);
+		}
+
+		const buffer = await readBodyWithLimit(response, endpoint, options.maxBytes);
+		return { buffer, ...validators };
+	} catch (error) {
+		if (options.signal?.aborted) {
+			throw new FetchAbortedError(endpoint);
+		}
+		if (timeoutSignal.aborted) {
+			throw new FetchTimeoutError(endpoint, options.timeoutMs);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Builds `If-None-Match` / `If-Modified-Since` headers from the validators
+ * stored for this endpoint. Returns nothing when the cache belongs to a
+ * different endpoint, was patched by a different set of overlays, or the
+ * cached spec itself is gone (a 304 would leave us with nothing to return).
+ */
+async function conditionalHeaders(
+	endpoint: string,
+	existingCache: CacheMetadata | null,
+	specPath: string,
+	overlays: LoadedOverlay[] | undefined,
+): Promise<Record<string, string>> {
+	if (!existingCache || existingCache.endpoint !== endpoint) return {};
+	if (!existingCache.etag && !existingCache.lastModified) return {};
+	if (overlayFingerprint(existingCache.overlays) !== overlayFingerprint(overlays)) {
+		return {};
+	}
+	try {
+		await access(specPath);
+	} catch {
+		return {};
+	}
+
+	return {
+		...(existingCache.etag ? { "If-None-Match": existingCache.etag } : {}),
+		...(existingCache.lastModified
+			? { "If-Modified-Since": existingCache.lastModified }
+			: {}),
+	};
+}
+
 /**
  * Fetches the OpenAPI spec from a remote endpoint with retry logic.
  * Falls back to cached spec on network failure.
+ *
+ * Unless `force` is set, the request is conditional on the `ETag` /
+ * `Last-Modified` validators saved with the cache; a 304 returns the cached
+ * spec as unchanged without re-downloading or re-parsing it. Servers that
+ * send no validators fall back to comparing content hashes.
+ *
+ * Each attempt is capped by `timeoutMs` and `maxBytes`. Oversized responses
+ * and cancellation via `signal` fail immediately — no retries and no cache
+ * fallback — while timeouts are retried like any other network failure.
  */
 export async function fetchOpenApiSpec(options: {
 	endpoint: string;
@@ -265,9 +561,26 @@ export async function fetchOpenApiSpec(options: {
 	retryConfig?: RetryConfig;
 	headers?: Record<string, string>;
 	auth?: { username: string; password: string };
+	/**
+	 * Pre-resolved auth headers (bearer, API key, OAuth2 token). Applied
+	 * verbatim after `headers` — no env interpolation — replacing any
+	 * header of the same name.
+	 */
+	authHeaders?: Record<string, string>;
+	/** Per-attempt timeout in ms (default: DEFAULT_FETCH_TIMEOUT_MS) */
+	timeoutMs?: number;
+	/** Maximum response size in bytes (default: DEFAULT_MAX_SPEC_BYTES) */
+	maxBytes?: number;
+	/** Cancels the fetch, including any pending retry */
+	signal?: AbortSignal;
+	/** OpenAPI Overlays applied to the spec before hashing */
+	overlays?: LoadedOverlay[];
 }): Promise<FetchResult> {
-	const { endpoint, specPath, cachePath, logger, force = false } = options;
+	const { endpoint, specPath, cachePath, logger, force = false, signal } =
+		options;
 	const retryConfig = options.retryConfig ?? DEFAULT_RETRY_CONFIG;
+	const timeoutMs = options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+	const maxBytes = options.maxBytes ?? DEFAULT_MAX_SPEC_BYTES;
 
 	// Reject malformed or non-http(s) URLs before issuing any network
 	// request. Issue #20.
@@ -302,36 +615,94 @@ export async function fetchOpenApiSpec(options: {
 		headers["Authorization"] = `Basic ${credentials}`;
 	}
 
+	if (options.authHeaders) {
+		for (const name of Object.keys(options.authHeaders)) {
+			for (const key of Object.keys(headers)) {
+				if (key.toLowerCase() === name.toLowerCase()) {
+					delete headers[key];
+				}
+			}
+		}
+		Object.assign(headers, options.authHeaders);
+	}
+
+	// Same-origin `$ref` documents are fetched with these headers — taken
+	// before the conditional validators, which only apply to the root spec.
+	const refHeaders = { ...headers };
+
 	// Load existing cache metadata
 	const existingCache = await loadCacheMetadata(cachePath);
+	if (!force) {
+		Object.assign(
+			headers,
+			await conditionalHeaders(
+				endpoint,
+				existingCache,
+				specPath,
+				options.overlays,
+			),
+		);
+	}
 
 	// Attempt to fetch with retries
 	let lastError: Error | null = null;
 
 	for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
+		if (signal?.aborted) {
+			throw new FetchAbortedError(endpoint);
+		}
+
 		try {
 			logger.debug({ attempt, endpoint }, "Fetching OpenAPI spec...");
 
-			const response = await fetch(endpoint, {
+			const response = await requestSpec(endpoint, {
 				headers,
+				timeoutMs,
+				maxBytes,
+				signal,
 			});
 
-			if (!response.ok) {
+			if (response.buffer === null) {
+				const cachedSpec = await loadCachedSpec(specPath);
+				if (cachedSpec && existingCache) {
+					logger.debug({ endpoint }, "Spec not modified (304)");
+					// The cached spec still stands, and with it its validators
+					// (a 304 may omit them) and the overlays applied to it.
+					return {
+						buffer: cachedSpec,
+						hash: existingCache.hash,
+						hasChanged: false,
+						fromCache: false,
+						notModified: true,
+						etag: response.etag ?? existingCache.etag,
+						lastModified: response.lastModified ?? existingCache.lastModified,
+						...(existingCache.overlays ? { overlays: existingCache.overlays } : {}),
+					};
+				}
 				throw new NetworkError(
 					endpoint,
-					`HTTP ${response.status}: ${response.statusText}`,
-					response.status
+					"Server answered 304 Not Modified but no cached spec is available"
 				);
 			}
 
-			const arrayBuffer = await response.arrayBuffer();
-			const rawBuffer = Buffer.from(arrayBuffer);
+			const rawBuffer = response.buffer;
 
 			// Normalize to JSON so the cache file and downstream parsers
 			// always see JSON, even when the endpoint serves YAML. Issue #23.
 			// We pass the endpoint as a hint so YAML extensions are picked up
 			// directly; for unknown content-types we fall back to JSON-then-YAML.
-			const { jsonBuffer } = normalizeSpecBuffer(rawBuffer, endpoint);
+			const { jsonBuffer, overlays } = await prepareSpec(
+				normalizeSpecBuffer(rawBuffer, endpoint),
+				new URL(endpoint),
+				{
+					logger,
+					overlays: options.overlays,
+					headers: refHeaders,
+					timeoutMs,
+					maxBytes,
+					signal,
+				},
+			);
 			const hash = computeHash(jsonBuffer);
 
 			// Check if content has changed
@@ -342,13 +713,49 @@ export async function fetchOpenApiSpec(options: {
 				"Spec fetched successfully"
 			);
 
+			// Callers only save metadata when the spec changed, so record
+			// newly-issued validators (and overlay edits that didn't change
+			// the result) here to keep the next poll conditional.
+			if (
+				!hasChanged &&
+				existingCache &&
+				(existingCache.etag !== response.etag ||
+					existingCache.lastModified !== response.lastModified ||
+					overlayFingerprint(existingCache.overlays) !==
+						overlayFingerprint(overlays))
+			) {
+				await saveCacheMetadata(cachePath, {
+					hash: existingCache.hash,
+					timestamp: existingCache.timestamp,
+					endpoint: existingCache.endpoint,
+					...(response.etag ? { etag: response.etag } : {}),
+					...(response.lastModified
+						? { lastModified: response.lastModified }
+						: {}),
+					...(overlays ? { overlays } : {}),
+				});
+			}
+
 			return {
 				buffer: jsonBuffer,
 				hash,
 				hasChanged,
 				fromCache: false,
+				etag: response.etag,
+				lastModified: response.lastModified,
+				...(overlays ? { overlays } : {}),
 			};
 		} catch (error) {
+			// Retrying can't shrink the spec, undo a cancellation or fix a
+			// broken $ref.
+			if (
+				error instanceof SpecTooLargeError ||
+				error instanceof FetchAbortedError ||
+				error instanceof SpecRefError
+			) {
+				throw error;
+			}
+
 			lastError = error instanceof Error ? error : new Error(String(error));
 
 			if (attempt < retryConfig.maxAttempts) {
@@ -366,7 +773,7 @@ export async function fetchOpenApiSpec(options: {
 					"Fetch failed, retrying..."
 				);
 
-				await delay(delayMs);
+				await delay(delayMs, signal);
 			}
 		}
 	}
@@ -390,13 +797,332 @@ export async function fetchOpenApiSpec(options: {
 		};
 	}
 
-	// No cache available - throw the network error
+	// No cache available - throw the network error. Timeouts keep their
+	// own variant so callers can tell a hung server from a refused one.
+	if (lastError instanceof FetchTimeoutError) {
+		throw lastError;
+	}
 	throw new NetworkError(
 		endpoint,
 		`Failed to fetch OpenAPI spec after ${retryConfig.maxAttempts} attempts: ${lastError?.message}`
 	);
 }
 
+/**
+ * Runs `command` through the shell and collects its stdout, enforcing the
+ * same timeout and size cap as a remote fetch. stderr is kept (tail only)
+ * for the error message when the command exits non-zero.
+ */
+function captureCommandOutput(
+	command: string,
+	cwd: string,
+	options: { timeoutMs: number; maxBytes: number; signal?: AbortSignal },
+): Promise<Buffer> {
+	const { timeoutMs, maxBytes, signal } = options;
+
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new FetchAbortedError(command));
+			return;
+		}
+
+		const child = spawn(command, {
+			cwd,
+			shell: true,
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+		const chunks: Buffer[] = [];
+		let total = 0;
+		let stderr = "";
+		let settled = false;
+
+		const settle = (error?: Error) => {
+			if (settled) return;
+			settled = true;
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+			if (error) {
+				// Don't wait for 'close' — a grandchild holding the pipe open
+				// would otherwise keep us hanging past the timeout.
+				child.kill();
+				child.stdout.destroy();
+				child.stderr.destroy();
+				reject(error);
+			} else {
+				resolve(Buffer.concat(chunks, total));
+			}
+		};
+
+		const timer = setTimeout(
+			() => settle(new SpecCommandError(command, `timed out after ${timeoutMs}ms`)),
+			timeoutMs,
+		);
+		const onAbort = () => settle(new FetchAbortedError(command));
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		child.stdout.on("data", (chunk: Buffer) => {
+			total += chunk.length;
+			if (total > maxBytes) {
+				settle(
+					new SpecCommandError(command, `output exceeds the ${maxBytes}-byte limit`),
+				);
+				return;
+			}
+			chunks.push(chunk);
+		});
+		child.stderr.on("data", (chunk: Buffer) => {
+			stderr = (stderr + chunk.toString("utf8")).slice(-2000);
+		});
+		child.on("error", (error) => settle(new SpecCommandError(command, error.message)));
+		child.on("close", (code, killSignal) => {
+			if (code === 0) {
+				settle();
+				return;
+			}
+			const detail = stderr.trim();
+			settle(
+				new SpecCommandError(
+					command,
+					`exited with ${code !== null ? `code ${code}` : `signal ${killSignal}`}${detail ? `: ${detail}` : ""}`,
+				),
+			);
+		});
+	});
+}
+
+/**
+ * Obtains the spec by running `spec_command` and reading its stdout (JSON
+ * or YAML). The result is hashed against the cache exactly like a remote
+ * fetch; unlike a fetch there are no retries and no cached fallback — a
+ * broken command fails the same way every time.
+ */
+export async function runSpecCommand(options: {
+	command: string;
+	cwd: string;
+	cachePath: string;
+	logger: Logger;
+	force?: boolean;
+	/** Kill the command after this many ms (default: DEFAULT_FETCH_TIMEOUT_MS) */
+	timeoutMs?: number;
+	/** Maximum stdout size in bytes (default: DEFAULT_MAX_SPEC_BYTES) */
+	maxBytes?: number;
+	signal?: AbortSignal;
+	/** OpenAPI Overlays applied to the spec before hashing */
+	overlays?: LoadedOverlay[];
+}): Promise<FetchResult> {
+	const { command, cwd, cachePath, logger, force = false } = options;
+
+	logger.debug({ command, cwd }, "Running spec command...");
+
+	const stdout = await captureCommandOutput(command, cwd, {
+		timeoutMs: options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS,
+		maxBytes: options.maxBytes ?? DEFAULT_MAX_SPEC_BYTES,
+		signal: options.signal,
+	});
+
+	let spec: unknown;
+	let jsonBuffer: Buffer;
+	try {
+		({ spec, jsonBuffer } = normalizeSpecBuffer(stdout));
+	} catch (error) {
+		throw new SpecCommandError(
+			command,
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+
+	// Stray log lines parse as a YAML scalar — reject anything that isn't a
+	// document so build noise on stdout doesn't get cached as the spec.
+	if (typeof spec !== "object" || spec === null || Array.isArray(spec)) {
+		throw new SpecCommandError(
+			command,
+			"output is not an OpenAPI document (print only the spec to stdout)",
+		);
+	}
+
+	// Relative $refs in the output resolve against the command's cwd.
+	let overlays: AppliedOverlay[] | undefined;
+	({ jsonBuffer, overlays } = await prepareSpec(
+		{ spec, jsonBuffer },
+		pathToFileURL(`${path.resolve(cwd)}${path.sep}`),
+		{
+			logger,
+			overlays: options.overlays,
+			timeoutMs: options.timeoutMs,
+			maxBytes: options.maxBytes,
+			signal: options.signal,
+		},
+	));
+
+	const existingCache = await loadCacheMetadata(cachePath);
+	const hash = computeHash(jsonBuffer);
+	const hasChanged = specHasChanged(existingCache, hash, overlays, force);
+
+	logger.debug(
+		{ hash, hasChanged, bytes: jsonBuffer.length },
+		"Spec command output captured"
+	);
+
+	return {
+		buffer: jsonBuffer,
+		hash,
+		hasChanged,
+		fromCache: false,
+		...(overlays ? { overlays } : {}),
+	};
+}
+
+/**
+ * Whether a locally produced spec differs from the cache. A different set
+ * of overlays counts as a change even when the result hashes the same, so
+ * the cache metadata records the overlays actually applied.
+ */
+function specHasChanged(
+	existingCache: CacheMetadata | null,
+	hash: string,
+	overlays: AppliedOverlay[] | undefined,
+	force: boolean,
+): boolean {
+	return (
+		force ||
+		!existingCache ||
+		existingCache.hash !== hash ||
+		overlayFingerprint(existingCache.overlays) !== overlayFingerprint(overlays)
+	);
+}
+
+/**
+ * OAuth2 access token cached in `_internal/.oauth-token.json`. The token is
+ * only reused for the same token URL, client and scopes.
+ */
+export interface OAuth2TokenCache {
+	tokenUrl: string;
+	clientId: string;
+	scope: string;
+	accessToken: string;
+	/** Epoch ms after which the token must be refreshed; absent = no expiry given */
+	expiresAt?: number;
+}
+
+/** Refresh tokens this long before they expire to absorb clock skew. */
+const OAUTH2_EXPIRY_MARGIN_MS = 60_000;
+
+async function loadOAuth2TokenCache(
+	cachePath: string,
+): Promise<OAuth2TokenCache | null> {
+	try {
+		const parsed = JSON.parse(await readFile(cachePath, "utf8")) as OAuth2TokenCache;
+		return typeof parsed.accessToken === "string" ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Obtains an access token via the OAuth2 client-credentials grant,
+ * reusing the cached token while it is still valid. The client
+ * credentials are sent in the form body (`client_secret_post`).
+ */
+export async function fetchOAuth2Token(options: {
+	tokenUrl: string;
+	clientId: string;
+	clientSecret: string;
+	scopes?: string[];
+	cachePath: string;
+	logger: Logger;
+	timeoutMs?: number;
+	signal?: AbortSignal;
+}): Promise<string> {
+	const { tokenUrl, clientId, clientSecret, cachePath, logger } = options;
+	const scope = (options.scopes ?? []).join(" ");
+
+	validateEndpointUrl(tokenUrl);
+
+	const cached = await loadOAuth2TokenCache(cachePath);
+	if (
+		cached &&
+		cached.tokenUrl === tokenUrl &&
+		cached.clientId === clientId &&
+		cached.scope === scope &&
+		(cached.expiresAt === undefined ||
+			cached.expiresAt - OAUTH2_EXPIRY_MARGIN_MS > Date.now())
+	) {
+		logger.debug({ tokenUrl }, "Using cached OAuth2 access token");
+		return cached.accessToken;
+	}
+
+	logger.debug({ tokenUrl }, "Requesting OAuth2 access token...");
+
+	const body = new URLSearchParams({
+		grant_type: "client_credentials",
+		client_id: clientId,
+		client_secret: clientSecret,
+	});
+	if (scope) body.set("scope", scope);
+
+	const timeoutMs = options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+	const timeoutSignal = AbortSignal.timeout(timeoutMs);
+	const signal = options.signal
+		? AbortSignal.any([options.signal, timeoutSignal])
+		: timeoutSignal;
+
+	let response: Response;
+	try {
+		response = await fetch(tokenUrl, {
+			method: "POST",
+			headers: {
+				Accept: "application/json",
+				"Content-Type": "application/x-www-form-urlencoded",
+			},
+			body,
+			signal,
+		});
+	} catch (error) {
+		if (options.signal?.aborted) throw new FetchAbortedError(tokenUrl);
+		if (timeoutSignal.aborted) throw new FetchTimeoutError(tokenUrl, timeoutMs);
+		throw new NetworkError(
+			tokenUrl,
+			`OAuth2 token request failed: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+
+	if (!response.ok) {
+		throw new NetworkError(
+			tokenUrl,
+			`OAuth2 token request failed: HTTP ${response.status}: ${response.statusText}`,
+			response.status
+		);
+	}
+
+	const payload = (await response.json().catch(() => null)) as {
+		access_token?: unknown;
+		expires_in?: unknown;
+	} | null;
+	if (typeof payload?.access_token !== "string") {
+		throw new NetworkError(
+			tokenUrl,
+			"OAuth2 token response did not include an access_token"
+		);
+	}
+
+	const token: OAuth2TokenCache = {
+		tokenUrl,
+		clientId,
+		scope,
+		accessToken: payload.access_token,
+		...(typeof payload.expires_in === "number"
+			? { expiresAt: Date.now() + payload.expires_in * 1000 }
+			: {}),
+	};
+	await mkdir(path.dirname(cachePath), { recursive: true });
+	await writeFile(cachePath, JSON.stringify(token, null, 2), {
+		encoding: "utf8",
+		mode: 0o600,
+	});
+
+	return token.accessToken;
+}
+
 /**
  * Saves the fetched spec and updates cache metadata.
  */
@@ -406,8 +1132,22 @@ export async function saveSpec(options: {
 	endpoint: string;
 	specPath: string;
 	cachePath: string;
+	/** HTTP validators from the response, stored for conditional fetches */
+	etag?: string;
+	lastModified?: string;
+	/** Overlays applied to `buffer` (FetchResult.overlays) */
+	overlays?: AppliedOverlay[];
 }): Promise<void> {
-	const { buffer, hash, endpoint, specPath, cachePath } = options;
+	const {
+		buffer,
+		hash,
+		endpoint,
+		specPath,
+		cachePath,
+		etag,
+		lastModified,
+		overlays,
+	} = options;
 
 	// Write spec file
 	await writeFile(specPath, buffer);
@@ -417,6 +1157,9 @@ export async function saveSpec(options: {
 		hash,
 		timestamp: Date.now(),
 		endpoint,
+		...(etag ? { etag } : {}),
+		...(lastModified ? { lastModified } : {}),
+		...(overlays ? { overlays } : {}),
 	});
 }
 
@@ -446,12 +1189,23 @@ export async function hasLocalSpec(specPath: string): Promise<boolean> {
  * buffer also gives stable cache keys regardless of YAML whitespace
  * variations. Issue #23.
  *
- * Throws `SpecNotFoundError` if the file doesn't exist, or a generic
- * `Error` if neither JSON nor YAML can parse the content.
+ * Multi-file specs are bundled: `$ref`s to other files (resolved relative
+ * to the file containing them) or URLs are hoisted into `components`, so
+ * the hash also changes when only a referenced file does. Swagger 2.0 is
+ * converted to OpenAPI 3.0, with conversion warnings sent to `logger`.
+ *
+ * Throws `SpecNotFoundError` if the file doesn't exist, `SpecRefError` if
+ * an external `$ref` can't be resolved, or a generic `Error` if neither
+ * JSON nor YAML can parse the content.
  */
-export async function loadLocalSpec(specPath: string): Promise<{
+export async function loadLocalSpec(
+	specPath: string,
+	options: { logger?: Logger; overlays?: LoadedOverlay[] } = {},
+): Promise<{
 	spec: unknown;
 	buffer: Buffer;
+	/** Overlays applied to the spec, when any were passed */
+	overlays?: AppliedOverlay[];
 }> {
 	try {
 		await access(specPath);
@@ -460,8 +1214,12 @@ export async function loadLocalSpec(specPath: string): Promise<{
 	}
 
 	const rawBuffer = await readFile(specPath);
-	const { spec, jsonBuffer } = normalizeSpecBuffer(rawBuffer, specPath);
-	return { spec, buffer: jsonBuffer };
+	const { spec, jsonBuffer, overlays } = await prepareSpec(
+		normalizeSpecBuffer(rawBuffer, specPath),
+		pathToFileURL(path.resolve(specPath)),
+		options,
+	);
+	return { spec, buffer: jsonBuffer, ...(overlays ? { overlays } : {}) };
 }
 
 /**
@@ -474,6 +1232,8 @@ export async function loadLocalSpecFile(options: {
 	cachePath: string;
 	logger: Logger;
 	force?: boolean;
+	/** OpenAPI Overlays applied to the spec before hashing */
+	overlays?: LoadedOverlay[];
 }): Promise<FetchResult> {
 	const { localPath, cachePath, logger, force = false } = options;
 
@@ -483,11 +1243,14 @@ export async function loadLocalSpecFile(options: {
 	const existingCache = await loadCacheMetadata(cachePath);
 
 	// Load and parse the local file
-	const { buffer } = await loadLocalSpec(localPath);
+	const { buffer, overlays } = await loadLocalSpec(localPath, {
+		logger,
+		overlays: options.overlays,
+	});
 	const hash = computeHash(buffer);
 
 	// Check if content has changed
-	const hasChanged = force || !existingCache || existingCache.hash !== hash;
+	const hasChanged = specHasChanged(existingCache, hash, overlays, force);
 
 	logger.debug({ hash, hasChanged, bytes: buffer.length }, "Local spec loaded");
 
@@ -496,5 +1259,6 @@ export async function loadLocalSpecFile(options: {
 		hash,
 		hasChanged,
 		fromCache: false,
+		...(overlays ? { overlays } : {}),
 	};
 }
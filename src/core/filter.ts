@@ -0,0 +1,204 @@
+/**
+ * Operation filtering for `[filter]` — narrows a large spec down to the
+ * operations a client actually uses before anything is generated.
+ *
+ * The cached spec is never filtered; `generate` filters its in-memory copy,
+ * so `diff`, `validate` and `inspect` keep seeing the whole API.
+ */
+
+import type { FilterConfig } from "./config.js";
+import { HTTP_METHODS } from "./http-methods.js";
+
+/**
+ * How many operations a filter kept and dropped.
+ */
+export interface FilterSummary {
+	kept: number;
+	dropped: number;
+}
+
+/**
+ * Converts a glob to an anchored RegExp. `*` and `?` stay within one path
+ * segment; `**` spans segments, and a trailing `/**` also matches the
+ * prefix itself (`/users/**` matches `/users`).
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i] as string;
+		if (glob.startsWith("/**", i) && i + 3 === glob.length) {
+			source += "(?:/.*)?";
+			break;
+		}
+		if (glob.startsWith("**", i)) {
+			source += ".*";
+			i++;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns true when the filter sets at least one list.
+ */
+export function isFilterActive(filter: FilterConfig | undefined): filter is FilterConfig {
+	return Boolean(filter && Object.values(filter).some((list) => list && list.length > 0));
+}
+
+/**
+ * Decides whether one operation survives the filter.
+ */
+function keepOperation(
+	filter: FilterConfig,
+	matchers: Record<"includePaths" | "excludePaths" | "includeIds" | "excludeIds", RegExp[]>,
+	pathKey: string,
+	pathItem: Record<string, unknown>,
+	operation: Record<string, unknown>,
+): boolean {
+	const tags = Array.isArray(operation.tags)
+		? operation.tags.filter((tag): tag is string => typeof tag === "string")
+		: [];
+	const operationId = typeof operation.operationId === "string" ? operation.operationId : "";
+
+	if (filter.include_tags && !tags.some((tag) => filter.include_tags?.includes(tag))) {
+		return false;
+	}
+	if (filter.include_paths && !matchers.includePaths.some((re) => re.test(pathKey))) {
+		return false;
+	}
+	if (
+		filter.include_operation_ids &&
+		!matchers.includeIds.some((re) => re.test(operationId))
+	) {
+		return false;
+	}
+
+	if (tags.some((tag) => filter.exclude_tags?.includes(tag))) return false;
+	if (matchers.excludePaths.some((re) => re.test(pathKey))) return false;
+	if (operationId && matchers.excludeIds.some((re) => re.test(operationId))) return false;
+	if (
+		filter.exclude_extensions?.some(
+			(extension) => Boolean(operation[extension]) || Boolean(pathItem[extension]),
+		)
+	) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Collects the names of every `#/components/schemas/*` reachable from the
+ * document outside `components.schemas`, following schema-to-schema refs.
+ */
+function reachableSchemas(spec: Record<string, unknown>): Set<string> {
+	const components = (spec.components ?? {}) as Record<string, unknown>;
+	const schemas = (components.schemas ?? {}) as Record<string, unknown>;
+	const reached = new Set<string>();
+	const pending: unknown[] = [
+		{ ...spec, components: { ...components, schemas: undefined } },
+	];
+
+	while (pending.length > 0) {
+		const node = pending.pop();
+		if (Array.isArray(node)) {
+			pending.push(...node);
+			continue;
+		}
+		if (node === null || typeof node !== "object") continue;
+
+		const ref = (node as Record<string, unknown>).$ref;
+		if (typeof ref === "string" && ref.startsWith("#/components/schemas/")) {
+			const name = ref
+				.slice("#/components/schemas/".length)
+				.replace(/~1/g, "/")
+				.replace(/~0/g, "~");
+			if (!reached.has(name)) {
+				reached.add(name);
+				pending.push(schemas[name]);
+			}
+		}
+		pending.push(...Object.values(node));
+	}
+
+	return reached;
+}
+
+/**
+ * Removes the operations `filter` rejects, then the component schemas
+ * that only the removed operations used. Schemas that were already
+ * unreferenced are kept — they may be used through `ServerModel`.
+ *
+ * Path items left without operations are removed. Returns the input
+ * unchanged when the filter is inactive.
+ */
+export function filterSpec(
+	spec: unknown,
+	filter: FilterConfig | undefined,
+): { spec: unknown; summary: FilterSummary } {
+	const summary: FilterSummary = { kept: 0, dropped: 0 };
+	if (spec === null || typeof spec !== "object") return { spec, summary };
+
+	const root = spec as Record<string, unknown>;
+	const paths = (root.paths ?? {}) as Record<string, unknown>;
+
+	if (!isFilterActive(filter)) {
+		for (const pathItem of Object.values(paths)) {
+			if (typeof pathItem !== "object" || pathItem === null) continue;
+			for (const method of HTTP_METHODS) {
+				if ((pathItem as Record<string, unknown>)[method]) summary.kept++;
+			}
+		}
+		return { spec, summary };
+	}
+
+	const matchers = {
+		includePaths: (filter.include_paths ?? []).map(globToRegExp),
+		excludePaths: (filter.exclude_paths ?? []).map(globToRegExp),
+		includeIds: (filter.include_operation_ids ?? []).map(globToRegExp),
+		excludeIds: (filter.exclude_operation_ids ?? []).map(globToRegExp),
+	};
+
+	const filteredPaths: Record<string, unknown> = {};
+	for (const [pathKey, pathItem] of Object.entries(paths)) {
+		if (typeof pathItem !== "object" || pathItem === null) continue;
+		const item = { ...(pathItem as Record<string, unknown>) };
+		let remaining = 0;
+
+		for (const method of HTTP_METHODS) {
+			const operation = item[method];
+			if (!operation || typeof operation !== "object") continue;
+			if (keepOperation(filter, matchers, pathKey, item, operation as Record<string, unknown>)) {
+				summary.kept++;
+				remaining++;
+			} else {
+				summary.dropped++;
+				delete item[method];
+			}
+		}
+
+		if (remaining > 0) filteredPaths[pathKey] = item;
+	}
+
+	const filtered: Record<string, unknown> = { ...root, paths: filteredPaths };
+	const components = root.components as Record<string, unknown> | undefined;
+	const schemas = components?.schemas as Record<string, unknown> | undefined;
+
+	if (summary.dropped > 0 && schemas) {
+		const before = reachableSchemas(root);
+		const after = reachableSchemas(filtered);
+		filtered.components = {
+			...components,
+			schemas: Object.fromEntries(
+				Object.entries(schemas).filter(([name]) => !before.has(name) || after.has(name)),
+			),
+		};
+	}
+
+	return { spec: filtered, summary };
+}
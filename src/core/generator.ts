@@ -6,13 +6,17 @@
 import {
 	access,
 	copyFile,
+	mkdir,
+	readdir,
 	readFile,
 	rename,
+	rm,
 	unlink,
 	writeFile,
 } from "node:fs/promises";
-import openapiTS, { astToString } from "openapi-typescript";
-import type { OpenAPITSOptions } from "openapi-typescript";
+import { dirname, join } from "node:path";
+import openapiTS, { astToString, stringToAST } from "openapi-typescript";
+import type { OpenAPI3, OpenAPITSOptions, TransformObject } from "openapi-typescript";
 
 /**
  * Hooks that consumers can supply to modify the openapi-typescript output.
@@ -30,15 +34,27 @@ export type GenerationHooks = Pick<
 	OpenAPITSOptions,
 	"transform" | "postTransform" | "transformProperty"
 >;
-import type { InstanceConfig, OutputPaths } from "./config.js";
+import {
+	DEFAULT_FALLBACK_GROUP,
+	type FilterConfig,
+	type InstanceConfig,
+	type OperationsConfig,
+	type OutputPaths,
+	RUNTIME_SCALARS,
+	type ScalarsConfig,
+	type Transport,
+	type ValidationConfig,
+} from "./config.js";
 import { GenerationError } from "./errors.js";
+import { type FilterSummary, filterSpec, isFilterActive } from "./filter.js";
 import type { Logger } from "../adapters/logger-interface.js";
 import {
 	GENERATABLE_HTTP_METHODS,
 	HTTP_METHODS,
 	isGeneratableMethod,
 } from "./http-methods.js";
-import { pickJsonContent } from "./ref-utils.js";
+import { collectMockOperations } from "./mock-data.js";
+import { pickJsonContent, resolveRef } from "./ref-utils.js";
 
 /**
  * Output paths for generated files.
@@ -74,8 +90,16 @@ export interface GenerationResult {
 	operationsGenerated: boolean;
 	/** Whether contracts were generated successfully */
 	contractsGenerated: boolean;
+	/** Whether zod schemas were generated (with `output.zod` or `[validation]`) */
+	schemasGenerated: boolean;
+	/** Whether TanStack Query options were generated (only with `output.tanstack_query`) */
+	queriesGenerated: boolean;
+	/** Whether MSW handlers were generated (only with `output.msw`) */
+	mocksGenerated: boolean;
 	/** Client files generated (if any) */
 	clientFiles?: ClientFilesResult;
+	/** Operations kept and dropped by `[filter]`, when one is configured */
+	filter?: FilterSummary;
 }
 
 /**
@@ -91,7 +115,16 @@ function extractPathParams(pathTemplate: string): string[] {
  * OpenAPI operation metadata extracted from spec.
  */
 interface OperationMetadata {
+	/** Unique across the spec; names the operation's contracts */
 	operationId: string;
+	/** Key within `namespace` — the operationId as the spec wrote it */
+	name: string;
+	/** `[operations] group_by = "tag"`: the namespace holding this operation */
+	namespace?: string;
+	/** The operation's first tag as an identifier (or the fallback group); its `split_by_tag` folder */
+	group: string;
+	/** The spec has no operationId; `[operations] naming` made this one up */
+	synthesized?: boolean;
 	method: string;
 	path: string;
 	pathParams: string[];
@@ -105,11 +138,305 @@ interface OperationMetadata {
 }
 
 /**
- * Generates a single operation function.
+ * Runtime validation baked into api.operations.ts by `[validation]`.
+ */
+interface OperationValidation {
+	mode: "warn" | "enforce";
+	requestBodies: boolean;
+	/** `instance.env_accessor`, used to detect production builds in warn mode */
+	envAccessor: string;
+}
+
+/**
+ * Resolves `[validation]` into the settings the operations file needs, or
+ * undefined when validation is off.
+ */
+function resolveOperationValidation(
+	validation: ValidationConfig | undefined,
+	envAccessor: string,
+): OperationValidation | undefined {
+	if (!validation || validation.mode === "off") return undefined;
+	if (!ALLOWED_ENV_ACCESSORS.has(envAccessor)) {
+		const allowed = [...ALLOWED_ENV_ACCESSORS].map((a) => `"${a}"`).join(", ");
+		throw new GenerationError(
+			"validation",
+			`Invalid env_accessor ${JSON.stringify(envAccessor)} — must be one of ${allowed}. Update [instance].env_accessor in api.config.toml.`,
+		);
+	}
+	return {
+		mode: validation.mode,
+		requestBodies: validation.request_bodies ?? false,
+		envAccessor,
+	};
+}
+
+/**
+ * Where `[scalars]` values sit in a payload: a format name for the value
+ * itself, or the properties / array items / map values holding them.
+ * `ref` names a shared plan (recursive schemas).
+ */
+type ScalarPlan =
+	| string
+	| { properties?: Record<string, ScalarPlan>; items?: ScalarPlan; values?: ScalarPlan; ref?: string };
+
+/** The scalar plans of one operation, by the part of the request they cover. */
+interface OperationScalarPlans {
+	response?: ScalarPlan;
+	body?: ScalarPlan;
+	pathParams?: ScalarPlan;
+	params?: ScalarPlan;
+}
+
+/**
+ * Runtime conversions baked into api.operations.ts by `[scalars]`.
+ */
+interface OperationScalars {
+	/** Formats converted at runtime → their target ("Date" or "bigint") */
+	codecs: Map<string, string>;
+	/** Plans by operationId; operations without scalars are absent */
+	plans: Map<string, OperationScalarPlans>;
+	/** Plans of recursive schemas, by schema name */
+	shared: Map<string, ScalarPlan>;
+}
+
+/** Formats whose brands wrap `number` rather than `string`. */
+const NUMERIC_FORMATS = new Set(["int32", "int64", "float", "double"]);
+
+/**
+ * The type a non-runtime `[scalars]` target brands:
+ * `string & { readonly __brand: "Uuid" }`.
+ */
+function scalarBrand(format: string, target: string): string {
+	return `${NUMERIC_FORMATS.has(format) ? "number" : "string"} & { readonly __brand: ${JSON.stringify(target)} }`;
+}
+
+/**
+ * The `[scalars]` type of a primitive schema, or undefined when its format
+ * isn't mapped. `brands` picks between the brand's name (contracts) and
+ * its inline type (api.types.ts).
+ */
+function scalarType(
+	schema: Record<string, unknown>,
+	scalars: ScalarsConfig | undefined,
+	brands: "named" | "inline",
+): string | undefined {
+	const format = schema.format;
+	if (typeof format !== "string" || !scalars || !Object.hasOwn(scalars, format)) return undefined;
+	const types = [schema.type].flat();
+	if (!types.some((type) => type === "string" || type === "number" || type === "integer")) return undefined;
+	const target = scalars[format] as string;
+	if ((RUNTIME_SCALARS as readonly string[]).includes(target) || brands === "named") return target;
+	return scalarBrand(format, target);
+}
+
+/**
+ * Adds a `transform` hook typing `[scalars]` formats in api.types.ts. A
+ * consumer's own `transform` runs first and wins when it returns a type.
+ */
+function withScalarTypes(hooks: GenerationHooks, scalars: ScalarsConfig | undefined): GenerationHooks {
+	if (!scalars || Object.keys(scalars).length === 0) return hooks;
+	const consumerTransform = hooks.transform;
+	return {
+		...hooks,
+		transform: (schemaObject, options) => {
+			const custom = consumerTransform?.(schemaObject, options);
+			if (custom) return custom;
+			const schema = schemaObject as unknown as Record<string, unknown>;
+			const type = scalarType(schema, scalars, "inline");
+			if (!type) return undefined;
+			const nullable = schema.nullable === true || [schema.type].flat().includes("null");
+			const [alias] = stringToAST(`type T = ${nullable ? `${type} | null` : type};`) as Array<{
+				type: Exclude<ReturnType<NonNullable<GenerationHooks["transform"]>>, TransformObject | undefined>;
+			}>;
+			return alias?.type;
+		},
+	};
+}
+
+/**
+ * Combines the plans of `allOf`/`oneOf`/`anyOf` members. Conversions only
+ * apply to values of the matching runtime type, so a union's plans can be
+ * overlaid; on a conflict the first member wins.
+ */
+function mergeScalarPlans(a: ScalarPlan | undefined, b: ScalarPlan | undefined): ScalarPlan | undefined {
+	if (a === undefined) return b;
+	if (b === undefined || typeof a === "string" || typeof b === "string" || a.ref || b.ref) return a;
+	const properties = { ...b.properties };
+	for (const [key, plan] of Object.entries(a.properties ?? {})) {
+		properties[key] = mergeScalarPlans(plan, properties[key]) as ScalarPlan;
+	}
+	const items = mergeScalarPlans(a.items, b.items);
+	const values = mergeScalarPlans(a.values, b.values);
+	return {
+		...(Object.keys(properties).length > 0 ? { properties } : {}),
+		...(items !== undefined ? { items } : {}),
+		...(values !== undefined ? { values } : {}),
+	};
+}
+
+/**
+ * Builds the plan locating runtime-converted formats in a schema, or
+ * undefined when it holds none. A `$ref` back into a schema on the stack
+ * becomes `{ ref }`, and the name is added to `shared`.
+ */
+function buildScalarPlan(
+	schema: unknown,
+	context: {
+		allSchemas: Record<string, unknown>;
+		allComponents: Record<string, unknown> | undefined;
+		codecs: Map<string, string>;
+		shared: Set<string>;
+	},
+	visited: Set<string> = new Set(),
+): ScalarPlan | undefined {
+	if (!schema || typeof schema !== "object") return undefined;
+	const obj = schema as Record<string, unknown>;
+	const recurse = (child: unknown) => buildScalarPlan(child, context, visited);
+
+	if (typeof obj.$ref === "string") {
+		const parsed = parseComponentRef(obj.$ref);
+		if (!parsed) return undefined;
+		if (parsed.kind === "schemas") {
+			if (visited.has(parsed.name)) {
+				context.shared.add(parsed.name);
+				return { ref: parsed.name };
+			}
+			return buildScalarPlan(context.allSchemas[parsed.name], context, new Set([...visited, parsed.name]));
+		}
+		const component = (context.allComponents?.[parsed.kind] as Record<string, unknown> | undefined)?.[parsed.name];
+		return recurse(extractInnerSchema(component, parsed.kind));
+	}
+
+	if (typeof obj.format === "string" && context.codecs.has(obj.format)) return obj.format;
+
+	let plan: ScalarPlan | undefined;
+	for (const member of [obj.allOf, obj.oneOf, obj.anyOf].flat()) {
+		plan = mergeScalarPlans(plan, recurse(member));
+	}
+
+	const items = recurse(obj.items);
+	const values = typeof obj.additionalProperties === "object" ? recurse(obj.additionalProperties) : undefined;
+	const properties: Record<string, ScalarPlan> = {};
+	for (const [key, propSchema] of Object.entries((obj.properties ?? {}) as Record<string, unknown>)) {
+		const propPlan = recurse(propSchema);
+		// With a `values` plan every named property needs an entry, so
+		// the map plan isn't applied to them.
+		if (propPlan !== undefined || values !== undefined) properties[key] = propPlan ?? {};
+	}
+	const own: ScalarPlan | undefined =
+		items !== undefined || values !== undefined || Object.keys(properties).length > 0
+			? {
+					...(Object.keys(properties).length > 0 ? { properties } : {}),
+					...(items !== undefined ? { items } : {}),
+					...(values !== undefined ? { values } : {}),
+				}
+			: undefined;
+	return mergeScalarPlans(own, plan);
+}
+
+/**
+ * Resolves `[scalars]` into the plans the operations file needs, or
+ * undefined when no operation has a value to convert.
+ */
+function resolveOperationScalars(
+	scalars: ScalarsConfig | undefined,
+	spec: unknown,
+	operations: OperationMetadata[],
+): OperationScalars | undefined {
+	const codecs = new Map(
+		Object.entries(scalars ?? {}).filter(([, target]) => (RUNTIME_SCALARS as readonly string[]).includes(target)),
+	);
+	if (codecs.size === 0 || !spec || typeof spec !== "object") return undefined;
+
+	const specObj = spec as Record<string, unknown>;
+	const allComponents = specObj.components as Record<string, unknown> | undefined;
+	const allSchemas = (allComponents?.schemas ?? {}) as Record<string, unknown>;
+	const sharedNames = new Set<string>();
+	const context = { allSchemas, allComponents, codecs, shared: sharedNames };
+
+	const plans = new Map<string, OperationScalarPlans>();
+	for (const op of operations) {
+		const plan: OperationScalarPlans = {};
+		const response =
+			op.responseStatus !== null
+				? buildScalarPlan(resolveOperationSchema(specObj, op.operationId, "response", op.responseStatus), context)
+				: undefined;
+		const body = op.hasRequestBody
+			? buildScalarPlan(
+					resolveOperationSchema(
+						specObj,
+						op.operationId,
+						"requestBody",
+						undefined,
+						op.hasJsonBody ? "application/json" : "multipart/form-data",
+					),
+					context,
+				)
+			: undefined;
+		const pathParams =
+			op.pathParams.length > 0
+				? buildScalarPlan(resolveOperationSchema(specObj, op.operationId, "pathParams"), context)
+				: undefined;
+		const params = op.hasQueryParams
+			? buildScalarPlan(resolveOperationSchema(specObj, op.operationId, "queryParams"), context)
+			: undefined;
+		if (response !== undefined) plan.response = response;
+		if (body !== undefined) plan.body = body;
+		if (pathParams !== undefined) plan.pathParams = pathParams;
+		if (params !== undefined) plan.params = params;
+		if (Object.keys(plan).length > 0) plans.set(op.operationId, plan);
+	}
+	if (plans.size === 0) return undefined;
+
+	// Shared plans can reference further recursive schemas.
+	const shared = new Map<string, ScalarPlan>();
+	for (let pending = [...sharedNames]; pending.length > 0; pending = [...sharedNames].filter((n) => !shared.has(n))) {
+		for (const name of pending) {
+			shared.set(name, buildScalarPlan(allSchemas[name], context, new Set([name])) ?? {});
+		}
+	}
+
+	return { codecs, plans, shared };
+}
+
+/** The request config type of each `[instance] transport`. */
+const REQUEST_CONFIG_TYPES: Record<Transport, string> = {
+	axios: "AxiosRequestConfig",
+	fetch: "FetchRequestConfig",
+};
+
+/** The shared instance api.instance.ts exports for each `[instance] transport`. */
+const INSTANCE_NAMES: Record<Transport, string> = {
+	axios: "axiosInstance",
+	fetch: "fetchInstance",
+};
+
+/**
+ * Imports `REQUEST_CONFIG_TYPES[transport]` into a generated file; `root`
+ * is the output folder relative to that file. The fetch transport
+ * declares its config in api.instance.ts, so nothing imports axios.
+ */
+function requestConfigImport(transport: Transport, root: string): string {
+	return transport === "fetch"
+		? `import type { FetchRequestConfig } from "${root}/api.instance"`
+		: `import type { AxiosRequestConfig } from "axios"`;
+}
+
+/**
+ * Generates a single operation function: a `createOperations` member, or
+ * with `standalone` an exported const for a `split_by_tag` file that
+ * sends through `request()` from api.request.ts.
  */
-function generateOperationFunction(operation: OperationMetadata): string {
+function generateOperationFunction(
+	operation: OperationMetadata,
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	standalone = false,
+	transport: Transport = "axios",
+): string {
 	const {
 		operationId,
+		name,
 		method,
 		path: pathTemplate,
 		pathParams,
@@ -145,28 +472,29 @@ function generateOperationFunction(operation: OperationMetadata): string {
 	// Config parameter (always last and optional)
 	const configType = hasQueryParams
 		? `RequestConfig<${contractBase}QueryParams>`
-		: `AxiosRequestConfig`;
+		: REQUEST_CONFIG_TYPES[transport];
 	params.push(`config?: ${configType}`);
 
 	// Generate JSDoc comment. Every interpolated user-controlled string is
 	// run through escapeJsdoc so a `*/` in a description/path/operationId
 	// can't close the comment early and leak content into code position.
+	const pad = standalone ? "" : "  ";
 	const jsdoc: string[] = [];
-	jsdoc.push("  /**");
+	jsdoc.push(`${pad}/**`);
 	if (summary) {
-		jsdoc.push(`   * ${escapeJsdoc(summary)}`);
+		jsdoc.push(`${pad} * ${escapeJsdoc(summary)}`);
 	}
 	if (description && description !== summary) {
-		jsdoc.push(`   * ${escapeJsdoc(description)}`);
+		jsdoc.push(`${pad} * ${escapeJsdoc(description)}`);
 	}
-	jsdoc.push("   * ");
-	jsdoc.push(`   * @operationId ${escapeJsdoc(operationId)}`);
-	jsdoc.push(`   * @method ${method.toUpperCase()}`);
-	jsdoc.push(`   * @path ${escapeJsdoc(pathTemplate)}`);
+	jsdoc.push(`${pad} * `);
+	jsdoc.push(`${pad} * @operationId ${escapeJsdoc(name)}`);
+	jsdoc.push(`${pad} * @method ${method.toUpperCase()}`);
+	jsdoc.push(`${pad} * @path ${escapeJsdoc(pathTemplate)}`);
 	if (pathParams.length > 0) {
-		jsdoc.push("   * @remarks Path parameter values are URL-encoded by the underlying HTTP layer (axios) before the request is dispatched. Callers may pass raw values.");
+		jsdoc.push(`${pad} * @remarks Path parameter values are URL-encoded by the underlying HTTP layer (${transport}) before the request is dispatched. Callers may pass raw values.`);
 	}
-	jsdoc.push("   */");
+	jsdoc.push(`${pad} */`);
 
 	// Generate function with explicit return type - uses Result<T> for consistent error handling.
 	// Named response contract is only emitted when a 2xx JSON response exists; otherwise fall back to unknown.
@@ -179,13 +507,34 @@ function generateOperationFunction(operation: OperationMetadata): string {
 	// properly escaped as a TS string literal (defense in depth — paths in
 	// real specs rarely contain these, but malformed/malicious specs could).
 	const pathLiteral = JSON.stringify(pathTemplate);
+
+	// With `[scalars]`, Date/bigint values are serialized on the way out
+	// and revived in the response, per the operation's plans. Standalone
+	// functions carry their plans inline so unused ones are dropped too.
+	const scalarPlans = scalars?.plans.get(operationId);
+	const plan = (part: keyof OperationScalarPlans) =>
+		standalone
+			? JSON.stringify(scalarPlans?.[part])
+			: `operationScalars${formatPropertyAccess(operationId)}.${part}`;
+	const dataArg = scalarPlans?.body ? `serialized(data, ${plan("body")})` : "data";
+	const pathParamsArg = scalarPlans?.pathParams ? `serialized(pathParams, ${plan("pathParams")})` : "pathParams";
+	const configArg = scalarPlans?.params ? `serializedParams(config, ${plan("params")})` : "config";
+	const property = (key: string, value: string) => (key === value ? key : `${key}: ${value}`);
+
 	let apiCall: string;
-	if (hasRequestBody) {
+	if (standalone) {
+		const init = [
+			...(pathParams.length > 0 ? [property("pathParams", pathParamsArg)] : []),
+			...(hasRequestBody ? [property("data", dataArg)] : []),
+			property("config", configArg),
+		];
+		apiCall = `request(${JSON.stringify(httpMethod)}, ${pathLiteral}, { ${init.join(", ")} })`;
+	} else if (hasRequestBody) {
 		// POST/PUT/PATCH with body
 		if (pathParams.length > 0) {
-			apiCall = `apiClient.${httpMethod}(${pathLiteral}, data, pathParams, config)`;
+			apiCall = `apiClient.${httpMethod}(${pathLiteral}, ${dataArg}, ${pathParamsArg}, ${configArg})`;
 		} else {
-			apiCall = `apiClient.${httpMethod}(${pathLiteral}, data, config)`;
+			apiCall = `apiClient.${httpMethod}(${pathLiteral}, ${dataArg}, ${configArg})`;
 		}
 	} else {
 		// POST/PUT/PATCH share a `(url, data, ...args)` runtime signature, so a
@@ -195,28 +544,59 @@ function generateOperationFunction(operation: OperationMetadata): string {
 			httpMethod === "post" || httpMethod === "put" || httpMethod === "patch";
 		if (needsDataSlot) {
 			if (pathParams.length > 0) {
-				apiCall = `apiClient.${httpMethod}(${pathLiteral}, undefined, pathParams, config)`;
+				apiCall = `apiClient.${httpMethod}(${pathLiteral}, undefined, ${pathParamsArg}, ${configArg})`;
 			} else {
-				apiCall = `apiClient.${httpMethod}(${pathLiteral}, undefined, config)`;
+				apiCall = `apiClient.${httpMethod}(${pathLiteral}, undefined, ${configArg})`;
 			}
 		} else if (pathParams.length > 0) {
-			apiCall = `apiClient.${httpMethod}(${pathLiteral}, pathParams, config)`;
+			apiCall = `apiClient.${httpMethod}(${pathLiteral}, ${pathParamsArg}, ${configArg})`;
 		} else {
-			apiCall = `apiClient.${httpMethod}(${pathLiteral}, config)`;
+			apiCall = `apiClient.${httpMethod}(${pathLiteral}, ${configArg})`;
 		}
 	}
 
+	// With `[validation]` on, the call is routed through `validated()` with
+	// the zod schemas named like the contracts. Schemas are gated on the
+	// same conditions as the contract imports so they always exist.
+	const checks: string[] = [];
+	if (validation && responseStatus !== null) {
+		checks.push(`response: schemas.${contractBase}Response`);
+	}
+	if (
+		validation?.requestBodies &&
+		(operation.hasJsonBody || operation.hasFormDataBody)
+	) {
+		// Bodies are checked in their wire form, like responses.
+		checks.push(`body: { schema: schemas.${contractBase}Body, ${property("data", dataArg)} }`);
+	}
+	if (checks.length > 0) {
+		const request = `{ method: ${JSON.stringify(method.toUpperCase())}, url: ${pathLiteral} }`;
+		apiCall = `validated(${request}, () => ${apiCall}, { ${checks.join(", ")} })`;
+	}
+	if (scalarPlans?.response) {
+		apiCall = `revived(${apiCall}, ${plan("response")})`;
+	}
+
+	if (standalone) {
+		return `${jsdoc.join("\n")}
+export const ${sanitizeIdentifier(operationId)} = (${functionParams}): ${returnType} => ${apiCall}\n`;
+	}
+
 	// Quote operation key when it isn't a valid bare JS identifier (e.g.
 	// kebab-case operationIds like `get-user`). Without this the emitted
 	// object literal is syntactically invalid TypeScript. Issue #13.
 	return `${jsdoc.join("\n")}
-  ${formatPropertyKey(operationId)}: (${functionParams}): ${returnType} => ${apiCall},\n`;
+  ${formatPropertyKey(name)}: (${functionParams}): ${returnType} => ${apiCall},\n`;
 }
 
 /**
  * Parses the OpenAPI spec and extracts all operations with operationIds.
  */
-function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
+function parseOperations(
+	spec: unknown,
+	logger: Logger,
+	operationsConfig?: OperationsConfig,
+): OperationMetadata[] {
 	const operations: OperationMetadata[] = [];
 
 	if (typeof spec !== "object" || spec === null) {
@@ -232,6 +612,20 @@ function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
 		return operations;
 	}
 
+	// Synthesized names avoid every operationId the spec sets, wherever it
+	// appears, and each other: the first `getUsers` stays, later ones get
+	// a numeric suffix (`getUsers2`), in spec order.
+	const naming = operationsConfig?.naming !== "skip" ? operationsConfig?.naming : undefined;
+	const takenNames = new Set<string>();
+	if (naming) {
+		for (const pathItem of Object.values(paths)) {
+			for (const method of HTTP_METHODS) {
+				const id = (pathItem?.[method] as Record<string, unknown> | undefined)?.operationId;
+				if (typeof id === "string") takenNames.add(sanitizeIdentifier(id));
+			}
+		}
+	}
+
 	// Iterate through all paths
 	for (const [pathTemplate, pathItem] of Object.entries(paths)) {
 		// Walk every HTTP method on this path. As of #31 the runtime
@@ -261,13 +655,29 @@ function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
 				continue;
 			}
 
-			// Skip operations without operationId
-			if (!operation.operationId || typeof operation.operationId !== "string") {
-				logger.warn(
-					{ method: method.toUpperCase(), path: pathTemplate },
-					"Skipping operation without operationId"
+			// Name operations without operationId, or skip them
+			let operationId: string;
+			let synthesized = false;
+			if (operation.operationId && typeof operation.operationId === "string") {
+				operationId = operation.operationId;
+			} else {
+				if (!naming) {
+					logger.warn(
+						{ method: method.toUpperCase(), path: pathTemplate },
+						"Skipping operation without operationId"
+					);
+					continue;
+				}
+				const base = synthesizeOperationId(method, pathTemplate, naming);
+				let name = base;
+				for (let n = 2; takenNames.has(sanitizeIdentifier(name)); n++) name = `${base}${n}`;
+				takenNames.add(sanitizeIdentifier(name));
+				operationId = name;
+				synthesized = true;
+				logger.debug(
+					{ method: method.toUpperCase(), path: pathTemplate, operationId: name },
+					"Named operation without operationId",
 				);
-				continue;
 			}
 
 			// Extract path parameters
@@ -321,8 +731,15 @@ function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
 				}
 			}
 
+			const group = tagNamespace(operation.tags, operationsConfig?.fallback_group ?? DEFAULT_FALLBACK_GROUP);
+			const namespace = operationsConfig?.group_by === "tag" ? group : undefined;
+
 			operations.push({
-				operationId: operation.operationId,
+				operationId,
+				name: operationId,
+				...(namespace !== undefined ? { namespace } : {}),
+				group,
+				...(synthesized ? { synthesized } : {}),
 				method,
 				path: pathTemplate,
 				pathParams,
@@ -335,7 +752,7 @@ function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
 				description: (operation.description as string) ?? "",
 			});
 
-			logger.debug({ operationId: operation.operationId }, "Found operation");
+			logger.debug({ operationId }, "Found operation");
 		}
 	}
 
@@ -343,12 +760,69 @@ function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
 	// `get-user` and `get_user` both normalize to `get_user`, which would
 	// produce duplicate contract types and clobber operations in the
 	// emitted object literal. Issue #18.
-	const sanitizedToOriginals = new Map<string, string[]>();
+	//
+	// With namespaces the keys only need to be distinct within each
+	// namespace. An id repeated across namespaces is qualified with its
+	// namespace (`users` + `getById` → `usersGetById`) to name its
+	// contracts, and it gets no flat alias.
+	const scopes = new Map<string, OperationMetadata[]>();
 	for (const op of operations) {
-		const sanitized = sanitizeIdentifier(op.operationId);
+		const scope = scopes.get(op.namespace ?? "");
+		if (scope) scope.push(op);
+		else scopes.set(op.namespace ?? "", [op]);
+	}
+	for (const [namespace, scope] of scopes) {
+		throwOnSanitizedCollisions(
+			scope.map((op) => op.name),
+			namespace ? ` in namespace "${namespace}"` : "",
+		);
+	}
+
+	if (operationsConfig?.group_by === "tag") {
+		const namespacesBySanitized = new Map<string, Set<string>>();
+		for (const op of operations) {
+			const sanitized = sanitizeIdentifier(op.name);
+			const namespaces = namespacesBySanitized.get(sanitized) ?? new Set<string>();
+			namespaces.add(op.namespace as string);
+			namespacesBySanitized.set(sanitized, namespaces);
+		}
+		const namespaces = new Set(operations.map((op) => op.namespace as string));
+		for (const op of operations) {
+			if ((namespacesBySanitized.get(sanitizeIdentifier(op.name))?.size ?? 0) > 1) {
+				op.operationId = `${op.namespace}${toPascalCase(sanitizeIdentifier(op.name))}`;
+				logger.debug(
+					{ operationId: op.name, namespace: op.namespace, qualified: op.operationId },
+					"Qualified operationId repeated across namespaces",
+				);
+			} else if (namespaces.has(op.operationId)) {
+				logger.warn(
+					{ operationId: op.operationId },
+					"Skipping flat alias — a namespace has the same name",
+				);
+			}
+		}
+		// A qualified id can still meet an operationId the spec already uses.
+		throwOnSanitizedCollisions(
+			operations.map((op) => op.operationId),
+			"",
+		);
+	}
+
+	return operations;
+}
+
+/**
+ * Throws a GenerationError listing the ids in `ids` that normalize to the
+ * same TypeScript identifier. `scope` qualifies the message
+ * (` in namespace "users"`).
+ */
+function throwOnSanitizedCollisions(ids: string[], scope: string): void {
+	const sanitizedToOriginals = new Map<string, string[]>();
+	for (const id of ids) {
+		const sanitized = sanitizeIdentifier(id);
 		const list = sanitizedToOriginals.get(sanitized);
-		if (list) list.push(op.operationId);
-		else sanitizedToOriginals.set(sanitized, [op.operationId]);
+		if (list) list.push(id);
+		else sanitizedToOriginals.set(sanitized, [id]);
 	}
 	const collisions: Array<{ sanitized: string; originals: string[] }> = [];
 	for (const [sanitized, originals] of sanitizedToOriginals) {
@@ -363,11 +837,93 @@ function parseOperations(spec: unknown, logger: Logger): OperationMetadata[] {
 			.join("\n");
 		throw new GenerationError(
 			"parseOperations",
-			`OperationId collision detected. The following operationIds normalize to the same TypeScript identifier and would produce duplicate contract types:\n${lines}\n\nRename one of each pair so they remain distinct after replacing non-[a-zA-Z0-9_$] characters with "_".`,
+			`OperationId collision detected${scope}. The following operationIds normalize to the same TypeScript identifier and would produce duplicate contract types:\n${lines}\n\nRename one of each pair so they remain distinct after replacing non-[a-zA-Z0-9_$] characters with "_".`,
 		);
 	}
+}
 
-	return operations;
+/**
+ * Generates api.manifest.json: the operationIds chowbea made up
+ * (`[operations] naming`) or qualified (tag namespaces), keyed by
+ * `METHOD /path`. Committed with the rest of `_generated/`, it makes a
+ * rename show up in review. Null when every name comes from the spec.
+ */
+function generateManifestContent(operations: OperationMetadata[]): string | null {
+	const byOperation = (ops: OperationMetadata[]) =>
+		Object.fromEntries(ops.map((op) => [`${op.method.toUpperCase()} ${op.path}`, op.operationId]));
+	const synthesized = operations.filter((op) => op.synthesized);
+	const qualified = operations.filter((op) => op.operationId !== op.name);
+	if (synthesized.length === 0 && qualified.length === 0) return null;
+
+	const manifest = {
+		$comment: "Auto-generated by chowbea-axios. Operation names that don't come from the spec's operationIds.",
+		...(synthesized.length > 0 ? { synthesizedOperationIds: byOperation(synthesized) } : {}),
+		...(qualified.length > 0 ? { qualifiedOperationIds: byOperation(qualified) } : {}),
+	};
+	return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+/**
+ * The `[operations] naming` name of an operation without an operationId.
+ * Path segments are PascalCased and `{param}` segments read as `ById`:
+ * "method_path" names `GET /users/{id}` `getUsersById`, the template
+ * "{method}_{path}" names it `get_usersById`.
+ */
+function synthesizeOperationId(method: string, pathTemplate: string, naming: string): string {
+	const words = pathTemplate
+		.split("/")
+		.flatMap((segment) => {
+			const param = /^\{(.+)\}$/.exec(segment);
+			const parts = (param ? (param[1] as string) : segment).split(/[^A-Za-z0-9]+/).filter(Boolean);
+			return param ? ["By", ...parts] : parts;
+		})
+		.map(toPascalCase);
+	const values: Record<string, string> = {
+		method,
+		Method: toPascalCase(method),
+		Path: words.join(""),
+		path: words.join("").replace(/^./, (c) => c.toLowerCase()),
+	};
+	const template = naming === "method_path" ? "{method}{Path}" : naming;
+	return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * The namespace for an operation's first tag, as a camelCase identifier
+ * (`"User Accounts"` → `userAccounts`), or `fallback` when it has none.
+ */
+function tagNamespace(tags: unknown, fallback: string): string {
+	const tag = Array.isArray(tags) ? tags.find((t): t is string => typeof t === "string") : undefined;
+	const words = (tag ?? "").split(/[^A-Za-z0-9]+/).filter(Boolean);
+	if (words.length === 0) return fallback;
+	const name = words
+		.map((word, i) => (i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : toPascalCase(word)))
+		.join("");
+	return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Returns `spec` with the operationIds `parseOperations` synthesized or
+ * qualified written back, so the contracts and api.types.ts name those
+ * operations the same way. Returns the input unchanged when every
+ * operationId already matches.
+ */
+function withOperationIds(spec: unknown, operations: OperationMetadata[]): unknown {
+	if (typeof spec !== "object" || spec === null) return spec;
+	const specObj = spec as Record<string, unknown>;
+	const specPaths = specObj.paths as Record<string, Record<string, unknown>>;
+	const renamed = operations.filter(
+		(op) => (specPaths[op.path]?.[op.method] as Record<string, unknown> | undefined)?.operationId !== op.operationId,
+	);
+	if (renamed.length === 0) return spec;
+
+	const paths = { ...specPaths };
+	for (const op of renamed) {
+		const pathItem = { ...paths[op.path] };
+		pathItem[op.method] = { ...(pathItem[op.method] as Record<string, unknown>), operationId: op.operationId };
+		paths[op.path] = pathItem;
+	}
+	return { ...specObj, paths };
 }
 
 /**
@@ -498,22 +1054,16 @@ function parseContracts(spec: unknown): ContractMetadata {
  * Generates the TypeScript file content with all operations.
  */
 function generateOperationsFileContent(
-	operations: OperationMetadata[]
+	operations: OperationMetadata[],
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	transport: Transport = "axios",
 ): string {
-	// Collect the set of named contract types each operation references.
-	// Each entry must be gated on the same condition the contracts file uses
-	// to emit the corresponding type, or the import will dangle.
-	const contractNames = new Set<string>();
-	for (const op of operations) {
-		const base = toPascalCase(sanitizeIdentifier(op.operationId));
-		if (op.responseStatus !== null) contractNames.add(`${base}Response`);
-		if (op.hasJsonBody || op.hasFormDataBody) contractNames.add(`${base}Body`);
-		if (op.pathParams.length > 0) contractNames.add(`${base}PathParams`);
-		if (op.hasQueryParams) contractNames.add(`${base}QueryParams`);
-	}
+	const configType = REQUEST_CONFIG_TYPES[transport];
+	const contractNames = operationContractNames(operations);
 	const contractImport =
-		contractNames.size > 0
-			? `import type {\n  ${[...contractNames].sort().join(",\n  ")},\n} from "./api.contracts"`
+		contractNames.length > 0
+			? `import type {\n  ${contractNames.join(",\n  ")},\n} from "./api.contracts"`
 			: "";
 
 	const header = `/**
@@ -528,16 +1078,16 @@ function generateOperationsFileContent(
 /* -- Use apiClient.op.operationName() instead of raw paths -- */
 /* ~ =================================== ~ */
 
-import type { AxiosRequestConfig } from "axios"
-import type { Result } from "../api.error"
-${contractImport}
+${requestConfigImport(transport, "..")}
+${validation ? `import type { ZodType } from "zod"\nimport type { ApiError, Result } from "../api.error"` : `import type { Result } from "../api.error"`}
+${contractImport}${validation ? `\nimport * as schemas from "./api.schemas"` : ""}
 
 /* ~ =================================== ~ */
 /* -- Type Helpers -- */
 /* ~ =================================== ~ */
 
 /**
- * Axios request config with typed query parameters for operations that accept them.
+ * ${transport === "fetch" ? "Fetch" : "Axios"} request config with typed query parameters for operations that accept them.
  * The type parameter Q is the operation-specific QueryParams contract from api.contracts.
  *
  * Note: an earlier version of this file emitted a MapFormDataTypes
@@ -547,7 +1097,7 @@ ${contractImport}
  * favor of spec-driven binary detection: the contracts file already
  * emits File or Blob for format binary fields. Issue #22.
  */
-type RequestConfig<Q> = Omit<AxiosRequestConfig, "params"> & {
+type RequestConfig<Q> = Omit<${configType}, "params"> & {
   params?: Q
 }
 
@@ -577,7 +1127,7 @@ interface ApiClient {
   head: (path: any, ...rest: any[]) => Promise<Result<any>>
   trace: (path: any, ...rest: any[]) => Promise<Result<any>>
 }
-
+${validation ? generateValidationHelpers(validation) : ""}${scalars ? generateScalarHelpers(scalars) : ""}
 /* ~ =================================== ~ */
 /* -- Generated Operations -- */
 /* ~ =================================== ~ */
@@ -598,14 +1148,15 @@ interface ApiClient {
  * await apiClient.op.createUser({ name: "John", email: "john@example.com" })
  * \`\`\`
  */
-export const createOperations = (apiClient: ApiClient) => ({
-`;
+export const createOperations = (apiClient: ApiClient) => `;
 
-	const operationFunctions = operations
-		.map((op) => generateOperationFunction(op))
-		.join("\n");
+	const namespaced = operations.some((op) => op.namespace !== undefined);
+	const body = namespaced
+		? generateNamespacedOperations(operations, validation, scalars, transport)
+		: `({
+${operations.map((op) => generateOperationFunction(op, validation, scalars, false, transport)).join("\n")}}) as const`;
 
-	const footer = `}) as const
+	const footer = `
 
 /**
  * Type representing all available API operations.
@@ -614,76 +1165,880 @@ export const createOperations = (apiClient: ApiClient) => ({
 export type ApiOperations = ReturnType<typeof createOperations>
 `;
 
-	return header + operationFunctions + footer;
+	return header + body + footer;
 }
 
 /**
- * Sanitizes a string to be a valid TypeScript identifier.
- * Replaces dots, hyphens, spaces, etc. with underscores. Ensures it doesn't start with a digit.
+ * The `createOperations` body for `[operations] group_by = "tag"`: one
+ * object per namespace, spread into the result next to a flat alias for
+ * every operation whose id is unique and isn't itself a namespace name.
  */
-function sanitizeIdentifier(name: string): string {
-	let sanitized = name.replace(/[^a-zA-Z0-9_$]/g, "_");
-	if (/^[0-9]/.test(sanitized)) {
-		sanitized = `_${sanitized}`;
+function generateNamespacedOperations(
+	operations: OperationMetadata[],
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	transport: Transport = "axios",
+): string {
+	const byNamespace = new Map<string, OperationMetadata[]>();
+	for (const op of operations) {
+		const namespace = op.namespace as string;
+		byNamespace.set(namespace, [...(byNamespace.get(namespace) ?? []), op]);
 	}
-	return sanitized;
+
+	const indent = (text: string) => text.replace(/^(?=.)/gm, "    ");
+	const groups = [...byNamespace]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(
+			([namespace, ops]) =>
+				`    ${formatPropertyKey(namespace)}: {
+${ops.map((op) => indent(generateOperationFunction(op, validation, scalars, false, transport))).join("\n")}    },`,
+		)
+		.join("\n");
+
+	const aliases = operations
+		.filter((op) => op.operationId === op.name && !byNamespace.has(op.operationId))
+		.map(
+			(op) =>
+				`    ${formatPropertyKey(op.operationId)}: namespaces${formatPropertyAccess(op.namespace as string)}${formatPropertyAccess(op.name)},`,
+		);
+
+	return `{
+  const namespaces = {
+${groups}
+  } as const
+
+  return {
+    ...namespaces,${aliases.length > 0 ? `\n    // Flat aliases: api.op.getUser is api.op.users.getUser\n${aliases.join("\n")}` : ""}
+  } as const
+}`;
 }
 
 /**
- * Formats a property name for use as an object-type key. Preserves the original
- * name when it's a valid unquoted TS identifier; otherwise wraps it in quotes so
- * names like `hub.mode`, `X-Custom-Header`, or `0.5` remain syntactically valid.
+ * The named contract types the operations' functions reference, sorted.
+ * Each entry must be gated on the same condition the contracts file uses
+ * to emit the corresponding type, or the import will dangle.
  */
-function formatPropertyKey(name: string): string {
-	return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+function operationContractNames(operations: OperationMetadata[]): string[] {
+	const contractNames = new Set<string>();
+	for (const op of operations) {
+		const base = toPascalCase(sanitizeIdentifier(op.operationId));
+		if (op.responseStatus !== null) contractNames.add(`${base}Response`);
+		if (op.hasJsonBody || op.hasFormDataBody) contractNames.add(`${base}Body`);
+		if (op.pathParams.length > 0) contractNames.add(`${base}PathParams`);
+		if (op.hasQueryParams) contractNames.add(`${base}QueryParams`);
+	}
+	return [...contractNames].sort();
 }
 
 /**
- * Escapes the JSDoc comment terminator inside a string so it can't close a
- * surrounding `/* ... *\/` block. The replacement is unchanged when the
- * comment is read but the parser no longer matches the literal two-char
- * sequence.
+ * Generates the `[output] split_by_tag` files other than the contracts,
+ * by path relative to `_generated/`: api.request.ts, a
+ * `<group>/operations.ts` of standalone functions per group, and the
+ * index.ts barrel re-exporting them.
+ */
+function generateSplitOperationFiles(
+	operations: OperationMetadata[],
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	transport: Transport = "axios",
+): Map<string, string> {
+	const byGroup = new Map<string, OperationMetadata[]>();
+	for (const op of operations) {
+		byGroup.set(op.group, [...(byGroup.get(op.group) ?? []), op]);
+	}
+	const groups = [...byGroup].sort(([a], [b]) => a.localeCompare(b));
+
+	const files = new Map<string, string>();
+	files.set("api.request.ts", generateRequestFileContent(validation, scalars, transport));
+	for (const [group, ops] of groups) {
+		files.set(
+			`${group}/operations.ts`,
+			generateGroupOperationsFileContent(group, ops, validation, scalars, transport),
+		);
+	}
+	files.set(
+		"index.ts",
+		`/**
+ * Auto-generated barrel of the split_by_tag operation files.
  *
- * Without this, a spec author (or compromised remote spec) including the
- * terminator inside a description, summary, or path closes the JSDoc
- * comment early and leaks the rest of the description into the file as raw
- * TypeScript syntax — at best a parse error, at worst arbitrary code.
- * Issue #14.
+ * This file is automatically generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - your changes will be overwritten.
  */
-function escapeJsdoc(value: string | undefined | null): string {
-	if (value === undefined || value === null) return "";
-	return String(value).replace(/\*\//g, "*\\/");
+
+${groups.map(([group]) => `export * from "./${group}/operations"`).join("\n")}
+`,
+	);
+	return files;
 }
 
 /**
- * Capitalizes the first letter of a string (for PascalCase conversion from camelCase operationIds).
+ * Generates `<group>/operations.ts`: the group's operations as standalone
+ * exported functions, so a bundler keeps only the ones an app imports.
  */
-function toPascalCase(str: string): string {
-	if (str.length === 0) return str;
-	return str.charAt(0).toUpperCase() + str.slice(1);
+function generateGroupOperationsFileContent(
+	group: string,
+	operations: OperationMetadata[],
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	transport: Transport = "axios",
+): string {
+	const functions = operations
+		.map((op) => generateOperationFunction(op, validation, scalars, true, transport))
+		.join("\n");
+
+	const contractNames = operationContractNames(operations);
+	const runtime = ["request", "validated", "revived", "serialized", "serializedParams"].filter((name) =>
+		functions.includes(`${name}(`),
+	);
+	if (functions.includes("RequestConfig<")) runtime.push("type RequestConfig");
+
+	const imports = [
+		...(functions.includes(REQUEST_CONFIG_TYPES[transport]) ? [requestConfigImport(transport, "../..")] : []),
+		`import type { Result } from "../../api.error"`,
+		...(contractNames.length > 0
+			? [`import type {\n  ${contractNames.join(",\n  ")},\n} from "./contracts"`]
+			: []),
+		`import { ${runtime.join(", ")} } from "../api.request"`,
+		...(functions.includes("schemas.") ? [`import * as schemas from "../api.schemas"`] : []),
+	];
+
+	return `/**
+ * Auto-generated API operations for the "${group}" tag.
+ *
+ * This file is automatically generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - your changes will be overwritten.
+ */
+
+/* ~ =================================== ~ */
+/* -- Standalone functions: import only the operations you call and -- */
+/* -- bundlers leave the rest out. api.op keeps working as before -- */
+/* ~ =================================== ~ */
+
+${imports.join("\n")}
+
+${functions}`;
 }
 
 /**
- * Recognized component kinds that can be referenced by `$ref`. Used to
- * pick the appropriate inlining strategy in `schemaToTS`. Issue #32.
+ * Generates api.request.ts, the runtime of the split_by_tag operation
+ * files: `request()` over the user's axios or fetch instance, plus the
+ * `[validation]` / `[scalars]` helpers when those are on.
+ */
+function generateRequestFileContent(
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	transport: Transport = "axios",
+): string {
+	const configType = REQUEST_CONFIG_TYPES[transport];
+	const instance = INSTANCE_NAMES[transport];
+	return `/**
+ * Auto-generated request runtime for the split_by_tag operation files.
+ *
+ * This file is automatically generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - your changes will be overwritten.
  */
-type RefKind = "schemas" | "parameters" | "requestBodies" | "responses";
 
-const REF_PREFIXES: Array<[string, RefKind]> = [
-	["#/components/schemas/", "schemas"],
-	["#/components/parameters/", "parameters"],
-	["#/components/requestBodies/", "requestBodies"],
-	["#/components/responses/", "responses"],
-];
+/* ~ =================================== ~ */
+/* -- Sends through api.instance.ts and api.error.ts directly: -- */
+/* -- api.client.ts imports every operation, so it isn't used here -- */
+/* ~ =================================== ~ */
+
+${requestConfigImport(transport, "..")}
+${validation ? `import type { ZodType } from "zod"\n` : ""}import { ${instance} } from "../api.instance"
+import { safeRequest, type ${validation ? "ApiError, " : ""}Result } from "../api.error"
 
 /**
- * Resolves a `$ref` string and returns the kind + name, or `null` for
- * refs we don't know how to inline. Recognizes the four standard
- * `components` subtrees. Issue #32.
+ * ${transport === "fetch" ? "Fetch" : "Axios"} request config with typed query parameters for operations that accept them.
+ * The type parameter Q is the operation-specific QueryParams contract.
  */
-function parseComponentRef(
-	ref: string,
-): { kind: RefKind; name: string } | null {
+export type RequestConfig<Q> = Omit<${configType}, "params"> & {
+  params?: Q
+}
+
+/**
+ * Replaces {param} placeholders in a path template with URL-encoded values.
+ */
+function interpolatePath(template: string, pathParams: object | undefined): string {
+  if (!pathParams) return template
+
+  const missing: string[] = []
+  const path = template.replace(/\\{([^}]+)\\}/g, (match, key: string) => {
+    const value = (pathParams as Record<string, unknown>)[key]
+    if (value === undefined || value === null) {
+      missing.push(key)
+      return match
+    }
+    return encodeURIComponent(String(value))
+  })
+
+  if (missing.length > 0) {
+    throw new Error(\`Missing required path param(s): \${missing.join(", ")} for template: \${template}\`)
+  }
+
+  return path
+}
+
+/**
+ * Sends one operation's request with the shared ${transport} instance.
+ * Returns Result<T> - never throws for HTTP or network errors.
+ */
+export function request<T>(
+  method: string,
+  path: string,
+  init: { pathParams?: object; data?: unknown; config?: ${configType} },
+): Promise<Result<T>> {
+  return safeRequest(
+    ${instance}.request<T>({
+      ...init.config,
+      method,
+      url: interpolatePath(path, init.pathParams),
+      data: init.data,
+    }),
+  )
+}
+${validation ? generateValidationHelpers(validation, true) : ""}${scalars ? generateScalarHelpers(scalars, true) : ""}`;
+}
+
+/**
+ * Generates the api.queries.ts file content: a query key for every
+ * operation, `queryOptions` factories for GET operations and
+ * `mutationOptions` factories for the rest. Each factory takes one
+ * `variables` object (`pathParams`, `params`, `data`) and unwraps the
+ * operation's `Result<T>`, throwing its ApiError. TanStack hashes keys as
+ * JSON, which has no bigint, so with a `[scalars]` bigint the variables
+ * are keyed with their bigints as digit strings.
+ */
+function generateQueriesFileContent(
+	operations: OperationMetadata[],
+	transport: Transport = "axios",
+	scalars?: OperationScalars,
+): string {
+	const configType = REQUEST_CONFIG_TYPES[transport];
+	const bigints = [...(scalars?.codecs.values() ?? [])].includes("bigint");
+	const contractNames = new Set<string>();
+	const keys: string[] = [];
+	const queries: string[] = [];
+	const mutations: string[] = [];
+
+	for (const op of operations) {
+		const base = toPascalCase(sanitizeIdentifier(op.operationId));
+		const key = formatPropertyKey(op.operationId);
+		const call = `api.op${operationAccess(op)}`;
+		const isQuery = op.method.toLowerCase() === "get";
+
+		// Variables mirror the operation's positional arguments; query
+		// params travel in the request config as they do for the operation.
+		const fields: string[] = [];
+		const args: string[] = [];
+		if (op.pathParams.length > 0) {
+			contractNames.add(`${base}PathParams`);
+			fields.push(`pathParams: ${base}PathParams`);
+			args.push("variables.pathParams");
+		}
+		if (op.hasRequestBody) {
+			contractNames.add(`${base}Body`);
+			fields.push(`data: ${base}Body`);
+			args.push("variables.data");
+		}
+		if (op.hasQueryParams) {
+			contractNames.add(`${base}QueryParams`);
+			fields.push(`params?: ${base}QueryParams`);
+		}
+		const configParts = [
+			"...config",
+			...(op.hasQueryParams ? ["params: variables.params"] : []),
+			...(isQuery ? ["signal"] : []),
+		];
+		args.push(configParts.length > 1 ? `{ ${configParts.join(", ")} }` : "config");
+
+		const where = `${op.method.toUpperCase()} ${escapeJsdoc(op.path)}`;
+		const keyRef = `apiQueryKeys${formatPropertyAccess(op.operationId)}`;
+		const variablesType = `{ ${fields.join("; ")} }`;
+
+		if (fields.length === 0) {
+			keys.push(`  ${key}: () => operationKey(${JSON.stringify(op.operationId)}),`);
+		} else {
+			keys.push(
+				`  ${key}: (variables?: ${variablesType}) => operationKey(${JSON.stringify(op.operationId)}, variables),`,
+			);
+		}
+
+		if (isQuery) {
+			// Only query params: the variables object itself is optional.
+			const params =
+				fields.length === 0
+					? `config?: ${configType}`
+					: op.pathParams.length === 0 && !op.hasRequestBody
+					? `variables: ${variablesType} = {}, config?: ${configType}`
+					: `variables: ${variablesType}, config?: ${configType}`;
+			queries.push(`  /** ${where} */
+  ${key}: (${params}) =>
+    queryOptions({
+      queryKey: ${keyRef}(${fields.length > 0 ? "variables" : ""}),
+      queryFn: ({ signal }) => unwrap(${call}(${args.join(", ")})),
+    }),
+`);
+		} else {
+			const fn =
+				fields.length > 0
+					? `(variables: ${variablesType}) => unwrap(${call}(${args.join(", ")}))`
+					: `() => unwrap(${call}(${args.join(", ")}))`;
+			mutations.push(`  /** ${where} */
+  ${key}: (config?: ${configType}) =>
+    mutationOptions({
+      mutationKey: ${keyRef}(),
+      mutationFn: ${fn},
+    }),
+`);
+		}
+	}
+
+	const contractImport =
+		contractNames.size > 0
+			? `import type {\n  ${[...contractNames].sort().join(",\n  ")},\n} from "./api.contracts"\n`
+			: "";
+
+	return `/**
+ * Auto-generated TanStack Query options from OpenAPI spec.
+ *
+ * This file is automatically generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - your changes will be overwritten.
+ */
+
+/* ~ =================================== ~ */
+/* -- useQuery(apiQueries.getUser({ pathParams })) -- */
+/* -- useMutation(apiMutations.createUser()) -- */
+/* ~ =================================== ~ */
+
+import { mutationOptions, queryOptions } from "@tanstack/react-query"
+${requestConfigImport(transport, "..")}
+import { api } from "../api.client"
+import type { Result } from "../api.error"
+${contractImport}
+/* ~ =================================== ~ */
+/* -- Helpers -- */
+/* ~ =================================== ~ */
+
+/**
+ * Resolves to the data of a Result and throws its ApiError otherwise, so
+ * TanStack Query's error state, retries and error boundaries apply.
+ */
+export async function unwrap<T>(request: Promise<Result<T>>): Promise<T> {
+  const { data, error } = await request
+  if (error) throw error
+  return data
+}
+
+${bigints ? `/** A query key value with its bigints as digit strings. */
+type Keyed<V> = V extends bigint ? string : V extends Date ? V : V extends object ? { [K in keyof V]: Keyed<V[K]> } : V
+
+function keyed<V>(value: V): Keyed<V> {
+  if (typeof value === "bigint") return value.toString() as Keyed<V>
+  if (Array.isArray(value)) return value.map(keyed) as Keyed<V>
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, keyed(item)])) as Keyed<V>
+  }
+  return value as Keyed<V>
+}
+
+function operationKey<Id extends string, V>(operationId: Id, variables?: V) {
+  return variables === undefined
+    ? (["api", operationId] as const)
+    : (["api", operationId, keyed(variables)] as const)
+}` : `function operationKey<Id extends string, V>(operationId: Id, variables?: V) {
+  return variables === undefined
+    ? (["api", operationId] as const)
+    : (["api", operationId, variables] as const)
+}`}
+
+/* ~ =================================== ~ */
+/* -- Query Keys -- */
+/* ~ =================================== ~ */
+
+/**
+ * Hierarchical query keys: \`["api", operationId]\`, then
+ * \`["api", operationId, variables]\`. Invalidate a prefix to refetch every
+ * query below it (\`["api"]\` matches all of them).
+ *
+ * @example
+ * \`\`\`typescript
+ * queryClient.invalidateQueries({ queryKey: apiQueryKeys.getUser() })
+ * \`\`\`
+ */
+export const apiQueryKeys = {
+${keys.join("\n")}
+}
+
+/* ~ =================================== ~ */
+/* -- Queries (GET operations) -- */
+/* ~ =================================== ~ */
+
+export const apiQueries = {
+${queries.join("\n")}}
+
+/* ~ =================================== ~ */
+/* -- Mutations (every other method) -- */
+/* ~ =================================== ~ */
+
+export const apiMutations = {
+${mutations.join("\n")}}
+`;
+}
+
+/** MSW `http.*` helpers by OpenAPI method; MSW has no TRACE helper. */
+const MSW_METHODS: Record<string, string> = {
+	get: "get",
+	post: "post",
+	put: "put",
+	delete: "delete",
+	patch: "patch",
+	options: "options",
+	head: "head",
+};
+
+/**
+ * Converts an OpenAPI path template to an MSW path (`/pets/{petId}` ->
+ * `/pets/:petId`) prefixed with `*` so it matches any origin. Parameter
+ * names are reduced to word characters so MSW's path parser accepts them.
+ */
+function toMswPath(pathTemplate: string): string {
+	return `*${pathTemplate.replace(/\{([^}]+)\}/g, (_, name: string) => `:${name.replace(/\W/g, "_")}`)}`;
+}
+
+/**
+ * Generates the api.mocks.ts file content: MSW handlers for every
+ * operation, default payloads from `collectMockOperations`, and one typed
+ * handler factory per operationId for overrides. Payloads are JSON, so
+ * with `[scalars]` converting values at runtime they are typed in their
+ * wire form (`Wire<Contract>`) rather than as the revived contract.
+ */
+function generateMocksFileContent(operations: OperationMetadata[], spec: unknown, scalars?: OperationScalars): string {
+	const wire = (contract: string) => (scalars && contract !== "unknown" ? `Wire<${contract}>` : contract);
+	const mocks = new Map(
+		collectMockOperations(spec).map((mock) => [`${mock.method} ${mock.path}`, mock]),
+	);
+	const contractNames = new Set<string>();
+	const payloads: string[] = [];
+	const factories: string[] = [];
+	const handlers: Array<{ path: string; call: string }> = [];
+
+	for (const op of operations) {
+		const mswMethod = MSW_METHODS[op.method.toLowerCase()];
+		const mock = mocks.get(`${op.method} ${op.path}`);
+		if (!mswMethod || !mock) continue;
+
+		const key = formatPropertyKey(op.operationId);
+		const access = formatPropertyAccess(op.operationId);
+		const mswPath = JSON.stringify(toMswPath(op.path));
+		const where = `${op.method.toUpperCase()} ${escapeJsdoc(op.path)}`;
+
+		if (mock.hasBody) {
+			const contract = op.responseStatus !== null
+				? `${toPascalCase(sanitizeIdentifier(op.operationId))}Response`
+				: "unknown";
+			if (contract !== "unknown") contractNames.add(contract);
+			const body = JSON.stringify(mock.body ?? null, null, 2).replace(/\n/g, "\n  ");
+			payloads.push(`  ${key}: payload<${wire(contract)}>(${body}),`);
+			factories.push(`  /** ${where} → ${mock.status} */
+  ${key}: (body?: ${wire(contract)}, init?: ResponseInit): HttpHandler =>
+    http.${mswMethod}(${mswPath}, () => json(body ?? mockResponses${access}, ${mock.status}, init)),
+`);
+		} else {
+			factories.push(`  /** ${where} → ${mock.status} */
+  ${key}: (init?: ResponseInit): HttpHandler =>
+    http.${mswMethod}(${mswPath}, () => new HttpResponse(null, { status: ${mock.status}, ...init })),
+`);
+		}
+		handlers.push({ path: op.path, call: `mockApi${access}()` });
+	}
+
+	// MSW uses the first matching handler, so static paths go before
+	// parameterized ones (`/pets/mine` before `/pets/{petId}`).
+	const paramCount = (path: string) => (path.match(/\{/g) ?? []).length;
+	handlers.sort((a, b) => paramCount(a.path) - paramCount(b.path));
+
+	const contractImport =
+		contractNames.size > 0
+			? `import type {\n  ${[...contractNames].sort().join(",\n  ")},\n} from "./api.contracts"\n`
+			: "";
+
+	return `/**
+ * Auto-generated MSW request handlers from OpenAPI spec.
+ *
+ * This file is automatically generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - your changes will be overwritten.
+ */
+
+/* ~ =================================== ~ */
+/* -- setupServer(...handlers) / setupWorker(...handlers) -- */
+/* -- server.use(mockApi.getUser({ ...mockResponses.getUser, name: "Ada" })) -- */
+/* ~ =================================== ~ */
+
+import { http, HttpResponse, type HttpHandler } from "msw"
+${contractImport}
+/* ~ =================================== ~ */
+/* -- Helpers -- */
+/* ~ =================================== ~ */
+
+${scalars ? `/** A contract as sent in JSON: \`[scalars]\` Dates are strings, bigints numbers or digit strings. */
+type Wire<T> = T extends Date ? string : T extends bigint ? number | string : T extends object ? { [K in keyof T]: Wire<T[K]> } : T
+
+/** Types a JSON payload as the wire form of the operation's response contract. */` : "/** Types a JSON payload as the operation's response contract. */"}
+const payload = <T>(value: unknown) => value as T
+
+function json(body: unknown, status: number, init?: ResponseInit) {
+  return new HttpResponse(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  })
+}
+
+/* ~ =================================== ~ */
+/* -- Mock Payloads -- */
+/* ~ =================================== ~ */
+
+/**
+ * Default response body per operation: the spec's \`example\` or
+ * \`examples\` when present, otherwise synthesized from the schema. The
+ * values are seeded per operation, so they only change with the spec.
+ */
+export const mockResponses = {
+${payloads.join("\n")}
+}
+
+/* ~ =================================== ~ */
+/* -- Handler Factories -- */
+/* ~ =================================== ~ */
+
+/**
+ * One handler factory per operation. Pass a body to override the default
+ * payload, and an init to change the status or headers.
+ *
+ * @example
+ * \`\`\`typescript
+ * server.use(mockApi.getUser(undefined, { status: 404 }))
+ * \`\`\`
+ */
+export const mockApi = {
+${factories.join("\n")}}
+
+/** Handlers for every operation, serving the default payloads. */
+export const handlers: HttpHandler[] = [
+${handlers.map((handler) => `  ${handler.call},`).join("\n")}
+]
+`;
+}
+
+/**
+ * Emits the runtime validation helpers of api.operations.ts. The mode is
+ * fixed at generation time; warn mode skips the checks in production.
+ */
+function generateValidationHelpers(validation: OperationValidation, exported = false): string {
+	const exportKeyword = exported ? "export " : "";
+	const envKey = validation.envAccessor === "import.meta.env" ? "MODE" : "NODE_ENV";
+	const enabled =
+		validation.mode === "enforce"
+			? "true"
+			: `${validation.envAccessor}.${envKey} !== "production"`;
+
+	return `
+/* ~ =================================== ~ */
+/* -- Runtime Validation -- */
+/* ~ =================================== ~ */
+
+/**
+ * One body mismatch. \`pointer\` is a JSON pointer into the body
+ * (\`""\` for the body itself, \`/items/0/id\` for a nested field).
+ */
+export interface ValidationIssue {
+  pointer: string
+  message: string
+}
+
+/** Whether bodies are checked at all ([validation] mode = "${validation.mode}") */
+const VALIDATION_ENABLED = ${enabled}
+
+/** Whether mismatches become errors (enforce) or console warnings (warn) */
+const VALIDATION_ENFORCED = ${validation.mode === "enforce"}
+
+const toJsonPointer = (path: ReadonlyArray<PropertyKey>): string =>
+  path.map((key) => \`/\${String(key).replace(/~/g, "~0").replace(/\\//g, "~1")}\`).join("")
+
+/**
+ * Checks \`value\` against \`schema\`. Returns the ApiError to surface in
+ * enforce mode; in warn mode the mismatch is logged and null returned.
+ */
+function checkBody(
+  schema: ZodType,
+  value: unknown,
+  code: "REQUEST_VALIDATION_ERROR" | "RESPONSE_VALIDATION_ERROR",
+  request: { method: string; url: string },
+): ApiError | null {
+  const parsed = schema.safeParse(value)
+  if (parsed.success) return null
+
+  const issues: ValidationIssue[] = parsed.error.issues.map((issue) => ({
+    pointer: toJsonPointer(issue.path),
+    message: issue.message,
+  }))
+  const subject = code === "REQUEST_VALIDATION_ERROR" ? "Request body for" : "Response from"
+  const message = \`\${subject} \${request.method} \${request.url} does not match the spec (\${issues.length} issue\${issues.length === 1 ? "" : "s"})\`
+
+  if (!VALIDATION_ENFORCED) {
+    console.warn(\`[api] \${message}\`, issues)
+    return null
+  }
+  return { message, code, status: null, request, details: { issues } }
+}
+
+/**
+ * Sends a request with its body and successful response checked against
+ * the zod schemas in api.schemas.ts. An invalid request body is never
+ * sent in enforce mode.
+ */
+${exportKeyword}async function validated<T>(
+  request: { method: string; url: string },
+  send: () => Promise<Result<T>>,
+  checks: { response?: ZodType; body?: { schema: ZodType; data: unknown } },
+): Promise<Result<T>> {
+  if (!VALIDATION_ENABLED) return send()
+
+  if (checks.body) {
+    const error = checkBody(checks.body.schema, checks.body.data, "REQUEST_VALIDATION_ERROR", request)
+    if (error) return { data: null, error }
+  }
+
+  const result = await send()
+  if (result.error === null && checks.response) {
+    const error = checkBody(checks.response, result.data, "RESPONSE_VALIDATION_ERROR", request)
+    if (error) return { data: null, error }
+  }
+  return result
+}
+`;
+}
+
+/**
+ * Generates the `[scalars]` runtime helpers for api.operations.ts: a codec
+ * per runtime-converted format, the per-operation plans locating those
+ * values, and the serialize/revive wrappers the operations call.
+ * `exported` is api.request.ts's variant, whose callers pass their plans
+ * inline.
+ */
+function generateScalarHelpers(scalars: OperationScalars, exported = false): string {
+	const exportKeyword = exported ? "export " : "";
+	const codecs = [...scalars.codecs]
+		.map(([format, target]) => {
+			const key = formatPropertyKey(format);
+			if (target === "Date") {
+				const serialize = format === "date" ? "value.toISOString().slice(0, 10)" : "value.toISOString()";
+				return `  ${key}: {
+    revive: (value) => (typeof value === "string" ? new Date(value) : value),
+    serialize: (value) => (value instanceof Date ? ${serialize} : value),
+  },`;
+			}
+			return `  ${key}: {
+    // JSON.parse has already rounded integers past 2^53, so only strings
+    // and safe integers are exact; anything else is left as it came.
+    revive: (value) =>
+      Number.isSafeInteger(value) || (typeof value === "string" && /^-?\\d+$/.test(value))
+        ? BigInt(value as number | string)
+        : value,
+    serialize: (value) =>
+      typeof value === "bigint"
+        ? value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+          ? Number(value)
+          : value.toString()
+        : value,
+  },`;
+		})
+		.join("\n");
+	const shared = [...scalars.shared]
+		.map(([name, plan]) => `  ${formatPropertyKey(name)}: ${JSON.stringify(plan)},`)
+		.join("\n");
+	const plans = [...scalars.plans]
+		.map(([operationId, plan]) => `  ${formatPropertyKey(operationId)}: ${JSON.stringify(plan)},`)
+		.join("\n");
+	const operationPlans = exported
+		? ""
+		: `
+/** Scalar plans by operation; operations without scalars are absent */
+const operationScalars = {
+${plans}
+} satisfies Record<string, { response?: ScalarPlan; body?: ScalarPlan; pathParams?: ScalarPlan; params?: ScalarPlan }>
+`;
+
+	return `
+/* ~ =================================== ~ */
+/* -- Scalars -- */
+/* ~ =================================== ~ */
+
+/**
+ * Where [scalars] values sit in a payload: a format name for the value
+ * itself, or the properties / array items / map values holding them.
+ * \`ref\` names a shared plan (recursive schemas).
+ */
+type ScalarPlan =
+  | string
+  | { properties?: Record<string, ScalarPlan>; items?: ScalarPlan; values?: ScalarPlan; ref?: string }
+
+/** Wire <-> runtime conversions per format, from [scalars] */
+const scalarCodecs: Record<string, { revive: (value: unknown) => unknown; serialize: (value: unknown) => unknown }> = {
+${codecs}
+}
+
+/** Plans of recursive schemas, by schema name */
+const sharedScalarPlans: Record<string, ScalarPlan> = {${shared ? `\n${shared}\n` : ""}}
+${operationPlans}
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null)
+
+/** Applies \`plan\` to \`value\`, returning a converted copy. */
+function convertScalars(value: unknown, plan: ScalarPlan, direction: "revive" | "serialize"): unknown {
+  if (value === null || value === undefined) return value
+  if (typeof plan === "string") {
+    const codec = scalarCodecs[plan]
+    return codec ? codec[direction](value) : value
+  }
+  if (plan.ref !== undefined) {
+    const sharedPlan = sharedScalarPlans[plan.ref]
+    return sharedPlan ? convertScalars(value, sharedPlan, direction) : value
+  }
+  const { properties, items, values } = plan
+  if (Array.isArray(value)) {
+    return items === undefined ? value : value.map((item) => convertScalars(item, items, direction))
+  }
+  if (!isPlainObject(value) || (properties === undefined && values === undefined)) return value
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => {
+      const entryPlan =
+        properties && Object.prototype.hasOwnProperty.call(properties, key) ? properties[key] : values
+      return [key, entryPlan === undefined ? entry : convertScalars(entry, entryPlan, direction)]
+    }),
+  )
+}
+
+/** Converts Date/bigint values in an outgoing payload to their wire form. */
+${exportKeyword}const serialized = <T>(value: T, plan: ScalarPlan): T => convertScalars(value, plan, "serialize") as T
+
+/** Converts the query params of a request config to their wire form. */
+${exportKeyword}const serializedParams = <C extends { params?: unknown }>(config: C | undefined, plan: ScalarPlan): C | undefined =>
+  config?.params === undefined ? config : { ...config, params: convertScalars(config.params, plan, "serialize") }
+
+/** Revives Date/bigint values in a successful response. */
+${exportKeyword}async function revived<T>(request: Promise<Result<T>>, plan: ScalarPlan): Promise<Result<T>> {
+  const result = await request
+  return result.error === null ? { data: convertScalars(result.data, plan, "revive") as T, error: null } : result
+}
+`;
+}
+
+/**
+ * Sanitizes a string to be a valid TypeScript identifier.
+ * Replaces dots, hyphens, spaces, etc. with underscores. Ensures it doesn't start with a digit.
+ */
+function sanitizeIdentifier(name: string): string {
+	let sanitized = name.replace(/[^a-zA-Z0-9_$]/g, "_");
+	if (/^[0-9]/.test(sanitized)) {
+		sanitized = `_${sanitized}`;
+	}
+	return sanitized;
+}
+
+/**
+ * Formats a property name for use as an object-type key. Preserves the original
+ * name when it's a valid unquoted TS identifier; otherwise wraps it in quotes so
+ * names like `hub.mode`, `X-Custom-Header`, or `0.5` remain syntactically valid.
+ */
+function formatPropertyKey(name: string): string {
+	return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Formats a member access for `name`: `.name` when it's a valid identifier,
+ * `["name"]` otherwise (see formatPropertyKey).
+ */
+function formatPropertyAccess(name: string): string {
+	return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+}
+
+/**
+ * The member access reaching an operation from `api.op`: `.users.getUser`
+ * when namespaced (so qualified ids work too), else `.getUser`.
+ */
+function operationAccess(op: OperationMetadata): string {
+	return op.namespace !== undefined
+		? `${formatPropertyAccess(op.namespace)}${formatPropertyAccess(op.name)}`
+		: formatPropertyAccess(op.operationId);
+}
+
+/**
+ * Escapes the JSDoc comment terminator inside a string so it can't close a
+ * surrounding `/* ... *\/` block. The replacement is unchanged when the
+ * comment is read but the parser no longer matches the literal two-char
+ * sequence.
+ *
+ * Without this, a spec author (or compromised remote spec) including the
+ * terminator inside a description, summary, or path closes the JSDoc
+ * comment early and leaks the rest of the description into the file as raw
+ * TypeScript syntax — at best a parse error, at worst arbitrary code.
+ * Issue #14.
+ */
+function escapeJsdoc(value: string | undefined | null): string {
+	if (value === undefined || value === null) return "";
+	return String(value).replace(/\*\//g, "*\\/");
+}
+
+/**
+ * JSDoc text for a property: its description, then an `@example` per entry
+ * of `examples` (3.1) or for the 3.0 `example`.
+ */
+function propertyDoc(schema: Record<string, unknown>): string {
+	const parts: string[] = [];
+	if (schema.description) parts.push(escapeJsdoc(schema.description as string));
+	const examples = Array.isArray(schema.examples)
+		? schema.examples
+		: schema.example !== undefined
+			? [schema.example]
+			: [];
+	for (const example of examples) {
+		parts.push(`@example ${escapeJsdoc(JSON.stringify(example))}`);
+	}
+	return parts.join(" ");
+}
+
+/**
+ * Capitalizes the first letter of a string (for PascalCase conversion from camelCase operationIds).
+ */
+function toPascalCase(str: string): string {
+	if (str.length === 0) return str;
+	return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+/**
+ * Recognized component kinds that can be referenced by `$ref`. Used to
+ * pick the appropriate inlining strategy in `schemaToTS`. Issue #32.
+ */
+type RefKind = "schemas" | "parameters" | "requestBodies" | "responses";
+
+const REF_PREFIXES: Array<[string, RefKind]> = [
+	["#/components/schemas/", "schemas"],
+	["#/components/parameters/", "parameters"],
+	["#/components/requestBodies/", "requestBodies"],
+	["#/components/responses/", "responses"],
+];
+
+/**
+ * Resolves a `$ref` string and returns the kind + name, or `null` for
+ * refs we don't know how to inline. Recognizes the four standard
+ * `components` subtrees. Issue #32.
+ */
+function parseComponentRef(
+	ref: string,
+): { kind: RefKind; name: string } | null {
 	for (const [prefix, kind] of REF_PREFIXES) {
 		if (ref.startsWith(prefix)) {
 			return { kind, name: ref.slice(prefix.length) };
@@ -693,489 +2048,1703 @@ function parseComponentRef(
 }
 
 /**
- * Pulls the inner JSON Schema out of a `components.parameters[X]`,
- * `components.requestBodies[X]`, or `components.responses[X]` object.
+ * Pulls the inner JSON Schema out of a `components.parameters[X]`,
+ * `components.requestBodies[X]`, or `components.responses[X]` object.
+ *
+ * - parameters: `.schema`
+ * - requestBodies: `.content[json].schema` (preferred), else
+ *   `.content[multipart/form-data].schema`
+ * - responses: `.content[json].schema`
+ *
+ * Returns `null` when the structure doesn't include a schema.
+ * Issue #32.
+ */
+function extractInnerSchema(
+	component: unknown,
+	kind: RefKind,
+): Record<string, unknown> | null {
+	if (!component || typeof component !== "object") return null;
+	const obj = component as Record<string, unknown>;
+
+	if (kind === "parameters") {
+		return (obj.schema as Record<string, unknown> | undefined) ?? null;
+	}
+
+	// requestBodies and responses both nest the schema under `.content`.
+	const content = obj.content as Record<string, unknown> | undefined;
+	if (!content) return null;
+	const picked = pickJsonContent(content);
+	if (picked) {
+		return (picked.entry.schema as Record<string, unknown> | undefined) ?? null;
+	}
+	const formData = content["multipart/form-data"] as
+		| Record<string, unknown>
+		| undefined;
+	return (formData?.schema as Record<string, unknown> | undefined) ?? null;
+}
+
+/**
+ * Renders `additionalProperties` as a `Record<string, T>` clause, or
+ * `null` when no additional-properties contract applies. Issue #32.
+ *
+ * - `true` / any truthy non-object  → `Record<string, unknown>`
+ * - schema object (e.g. `{ type: "string" }`) → `Record<string, T>`
+ *   where `T` is recursively rendered.
+ * - `false` / `undefined`           → `null` (closed shape; no clause)
+ */
+function renderAdditionalProperties(
+	additionalProperties: unknown,
+	indent: string,
+	allSchemas: Record<string, unknown>,
+	visited: Set<string>,
+	allComponents?: Record<string, unknown>,
+	types?: TypeContext,
+): string | null {
+	if (additionalProperties === undefined || additionalProperties === false) {
+		return null;
+	}
+	if (additionalProperties === true) {
+		return "Record<string, unknown>";
+	}
+	if (typeof additionalProperties === "object" && additionalProperties !== null) {
+		const valueType = schemaToTS(
+			additionalProperties as Record<string, unknown>,
+			indent,
+			allSchemas,
+			visited,
+			allComponents,
+			types,
+		);
+		// Wrap unions/intersections so the Record value type parses cleanly.
+		const needsParens = valueType.includes(" | ") || valueType.includes(" & ");
+		return `Record<string, ${needsParens ? `(${valueType})` : valueType}>`;
+	}
+	return null;
+}
+
+/**
+ * One branch of a `oneOf`/`anyOf` with a `discriminator`.
+ */
+interface DiscriminatedBranch {
+	/** Discriminant values selecting this branch (empty when unknown) */
+	values: string[];
+	/** The branch with its discriminant narrowed to `values` */
+	schema: Record<string, unknown>;
+	/** `components.schemas` name the branch was inlined from, if any */
+	refName?: string;
+}
+
+/**
+ * Reads `discriminator.propertyName` and `mapping` off a `oneOf`/`anyOf`
+ * and injects the literal discriminant into each branch, so the union
+ * narrows on it. A branch's values come from `mapping` (whose targets may
+ * be refs or bare schema names), else from its schema name; inline
+ * branches are left as they are. Returns null when the
+ * schema isn't a discriminated union.
+ */
+function discriminatedBranches(
+	schema: Record<string, unknown>,
+	allSchemas: Record<string, unknown>,
+): { propertyName: string; branches: DiscriminatedBranch[] } | null {
+	const discriminator = schema.discriminator as Record<string, unknown> | undefined;
+	const variants = Array.isArray(schema.oneOf) ? schema.oneOf : Array.isArray(schema.anyOf) ? schema.anyOf : null;
+	if (!variants || typeof discriminator?.propertyName !== "string") return null;
+	const propertyName = discriminator.propertyName;
+
+	const mapping = new Map<string, string[]>();
+	for (const [value, target] of Object.entries((discriminator.mapping ?? {}) as Record<string, unknown>)) {
+		if (typeof target !== "string") continue;
+		const ref = target.startsWith("#") ? target : `#/components/schemas/${target}`;
+		mapping.set(ref, [...(mapping.get(ref) ?? []), value]);
+	}
+
+	const branches = (variants as Record<string, unknown>[]).map((variant): DiscriminatedBranch => {
+		const ref = typeof variant?.$ref === "string" ? variant.$ref : undefined;
+		const parsed = ref ? parseComponentRef(ref) : null;
+		const name = parsed?.kind === "schemas" ? parsed.name : undefined;
+		const values = (ref !== undefined ? mapping.get(ref) : undefined) ?? (name !== undefined ? [name] : []);
+		if (values.length === 0) return { values, schema: variant };
+
+		const literal = { type: "string", enum: values };
+		const target = name !== undefined ? (allSchemas[name] as Record<string, unknown> | undefined) : undefined;
+		// A plain object gets its property replaced; anything else (allOf
+		// inheritance, inline branches) is intersected with the literal.
+		if (target?.properties && !target.allOf) {
+			const properties = target.properties as Record<string, Record<string, unknown>>;
+			const required = Array.isArray(target.required) ? (target.required as string[]) : [];
+			return {
+				values,
+				refName: name,
+				schema: {
+					...target,
+					properties: { ...properties, [propertyName]: { ...properties[propertyName], ...literal } },
+					required: required.includes(propertyName) ? required : [...required, propertyName],
+				},
+			};
+		}
+		return {
+			values,
+			schema: {
+				allOf: [variant, { type: "object", required: [propertyName], properties: { [propertyName]: literal } }],
+			},
+		};
+	});
+
+	return { propertyName, branches };
+}
+
+/**
+ * Type-name suffix for a discriminant value: `bank_transfer` → `BankTransfer`.
+ */
+function discriminantSuffix(value: string): string {
+	const suffix = value
+		.split(/[^A-Za-z0-9]+/)
+		.map((word) => toPascalCase(word))
+		.join("");
+	return /^[0-9]/.test(suffix) ? `_${suffix}` : suffix;
+}
+
+/**
+ * Contracts-file naming state for `schemaToTS`.
+ */
+interface TypeContext {
+	/**
+	 * Which side of the wire the type describes. Schemas with readOnly or
+	 * writeOnly properties have a different shape in each direction.
+	 */
+	direction?: "request" | "response";
+	/** Schema names with a request-shape variant → that variant's type name */
+	inputNames: Map<string, string>;
+	/** `enumKey`s of enums emitted as const objects → the object's name */
+	enumNames?: Map<string, string>;
+	/** `[scalars]`: types for schema formats */
+	scalars?: ScalarsConfig;
+}
+
+/**
+ * Whether a property belongs in the given direction's shape: readOnly
+ * properties are server-assigned, writeOnly ones are never sent back.
+ */
+function includesProperty(propSchema: Record<string, unknown>, types: TypeContext | undefined): boolean {
+	if (types?.direction === "request") return propSchema?.readOnly !== true;
+	if (types?.direction === "response") return propSchema?.writeOnly !== true;
+	return true;
+}
+
+/**
+ * Converts a JSON Schema to a fully-expanded TypeScript type string.
+ * Recursively inlines $ref schemas so every type is visible without
+ * indirection.
+ *
+ * For recursive schemas (a `$ref` whose target is already on the
+ * inlining stack), emits the sanitized type name from the contracts
+ * file rather than collapsing to `unknown`. The contracts file emits
+ * a top-level `export interface <Name>` for every entry in
+ * `components.schemas`, so the named reference resolves at TS compile
+ * time. Issue #26.
+ *
+ * With a `types.direction`, readOnly properties are dropped from
+ * request shapes and writeOnly ones from response shapes, and cycles in a
+ * request shape name the schema's `Input` variant. Enums listed in
+ * `types.enumNames` are referenced by name, and formats mapped by
+ * `types.scalars` take the mapped type.
+ */
+function schemaToTS(
+	schema: Record<string, unknown>,
+	indent: string,
+	allSchemas: Record<string, unknown>,
+	visited: Set<string> = new Set(),
+	allComponents?: Record<string, unknown>,
+	types?: TypeContext,
+): string {
+	if (!schema || typeof schema !== "object") return "unknown";
+
+	// $ref → recursively inline the referenced schema. Recognizes refs
+	// to `components.schemas`, `components.parameters`,
+	// `components.requestBodies`, and `components.responses`. The
+	// non-schema kinds wrap their actual schema under a known field
+	// (`.schema` for parameters, `.content[json].schema` for bodies/
+	// responses), so we extract that and recurse. Issues #26 and #32.
+	if (schema.$ref && typeof schema.$ref === "string") {
+		const parsed = parseComponentRef(schema.$ref);
+		if (!parsed) return "unknown";
+
+		// `components.schemas` — the canonical case. Cycle handling
+		// emits the sanitized name (the contracts file exports it) so
+		// recursive types stay typed instead of collapsing to unknown.
+		if (parsed.kind === "schemas") {
+			// Refs into a schema (`Foo/$defs/Bar`, 3.1) are followed as
+			// pointers; only top-level models have a name to fall back on.
+			if (parsed.name.includes("/")) {
+				if (visited.has(parsed.name)) return "unknown";
+				const nested = resolveRef(schema.$ref, { components: { ...allComponents, schemas: allSchemas } });
+				if (!nested || typeof nested !== "object") return "unknown";
+				return schemaToTS(
+					nested as Record<string, unknown>,
+					indent,
+					allSchemas,
+					new Set([...visited, parsed.name]),
+					allComponents,
+					types,
+				);
+			}
+			if (visited.has(parsed.name)) {
+				const inputName = types?.direction === "request" ? types.inputNames.get(parsed.name) : undefined;
+				return inputName ?? sanitizeIdentifier(parsed.name);
+			}
+			const refSchema = allSchemas[parsed.name] as Record<string, unknown> | undefined;
+			if (!refSchema) return "unknown";
+			// Named enums are declared as const objects of their own name.
+			if (types?.enumNames && enumKey(refSchema.enum) !== null) return sanitizeIdentifier(parsed.name);
+			const newVisited = new Set(visited);
+			newVisited.add(parsed.name);
+			return schemaToTS(refSchema, indent, allSchemas, newVisited, allComponents, types);
+		}
+
+		// Other component kinds need the full components object to look
+		// up. If we weren't passed one (legacy callers), fall back to
+		// `unknown`.
+		if (!allComponents) return "unknown";
+
+		const inner = extractInnerSchema(
+			(allComponents[parsed.kind] as Record<string, unknown> | undefined)?.[
+				parsed.name
+			],
+			parsed.kind,
+		);
+		if (!inner) return "unknown";
+		return schemaToTS(inner, indent, allSchemas, visited, allComponents, types);
+	}
+
+	// const (3.1) → literal. JSON is valid TS type syntax for every value.
+	if (schema.const !== undefined) {
+		return JSON.stringify(schema.const);
+	}
+
+	// if/then/else (3.1) → a value matching `if` also matches `then`, and
+	// any other value matches `else`: `Base & ((If & Then) | Else)`. With
+	// only one branch, or a branch with no type of its own (e.g. only
+	// `required`), the constraint can't be expressed, so it's dropped.
+	if (schema.if && typeof schema.if === "object" && schema.then && schema.else) {
+		const { if: ifSchema, then: thenSchema, else: elseSchema, ...rest } = schema;
+		const render = (branch: unknown) =>
+			schemaToTS(branch as Record<string, unknown>, indent, allSchemas, visited, allComponents, types);
+		const base = render(rest);
+		const thenType = render(thenSchema);
+		const elseType = render(elseSchema);
+		if (thenType === "unknown" || elseType === "unknown") return base;
+		const ifType = render(ifSchema);
+		const matched = ifType === "unknown" ? thenType : `${ifType} & ${thenType}`;
+		const conditional = `(${matched}) | ${elseType}`;
+		return base === "unknown" ? conditional : `${base} & (${conditional})`;
+	}
+
+	// allOf → intersection
+	if (Array.isArray(schema.allOf)) {
+		const parts = (schema.allOf as Record<string, unknown>[]).map((s) => schemaToTS(s, indent, allSchemas, visited, allComponents, types));
+		return parts.join(" & ") || "unknown";
+	}
+
+	// oneOf / anyOf with a discriminator → union whose branches carry the
+	// literal discriminant.
+	const discriminated = discriminatedBranches(schema, allSchemas);
+	if (discriminated) {
+		const parts = discriminated.branches.map((branch) =>
+			schemaToTS(
+				branch.schema,
+				indent,
+				allSchemas,
+				branch.refName !== undefined ? new Set([...visited, branch.refName]) : visited,
+				allComponents,
+				types,
+			),
+		);
+		return parts.join(" | ") || "unknown";
+	}
+
+	// oneOf / anyOf → union
+	const unionKey = schema.oneOf ? "oneOf" : schema.anyOf ? "anyOf" : null;
+	if (unionKey && Array.isArray(schema[unionKey])) {
+		const parts = (schema[unionKey] as Record<string, unknown>[]).map((s) => schemaToTS(s, indent, allSchemas, visited, allComponents, types));
+		return parts.join(" | ") || "unknown";
+	}
+
+	// enum — JSON.stringify escapes `"`, `\`, and control chars so values
+	// like `He said "hi"` or paths containing `\` produce valid TS literals.
+	// Issue #15.
+	if (Array.isArray(schema.enum)) {
+		const key = enumKey(schema.enum);
+		const enumName = key !== null ? types?.enumNames?.get(key) : undefined;
+		if (enumName) return enumName;
+		return schema.enum.map((v) => (typeof v === "string" ? JSON.stringify(v) : String(v))).join(" | ");
+	}
+
+	const schemaType = schema.type as string | string[] | undefined;
+
+	// type arrays (3.1, e.g. ["string", "null"]) → union of each type
+	if (Array.isArray(schemaType)) {
+		const parts = [
+			...new Set(
+				schemaType.map((type) =>
+					type === "null"
+						? "null"
+						: schemaToTS({ ...schema, type }, indent, allSchemas, visited, allComponents, types),
+				),
+			),
+		];
+		return parts.join(" | ") || "unknown";
+	}
+
+	// prefixItems (3.1) → tuple, with `items` typing any further elements
+	if (Array.isArray(schema.prefixItems)) {
+		const elements = (schema.prefixItems as Record<string, unknown>[]).map((item) =>
+			schemaToTS(item, indent, allSchemas, visited, allComponents, types),
+		);
+		const rest = schema.items as Record<string, unknown> | boolean | undefined;
+		if (rest && typeof rest === "object") {
+			const restType = schemaToTS(rest, indent, allSchemas, visited, allComponents, types);
+			const needsParens = restType.includes(" | ") || restType.includes(" & ");
+			elements.push(`...${needsParens ? `(${restType})` : restType}[]`);
+		}
+		return `[${elements.join(", ")}]`;
+	}
+
+	// array
+	if (schemaType === "array") {
+		const items = schema.items as Record<string, unknown> | undefined;
+		const itemType = items ? schemaToTS(items, indent, allSchemas, visited, allComponents, types) : "unknown";
+		// Wrap union/intersection array item types in parens for correctness
+		const needsParens = itemType.includes(" | ") || itemType.includes(" & ");
+		return needsParens ? `(${itemType})[]` : `${itemType}[]`;
+	}
+
+	// object with properties → inline object type. Honors
+	// `additionalProperties` per OpenAPI / JSON Schema:
+	//   - true (or any non-false truthy)             → Record<string, unknown>
+	//   - schema (e.g. { type: "string" })           → Record<string, T>
+	//   - false / undefined / explicit closed shape  → no record intersection
+	// Combined with named properties, the open-shape becomes an
+	// intersection (`{ ... } & Record<string, T>`). Issue #32.
+	if (schemaType === "object" || schema.properties) {
+		const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
+		// `unevaluatedProperties` (3.1) plays the same role when
+		// `additionalProperties` isn't set.
+		const additionalType = renderAdditionalProperties(
+			schema.additionalProperties ?? schema.unevaluatedProperties,
+			indent,
+			allSchemas,
+			visited,
+			allComponents,
+			types,
+		);
+		const entries = Object.entries(properties ?? {}).filter(([, propSchema]) =>
+			includesProperty(propSchema, types),
+		);
+
+		if (entries.length === 0) {
+			// No named properties — an open object collapses to a Record.
+			// `additionalProperties: false` is meaningless without props,
+			// so default to `Record<string, unknown>` if not specified.
+			return additionalType ?? "Record<string, unknown>";
+		}
+
+		const required = new Set<string>(Array.isArray(schema.required) ? schema.required as string[] : []);
+		const innerIndent = indent + "\t";
+		const props = entries.map(([key, propSchema]) => {
+			const optional = required.has(key) ? "" : "?";
+			const propType = schemaToTS(propSchema, innerIndent, allSchemas, visited, allComponents, types);
+			const doc = propertyDoc(propSchema);
+			const desc = doc
+				? `/** ${doc} */\n${innerIndent}`
+				: "";
+			return `${desc}${formatPropertyKey(key)}${optional}: ${propType};`;
+		});
+		const objectType = `{\n${innerIndent}${props.join(`\n${innerIndent}`)}\n${indent}}`;
+		return additionalType ? `${objectType} & ${additionalType}` : objectType;
+	}
+
+	// primitive types
+	const scalar = scalarType(schema, types?.scalars, "named");
+	if (scalar) return scalar;
+	if (schemaType === "string") return schema.format === "binary" ? "File | Blob" : "string";
+	if (schemaType === "number" || schemaType === "integer") return "number";
+	if (schemaType === "boolean") return "boolean";
+	if (schemaType === "null") return "null";
+
+	// nullable shorthand
+	if (schema.nullable === true) {
+		const inner = { ...schema, nullable: undefined };
+		return `${schemaToTS(inner, indent, allSchemas, visited, allComponents, types)} | null`;
+	}
+
+	return "unknown";
+}
+
+/**
+ * Resolves an operation's response/request body/params schema from the spec.
+ */
+function resolveOperationSchema(
+	spec: Record<string, unknown>,
+	operationId: string,
+	kind: "response" | "requestBody" | "pathParams" | "queryParams",
+	responseStatus?: number,
+	contentType?: string,
+): Record<string, unknown> | null {
+	const paths = spec.paths as Record<string, Record<string, unknown>> | undefined;
+	if (!paths) return null;
+
+	for (const pathItem of Object.values(paths)) {
+		for (const method of GENERATABLE_HTTP_METHODS) {
+			const op = pathItem[method] as Record<string, unknown> | undefined;
+			if (!op || op.operationId !== operationId) continue;
+
+			if (kind === "response" && responseStatus != null) {
+				const responses = op.responses as Record<string, Record<string, unknown>> | undefined;
+				const resp = responses?.[String(responseStatus)];
+				const content = resp?.content as Record<string, unknown> | undefined;
+				const picked = pickJsonContent(content);
+				return (picked?.entry?.schema as Record<string, unknown>) ?? null;
+			}
+
+			if (kind === "requestBody") {
+				const rb = op.requestBody as Record<string, unknown> | undefined;
+				const content = rb?.content as Record<string, Record<string, unknown>> | undefined;
+				const ct = contentType ?? "application/json";
+				// For JSON-ish body lookups, fall back through the media-type priority
+				// so specs using `*\/*` or `application/vnd.api+json` still resolve.
+				if (ct === "application/json") {
+					const picked = pickJsonContent(content as Record<string, unknown> | undefined);
+					return (picked?.entry?.schema as Record<string, unknown>) ?? null;
+				}
+				return (content?.[ct]?.schema as Record<string, unknown>) ?? null;
+			}
+
+			if (kind === "pathParams" || kind === "queryParams") {
+				const paramKind = kind === "pathParams" ? "path" : "query";
+				const parameters = op.parameters as Array<Record<string, unknown>> | undefined;
+				if (!parameters) return null;
+				const filtered = parameters.filter((p) => p.in === paramKind);
+				if (filtered.length === 0) return null;
+				// Build a synthetic object schema from params
+				const required: string[] = [];
+				const properties: Record<string, unknown> = {};
+				for (const param of filtered) {
+					const name = param.name as string;
+					properties[name] = param.schema ?? { type: "string" };
+					if (param.required) required.push(name);
+					// Attach description from param to schema
+					if (param.description && typeof param.schema === "object" && param.schema !== null) {
+						(properties[name] as Record<string, unknown>).description = param.description;
+					}
+				}
+				return { type: "object", properties, required };
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Declarations for a discriminated `oneOf`/`anyOf` schema model: a named
+ * type per branch (`Payment` + `card` → `PaymentCard`), the union of
+ * them, and an `isPaymentCard` guard per branch. Branches without a known
+ * discriminant, or whose name is already taken, stay inline and get no
+ * guard. Emitted names are added to `declaredNames`.
+ */
+function discriminatedUnionLines(
+	name: string,
+	schema: Record<string, unknown>,
+	context: {
+		allSchemas: Record<string, unknown>;
+		allComponents: Record<string, unknown> | undefined;
+		/** Names no variant may take */
+		reserved: Set<string>;
+		declaredNames: Set<string>;
+		types: TypeContext;
+	},
+): string[] {
+	const { allSchemas, allComponents, reserved, declaredNames, types } = context;
+	const { propertyName, branches } = discriminatedBranches(schema, allSchemas) as NonNullable<
+		ReturnType<typeof discriminatedBranches>
+	>;
+	const typeName = sanitizeIdentifier(name);
+	const lines: string[] = [];
+	const members: string[] = [];
+	const guards: string[] = [];
+
+	for (const branch of branches) {
+		const visited = new Set([name, ...(branch.refName !== undefined ? [branch.refName] : [])]);
+		const tsType = schemaToTS(branch.schema, "", allSchemas, visited, allComponents, types);
+		const variantName = `${typeName}${discriminantSuffix(branch.values[0] ?? "")}`;
+		if (branch.values.length === 0 || reserved.has(variantName) || declaredNames.has(variantName)) {
+			members.push(tsType);
+			continue;
+		}
+		declaredNames.add(variantName);
+		declaredNames.add(`is${variantName}`);
+		members.push(variantName);
+
+		const literals = branch.values.map((value) => JSON.stringify(value)).join(" | ");
+		lines.push(`/** ${escapeJsdoc(name)} variant: ${escapeJsdoc(propertyName)} = ${escapeJsdoc(literals)} */`);
+		lines.push(`export type ${variantName} = ${tsType};`);
+		lines.push(``);
+
+		const check = branch.values
+			.map((value) => `value${formatPropertyAccess(propertyName)} === ${JSON.stringify(value)}`)
+			.join(" || ");
+		guards.push(``);
+		guards.push(`/** Narrows a ${escapeJsdoc(name)} to its ${escapeJsdoc(literals)} variant. */`);
+		guards.push(`export function is${variantName}(value: ${typeName}): value is ${variantName} {`);
+		guards.push(`\treturn ${check};`);
+		guards.push(`}`);
+	}
+
+	const desc = schema.description ? ` * ${escapeJsdoc(schema.description as string)}\n ` : "";
+	lines.push(`/**\n ${desc}* Schema: ${escapeJsdoc(name)} (discriminated by ${escapeJsdoc(propertyName)})\n */`);
+	lines.push(`export type ${typeName} = ${members.join(" | ") || "unknown"};`);
+	lines.push(...guards);
+	return lines;
+}
+
+/**
+ * Declares a plain schema model in one direction: an interface for
+ * object schemas, a type alias for everything else (including 3.1
+ * nullable or conditional objects).
+ */
+function schemaModelLines(
+	typeName: string,
+	schemaObj: Record<string, unknown>,
+	context: {
+		allSchemas: Record<string, unknown>;
+		allComponents: Record<string, unknown> | undefined;
+		types: TypeContext;
+	},
+): string[] {
+	const { allSchemas, allComponents, types } = context;
+	const plainObject =
+		(schemaObj.type === "object" || (schemaObj.properties && !Array.isArray(schemaObj.type))) && !schemaObj.if;
+	if (!plainObject) {
+		return [`export type ${typeName} = ${schemaToTS(schemaObj, "", allSchemas, undefined, allComponents, types)};`];
+	}
+
+	const properties = Object.entries(
+		(schemaObj.properties ?? {}) as Record<string, Record<string, unknown>>,
+	).filter(([, propSchema]) => includesProperty(propSchema, types));
+	if (properties.length === 0) {
+		return [`export type ${typeName} = Record<string, unknown>;`];
+	}
+
+	const required = new Set<string>(Array.isArray(schemaObj.required) ? (schemaObj.required as string[]) : []);
+	const lines = [`export interface ${typeName} {`];
+	for (const [propKey, propSchema] of properties) {
+		const optional = required.has(propKey) ? "" : "?";
+		const propType = schemaToTS(propSchema, "\t", allSchemas, undefined, allComponents, types);
+		const doc = propertyDoc(propSchema);
+		if (doc) {
+			lines.push(`\t/** ${doc} */`);
+		}
+		lines.push(`\t${formatPropertyKey(propKey)}${optional}: ${propType};`);
+	}
+	lines.push(`}`);
+	return lines;
+}
+
+/**
+ * Identity of an enum's value list, shared by identical enums. Null for
+ * enums a const object can't hold (booleans, null, objects).
+ */
+function enumKey(values: unknown): string | null {
+	if (!Array.isArray(values) || values.length === 0) return null;
+	if (!values.every((value) => typeof value === "string" || typeof value === "number")) return null;
+	return JSON.stringify(values);
+}
+
+/**
+ * An enum emitted as a const object: `export const OrderStatus = {...}`.
+ */
+interface EnumObject {
+	name: string;
+	/** The schema the values, `x-enum-varnames` and `x-enum-descriptions` come from */
+	schema: Record<string, unknown>;
+	/** Where the enum was first found (`Order.status`) */
+	source: string;
+}
+
+/**
+ * Finds the enums to emit as const objects: every named enum in
+ * `components.schemas`, plus inline property enums named after their
+ * owner and property (`Order.status` → `OrderStatus`). Identical inline
+ * enums share one object, as do inline enums identical to a named one.
+ * Inline enums with a single value, or whose name is taken, stay literal.
+ */
+function collectEnumObjects(
+	metadata: ContractMetadata,
+	allComponents: Record<string, unknown> | undefined,
+	reserved: Set<string>,
+): { enumNames: Map<string, string>; inline: EnumObject[] } {
+	const enumNames = new Map<string, string>();
+	const inline: EnumObject[] = [];
+	const taken = new Set(reserved);
+
+	for (const [name, schema] of Object.entries(metadata.schemas)) {
+		const key = enumKey((schema as Record<string, unknown>)?.enum);
+		if (key !== null && !enumNames.has(key)) enumNames.set(key, sanitizeIdentifier(name));
+	}
+
+	const walk = (schema: unknown, owner: string, source: string, root = false): void => {
+		if (!schema || typeof schema !== "object") return;
+		const obj = schema as Record<string, unknown>;
+		if (obj.$ref) {
+			// Non-schema refs (parameters, bodies) carry their schema inline.
+			const parsed = typeof obj.$ref === "string" ? parseComponentRef(obj.$ref) : null;
+			if (!parsed || parsed.kind === "schemas" || !allComponents) return;
+			const component = (allComponents[parsed.kind] as Record<string, unknown> | undefined)?.[parsed.name];
+			walk(extractInnerSchema(component, parsed.kind), owner, source, root);
+			return;
+		}
+
+		const key = enumKey(obj.enum);
+		if (!root && key !== null && (obj.enum as unknown[]).length > 1) {
+			if (!enumNames.has(key) && !taken.has(owner)) {
+				enumNames.set(key, owner);
+				taken.add(owner);
+				inline.push({ name: owner, schema: obj, source });
+			}
+			return;
+		}
+
+		for (const member of [obj.allOf, obj.oneOf, obj.anyOf].flat()) walk(member, owner, source, root);
+		walk(obj.items, owner, source);
+		if (typeof obj.additionalProperties === "object") walk(obj.additionalProperties, owner, source);
+		for (const [key, propSchema] of Object.entries((obj.properties ?? {}) as Record<string, unknown>)) {
+			walk(propSchema, `${owner}${discriminantSuffix(key)}`, `${source}.${key}`);
+		}
+	};
+
+	for (const [name, schema] of Object.entries(metadata.schemas)) {
+		walk(schema, sanitizeIdentifier(name), name, true);
+	}
+	for (const op of metadata.operations) {
+		const base = toPascalCase(sanitizeIdentifier(op.operationId));
+		const schemas = [
+			...op.allResponses.map((resp) =>
+				resp.hasJsonContent ? resolveOperationSchema(metadata.spec, op.operationId, "response", resp.status) : null,
+			),
+			op.hasJsonBody || op.hasFormDataBody
+				? resolveOperationSchema(
+						metadata.spec,
+						op.operationId,
+						"requestBody",
+						undefined,
+						op.hasJsonBody ? "application/json" : "multipart/form-data",
+					)
+				: null,
+			op.hasPathParams ? resolveOperationSchema(metadata.spec, op.operationId, "pathParams") : null,
+			op.hasQueryParams ? resolveOperationSchema(metadata.spec, op.operationId, "queryParams") : null,
+		];
+		for (const schema of schemas) walk(schema, base, op.operationId, true);
+	}
+
+	return { enumNames, inline };
+}
+
+/**
+ * Declares an enum as a const object keyed by `x-enum-varnames` (else
+ * the PascalCased value), with `x-enum-descriptions` as member docs,
+ * plus a type of the same name for its values.
+ */
+function enumObjectLines(typeName: string, schema: Record<string, unknown>): string[] {
+	const values = schema.enum as Array<string | number>;
+	const varnames = Array.isArray(schema["x-enum-varnames"]) ? (schema["x-enum-varnames"] as unknown[]) : [];
+	const descriptions = Array.isArray(schema["x-enum-descriptions"])
+		? (schema["x-enum-descriptions"] as unknown[])
+		: [];
+
+	const keys = new Set<string>();
+	const lines = [`export const ${typeName} = {`];
+	values.forEach((value, index) => {
+		const varname = varnames[index];
+		let key = typeof varname === "string" && varname !== "" ? varname : discriminantSuffix(String(value)) || "Empty";
+		if (keys.has(key)) key = `${key}_${index}`;
+		keys.add(key);
+		const description = descriptions[index];
+		if (typeof description === "string" && description !== "") {
+			lines.push(`\t/** ${escapeJsdoc(description)} */`);
+		}
+		lines.push(`\t${formatPropertyKey(key)}: ${JSON.stringify(value)},`);
+	});
+	lines.push(`} as const;`);
+	lines.push(`export type ${typeName} = typeof ${typeName}[keyof typeof ${typeName}];`);
+	return lines;
+}
+
+/**
+ * Generates the api.contracts.ts file content.
+ * Contains concrete interfaces for every schema, operation response,
+ * request body, path param, and query param — enabling cmd+click navigation
+ * to see real type fields.
+ */
+function generateContractsFileContent(
+	metadata: ContractMetadata,
+	options: { enumObjects?: boolean; scalars?: ScalarsConfig } = {},
+): string {
+	const { lines, operationLines } = buildContracts(metadata, options);
+	return [...lines, ...operationLines(metadata.operations).lines].join("\n");
+}
+
+/**
+ * Generates the contracts for `[output] split_by_tag`: api.contracts.ts
+ * keeps the shared models and re-exports every group's file, and each
+ * group's `<group>/contracts.ts` holds its operations' contracts.
+ * `groups` maps operationIds to their group.
+ */
+function generateSplitContracts(
+	metadata: ContractMetadata,
+	options: { enumObjects?: boolean; scalars?: ScalarsConfig },
+	groups: Map<string, string>,
+): { contracts: string; groups: Map<string, string> } {
+	const { lines, sharedNames, operationLines } = buildContracts(metadata, options);
+
+	const byGroup = new Map<string, ContractOperationMeta[]>();
+	const ungrouped: ContractOperationMeta[] = [];
+	for (const op of metadata.operations) {
+		const group = groups.get(op.operationId);
+		if (group === undefined) ungrouped.push(op);
+		else byGroup.set(group, [...(byGroup.get(group) ?? []), op]);
+	}
+
+	const files = new Map<string, string>();
+	for (const [group, ops] of [...byGroup].sort(([a], [b]) => a.localeCompare(b))) {
+		const { lines: opLines, skipped } = operationLines(ops);
+		// Shared names the contracts refer to are imported; ones skipped
+		// because a shared model already has the name are re-exported, so
+		// the group's operations file finds every contract it imports here.
+		const imports = [...referencedNames(opLines.join("\n"))].filter((name) => sharedNames.has(name)).sort();
+		const reexports = [...skipped].filter((name) => sharedNames.has(name)).sort();
+		// Operations without contracts (no params, body or JSON response)
+		// leave nothing to export, and an empty file isn't a module.
+		if (reexports.length === 0 && !opLines.some((line) => line.startsWith("export "))) continue;
+		files.set(
+			group,
+			[
+				`/**
+ * Concrete type contracts for the "${group}" operations.
+ *
+ * Auto-generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - changes will be overwritten.
+ *
+ * Shared schema models live in ../api.contracts.ts, which re-exports
+ * everything declared here.
+ */
+`,
+				...(imports.length > 0 ? [`import type { ${imports.join(", ")} } from "../api.contracts";`, ``] : []),
+				...(reexports.length > 0 ? [`export type { ${reexports.join(", ")} } from "../api.contracts";`, ``] : []),
+				...opLines,
+			].join("\n"),
+		);
+	}
+
+	const contracts = [...lines, ...operationLines(ungrouped).lines];
+	if (files.size > 0) {
+		contracts.push(`/* ~ =================================== ~ */`);
+		contracts.push(`/* -- Operation Contracts (split_by_tag) -- */`);
+		contracts.push(`/* ~ =================================== ~ */`);
+		contracts.push(``);
+		for (const group of files.keys()) contracts.push(`export * from "./${group}/contracts";`);
+		contracts.push(``);
+	}
+	return { contracts: contracts.join("\n"), groups: files };
+}
+
+/**
+ * The `[output] split_by_tag` output: api.contracts.ts with the shared
+ * models, and every other file by path relative to `_generated/`.
+ */
+function generateSplitOutput(
+	operations: OperationMetadata[],
+	metadata: ContractMetadata,
+	options: { enumObjects?: boolean; scalars?: ScalarsConfig },
+	validation?: OperationValidation,
+	scalars?: OperationScalars,
+	transport: Transport = "axios",
+): { contracts: string; files: Map<string, string> } {
+	const { contracts, groups } = generateSplitContracts(
+		metadata,
+		options,
+		new Map(operations.map((op) => [op.operationId, op.group])),
+	);
+	const files = generateSplitOperationFiles(operations, validation, scalars, transport);
+	for (const [group, content] of groups) files.set(`${group}/contracts.ts`, content);
+	return { contracts, files };
+}
+
+/**
+ * Removes `split_by_tag` output that `files` no longer has: the folders
+ * of groups that are gone, and all of it once the flag is off.
+ */
+async function removeStaleSplitFiles(generatedDir: string, files: Map<string, string>): Promise<void> {
+	for (const entry of await readdir(generatedDir, { withFileTypes: true })) {
+		if (!entry.isDirectory() || files.has(`${entry.name}/operations.ts`)) continue;
+		if (await fileExists(join(generatedDir, entry.name, "operations.ts"))) {
+			await rm(join(generatedDir, entry.name), { recursive: true, force: true });
+		}
+	}
+	for (const file of ["api.request.ts", "index.ts"]) {
+		if (!files.has(file)) await rm(join(generatedDir, file), { force: true });
+	}
+}
+
+/**
+ * Identifiers a chunk of generated type code refers to, ignoring
+ * comments, string literals and property keys.
+ */
+function referencedNames(code: string): Set<string> {
+	const names = new Set<string>();
+	const tokens = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"(?:[^"\\\n]|\\.)*"|([A-Za-z_$][\w$]*)(?![\w$]|\??:)/g;
+	for (const match of code.matchAll(tokens)) {
+		if (match[1] !== undefined) names.add(match[1]);
+	}
+	return names;
+}
+
+/**
+ * The body of api.contracts.ts: the header and shared sections (scalars,
+ * schema models, inline enums) as `lines`, and `operationLines` to emit
+ * the operation sections for some of the operations. Names those
+ * sections skip because they're already declared are reported in
+ * `skipped`.
+ */
+function buildContracts(
+	metadata: ContractMetadata,
+	options: { enumObjects?: boolean; scalars?: ScalarsConfig },
+): {
+	lines: string[];
+	sharedNames: Set<string>;
+	operationLines: (operations: ContractOperationMeta[]) => { lines: string[]; skipped: Set<string> };
+} {
+	const lines: string[] = [];
+	const allSchemas = metadata.schemas as Record<string, unknown>;
+	// Pass the full `components` block to schemaToTS so it can resolve
+	// non-`schemas` $refs (parameters / requestBodies / responses).
+	// Issue #32.
+	const allComponents =
+		(metadata.spec.components as Record<string, unknown> | undefined) ??
+		undefined;
+
+	lines.push(`/**
+ * Concrete type contracts extracted from OpenAPI spec.
  *
- * - parameters: `.schema`
- * - requestBodies: `.content[json].schema` (preferred), else
- *   `.content[multipart/form-data].schema`
- * - responses: `.content[json].schema`
+ * Auto-generated by chowbea-axios CLI.
+ * DO NOT EDIT MANUALLY - changes will be overwritten.
  *
- * Returns `null` when the structure doesn't include a schema.
- * Issue #32.
+ * Every type is fully expanded inline — no indirection, no generic references.
+ * Cmd+click any type to see its full structure right here.
  */
-function extractInnerSchema(
-	component: unknown,
-	kind: RefKind,
-): Record<string, unknown> | null {
-	if (!component || typeof component !== "object") return null;
-	const obj = component as Record<string, unknown>;
+`);
 
-	if (kind === "parameters") {
-		return (obj.schema as Record<string, unknown> | undefined) ?? null;
+	// Tracks every top-level identifier already declared in the file so the
+	// later operation-body / response / params passes can skip names that
+	// would collide with a Schema Model (TS2300). Example: a spec with
+	// `components.schemas.AiChatBody` AND an `aiChat` operation whose
+	// body pascal-cases to `AiChatBody` would otherwise emit two
+	// declarations of the same name.
+	const declaredNames = new Set<string>();
+
+	// ~ ======= Schema Models ======= ~
+	const schemaEntries = Object.entries(metadata.schemas);
+	const schemaNames = new Set(schemaEntries.map(([name]) => sanitizeIdentifier(name)));
+
+	// With `output.enum_objects`, enums are const objects referenced by name.
+	const enums = options.enumObjects
+		? collectEnumObjects(
+				metadata,
+				allComponents,
+				new Set([
+					...schemaNames,
+					...[...schemaNames].map((name) => `${name}Input`),
+					...metadata.operations.flatMap((op) => {
+						const base = toPascalCase(sanitizeIdentifier(op.operationId));
+						return [
+							`${base}Response`,
+							...op.allResponses.map((resp) => `${base}Response${resp.status}`),
+							`${base}Body`,
+							`${base}PathParams`,
+							`${base}QueryParams`,
+						];
+					}),
+				]),
+			)
+		: undefined;
+	const enumNames = enums?.enumNames;
+	for (const { name } of enums?.inline ?? []) declaredNames.add(name);
+
+	// Schemas whose readOnly/writeOnly properties (their own or nested
+	// ones) make the request shape differ get a `${Name}Input` variant;
+	// the model itself is the response shape.
+	const inputNames = new Map<string, string>();
+	const { scalars } = options;
+	const response: TypeContext = { direction: "response", inputNames, enumNames, scalars };
+	const request: TypeContext = { direction: "request", inputNames, enumNames, scalars };
+	const directional = new Set(
+		schemaEntries
+			.filter(([, schema]) => {
+				const schemaObj = schema as Record<string, unknown>;
+				return (
+					schemaToTS(schemaObj, "", allSchemas, undefined, allComponents, request) !==
+					schemaToTS(schemaObj, "", allSchemas, undefined, allComponents, response)
+				);
+			})
+			.map(([name]) => name),
+	);
+	for (const name of directional) {
+		const inputName = `${sanitizeIdentifier(name)}Input`;
+		if (!schemaNames.has(inputName)) inputNames.set(name, inputName);
 	}
 
-	// requestBodies and responses both nest the schema under `.content`.
-	const content = obj.content as Record<string, unknown> | undefined;
-	if (!content) return null;
-	const picked = pickJsonContent(content);
-	if (picked) {
-		return (picked.entry.schema as Record<string, unknown> | undefined) ?? null;
+	// ~ ======= Scalars ======= ~
+	// Brands named by `[scalars]`; "Date" and "bigint" need no declaration.
+	const brands = new Map<string, string>();
+	for (const [format, target] of Object.entries(scalars ?? {})) {
+		if (!(RUNTIME_SCALARS as readonly string[]).includes(target) && !brands.has(target)) {
+			brands.set(target, format);
+		}
 	}
-	const formData = content["multipart/form-data"] as
-		| Record<string, unknown>
-		| undefined;
-	return (formData?.schema as Record<string, unknown> | undefined) ?? null;
+	if (brands.size > 0) {
+		lines.push(`/* ~ =================================== ~ */`);
+		lines.push(`/* -- Scalars -- */`);
+		lines.push(`/* ~ =================================== ~ */`);
+		lines.push(``);
+
+		for (const [brand, format] of brands) {
+			if (schemaNames.has(brand)) {
+				lines.push(`// Scalar: ${escapeJsdoc(format)} — name already declared as a Schema Model below; skipped.`);
+				lines.push(``);
+				continue;
+			}
+			lines.push(`/** Scalar: ${escapeJsdoc(format)} */`);
+			lines.push(`export type ${brand} = ${scalarBrand(format, brand)};`);
+			declaredNames.add(brand);
+			lines.push(``);
+		}
+	}
+
+	if (schemaEntries.length > 0) {
+		lines.push(`/* ~ =================================== ~ */`);
+		lines.push(`/* -- Schema Models -- */`);
+		lines.push(`/* ~ =================================== ~ */`);
+		lines.push(``);
+
+		for (const [name, schema] of schemaEntries) {
+			const typeName = sanitizeIdentifier(name);
+			declaredNames.add(typeName);
+			const inputName = inputNames.get(name);
+			if (inputName) declaredNames.add(inputName);
+			const schemaObj = schema as Record<string, unknown>;
+			const desc = schemaObj.description
+				? ` * ${escapeJsdoc(schemaObj.description as string)}\n `
+				: "";
+
+			if (enumNames && enumKey(schemaObj.enum) !== null) {
+				lines.push(`/**\n ${desc}* Schema: ${escapeJsdoc(name)}\n */`);
+				lines.push(...enumObjectLines(typeName, schemaObj));
+				lines.push(``);
+				continue;
+			}
+
+			// Discriminated unions get named variants and type guards
+			if (discriminatedBranches(schemaObj, allSchemas)) {
+				lines.push(
+					...discriminatedUnionLines(name, schemaObj, {
+						allSchemas,
+						allComponents,
+						reserved: new Set([...schemaNames, ...declaredNames]),
+						declaredNames,
+						types: response,
+					}),
+				);
+				if (inputName) {
+					const tsType = schemaToTS(schemaObj, "", allSchemas, new Set([name]), allComponents, request);
+					lines.push(``);
+					lines.push(`/** Schema: ${escapeJsdoc(name)} (request shape, without readOnly properties) */`);
+					lines.push(`export type ${inputName} = ${tsType};`);
+				}
+				lines.push(``);
+				continue;
+			}
+
+			lines.push(`/**\n ${desc}* Schema: ${escapeJsdoc(name)}\n */`);
+			lines.push(...schemaModelLines(typeName, schemaObj, { allSchemas, allComponents, types: response }));
+			if (inputName) {
+				lines.push(``);
+				lines.push(`/** Schema: ${escapeJsdoc(name)} (request shape, without readOnly properties) */`);
+				lines.push(...schemaModelLines(inputName, schemaObj, { allSchemas, allComponents, types: request }));
+			}
+			lines.push(``);
+		}
+	}
+
+	// ~ ======= Inline Enums ======= ~
+	if (enums && enums.inline.length > 0) {
+		lines.push(`/* ~ =================================== ~ */`);
+		lines.push(`/* -- Inline Enums -- */`);
+		lines.push(`/* ~ =================================== ~ */`);
+		lines.push(``);
+
+		for (const { name, schema, source } of enums.inline) {
+			lines.push(`/** Enum: ${escapeJsdoc(source)} */`);
+			lines.push(...enumObjectLines(name, schema));
+			lines.push(``);
+		}
+	}
+
+	const sharedNames = new Set(declaredNames);
+
+	const operationLines = (operations: ContractOperationMeta[]) => {
+		const lines: string[] = [];
+		const skipped = new Set<string>();
+
+		// ~ ======= Operation Responses ======= ~
+		const opsWithResponses = operations.filter((op) => op.allResponses.length > 0);
+		if (opsWithResponses.length > 0) {
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(`/* -- Operation Responses -- */`);
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(``);
+
+			for (const op of opsWithResponses) {
+				const baseName = toPascalCase(sanitizeIdentifier(op.operationId));
+
+				// Emit per-status types for every response that has JSON content
+				const statusTypes: string[] = [];
+				for (const resp of op.allResponses) {
+					if (!resp.hasJsonContent) continue;
+					const statusTypeName = `${baseName}Response${resp.status}`;
+					if (declaredNames.has(statusTypeName)) {
+						lines.push(`// Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (${resp.status}) — name already declared as a Schema Model above; skipped.`);
+						lines.push(``);
+						statusTypes.push(statusTypeName);
+						skipped.add(statusTypeName);
+						continue;
+					}
+					const desc = resp.description ? ` - ${escapeJsdoc(resp.description)}` : "";
+					const schema = resolveOperationSchema(metadata.spec, op.operationId, "response", resp.status);
+					lines.push(`/** Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (${resp.status}${desc}) */`);
+					if (schema) {
+						lines.push(`export type ${statusTypeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents, response)};`);
+					} else {
+						lines.push(`export type ${statusTypeName} = unknown;`);
+					}
+					declaredNames.add(statusTypeName);
+					lines.push(``);
+					statusTypes.push(statusTypeName);
+				}
+
+				// Emit statusless alias pointing to the primary success response
+				if (op.responseStatus !== null) {
+					const successTypeName = `${baseName}Response${op.responseStatus}`;
+					const aliasName = `${baseName}Response`;
+					if (declaredNames.has(aliasName)) {
+						lines.push(`// Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (happy path) — name already declared above; skipped.`);
+						lines.push(``);
+						skipped.add(aliasName);
+					} else {
+						lines.push(`/** Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (happy path) */`);
+						lines.push(`export type ${aliasName} = ${successTypeName};`);
+						declaredNames.add(aliasName);
+						lines.push(``);
+					}
+				}
+			}
+		}
+
+		// ~ ======= Operation Request Bodies ======= ~
+		const bodyOps = operations.filter((op) => op.hasJsonBody || op.hasFormDataBody);
+		if (bodyOps.length > 0) {
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(`/* -- Operation Request Bodies -- */`);
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(``);
+
+			for (const op of bodyOps) {
+				const typeName = `${toPascalCase(sanitizeIdentifier(op.operationId))}Body`;
+				if (declaredNames.has(typeName)) {
+					lines.push(`// Request body: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} — name already declared as a Schema Model above; skipped.`);
+					lines.push(``);
+					skipped.add(typeName);
+					continue;
+				}
+				const contentType = op.hasJsonBody ? "application/json" : "multipart/form-data";
+				const schema = resolveOperationSchema(metadata.spec, op.operationId, "requestBody", undefined, contentType);
+				lines.push(`/** Request body: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} */`);
+				if (schema) {
+					lines.push(`export type ${typeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents, request)};`);
+				} else {
+					lines.push(`export type ${typeName} = unknown;`);
+				}
+				declaredNames.add(typeName);
+				lines.push(``);
+			}
+		}
+
+		// ~ ======= Operation Path Parameters ======= ~
+		const pathParamOps = operations.filter((op) => op.hasPathParams);
+		if (pathParamOps.length > 0) {
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(`/* -- Operation Path Parameters -- */`);
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(``);
+
+			for (const op of pathParamOps) {
+				const typeName = `${toPascalCase(sanitizeIdentifier(op.operationId))}PathParams`;
+				if (declaredNames.has(typeName)) {
+					lines.push(`// Path params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} — name already declared above; skipped.`);
+					lines.push(``);
+					skipped.add(typeName);
+					continue;
+				}
+				const schema = resolveOperationSchema(metadata.spec, op.operationId, "pathParams");
+				lines.push(`/** Path params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} */`);
+				if (schema) {
+					lines.push(`export type ${typeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents, request)};`);
+				} else {
+					lines.push(`export type ${typeName} = Record<string, string>;`);
+				}
+				declaredNames.add(typeName);
+				lines.push(``);
+			}
+		}
+
+		// ~ ======= Operation Query Parameters ======= ~
+		const queryParamOps = operations.filter((op) => op.hasQueryParams);
+		if (queryParamOps.length > 0) {
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(`/* -- Operation Query Parameters -- */`);
+			lines.push(`/* ~ =================================== ~ */`);
+			lines.push(``);
+
+			for (const op of queryParamOps) {
+				const typeName = `${toPascalCase(sanitizeIdentifier(op.operationId))}QueryParams`;
+				if (declaredNames.has(typeName)) {
+					lines.push(`// Query params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} — name already declared above; skipped.`);
+					lines.push(``);
+					skipped.add(typeName);
+					continue;
+				}
+				const schema = resolveOperationSchema(metadata.spec, op.operationId, "queryParams");
+				lines.push(`/** Query params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} */`);
+				if (schema) {
+					lines.push(`export type ${typeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents, request)};`);
+				} else {
+					lines.push(`export type ${typeName} = Record<string, unknown>;`);
+				}
+				declaredNames.add(typeName);
+				lines.push(``);
+			}
+		}
+
+		return { lines, skipped };
+	};
+
+	return { lines, sharedNames, operationLines };
 }
 
 /**
- * Renders `additionalProperties` as a `Record<string, T>` clause, or
- * `null` when no additional-properties contract applies. Issue #32.
+ * Converts a JSON Schema to a zod schema expression. Mirrors `schemaToTS`,
+ * except for `$ref`s into `components.schemas`: the schemas file exports a
+ * const for every component under its contracts name, so a ref to one in
+ * `declared` is emitted as that name. A ref to one not declared yet can
+ * only close a cycle (models are written in dependency order), so it
+ * becomes `z.lazy(() => Name)` and the name is added to `recursive`, whose
+ * declarations get an explicit type (TypeScript can't infer a
+ * self-referencing const). Refs into a schema (`Foo/$defs/Bar`, 3.1) are
+ * followed as pointers, with `pointers` holding the ones being expanded.
  *
- * - `true` / any truthy non-object  → `Record<string, unknown>`
- * - schema object (e.g. `{ type: "string" }`) → `Record<string, T>`
- *   where `T` is recursively rendered.
- * - `false` / `undefined`           → `null` (closed shape; no clause)
+ * Unlike the TS types, `nullable: true` always adds `.nullable()`, since a
+ * runtime validator must accept the `null` the spec allows. Keywords zod
+ * can't express (if/then/else, non-primitive `const`) are left unchecked
+ * and added to `unsupported`, for the caller to warn about. Schemas check
+ * the wire form, so a format `[scalars]` maps to bigint accepts the
+ * integer or the digit string the serializer sends past 2^53.
  */
-function renderAdditionalProperties(
-	additionalProperties: unknown,
+function schemaToZod(
+	schema: Record<string, unknown>,
 	indent: string,
 	allSchemas: Record<string, unknown>,
-	visited: Set<string>,
-): string | null {
-	if (additionalProperties === undefined || additionalProperties === false) {
-		return null;
-	}
-	if (additionalProperties === true) {
-		return "Record<string, unknown>";
-	}
-	if (typeof additionalProperties === "object" && additionalProperties !== null) {
-		const valueType = schemaToTS(
-			additionalProperties as Record<string, unknown>,
-			indent,
+	recursive: Set<string>,
+	declared: ReadonlySet<string>,
+	allComponents?: Record<string, unknown>,
+	unsupported: Set<string> = new Set(),
+	scalars?: ScalarsConfig,
+	pointers: ReadonlySet<string> = new Set(),
+): string {
+	if (!schema || typeof schema !== "object") return "z.unknown()";
+
+	const recurse = (child: unknown, childIndent = indent, childPointers = pointers) =>
+		schemaToZod(
+			child as Record<string, unknown>,
+			childIndent,
 			allSchemas,
-			visited,
+			recursive,
+			declared,
+			allComponents,
+			unsupported,
+			scalars,
+			childPointers,
 		);
-		// Wrap unions/intersections so the Record value type parses cleanly.
-		const needsParens = valueType.includes(" | ") || valueType.includes(" & ");
-		return `Record<string, ${needsParens ? `(${valueType})` : valueType}>`;
+
+	if (schema.$ref && typeof schema.$ref === "string") {
+		const parsed = parseComponentRef(schema.$ref);
+		if (!parsed) return "z.unknown()";
+
+		if (parsed.kind === "schemas") {
+			if (parsed.name.includes("/")) {
+				if (pointers.has(parsed.name)) return "z.unknown()";
+				const nested = resolveRef(schema.$ref, { components: { ...allComponents, schemas: allSchemas } });
+				if (!nested || typeof nested !== "object") return "z.unknown()";
+				return recurse(nested, indent, new Set([...pointers, parsed.name]));
+			}
+			if (!allSchemas[parsed.name]) return "z.unknown()";
+			if (declared.has(parsed.name)) return sanitizeIdentifier(parsed.name);
+			recursive.add(parsed.name);
+			return `z.lazy(() => ${sanitizeIdentifier(parsed.name)})`;
+		}
+
+		if (!allComponents) return "z.unknown()";
+		const inner = extractInnerSchema(
+			(allComponents[parsed.kind] as Record<string, unknown> | undefined)?.[
+				parsed.name
+			],
+			parsed.kind,
+		);
+		return inner ? recurse(inner) : "z.unknown()";
 	}
-	return null;
-}
 
-/**
- * Converts a JSON Schema to a fully-expanded TypeScript type string.
- * Recursively inlines $ref schemas so every type is visible without
- * indirection.
- *
- * For recursive schemas (a `$ref` whose target is already on the
- * inlining stack), emits the sanitized type name from the contracts
- * file rather than collapsing to `unknown`. The contracts file emits
- * a top-level `export interface <Name>` for every entry in
- * `components.schemas`, so the named reference resolves at TS compile
- * time. Issue #26.
+	// const (3.1) → literal; z.literal only takes primitives.
+	if (schema.const !== undefined) {
+		if (schema.const === null || typeof schema.const !== "object") {
+			return `z.literal(${JSON.stringify(schema.const)})`;
+		}
+		unsupported.add("const");
+		return "z.unknown()";
+	}
+
+	// if/then/else (3.1) → only the rest of the schema is checked.
+	if (schema.if !== undefined || schema.then !== undefined || schema.else !== undefined) {
+		const { if: _if, then: _then, else: _else, ...rest } = schema;
+		unsupported.add("if/then/else");
+		return recurse(rest);
+	}
+
+	const nullable = (expression: string) =>
+		schema.nullable === true ? `${expression}.nullable()` : expression;
+
+	// allOf → intersection
+	if (Array.isArray(schema.allOf)) {
+		const parts = (schema.allOf as unknown[]).map((s) => recurse(s));
+		if (parts.length === 0) return "z.unknown()";
+		return nullable(parts.slice(1).reduce((acc, part) => `${acc}.and(${part})`, parts[0] as string));
+	}
+
+	// oneOf / anyOf → union
+	const unionKey = schema.oneOf ? "oneOf" : schema.anyOf ? "anyOf" : null;
+	if (unionKey && Array.isArray(schema[unionKey])) {
+		const parts = (schema[unionKey] as unknown[]).map((s) => recurse(s));
+		if (parts.length === 0) return "z.unknown()";
+		return nullable(parts.length === 1 ? (parts[0] as string) : `z.union([${parts.join(", ")}])`);
+	}
+
+	if (Array.isArray(schema.enum)) {
+		const values = schema.enum as unknown[];
+		if (values.length > 0 && values.every((v) => typeof v === "string")) {
+			return nullable(`z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`);
+		}
+		const literals = values.map((v) => `z.literal(${JSON.stringify(v)})`);
+		if (literals.length === 0) return "z.never()";
+		return nullable(literals.length === 1 ? (literals[0] as string) : `z.union([${literals.join(", ")}])`);
+	}
+
+	const schemaType = schema.type as string | string[] | undefined;
+
+	// type arrays (3.1, e.g. ["string", "null"]) → union of each type, and
+	// "null" makes it nullable.
+	if (Array.isArray(schemaType)) {
+		const parts = [...new Set(schemaType.filter((type) => type !== "null").map((type) => recurse({ ...schema, type })))];
+		if (parts.length === 0) return schemaType.includes("null") ? "z.null()" : "z.unknown()";
+		const union = parts.length === 1 ? (parts[0] as string) : `z.union([${parts.join(", ")}])`;
+		return schemaType.includes("null") && schema.nullable !== true ? `${union}.nullable()` : union;
+	}
+
+	// prefixItems (3.1) → tuple. Further elements are checked against an
+	// `items` schema, and allowed unless `items` is false.
+	if (Array.isArray(schema.prefixItems)) {
+		const elements = (schema.prefixItems as unknown[]).map((item) => recurse(item));
+		const rest =
+			schema.items === false
+				? ""
+				: `.rest(${schema.items && typeof schema.items === "object" ? recurse(schema.items) : "z.unknown()"})`;
+		return nullable(`z.tuple([${elements.join(", ")}])${rest}`);
+	}
+
+	if (schemaType === "array") {
+		return nullable(`z.array(${schema.items ? recurse(schema.items) : "z.unknown()"})`);
+	}
+
+	// Same additionalProperties rules as schemaToTS: an open shape with
+	// named properties keeps extra keys (`.catchall`), without named
+	// properties it is a record. `unevaluatedProperties` (3.1) stands in
+	// when `additionalProperties` isn't set.
+	if (schemaType === "object" || schema.properties) {
+		const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
+		const additional = schema.additionalProperties ?? schema.unevaluatedProperties;
+		const additionalSchema =
+			additional === undefined || additional === false
+				? null
+				: typeof additional === "object" && additional !== null
+					? recurse(additional)
+					: "z.unknown()";
+
+		if (!properties || Object.keys(properties).length === 0) {
+			return nullable(`z.record(z.string(), ${additionalSchema ?? "z.unknown()"})`);
+		}
+
+		const required = new Set<string>(Array.isArray(schema.required) ? schema.required as string[] : []);
+		const innerIndent = indent + "\t";
+		const props = Object.entries(properties).map(([key, propSchema]) => {
+			const propZod = recurse(propSchema, innerIndent);
+			// One schema checks both directions, so a readOnly or writeOnly
+			// property can't be required: it's absent from one of them.
+			const optional = !required.has(key) || propSchema?.readOnly === true || propSchema?.writeOnly === true;
+			return `${formatPropertyKey(key)}: ${propZod}${optional ? ".optional()" : ""},`;
+		});
+		const objectSchema = `z.object({\n${innerIndent}${props.join(`\n${innerIndent}`)}\n${indent}})`;
+		return nullable(additionalSchema ? `${objectSchema}.catchall(${additionalSchema})` : objectSchema);
+	}
+
+	if (scalarType(schema, scalars, "named") === "bigint") {
+		return nullable(`z.union([z.number().int(), z.string().regex(/^-?\\d+$/)])`);
+	}
+	if (schemaType === "string") {
+		return nullable(schema.format === "binary" ? "z.instanceof(Blob)" : "z.string()");
+	}
+	if (schemaType === "integer") return nullable("z.number().int()");
+	if (schemaType === "number") return nullable("z.number()");
+	if (schemaType === "boolean") return nullable("z.boolean()");
+	if (schemaType === "null") return "z.null()";
+
+	return nullable("z.unknown()");
+}
+
+/**
+ * Renders the TypeScript type a `schemaToZod` expression parses to, for
+ * the explicit annotation of recursive schemas. The contracts can't be
+ * reused there: they differ from the zod output for nullable, readOnly and
+ * `[scalars]` fields. Components are referenced by name when they are
+ * recursive (their type is declared next to the const), otherwise via
+ * `z.infer`.
  */
-function schemaToTS(
+function schemaToZodType(
 	schema: Record<string, unknown>,
 	indent: string,
 	allSchemas: Record<string, unknown>,
-	visited: Set<string> = new Set(),
+	recursive: ReadonlySet<string>,
 	allComponents?: Record<string, unknown>,
+	scalars?: ScalarsConfig,
+	pointers: ReadonlySet<string> = new Set(),
 ): string {
 	if (!schema || typeof schema !== "object") return "unknown";
 
-	// $ref → recursively inline the referenced schema. Recognizes refs
-	// to `components.schemas`, `components.parameters`,
-	// `components.requestBodies`, and `components.responses`. The
-	// non-schema kinds wrap their actual schema under a known field
-	// (`.schema` for parameters, `.content[json].schema` for bodies/
-	// responses), so we extract that and recurse. Issues #26 and #32.
+	const recurse = (child: unknown, childIndent = indent, childPointers = pointers) =>
+		schemaToZodType(
+			child as Record<string, unknown>,
+			childIndent,
+			allSchemas,
+			recursive,
+			allComponents,
+			scalars,
+			childPointers,
+		);
+
 	if (schema.$ref && typeof schema.$ref === "string") {
 		const parsed = parseComponentRef(schema.$ref);
 		if (!parsed) return "unknown";
 
-		// `components.schemas` — the canonical case. Cycle handling
-		// emits the sanitized name (the contracts file exports it) so
-		// recursive types stay typed instead of collapsing to unknown.
 		if (parsed.kind === "schemas") {
-			if (visited.has(parsed.name)) return sanitizeIdentifier(parsed.name);
-			const refSchema = allSchemas[parsed.name] as Record<string, unknown> | undefined;
-			if (!refSchema) return "unknown";
-			const newVisited = new Set(visited);
-			newVisited.add(parsed.name);
-			return schemaToTS(refSchema, indent, allSchemas, newVisited, allComponents);
+			if (parsed.name.includes("/")) {
+				if (pointers.has(parsed.name)) return "unknown";
+				const nested = resolveRef(schema.$ref, { components: { ...allComponents, schemas: allSchemas } });
+				if (!nested || typeof nested !== "object") return "unknown";
+				return recurse(nested, indent, new Set([...pointers, parsed.name]));
+			}
+			if (!allSchemas[parsed.name]) return "unknown";
+			const name = sanitizeIdentifier(parsed.name);
+			return recursive.has(parsed.name) ? name : `z.infer<typeof ${name}>`;
 		}
 
-		// Other component kinds need the full components object to look
-		// up. If we weren't passed one (legacy callers), fall back to
-		// `unknown`.
 		if (!allComponents) return "unknown";
-
 		const inner = extractInnerSchema(
 			(allComponents[parsed.kind] as Record<string, unknown> | undefined)?.[
 				parsed.name
 			],
 			parsed.kind,
 		);
-		if (!inner) return "unknown";
-		return schemaToTS(inner, indent, allSchemas, visited, allComponents);
+		return inner ? recurse(inner) : "unknown";
 	}
 
-	// allOf → intersection
+	if (schema.const !== undefined) {
+		return schema.const === null || typeof schema.const !== "object" ? JSON.stringify(schema.const) : "unknown";
+	}
+
+	if (schema.if !== undefined || schema.then !== undefined || schema.else !== undefined) {
+		const { if: _if, then: _then, else: _else, ...rest } = schema;
+		return recurse(rest);
+	}
+
+	const nullable = (type: string) => (schema.nullable === true ? `${type} | null` : type);
+
 	if (Array.isArray(schema.allOf)) {
-		const parts = (schema.allOf as Record<string, unknown>[]).map((s) => schemaToTS(s, indent, allSchemas, visited));
-		return parts.join(" & ") || "unknown";
+		const parts = (schema.allOf as unknown[]).map((s) => recurse(s));
+		if (parts.length === 0) return "unknown";
+		return nullable(parts.map((part) => (part.includes(" | ") ? `(${part})` : part)).join(" & "));
 	}
 
-	// oneOf / anyOf → union
 	const unionKey = schema.oneOf ? "oneOf" : schema.anyOf ? "anyOf" : null;
 	if (unionKey && Array.isArray(schema[unionKey])) {
-		const parts = (schema[unionKey] as Record<string, unknown>[]).map((s) => schemaToTS(s, indent, allSchemas, visited));
-		return parts.join(" | ") || "unknown";
+		const parts = (schema[unionKey] as unknown[]).map((s) => recurse(s));
+		if (parts.length === 0) return "unknown";
+		return nullable(parts.join(" | "));
 	}
 
-	// enum — JSON.stringify escapes `"`, `\`, and control chars so values
-	// like `He said "hi"` or paths containing `\` produce valid TS literals.
-	// Issue #15.
 	if (Array.isArray(schema.enum)) {
-		return schema.enum.map((v) => (typeof v === "string" ? JSON.stringify(v) : String(v))).join(" | ");
+		const values = schema.enum as unknown[];
+		if (values.length === 0) return "never";
+		return nullable(values.map((v) => JSON.stringify(v)).join(" | "));
 	}
 
 	const schemaType = schema.type as string | string[] | undefined;
 
-	// array
+	if (Array.isArray(schemaType)) {
+		const parts = [...new Set(schemaType.filter((type) => type !== "null").map((type) => recurse({ ...schema, type })))];
+		if (parts.length === 0) return schemaType.includes("null") ? "null" : "unknown";
+		const union = parts.join(" | ");
+		return schemaType.includes("null") && schema.nullable !== true ? `${union} | null` : union;
+	}
+
+	if (Array.isArray(schema.prefixItems)) {
+		const elements = (schema.prefixItems as unknown[]).map((item) => recurse(item));
+		if (schema.items !== false) {
+			elements.push(`...Array<${schema.items && typeof schema.items === "object" ? recurse(schema.items) : "unknown"}>`);
+		}
+		return nullable(`[${elements.join(", ")}]`);
+	}
+
 	if (schemaType === "array") {
-		const items = schema.items as Record<string, unknown> | undefined;
-		const itemType = items ? schemaToTS(items, indent, allSchemas, visited) : "unknown";
-		// Wrap union/intersection array item types in parens for correctness
-		const needsParens = itemType.includes(" | ") || itemType.includes(" & ");
-		return needsParens ? `(${itemType})[]` : `${itemType}[]`;
+		return nullable(`Array<${schema.items ? recurse(schema.items) : "unknown"}>`);
 	}
 
-	// object with properties → inline object type. Honors
-	// `additionalProperties` per OpenAPI / JSON Schema:
-	//   - true (or any non-false truthy)             → Record<string, unknown>
-	//   - schema (e.g. { type: "string" })           → Record<string, T>
-	//   - false / undefined / explicit closed shape  → no record intersection
-	// Combined with named properties, the open-shape becomes an
-	// intersection (`{ ... } & Record<string, T>`). Issue #32.
 	if (schemaType === "object" || schema.properties) {
 		const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
-		const additionalType = renderAdditionalProperties(
-			schema.additionalProperties,
-			indent,
-			allSchemas,
-			visited,
-		);
+		const additional = schema.additionalProperties ?? schema.unevaluatedProperties;
+		const additionalType =
+			additional === undefined || additional === false
+				? null
+				: typeof additional === "object" && additional !== null
+					? recurse(additional)
+					: "unknown";
 
 		if (!properties || Object.keys(properties).length === 0) {
-			// No named properties — an open object collapses to a Record.
-			// `additionalProperties: false` is meaningless without props,
-			// so default to `Record<string, unknown>` if not specified.
-			return additionalType ?? "Record<string, unknown>";
+			return nullable(`Record<string, ${additionalType ?? "unknown"}>`);
 		}
 
 		const required = new Set<string>(Array.isArray(schema.required) ? schema.required as string[] : []);
 		const innerIndent = indent + "\t";
 		const props = Object.entries(properties).map(([key, propSchema]) => {
-			const optional = required.has(key) ? "" : "?";
-			const propType = schemaToTS(propSchema, innerIndent, allSchemas, visited);
-			const desc = propSchema.description
-				? ` /** ${escapeJsdoc(propSchema.description as string)} */\n${innerIndent}`
-				: "";
-			return `${desc}${formatPropertyKey(key)}${optional}: ${propType};`;
+			const optional = !required.has(key) || propSchema?.readOnly === true || propSchema?.writeOnly === true;
+			return `${formatPropertyKey(key)}${optional ? "?" : ""}: ${recurse(propSchema, innerIndent)};`;
 		});
 		const objectType = `{\n${innerIndent}${props.join(`\n${innerIndent}`)}\n${indent}}`;
-		return additionalType ? `${objectType} & ${additionalType}` : objectType;
+		return nullable(additionalType ? `${objectType} & Record<string, ${additionalType}>` : objectType);
 	}
 
-	// primitive types
-	if (schemaType === "string") return schema.format === "binary" ? "File | Blob" : "string";
-	if (schemaType === "number" || schemaType === "integer") return "number";
-	if (schemaType === "boolean") return "boolean";
+	if (scalarType(schema, scalars, "named") === "bigint") return nullable("number | string");
+	if (schemaType === "string") return nullable(schema.format === "binary" ? "Blob" : "string");
+	if (schemaType === "integer" || schemaType === "number") return nullable("number");
+	if (schemaType === "boolean") return nullable("boolean");
 	if (schemaType === "null") return "null";
 
-	// nullable shorthand
-	if (schema.nullable === true) {
-		const inner = { ...schema, nullable: undefined };
-		return `${schemaToTS(inner, indent, allSchemas, visited)} | null`;
-	}
-
-	return "unknown";
+	return nullable("unknown");
 }
 
 /**
- * Resolves an operation's response/request body/params schema from the spec.
+ * Orders `components.schemas` so every model comes after the models it
+ * references, letting the schemas file refer to them by name. Refs that
+ * close a cycle are left to `z.lazy`.
  */
-function resolveOperationSchema(
-	spec: Record<string, unknown>,
-	operationId: string,
-	kind: "response" | "requestBody" | "pathParams" | "queryParams",
-	responseStatus?: number,
-	contentType?: string,
-): Record<string, unknown> | null {
-	const paths = spec.paths as Record<string, Record<string, unknown>> | undefined;
-	if (!paths) return null;
-
-	for (const pathItem of Object.values(paths)) {
-		for (const method of GENERATABLE_HTTP_METHODS) {
-			const op = pathItem[method] as Record<string, unknown> | undefined;
-			if (!op || op.operationId !== operationId) continue;
-
-			if (kind === "response" && responseStatus != null) {
-				const responses = op.responses as Record<string, Record<string, unknown>> | undefined;
-				const resp = responses?.[String(responseStatus)];
-				const content = resp?.content as Record<string, unknown> | undefined;
-				const picked = pickJsonContent(content);
-				return (picked?.entry?.schema as Record<string, unknown>) ?? null;
-			}
-
-			if (kind === "requestBody") {
-				const rb = op.requestBody as Record<string, unknown> | undefined;
-				const content = rb?.content as Record<string, Record<string, unknown>> | undefined;
-				const ct = contentType ?? "application/json";
-				// For JSON-ish body lookups, fall back through the media-type priority
-				// so specs using `*\/*` or `application/vnd.api+json` still resolve.
-				if (ct === "application/json") {
-					const picked = pickJsonContent(content as Record<string, unknown> | undefined);
-					return (picked?.entry?.schema as Record<string, unknown>) ?? null;
-				}
-				return (content?.[ct]?.schema as Record<string, unknown>) ?? null;
-			}
-
-			if (kind === "pathParams" || kind === "queryParams") {
-				const paramKind = kind === "pathParams" ? "path" : "query";
-				const parameters = op.parameters as Array<Record<string, unknown>> | undefined;
-				if (!parameters) return null;
-				const filtered = parameters.filter((p) => p.in === paramKind);
-				if (filtered.length === 0) return null;
-				// Build a synthetic object schema from params
-				const required: string[] = [];
-				const properties: Record<string, unknown> = {};
-				for (const param of filtered) {
-					const name = param.name as string;
-					properties[name] = param.schema ?? { type: "string" };
-					if (param.required) required.push(name);
-					// Attach description from param to schema
-					if (param.description && typeof param.schema === "object" && param.schema !== null) {
-						(properties[name] as Record<string, unknown>).description = param.description;
-					}
+function orderSchemasByDependency(allSchemas: Record<string, unknown>): string[] {
+	const order: string[] = [];
+	const state = new Map<string, "visiting" | "done">();
+
+	const refsOf = (node: unknown, refs: string[] = []): string[] => {
+		if (Array.isArray(node)) {
+			for (const item of node) refsOf(item, refs);
+		} else if (node && typeof node === "object") {
+			for (const [key, value] of Object.entries(node)) {
+				if (key === "$ref" && typeof value === "string") {
+					const parsed = parseComponentRef(value);
+					if (parsed?.kind === "schemas" && parsed.name in allSchemas) refs.push(parsed.name);
+				} else {
+					refsOf(value, refs);
 				}
-				return { type: "object", properties, required };
 			}
 		}
-	}
-	return null;
+		return refs;
+	};
+
+	const visit = (name: string) => {
+		if (state.has(name)) return;
+		state.set(name, "visiting");
+		for (const dependency of refsOf(allSchemas[name])) visit(dependency);
+		state.set(name, "done");
+		order.push(name);
+	};
+
+	for (const name of Object.keys(allSchemas)) visit(name);
+	return order;
 }
 
 /**
- * Generates the api.contracts.ts file content.
- * Contains concrete interfaces for every schema, operation response,
- * request body, path param, and query param — enabling cmd+click navigation
- * to see real type fields.
+ * Generates the api.schemas.ts file content: a zod schema for every
+ * `components.schemas` entry plus per-operation `Body`, `Response` and
+ * `QueryParams` schemas, exported under the same names as the contracts.
  */
-function generateContractsFileContent(metadata: ContractMetadata): string {
-	const lines: string[] = [];
+function generateSchemasFileContent(metadata: ContractMetadata, logger?: Logger, scalars?: ScalarsConfig): string {
 	const allSchemas = metadata.schemas as Record<string, unknown>;
-	// Pass the full `components` block to schemaToTS so it can resolve
-	// non-`schemas` $refs (parameters / requestBodies / responses).
-	// Issue #32.
 	const allComponents =
 		(metadata.spec.components as Record<string, unknown> | undefined) ??
 		undefined;
+	const recursive = new Set<string>();
+	const declaredNames = new Set<string>();
+
+	// Schema models are rendered first, in dependency order, so the names
+	// closing a cycle are known before the declarations are written.
+	const declaredModels = new Set<string>();
+	const warnUnsupported = (schema: string, unsupported: Set<string>) => {
+		if (unsupported.size === 0) return;
+		logger?.warn(
+			{ schema, keywords: [...unsupported].join(", ") },
+			"zod schema can't express these keywords; runtime validation skips them",
+		);
+	};
+	const models = orderSchemasByDependency(allSchemas).map((name) => {
+		const schema = allSchemas[name] as Record<string, unknown>;
+		const unsupported = new Set<string>();
+		const zodExpr = schemaToZod(schema, "", allSchemas, recursive, declaredModels, allComponents, unsupported, scalars);
+		warnUnsupported(name, unsupported);
+		declaredModels.add(name);
+		return { name, typeName: sanitizeIdentifier(name), schema, zodExpr };
+	});
 
+	const lines: string[] = [];
 	lines.push(`/**
- * Concrete type contracts extracted from OpenAPI spec.
+ * Zod schemas extracted from OpenAPI spec.
  *
  * Auto-generated by chowbea-axios CLI.
  * DO NOT EDIT MANUALLY - changes will be overwritten.
  *
- * Every type is fully expanded inline — no indirection, no generic references.
- * Cmd+click any type to see its full structure right here.
+ * Every schema is exported under the same name as its type in
+ * api.contracts.ts. Recursive schemas are annotated with a type of the
+ * same name, declared here because it is what the schema parses to.
  */
-`);
 
-	// Tracks every top-level identifier already declared in the file so the
-	// later operation-body / response / params passes can skip names that
-	// would collide with a Schema Model (TS2300). Example: a spec with
-	// `components.schemas.AiChatBody` AND an `aiChat` operation whose
-	// body pascal-cases to `AiChatBody` would otherwise emit two
-	// declarations of the same name.
-	const declaredNames = new Set<string>();
+import { z } from "zod";
+`);
 
-	// ~ ======= Schema Models ======= ~
-	const schemaEntries = Object.entries(metadata.schemas);
-	if (schemaEntries.length > 0) {
+	if (models.length > 0) {
 		lines.push(`/* ~ =================================== ~ */`);
 		lines.push(`/* -- Schema Models -- */`);
 		lines.push(`/* ~ =================================== ~ */`);
 		lines.push(``);
 
-		for (const [name, schema] of schemaEntries) {
-			const typeName = sanitizeIdentifier(name);
-			declaredNames.add(typeName);
-			const schemaObj = schema as Record<string, unknown>;
-			const desc = schemaObj.description
-				? ` * ${escapeJsdoc(schemaObj.description as string)}\n `
+		for (const model of models) {
+			declaredNames.add(model.typeName);
+			const desc = model.schema.description
+				? ` * ${escapeJsdoc(model.schema.description as string)}\n `
 				: "";
-			lines.push(`/**\n ${desc}* Schema: ${escapeJsdoc(name)}\n */`);
-
-			// For object schemas, emit an interface; for others, emit a type alias
-			if (schemaObj.type === "object" || schemaObj.properties) {
-				const properties = schemaObj.properties as Record<string, Record<string, unknown>> | undefined;
-				if (properties && Object.keys(properties).length > 0) {
-					const required = new Set<string>(Array.isArray(schemaObj.required) ? schemaObj.required as string[] : []);
-					lines.push(`export interface ${typeName} {`);
-					for (const [propKey, propSchema] of Object.entries(properties)) {
-						const optional = required.has(propKey) ? "" : "?";
-						const propType = schemaToTS(propSchema, "\t", allSchemas, undefined, allComponents);
-						if (propSchema.description) {
-							lines.push(`\t/** ${escapeJsdoc(propSchema.description as string)} */`);
-						}
-						lines.push(`\t${formatPropertyKey(propKey)}${optional}: ${propType};`);
-					}
-					lines.push(`}`);
-				} else {
-					lines.push(`export type ${typeName} = Record<string, unknown>;`);
-				}
-			} else {
-				const tsType = schemaToTS(schemaObj, "", allSchemas, undefined, allComponents);
-				lines.push(`export type ${typeName} = ${tsType};`);
-			}
-			lines.push(``);
-		}
-	}
-
-	// ~ ======= Operation Responses ======= ~
-	const opsWithResponses = metadata.operations.filter((op) => op.allResponses.length > 0);
-	if (opsWithResponses.length > 0) {
-		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(`/* -- Operation Responses -- */`);
-		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(``);
-
-		for (const op of opsWithResponses) {
-			const baseName = toPascalCase(sanitizeIdentifier(op.operationId));
-
-			// Emit per-status types for every response that has JSON content
-			const statusTypes: string[] = [];
-			for (const resp of op.allResponses) {
-				if (!resp.hasJsonContent) continue;
-				const statusTypeName = `${baseName}Response${resp.status}`;
-				if (declaredNames.has(statusTypeName)) {
-					lines.push(`// Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (${resp.status}) — name already declared as a Schema Model above; skipped.`);
-					lines.push(``);
-					statusTypes.push(statusTypeName);
-					continue;
-				}
-				const desc = resp.description ? ` - ${escapeJsdoc(resp.description)}` : "";
-				const schema = resolveOperationSchema(metadata.spec, op.operationId, "response", resp.status);
-				lines.push(`/** Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (${resp.status}${desc}) */`);
-				if (schema) {
-					lines.push(`export type ${statusTypeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents)};`);
-				} else {
-					lines.push(`export type ${statusTypeName} = unknown;`);
-				}
-				declaredNames.add(statusTypeName);
-				lines.push(``);
-				statusTypes.push(statusTypeName);
-			}
-
-			// Emit statusless alias pointing to the primary success response
-			if (op.responseStatus !== null) {
-				const successTypeName = `${baseName}Response${op.responseStatus}`;
-				const aliasName = `${baseName}Response`;
-				if (declaredNames.has(aliasName)) {
-					lines.push(`// Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (happy path) — name already declared above; skipped.`);
-					lines.push(``);
-				} else {
-					lines.push(`/** Response: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} (happy path) */`);
-					lines.push(`export type ${aliasName} = ${successTypeName};`);
-					declaredNames.add(aliasName);
-					lines.push(``);
-				}
-			}
-		}
-	}
-
-	// ~ ======= Operation Request Bodies ======= ~
-	const bodyOps = metadata.operations.filter((op) => op.hasJsonBody || op.hasFormDataBody);
-	if (bodyOps.length > 0) {
-		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(`/* -- Operation Request Bodies -- */`);
-		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(``);
-
-		for (const op of bodyOps) {
-			const typeName = `${toPascalCase(sanitizeIdentifier(op.operationId))}Body`;
-			if (declaredNames.has(typeName)) {
-				lines.push(`// Request body: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} — name already declared as a Schema Model above; skipped.`);
-				lines.push(``);
-				continue;
-			}
-			const contentType = op.hasJsonBody ? "application/json" : "multipart/form-data";
-			const schema = resolveOperationSchema(metadata.spec, op.operationId, "requestBody", undefined, contentType);
-			lines.push(`/** Request body: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} */`);
-			if (schema) {
-				lines.push(`export type ${typeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents)};`);
+			lines.push(`/**\n ${desc}* Schema: ${escapeJsdoc(model.name)}\n */`);
+			if (recursive.has(model.name)) {
+				const type = schemaToZodType(model.schema, "", allSchemas, recursive, allComponents, scalars);
+				lines.push(`export type ${model.typeName} = ${type};`);
+				lines.push(`export const ${model.typeName}: z.ZodType<${model.typeName}> = ${model.zodExpr};`);
 			} else {
-				lines.push(`export type ${typeName} = unknown;`);
+				lines.push(`export const ${model.typeName} = ${model.zodExpr};`);
 			}
-			declaredNames.add(typeName);
 			lines.push(``);
 		}
 	}
 
-	// ~ ======= Operation Path Parameters ======= ~
-	const pathParamOps = metadata.operations.filter((op) => op.hasPathParams);
-	if (pathParamOps.length > 0) {
-		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(`/* -- Operation Path Parameters -- */`);
-		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(``);
-
-		for (const op of pathParamOps) {
-			const typeName = `${toPascalCase(sanitizeIdentifier(op.operationId))}PathParams`;
-			if (declaredNames.has(typeName)) {
-				lines.push(`// Path params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} — name already declared above; skipped.`);
-				lines.push(``);
-				continue;
-			}
-			const schema = resolveOperationSchema(metadata.spec, op.operationId, "pathParams");
-			lines.push(`/** Path params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} */`);
-			if (schema) {
-				lines.push(`export type ${typeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents)};`);
-			} else {
-				lines.push(`export type ${typeName} = Record<string, string>;`);
-			}
-			declaredNames.add(typeName);
-			lines.push(``);
-		}
-	}
+	const renderOperationSchema = (name: string, schema: Record<string, unknown> | null) => {
+		if (!schema) return "z.unknown()";
+		const unsupported = new Set<string>();
+		const zodExpr = schemaToZod(schema, "", allSchemas, recursive, declaredModels, allComponents, unsupported, scalars);
+		warnUnsupported(name, unsupported);
+		return zodExpr;
+	};
 
-	// ~ ======= Operation Query Parameters ======= ~
-	const queryParamOps = metadata.operations.filter((op) => op.hasQueryParams);
-	if (queryParamOps.length > 0) {
+	const sections: Array<{
+		title: string;
+		label: string;
+		suffix: string;
+		ops: ContractOperationMeta[];
+		resolve: (op: ContractOperationMeta) => Record<string, unknown> | null;
+	}> = [
+		{
+			title: "Operation Responses",
+			label: "Response",
+			suffix: "Response",
+			ops: metadata.operations.filter((op) => op.responseStatus !== null),
+			resolve: (op) =>
+				resolveOperationSchema(metadata.spec, op.operationId, "response", op.responseStatus ?? undefined),
+		},
+		{
+			title: "Operation Request Bodies",
+			label: "Request body",
+			suffix: "Body",
+			ops: metadata.operations.filter((op) => op.hasJsonBody || op.hasFormDataBody),
+			resolve: (op) =>
+				resolveOperationSchema(
+					metadata.spec,
+					op.operationId,
+					"requestBody",
+					undefined,
+					op.hasJsonBody ? "application/json" : "multipart/form-data",
+				),
+		},
+		{
+			title: "Operation Query Parameters",
+			label: "Query params",
+			suffix: "QueryParams",
+			ops: metadata.operations.filter((op) => op.hasQueryParams),
+			resolve: (op) => resolveOperationSchema(metadata.spec, op.operationId, "queryParams"),
+		},
+	];
+
+	for (const section of sections) {
+		if (section.ops.length === 0) continue;
 		lines.push(`/* ~ =================================== ~ */`);
-		lines.push(`/* -- Operation Query Parameters -- */`);
+		lines.push(`/* -- ${section.title} -- */`);
 		lines.push(`/* ~ =================================== ~ */`);
 		lines.push(``);
 
-		for (const op of queryParamOps) {
-			const typeName = `${toPascalCase(sanitizeIdentifier(op.operationId))}QueryParams`;
-			if (declaredNames.has(typeName)) {
-				lines.push(`// Query params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} — name already declared above; skipped.`);
+		for (const op of section.ops) {
+			const name = `${toPascalCase(sanitizeIdentifier(op.operationId))}${section.suffix}`;
+			const where = `${op.method.toUpperCase()} ${escapeJsdoc(op.path)}`;
+			if (declaredNames.has(name)) {
+				lines.push(`// ${section.label}: ${where} — name already declared above; skipped.`);
 				lines.push(``);
 				continue;
 			}
-			const schema = resolveOperationSchema(metadata.spec, op.operationId, "queryParams");
-			lines.push(`/** Query params: ${op.method.toUpperCase()} ${escapeJsdoc(op.path)} */`);
-			if (schema) {
-				lines.push(`export type ${typeName} = ${schemaToTS(schema, "", allSchemas, undefined, allComponents)};`);
-			} else {
-				lines.push(`export type ${typeName} = Record<string, unknown>;`);
-			}
-			declaredNames.add(typeName);
+			lines.push(`/** ${section.label}: ${where} */`);
+			lines.push(`export const ${name} = ${renderOperationSchema(name, section.resolve(op))};`);
+			declaredNames.add(name);
 			lines.push(``);
 		}
 	}
@@ -1194,12 +3763,20 @@ async function generateTypes(
 	specPath: string,
 	typesPath: string,
 	logger: Logger,
-	hooks: GenerationHooks = {}
+	hooks: GenerationHooks = {},
+	inMemorySpec?: unknown
 ): Promise<void> {
 	logger.info({ specPath, typesPath }, "Generating TypeScript types...");
 
 	try {
-		const ast = await openapiTS(new URL(`file://${specPath}`), hooks);
+		// A filtered or renamed spec only exists in memory; otherwise read
+		// the cache file. openapi-typescript patches discriminator enums
+		// into the schemas it's given, so it gets a copy: the contracts are
+		// generated from the same spec afterwards.
+		const input = inMemorySpec
+			? (structuredClone(inMemorySpec) as OpenAPI3)
+			: new URL(`file://${specPath}`);
+		const ast = await openapiTS(input, hooks);
 		await writeFile(typesPath, astToString(ast), "utf8");
 	} catch (err) {
 		const message = err instanceof Error ? err.message : String(err);
@@ -1240,11 +3817,17 @@ async function createBackup(paths: GeneratorPaths): Promise<{
 	typesBackup: string | null;
 	operationsBackup: string | null;
 	contractsBackup: string | null;
+	schemasBackup: string | null;
+	queriesBackup: string | null;
+	mocksBackup: string | null;
 }> {
 	const timestamp = Date.now();
 	let typesBackup: string | null = null;
 	let operationsBackup: string | null = null;
 	let contractsBackup: string | null = null;
+	let schemasBackup: string | null = null;
+	let queriesBackup: string | null = null;
+	let mocksBackup: string | null = null;
 
 	try {
 		const typesBackupPath = `${paths.types}.backup.${timestamp}`;
@@ -1259,18 +3842,49 @@ async function createBackup(paths: GeneratorPaths): Promise<{
 		await copyFile(paths.operations, operationsBackupPath);
 		operationsBackup = operationsBackupPath;
 	} catch {
-		// No existing operations file to backup
+		// No existing operations file to backup
+	}
+
+	try {
+		const contractsBackupPath = `${paths.contracts}.backup.${timestamp}`;
+		await copyFile(paths.contracts, contractsBackupPath);
+		contractsBackup = contractsBackupPath;
+	} catch {
+		// No existing contracts file to backup
+	}
+
+	try {
+		const schemasBackupPath = `${paths.schemas}.backup.${timestamp}`;
+		await copyFile(paths.schemas, schemasBackupPath);
+		schemasBackup = schemasBackupPath;
+	} catch {
+		// No existing schemas file to backup
+	}
+
+	try {
+		const queriesBackupPath = `${paths.queries}.backup.${timestamp}`;
+		await copyFile(paths.queries, queriesBackupPath);
+		queriesBackup = queriesBackupPath;
+	} catch {
+		// No existing queries file to backup
 	}
 
 	try {
-		const contractsBackupPath = `${paths.contracts}.backup.${timestamp}`;
-		await copyFile(paths.contracts, contractsBackupPath);
-		contractsBackup = contractsBackupPath;
+		const mocksBackupPath = `${paths.mocks}.backup.${timestamp}`;
+		await copyFile(paths.mocks, mocksBackupPath);
+		mocksBackup = mocksBackupPath;
 	} catch {
-		// No existing contracts file to backup
+		// No existing mocks file to backup
 	}
 
-	return { typesBackup, operationsBackup, contractsBackup };
+	return {
+		typesBackup,
+		operationsBackup,
+		contractsBackup,
+		schemasBackup,
+		queriesBackup,
+		mocksBackup,
+	};
 }
 
 /**
@@ -1281,6 +3895,9 @@ async function restoreFromBackup(
 		typesBackup: string | null;
 		operationsBackup: string | null;
 		contractsBackup: string | null;
+		schemasBackup: string | null;
+		queriesBackup: string | null;
+		mocksBackup: string | null;
 	},
 	paths: GeneratorPaths
 ): Promise<void> {
@@ -1307,6 +3924,30 @@ async function restoreFromBackup(
 			// Ignore restore errors
 		}
 	}
+
+	if (backups.schemasBackup) {
+		try {
+			await rename(backups.schemasBackup, paths.schemas);
+		} catch {
+			// Ignore restore errors
+		}
+	}
+
+	if (backups.queriesBackup) {
+		try {
+			await rename(backups.queriesBackup, paths.queries);
+		} catch {
+			// Ignore restore errors
+		}
+	}
+
+	if (backups.mocksBackup) {
+		try {
+			await rename(backups.mocksBackup, paths.mocks);
+		} catch {
+			// Ignore restore errors
+		}
+	}
 }
 
 /**
@@ -1316,6 +3957,9 @@ async function cleanupBackups(backups: {
 	typesBackup: string | null;
 	operationsBackup: string | null;
 	contractsBackup: string | null;
+	schemasBackup: string | null;
+	queriesBackup: string | null;
+	mocksBackup: string | null;
 }): Promise<void> {
 	if (backups.typesBackup) {
 		try {
@@ -1340,6 +3984,30 @@ async function cleanupBackups(backups: {
 			// Ignore cleanup errors
 		}
 	}
+
+	if (backups.schemasBackup) {
+		try {
+			await unlink(backups.schemasBackup);
+		} catch {
+			// Ignore cleanup errors
+		}
+	}
+
+	if (backups.queriesBackup) {
+		try {
+			await unlink(backups.queriesBackup);
+		} catch {
+			// Ignore cleanup errors
+		}
+	}
+
+	if (backups.mocksBackup) {
+		try {
+			await unlink(backups.mocksBackup);
+		} catch {
+			// Ignore cleanup errors
+		}
+	}
 }
 
 /**
@@ -1749,11 +4417,74 @@ axiosInstance.interceptors.request.use(
 	}
 }
 
+/**
+ * Generates the auth middleware block of a fetch-transport api.instance.ts.
+ */
+function generateFetchAuthMiddleware(config: InstanceConfig): string {
+	switch (config.auth_mode) {
+		case "bearer-localstorage":
+			return `
+/** localStorage key for auth token */
+export const tokenKey = ${JSON.stringify(config.token_key)};
+
+/**
+ * Request middleware that automatically attaches the auth token.
+ * Reads the token from localStorage and adds it as a Bearer header.
+ */
+fetchInstance.use({
+	onRequest(config) {
+		// Only access localStorage in browser environments
+		if (typeof window !== "undefined") {
+			const tokenObject = localStorage.getItem(tokenKey);
+
+			if (tokenObject) {
+				try {
+					const parsed = JSON.parse(tokenObject);
+					const token = parsed.state?.token || parsed.token || parsed;
+					if (typeof token === "string") {
+						config.headers = { ...config.headers, Authorization: \`Bearer \${token}\` };
+					}
+				} catch {
+					// If not JSON, use as-is
+					config.headers = { ...config.headers, Authorization: \`Bearer \${tokenObject}\` };
+				}
+			}
+		}
+
+		return config;
+	},
+});`;
+
+		case "custom":
+			return `
+/**
+ * Request middleware for authentication.
+ * TODO: Implement your auth logic here.
+ *
+ * Examples:
+ *   config.headers = { ...config.headers, Authorization: \`Bearer \${getToken()}\` };
+ *   config.headers = { ...config.headers, "X-API-Key": getApiKey() };
+ */
+fetchInstance.use({
+	onRequest(config) {
+		// Add your auth logic here
+		return config;
+	},
+});`;
+
+		case "none":
+			return "";
+	}
+}
+
 /**
  * Generates the api.instance.ts file content.
  */
 export function generateInstanceFileContent(config: InstanceConfig): string {
 	validateInstanceConfigForEmission(config);
+	if (config.transport === "fetch") {
+		return generateFetchInstanceFileContent(config);
+	}
 	const authBlock = generateAuthInterceptor(config);
 
 	return `/**
@@ -1777,10 +4508,354 @@ ${authBlock}
 `;
 }
 
+/**
+ * Generates api.instance.ts for `transport = "fetch"`: a dependency-free
+ * client over the platform fetch with the axios shapes api.error.ts and
+ * api.client.ts rely on.
+ */
+function generateFetchInstanceFileContent(config: InstanceConfig): string {
+	const authBlock = generateFetchAuthMiddleware(config);
+
+	return `/**
+ * Fetch-based HTTP instance with authentication middleware.
+ *
+ * This file is generated once by chowbea-axios CLI.
+ * You can safely modify this file - it will NOT be overwritten.
+ */
+
+/* ~ =================================== ~ */
+/* -- Types -- */
+/* ~ =================================== ~ */
+
+/**
+ * Request options accepted by the fetch instance - the part of an
+ * axios config the generated client relies on.
+ */
+export interface FetchRequestConfig {
+	/** HTTP method (default: GET) */
+	method?: string;
+	/** Request path, resolved against baseURL unless absolute */
+	url?: string;
+	/** Prefix for relative request paths */
+	baseURL?: string;
+	/** Request headers, merged over the instance defaults */
+	headers?: Record<string, string>;
+	/** Query parameters, encoded by serializeParams */
+	params?: unknown;
+	/** Request body - plain objects are sent as JSON */
+	data?: unknown;
+	/** Milliseconds before the request is aborted (0 = no timeout) */
+	timeout?: number;
+	/** Send cookies on cross-origin requests */
+	withCredentials?: boolean;
+	/** Cancels the request when aborted */
+	signal?: AbortSignal;
+	/** How to read the response body (default: JSON, falling back to text) */
+	responseType?: "json" | "text" | "blob" | "arrayBuffer";
+}
+
+/**
+ * Response resolved by the fetch instance.
+ */
+export interface FetchResponse<T = unknown> {
+	data: T;
+	status: number;
+	statusText: string;
+	headers: Headers;
+	config: FetchRequestConfig;
+}
+
+/**
+ * Error thrown for failed requests. Codes follow axios so api.error.ts
+ * can tell timeouts and network failures from HTTP errors.
+ */
+export class FetchError<T = unknown> extends Error {
+	/** ERR_BAD_REQUEST, ERR_BAD_RESPONSE, ERR_NETWORK, ECONNABORTED or ERR_CANCELED */
+	code: string;
+	/** Config of the failed request */
+	config: FetchRequestConfig;
+	/** Set when the server responded with a non-2xx status */
+	response?: FetchResponse<T>;
+
+	constructor(message: string, code: string, config: FetchRequestConfig, response?: FetchResponse<T>) {
+		super(message);
+		this.name = "FetchError";
+		this.code = code;
+		this.config = config;
+		this.response = response;
+	}
+}
+
+/**
+ * Interceptor-like hooks run around every request, in registration order.
+ */
+export interface FetchMiddleware {
+	/** Adjusts the config before the request is sent */
+	onRequest?: (config: FetchRequestConfig) => FetchRequestConfig | Promise<FetchRequestConfig>;
+	/** Inspects or replaces a successful response */
+	onResponse?: (response: FetchResponse) => FetchResponse | Promise<FetchResponse>;
+	/** Observes a failure; return a response to recover from it */
+	onError?: (error: unknown) => FetchResponse | void | Promise<FetchResponse | void>;
+}
+
+/* ~ =================================== ~ */
+/* -- Request Encoding -- */
+/* ~ =================================== ~ */
+
+/**
+ * Serializes query parameters. Arrays repeat the key, dates become ISO
+ * strings, nested objects become JSON and null/undefined are dropped.
+ */
+export function serializeParams(params: unknown): string {
+	if (!params || typeof params !== "object") return "";
+	if (params instanceof URLSearchParams) return params.toString();
+
+	const search = new URLSearchParams();
+	const append = (key: string, value: unknown) => {
+		if (value === null || value === undefined) return;
+		if (value instanceof Date) search.append(key, value.toISOString());
+		else if (typeof value === "object") search.append(key, JSON.stringify(value));
+		else search.append(key, String(value));
+	};
+
+	for (const [key, value] of Object.entries(params)) {
+		if (Array.isArray(value)) {
+			for (const item of value) append(key, item);
+		} else {
+			append(key, value);
+		}
+	}
+
+	return search.toString();
+}
+
+/**
+ * Joins baseURL and url, then appends the serialized query.
+ */
+function buildURL(config: FetchRequestConfig): string {
+	const url = config.url ?? "";
+	const full =
+		config.baseURL && !/^[a-z][a-z\\d+\\-.]*:/i.test(url)
+			? \`\${config.baseURL.replace(/\\/+$/, "")}/\${url.replace(/^\\/+/, "")}\`
+			: url;
+	const query = serializeParams(config.params);
+
+	if (!query) return full;
+	return \`\${full}\${full.includes("?") ? "&" : "?"}\${query}\`;
+}
+
+/**
+ * Converts a plain object to FormData. Arrays append one entry per item;
+ * Blobs and Files are kept as-is.
+ */
+function toFormData(data: object): FormData {
+	const form = new FormData();
+
+	for (const [key, value] of Object.entries(data)) {
+		for (const item of Array.isArray(value) ? value : [value]) {
+			if (item === null || item === undefined) continue;
+			if (item instanceof Blob) form.append(key, item);
+			else if (item instanceof Date) form.append(key, item.toISOString());
+			else if (typeof item === "object") form.append(key, JSON.stringify(item));
+			else form.append(key, String(item));
+		}
+	}
+
+	return form;
+}
+
+/**
+ * Encodes the request body. FormData, Blobs, URLSearchParams, buffers and
+ * strings pass through; plain objects become JSON, or FormData when the
+ * Content-Type is multipart (fetch then writes the header with its boundary).
+ */
+function toBody(data: unknown, headers: Record<string, string>): BodyInit | undefined {
+	if (data === null || data === undefined) return undefined;
+	if (
+		typeof data === "string" ||
+		data instanceof FormData ||
+		data instanceof Blob ||
+		data instanceof URLSearchParams ||
+		data instanceof ArrayBuffer ||
+		ArrayBuffer.isView(data)
+	) {
+		return data as BodyInit;
+	}
+
+	const contentTypeKey = Object.keys(headers).find((key) => key.toLowerCase() === "content-type");
+	if (contentTypeKey && headers[contentTypeKey].startsWith("multipart/form-data")) {
+		delete headers[contentTypeKey];
+		return toFormData(data);
+	}
+	if (!contentTypeKey) headers["Content-Type"] = "application/json";
+
+	return JSON.stringify(data);
+}
+
+/* ~ =================================== ~ */
+/* -- Transport -- */
+/* ~ =================================== ~ */
+
+/**
+ * Reads the response body per responseType. Without one, JSON is tried
+ * first and text is the fallback; an empty body reads as undefined.
+ */
+async function readBody(response: Response, responseType: FetchRequestConfig["responseType"]): Promise<unknown> {
+	if (responseType === "blob") return response.blob();
+	if (responseType === "arrayBuffer") return response.arrayBuffer();
+
+	const text = await response.text();
+	if (responseType === "text") return text;
+	if (!text) return undefined;
+
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+}
+
+/**
+ * Maps a rejected fetch to a FetchError: timeouts, cancellations and
+ * network failures each get their axios code.
+ */
+function toFetchError(err: unknown, config: FetchRequestConfig): FetchError {
+	const name = (err as { name?: unknown } | null)?.name;
+
+	if (name === "TimeoutError") {
+		return new FetchError(\`timeout of \${config.timeout}ms exceeded\`, "ECONNABORTED", config);
+	}
+	if (name === "AbortError") {
+		return new FetchError("canceled", "ERR_CANCELED", config);
+	}
+	return new FetchError(err instanceof Error ? err.message : "Network Error", "ERR_NETWORK", config);
+}
+
+/**
+ * Sends one request. Resolves for 2xx responses and throws a FetchError
+ * for everything else.
+ */
+async function send<T>(config: FetchRequestConfig): Promise<FetchResponse<T>> {
+	const headers = { ...config.headers };
+	const body = toBody(config.data, headers);
+	const signals = [config.signal, config.timeout ? AbortSignal.timeout(config.timeout) : undefined].filter(
+		(signal): signal is AbortSignal => signal !== undefined,
+	);
+
+	let response: Response;
+	let data: unknown;
+	try {
+		response = await fetch(buildURL(config), {
+			method: (config.method ?? "GET").toUpperCase(),
+			headers,
+			body,
+			signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+			// Only set when needed - some edge runtimes reject the credentials field
+			...(config.withCredentials ? { credentials: "include" as const } : {}),
+		});
+		data = await readBody(response, config.responseType);
+	} catch (err) {
+		throw toFetchError(err, config);
+	}
+
+	const result: FetchResponse<T> = {
+		data: data as T,
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+		config,
+	};
+
+	if (!response.ok) {
+		const code = response.status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST";
+		throw new FetchError(\`Request failed with status code \${response.status}\`, code, config, result);
+	}
+
+	return result;
+}
+
+/* ~ =================================== ~ */
+/* -- Instance -- */
+/* ~ =================================== ~ */
+
+/**
+ * Creates a fetch-backed instance with axios-style shortcuts. Defaults
+ * apply to every request, with headers merged key by key.
+ */
+export function createFetchInstance(defaults: FetchRequestConfig = {}) {
+	const middleware: FetchMiddleware[] = [];
+
+	async function request<T = unknown>(config: FetchRequestConfig): Promise<FetchResponse<T>> {
+		let merged: FetchRequestConfig = {
+			...defaults,
+			...config,
+			headers: { ...defaults.headers, ...config.headers },
+		};
+		for (const { onRequest } of middleware) {
+			if (onRequest) merged = await onRequest(merged);
+		}
+
+		try {
+			let response: FetchResponse = await send(merged);
+			for (const { onResponse } of middleware) {
+				if (onResponse) response = await onResponse(response);
+			}
+			return response as FetchResponse<T>;
+		} catch (err) {
+			for (const { onError } of middleware) {
+				const recovered = onError ? await onError(err) : undefined;
+				if (recovered) return recovered as FetchResponse<T>;
+			}
+			throw err;
+		}
+	}
+
+	return {
+		defaults,
+		/** Registers middleware; returns a function that removes it. */
+		use(hooks: FetchMiddleware): () => void {
+			middleware.push(hooks);
+			return () => {
+				const index = middleware.indexOf(hooks);
+				if (index !== -1) middleware.splice(index, 1);
+			};
+		},
+		request,
+		get: <T = unknown>(url: string, config?: FetchRequestConfig) => request<T>({ ...config, method: "GET", url }),
+		delete: <T = unknown>(url: string, config?: FetchRequestConfig) =>
+			request<T>({ ...config, method: "DELETE", url }),
+		head: <T = unknown>(url: string, config?: FetchRequestConfig) => request<T>({ ...config, method: "HEAD", url }),
+		options: <T = unknown>(url: string, config?: FetchRequestConfig) =>
+			request<T>({ ...config, method: "OPTIONS", url }),
+		post: <T = unknown>(url: string, data?: unknown, config?: FetchRequestConfig) =>
+			request<T>({ ...config, method: "POST", url, data }),
+		put: <T = unknown>(url: string, data?: unknown, config?: FetchRequestConfig) =>
+			request<T>({ ...config, method: "PUT", url, data }),
+		patch: <T = unknown>(url: string, data?: unknown, config?: FetchRequestConfig) =>
+			request<T>({ ...config, method: "PATCH", url, data }),
+	};
+}
+
+/** The instance type returned by createFetchInstance. */
+export type FetchInstance = ReturnType<typeof createFetchInstance>;
+
+/**
+ * Shared fetch instance configured with the API base URL.
+ */
+export const fetchInstance = createFetchInstance({
+	baseURL: ${config.env_accessor}.${config.base_url_env},
+	withCredentials: ${config.with_credentials},
+	timeout: ${config.timeout},
+});
+${authBlock}
+`;
+}
+
 /**
  * Generates the api.error.ts file content.
  */
-export function generateErrorFileContent(): string {
+export function generateErrorFileContent(transport: Transport = "axios"): string {
+	const isFetch = transport === "fetch";
 	return `/**
  * Result-based error handling for API calls.
  * 
@@ -1788,7 +4863,7 @@ export function generateErrorFileContent(): string {
  * You can safely modify this file - it will NOT be overwritten.
  */
 
-import { AxiosError, type AxiosResponse } from "axios";
+${isFetch ? `import { FetchError, type FetchResponse } from "./api.instance";` : `import { AxiosError, type AxiosResponse } from "axios";`}
 
 /* ~ =================================== ~ */
 /* -- Types -- */
@@ -1802,7 +4877,7 @@ export interface RequestContext {
 	method: string;
 	/** URL that was called */
 	url: string;
-	/** Base URL from axios config */
+	/** Base URL from ${isFetch ? "the request" : "axios"} config */
 	baseURL?: string;
 	/** Query parameters */
 	params?: unknown;
@@ -1921,9 +4996,9 @@ function redactSensitive(data: unknown): unknown {
 }
 
 /**
- * Extracts request context from AxiosError for debugging.
+ * Extracts request context from ${isFetch ? "FetchError" : "AxiosError"} for debugging.
  */
-function extractRequestContext(err: AxiosError): RequestContext {
+function extractRequestContext(err: ${isFetch ? "FetchError" : "AxiosError"}): RequestContext {
 	const config = err.config;
 
 	return {
@@ -1968,7 +5043,7 @@ function getErrorCode(status: number): string {
  * Creates an ApiError from any error.
  */
 export function createApiError(err: unknown): ApiError {
-	if (err instanceof AxiosError) {
+	if (err instanceof ${isFetch ? "FetchError" : "AxiosError"}) {
 		const request = extractRequestContext(err);
 
 		// Network error (no response)
@@ -2011,11 +5086,11 @@ export function createApiError(err: unknown): ApiError {
 /* ~ =================================== ~ */
 
 /**
- * Wraps an axios promise and returns a Result instead of throwing.
+ * Wraps ${isFetch ? "a fetch instance" : "an axios"} promise and returns a Result instead of throwing.
  * 
  * @example
  * \`\`\`typescript
- * const { data, error } = await safeRequest(axios.get("/users"));
+ * const { data, error } = await safeRequest(${isFetch ? "fetchInstance" : "axios"}.get("/users"));
  * if (error) {
  *   console.error(error.message);
  *   return;
@@ -2024,7 +5099,7 @@ export function createApiError(err: unknown): ApiError {
  * \`\`\`
  */
 export async function safeRequest<T>(
-	promise: Promise<AxiosResponse<T>>
+	promise: Promise<${isFetch ? "FetchResponse" : "AxiosResponse"}<T>>
 ): Promise<Result<T>> {
 	try {
 		const response = await promise;
@@ -2053,7 +5128,17 @@ export function isError<T>(result: Result<T>): result is { data: null; error: Ap
 /**
  * Generates the api.client.ts file content.
  */
-export function generateClientFileContent(): string {
+export function generateClientFileContent(transport: Transport = "axios"): string {
+	const configType = REQUEST_CONFIG_TYPES[transport];
+	const instance = INSTANCE_NAMES[transport];
+	const typedConfig = transport === "fetch" ? "TypedRequestConfig" : "TypedAxiosConfig";
+	const imports =
+		transport === "fetch"
+			? `import { fetchInstance, type FetchRequestConfig } from "./api.instance";`
+			: `import type { AxiosRequestConfig, AxiosResponse } from "axios";
+
+import { axiosInstance } from "./api.instance";`;
+
 	return `/**
  * Typed HTTP client for API.
  * 
@@ -2061,9 +5146,7 @@ export function generateClientFileContent(): string {
  * You can safely modify this file - it will NOT be overwritten.
  */
 
-import type { AxiosRequestConfig, AxiosResponse } from "axios";
-
-import { axiosInstance } from "./api.instance";
+${imports}
 import { safeRequest, type Result } from "./api.error";
 import type { paths, components, operations } from "./_generated/api.types";
 import { createOperations } from "./_generated/api.operations";
@@ -2104,9 +5187,9 @@ type QueryParams<P extends Paths, M extends HttpMethod> = Operation<
 		: never
 	: never;
 
-/** Extended Axios config that includes typed query parameters. */
-type TypedAxiosConfig<P extends Paths, M extends HttpMethod> = Omit<
-	AxiosRequestConfig,
+/** Extended ${transport === "fetch" ? "request" : "Axios"} config that includes typed query parameters. */
+type ${typedConfig}<P extends Paths, M extends HttpMethod> = Omit<
+	${configType},
 	"params"
 > & {
 	params?: QueryParams<P, M>;
@@ -2245,8 +5328,8 @@ const api = {
 	get<P extends Paths>(
 		url: P,
 		...args: PathParams<P> extends never
-			? [config?: TypedAxiosConfig<P, "get">]
-			: [pathParams: PathParams<P>, config?: TypedAxiosConfig<P, "get">]
+			? [config?: ${typedConfig}<P, "get">]
+			: [pathParams: PathParams<P>, config?: ${typedConfig}<P, "get">]
 	): Promise<Result<ResponseData<P, "get">>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2255,11 +5338,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as TypedAxiosConfig<P, "get"> | undefined)
-			: (pathParamsOrConfig as TypedAxiosConfig<P, "get"> | undefined);
+			? (config as ${typedConfig}<P, "get"> | undefined)
+			: (pathParamsOrConfig as ${typedConfig}<P, "get"> | undefined);
 
 		return safeRequest(
-			axiosInstance.get<ResponseData<P, "get">>(
+			${instance}.get<ResponseData<P, "get">>(
 				interpolatePath(url, pathParams),
 				finalConfig
 			)
@@ -2274,8 +5357,8 @@ const api = {
 		url: P,
 		data: RequestBody<P, "post">,
 		...args: PathParams<P> extends never
-			? [config?: TypedAxiosConfig<P, "post">]
-			: [pathParams: PathParams<P>, config?: TypedAxiosConfig<P, "post">]
+			? [config?: ${typedConfig}<P, "post">]
+			: [pathParams: PathParams<P>, config?: ${typedConfig}<P, "post">]
 	): Promise<Result<ResponseData<P, "post">>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2284,8 +5367,8 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as TypedAxiosConfig<P, "post"> | undefined)
-			: (pathParamsOrConfig as TypedAxiosConfig<P, "post"> | undefined);
+			? (config as ${typedConfig}<P, "post"> | undefined)
+			: (pathParamsOrConfig as ${typedConfig}<P, "post"> | undefined);
 
 		const resolvedPath = interpolatePath(url, pathParams);
 		const requestData = shouldUseFormData(resolvedPath, data)
@@ -2295,7 +5378,7 @@ const api = {
 			: data;
 
 		return safeRequest(
-			axiosInstance.post<ResponseData<P, "post">>(
+			${instance}.post<ResponseData<P, "post">>(
 				resolvedPath,
 				requestData,
 				finalConfig
@@ -2311,8 +5394,8 @@ const api = {
 		url: P,
 		data: RequestBody<P, "put">,
 		...args: PathParams<P> extends never
-			? [config?: TypedAxiosConfig<P, "put">]
-			: [pathParams: PathParams<P>, config?: TypedAxiosConfig<P, "put">]
+			? [config?: ${typedConfig}<P, "put">]
+			: [pathParams: PathParams<P>, config?: ${typedConfig}<P, "put">]
 	): Promise<Result<ResponseData<P, "put">>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2321,11 +5404,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as TypedAxiosConfig<P, "put"> | undefined)
-			: (pathParamsOrConfig as TypedAxiosConfig<P, "put"> | undefined);
+			? (config as ${typedConfig}<P, "put"> | undefined)
+			: (pathParamsOrConfig as ${typedConfig}<P, "put"> | undefined);
 
 		return safeRequest(
-			axiosInstance.put<ResponseData<P, "put">>(
+			${instance}.put<ResponseData<P, "put">>(
 				interpolatePath(url, pathParams),
 				data,
 				finalConfig
@@ -2340,8 +5423,8 @@ const api = {
 	delete<P extends Paths>(
 		url: P,
 		...args: PathParams<P> extends never
-			? [config?: TypedAxiosConfig<P, "delete">]
-			: [pathParams: PathParams<P>, config?: TypedAxiosConfig<P, "delete">]
+			? [config?: ${typedConfig}<P, "delete">]
+			: [pathParams: PathParams<P>, config?: ${typedConfig}<P, "delete">]
 	): Promise<Result<ResponseData<P, "delete">>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2350,11 +5433,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as TypedAxiosConfig<P, "delete"> | undefined)
-			: (pathParamsOrConfig as TypedAxiosConfig<P, "delete"> | undefined);
+			? (config as ${typedConfig}<P, "delete"> | undefined)
+			: (pathParamsOrConfig as ${typedConfig}<P, "delete"> | undefined);
 
 		return safeRequest(
-			axiosInstance.delete<ResponseData<P, "delete">>(
+			${instance}.delete<ResponseData<P, "delete">>(
 				interpolatePath(url, pathParams),
 				finalConfig
 			)
@@ -2369,8 +5452,8 @@ const api = {
 		url: P,
 		data: RequestBody<P, "patch">,
 		...args: PathParams<P> extends never
-			? [config?: TypedAxiosConfig<P, "patch">]
-			: [pathParams: PathParams<P>, config?: TypedAxiosConfig<P, "patch">]
+			? [config?: ${typedConfig}<P, "patch">]
+			: [pathParams: PathParams<P>, config?: ${typedConfig}<P, "patch">]
 	): Promise<Result<ResponseData<P, "patch">>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2379,11 +5462,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as TypedAxiosConfig<P, "patch"> | undefined)
-			: (pathParamsOrConfig as TypedAxiosConfig<P, "patch"> | undefined);
+			? (config as ${typedConfig}<P, "patch"> | undefined)
+			: (pathParamsOrConfig as ${typedConfig}<P, "patch"> | undefined);
 
 		return safeRequest(
-			axiosInstance.patch<ResponseData<P, "patch">>(
+			${instance}.patch<ResponseData<P, "patch">>(
 				interpolatePath(url, pathParams),
 				data,
 				finalConfig
@@ -2398,8 +5481,8 @@ const api = {
 	head<P extends Paths>(
 		url: P,
 		...args: PathParams<P> extends never
-			? [config?: AxiosRequestConfig]
-			: [pathParams: PathParams<P>, config?: AxiosRequestConfig]
+			? [config?: ${configType}]
+			: [pathParams: PathParams<P>, config?: ${configType}]
 	): Promise<Result<unknown>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2408,11 +5491,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as AxiosRequestConfig | undefined)
-			: (pathParamsOrConfig as AxiosRequestConfig | undefined);
+			? (config as ${configType} | undefined)
+			: (pathParamsOrConfig as ${configType} | undefined);
 
 		return safeRequest(
-			axiosInstance.head<unknown>(
+			${instance}.head<unknown>(
 				interpolatePath(url, pathParams),
 				finalConfig
 			)
@@ -2426,8 +5509,8 @@ const api = {
 	options<P extends Paths>(
 		url: P,
 		...args: PathParams<P> extends never
-			? [config?: AxiosRequestConfig]
-			: [pathParams: PathParams<P>, config?: AxiosRequestConfig]
+			? [config?: ${configType}]
+			: [pathParams: PathParams<P>, config?: ${configType}]
 	): Promise<Result<unknown>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2436,11 +5519,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as AxiosRequestConfig | undefined)
-			: (pathParamsOrConfig as AxiosRequestConfig | undefined);
+			? (config as ${configType} | undefined)
+			: (pathParamsOrConfig as ${configType} | undefined);
 
 		return safeRequest(
-			axiosInstance.options<unknown>(
+			${instance}.options<unknown>(
 				interpolatePath(url, pathParams),
 				finalConfig
 			)
@@ -2449,15 +5532,15 @@ const api = {
 
 	/**
 	 * Sends a TRACE request — diagnostic loopback. Rarely used in
-	 * production; routed through axios.request() since the SDK has no
+	 * production; routed through ${transport === "fetch" ? "fetchInstance" : "axios"}.request() since the SDK has no
 	 * .trace() shortcut.
 	 * Returns Result<T> - never throws.
 	 */
 	trace<P extends Paths>(
 		url: P,
 		...args: PathParams<P> extends never
-			? [config?: AxiosRequestConfig]
-			: [pathParams: PathParams<P>, config?: AxiosRequestConfig]
+			? [config?: ${configType}]
+			: [pathParams: PathParams<P>, config?: ${configType}]
 	): Promise<Result<unknown>> {
 		const hasPathParams = String(url).includes("{");
 		const [pathParamsOrConfig, config] = args;
@@ -2466,11 +5549,11 @@ const api = {
 			? (pathParamsOrConfig as PathParams<P>)
 			: undefined;
 		const finalConfig = hasPathParams
-			? (config as AxiosRequestConfig | undefined)
-			: (pathParamsOrConfig as AxiosRequestConfig | undefined);
+			? (config as ${configType} | undefined)
+			: (pathParamsOrConfig as ${configType} | undefined);
 
 		return safeRequest(
-			axiosInstance.request<unknown>({
+			${instance}.request<unknown>({
 				...finalConfig,
 				method: "TRACE",
 				url: interpolatePath(url, pathParams),
@@ -2506,8 +5589,9 @@ export type { paths, components, operations };
  *
  * Implementation detail: the emitted file embeds each field as a
  * recognizable line (`baseURL: process.env.API_BASE_URL`,
- * `withCredentials: true`, `timeout: 30000`, `tokenKey = "auth-token"`).
- * We grep for each line and compare against the config.
+ * `withCredentials: true`, `timeout: 30000`, `tokenKey = "auth-token"`,
+ * `export const fetchInstance =`). We grep for each line and compare
+ * against the config.
  *
  * Issue #40.
  */
@@ -2520,6 +5604,12 @@ async function detectInstanceConfigDrift(
 
 	const changed: string[] = [];
 
+	// transport: which shared instance the file exports
+	const isFetch = existing.includes(`export const ${INSTANCE_NAMES.fetch} =`);
+	if (isFetch !== (config.transport === "fetch")) {
+		changed.push("transport");
+	}
+
 	// baseURL: <env_accessor>.<base_url_env>
 	const expectedBaseUrl = `baseURL: ${config.env_accessor}.${config.base_url_env},`;
 	if (!existing.includes(expectedBaseUrl)) {
@@ -2636,7 +5726,7 @@ export async function generateClientFiles(options: {
 			{ path: outputPaths.error },
 			errorExists ? "Regenerating api.error.ts" : "Creating api.error.ts"
 		);
-		const content = generateErrorFileContent();
+		const content = generateErrorFileContent(instanceConfig.transport);
 		await atomicWrite(outputPaths.error, content);
 		result.error = true;
 	} else {
@@ -2650,7 +5740,7 @@ export async function generateClientFiles(options: {
 			{ path: outputPaths.client },
 			clientExists ? "Regenerating api.client.ts" : "Creating api.client.ts"
 		);
-		const content = generateClientFileContent();
+		const content = generateClientFileContent(instanceConfig.transport);
 		await atomicWrite(outputPaths.client, content);
 		result.client = true;
 	} else {
@@ -2676,6 +5766,8 @@ export interface DryRunResult {
 	}>;
 	/** Number of operations that would be generated */
 	operationCount: number;
+	/** Operations kept and dropped by `[filter]`, when one is configured */
+	filter?: FilterSummary;
 }
 
 export async function generate(options: {
@@ -2685,6 +5777,28 @@ export async function generate(options: {
 	skipTypes?: boolean;
 	skipOperations?: boolean;
 	hooks?: GenerationHooks;
+	/** `[filter]` settings; operations it rejects are not generated */
+	filter?: FilterConfig;
+	/** `[operations]` settings: the shape of `api.op` */
+	operationsConfig?: OperationsConfig;
+	/** Also emit api.schemas.ts with zod schemas */
+	zod?: boolean;
+	/** Also emit api.queries.ts with TanStack Query options */
+	tanstackQuery?: boolean;
+	/** Also emit api.mocks.ts with MSW handlers */
+	msw?: boolean;
+	/** Emit enums in api.contracts.ts as const objects */
+	enumObjects?: boolean;
+	/** Also emit standalone operation functions in `_generated/<tag>/` files */
+	splitByTag?: boolean;
+	/** `[scalars]`: format → "Date", "bigint" or a brand name */
+	scalars?: ScalarsConfig;
+	/** `[validation]` settings; any mode but "off" also emits api.schemas.ts */
+	validation?: ValidationConfig;
+	/** `instance.env_accessor`, used by warn-mode validation (default: process.env) */
+	envAccessor?: string;
+	/** `instance.transport`: which request config type the operations take */
+	transport?: Transport;
 }): Promise<GenerationResult & { dryRunResult?: DryRunResult }> {
 	const {
 		paths: outputPaths,
@@ -2693,13 +5807,35 @@ export async function generate(options: {
 		skipTypes = false,
 		skipOperations = false,
 		hooks,
+		tanstackQuery = false,
+		msw = false,
+		enumObjects = false,
+		splitByTag = false,
+		scalars,
+		transport = "axios",
 	} = options;
 	const startTime = Date.now();
+	const validation = resolveOperationValidation(
+		options.validation,
+		options.envAccessor ?? "process.env"
+	);
+	// The validators are the zod schemas, so validation implies them.
+	const zod = Boolean(options.zod || validation);
 
 	// Parse spec early for both dry-run and actual generation
 	const specContent = await readFile(outputPaths.spec, "utf8");
-	const spec = JSON.parse(specContent);
-	const operations = parseOperations(spec, logger);
+	const filterActive = isFilterActive(options.filter);
+	const { spec: filteredSpec, summary: filterSummary } = filterSpec(
+		JSON.parse(specContent),
+		options.filter
+	);
+	const filterResult = filterActive ? { filter: filterSummary } : {};
+	if (filterActive) {
+		logger.info({ ...filterSummary }, "Filtered operations");
+	}
+	const operations = parseOperations(filteredSpec, logger, options.operationsConfig);
+	const spec = withOperationIds(filteredSpec, operations);
+	const scalarPlans = resolveOperationScalars(scalars, spec, operations);
 
 	if (operations.length === 0) {
 		logger.warn("No operations with operationId found in OpenAPI spec");
@@ -2714,6 +5850,7 @@ export async function generate(options: {
 		const dryRunResult: DryRunResult = {
 			files: [],
 			operationCount: operations.length,
+			...filterResult,
 		};
 
 		// Check types file
@@ -2729,7 +5866,7 @@ export async function generate(options: {
 
 		// Generate operations content to get line count
 		if (!skipOperations) {
-			const opsContent = generateOperationsFileContent(operations);
+			const opsContent = generateOperationsFileContent(operations, validation, scalarPlans, transport);
 			const opsExists = await fileExists(outputPaths.operations);
 			dryRunResult.files.push({
 				path: outputPaths.operations,
@@ -2739,13 +5876,66 @@ export async function generate(options: {
 
 			// Check contracts file
 			const contractMeta = parseContracts(spec);
-			const contractsContent = generateContractsFileContent(contractMeta);
+			const split = splitByTag
+				? generateSplitOutput(operations, contractMeta, { enumObjects, scalars }, validation, scalarPlans, transport)
+				: undefined;
+			const contractsContent =
+				split?.contracts ?? generateContractsFileContent(contractMeta, { enumObjects, scalars });
 			const contractsExists = await fileExists(outputPaths.contracts);
 			dryRunResult.files.push({
 				path: outputPaths.contracts,
 				lines: contractsContent.split("\n").length,
 				action: contractsExists ? "update" : "create",
 			});
+
+			if (zod) {
+				const schemasContent = generateSchemasFileContent(contractMeta, logger, scalars);
+				const schemasExists = await fileExists(outputPaths.schemas);
+				dryRunResult.files.push({
+					path: outputPaths.schemas,
+					lines: schemasContent.split("\n").length,
+					action: schemasExists ? "update" : "create",
+				});
+			}
+
+			if (tanstackQuery) {
+				const queriesContent = generateQueriesFileContent(operations, transport, scalarPlans);
+				const queriesExists = await fileExists(outputPaths.queries);
+				dryRunResult.files.push({
+					path: outputPaths.queries,
+					lines: queriesContent.split("\n").length,
+					action: queriesExists ? "update" : "create",
+				});
+			}
+
+			if (msw) {
+				const mocksContent = generateMocksFileContent(operations, spec, scalarPlans);
+				const mocksExists = await fileExists(outputPaths.mocks);
+				dryRunResult.files.push({
+					path: outputPaths.mocks,
+					lines: mocksContent.split("\n").length,
+					action: mocksExists ? "update" : "create",
+				});
+			}
+
+			for (const [file, content] of split?.files ?? []) {
+				const filePath = join(outputPaths.generated, file);
+				dryRunResult.files.push({
+					path: filePath,
+					lines: content.split("\n").length,
+					action: (await fileExists(filePath)) ? "update" : "create",
+				});
+			}
+
+			const manifestContent = generateManifestContent(operations);
+			if (manifestContent) {
+				const manifestExists = await fileExists(outputPaths.manifest);
+				dryRunResult.files.push({
+					path: outputPaths.manifest,
+					lines: manifestContent.split("\n").length,
+					action: manifestExists ? "update" : "create",
+				});
+			}
 		}
 
 		const durationMs = Date.now() - startTime;
@@ -2756,6 +5946,9 @@ export async function generate(options: {
 			typesGenerated: false,
 			operationsGenerated: false,
 			contractsGenerated: false,
+			schemasGenerated: false,
+			queriesGenerated: false,
+			mocksGenerated: false,
 			dryRunResult,
 		};
 	}
@@ -2767,12 +5960,21 @@ export async function generate(options: {
 		let typesGenerated = false;
 		let operationsGenerated = false;
 		let contractsGenerated = false;
+		let schemasGenerated = false;
+		let queriesGenerated = false;
+		let mocksGenerated = false;
 
 		// Step 1: Generate TypeScript types from OpenAPI spec
 		if (skipTypes) {
 			logger.info("Skipping types generation (--operations-only)");
 		} else {
-			await generateTypes(outputPaths.spec, outputPaths.types, logger, hooks);
+			await generateTypes(
+				outputPaths.spec,
+				outputPaths.types,
+				logger,
+				withScalarTypes(hooks ?? {}, scalars),
+				filterActive || spec !== filteredSpec ? spec : undefined
+			);
 			typesGenerated = true;
 		}
 
@@ -2781,7 +5983,7 @@ export async function generate(options: {
 			logger.info("Skipping operations generation (--types-only)");
 		} else {
 			logger.info("Generating operations file...");
-			const operationsContent = generateOperationsFileContent(operations);
+			const operationsContent = generateOperationsFileContent(operations, validation, scalarPlans, transport);
 			await atomicWrite(outputPaths.operations, operationsContent);
 			operationsGenerated = true;
 		}
@@ -2790,9 +5992,65 @@ export async function generate(options: {
 		if (!skipOperations) {
 			logger.info("Generating contracts file...");
 			const contractMeta = parseContracts(spec);
-			const contractsContent = generateContractsFileContent(contractMeta);
+			const split = splitByTag
+				? generateSplitOutput(operations, contractMeta, { enumObjects, scalars }, validation, scalarPlans, transport)
+				: undefined;
+			const contractsContent =
+				split?.contracts ?? generateContractsFileContent(contractMeta, { enumObjects, scalars });
 			await atomicWrite(outputPaths.contracts, contractsContent);
 			contractsGenerated = true;
+
+			// Step 4: Generate zod schemas (opt-in, same names as the contracts)
+			if (zod) {
+				logger.info("Generating zod schemas file...");
+				await atomicWrite(
+					outputPaths.schemas,
+					generateSchemasFileContent(contractMeta, logger, scalars)
+				);
+				schemasGenerated = true;
+			}
+
+			// Step 5: Generate TanStack Query options (opt-in, wraps api.op)
+			if (tanstackQuery) {
+				logger.info("Generating TanStack Query file...");
+				await atomicWrite(
+					outputPaths.queries,
+					generateQueriesFileContent(operations, transport, scalarPlans)
+				);
+				queriesGenerated = true;
+			}
+
+			// Step 6: Generate MSW handlers (opt-in, payloads from the spec)
+			if (msw) {
+				logger.info("Generating MSW mocks file...");
+				await atomicWrite(
+					outputPaths.mocks,
+					generateMocksFileContent(operations, spec, scalarPlans)
+				);
+				mocksGenerated = true;
+			}
+
+			// Step 7: Write the split_by_tag files (opt-in), dropping groups
+			// a previous run wrote that the spec no longer has
+			const splitFiles = split?.files ?? new Map<string, string>();
+			await removeStaleSplitFiles(outputPaths.generated, splitFiles);
+			if (split) {
+				logger.info({ files: splitFiles.size }, "Generating split_by_tag files...");
+				for (const [file, content] of splitFiles) {
+					const filePath = join(outputPaths.generated, file);
+					await mkdir(dirname(filePath), { recursive: true });
+					await atomicWrite(filePath, content);
+				}
+			}
+
+			// Step 8: Record made-up operation names, last so a failed run
+			// never leaves a manifest that disagrees with the restored files.
+			const manifestContent = generateManifestContent(operations);
+			if (manifestContent) {
+				await atomicWrite(outputPaths.manifest, manifestContent);
+			} else {
+				await rm(outputPaths.manifest, { force: true });
+			}
 		}
 
 		// Clean up backups on success
@@ -2811,6 +6069,10 @@ export async function generate(options: {
 			typesGenerated,
 			operationsGenerated,
 			contractsGenerated,
+			schemasGenerated,
+			queriesGenerated,
+			mocksGenerated,
+			...filterResult,
 		};
 	} catch (error) {
 		// Restore from backups on failure
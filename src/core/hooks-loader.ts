@@ -1,30 +1,35 @@
 /**
- * Loader for the optional `chowbea.config.{mjs,js}` file.
+ * Loader for the optional `chowbea.config.{ts,mts,mjs,js}` file.
  *
  * The file sits next to `api.config.toml` in the project root and can
  * export hook functions that chowbea-axios passes straight through to
  * `openapiTS()`. Use it to convert `format: date-time` to `Date`, attach
  * JSDoc validation annotations, brand opaque IDs, and so on.
  *
- * Example `chowbea.config.mjs`:
+ * Example `chowbea.config.ts`:
  *
  *   import ts from "typescript";
+ *   import { defineConfig } from "chowbea-axios";
  *
  *   const DATE = ts.factory.createTypeReferenceNode("Date");
  *
- *   export default {
+ *   export default defineConfig({
  *     transform(schemaObject) {
  *       if (schemaObject.format === "date-time") return DATE;
  *     },
- *   };
+ *   });
  *
- * TypeScript config files (`chowbea.config.ts`) are not supported yet —
- * they would require either a JIT loader (jiti) or Node's
- * `--experimental-strip-types` flag, neither of which we want to require
- * of every consumer.
+ * TypeScript configs are compiled to a temporary `.mjs` file next to the
+ * original (so bare and relative imports still resolve), imported, then
+ * deleted. Node's built-in `stripTypeScriptTypes` is used when available
+ * (Node >= 22.13); older runtimes fall back to `typescript.transpileModule`,
+ * which is always installed alongside openapi-typescript. Only the config
+ * file itself is compiled — relative imports must point at JavaScript.
  */
 
-import { access } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { access, readFile, rm, writeFile } from "node:fs/promises";
+import * as nodeModule from "node:module";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 
@@ -32,7 +37,20 @@ import type { Logger } from "../adapters/logger-interface.js";
 import { ConfigError } from "./errors.js";
 import type { GenerationHooks } from "./generator.js";
 
-const CANDIDATE_FILENAMES = ["chowbea.config.mjs", "chowbea.config.js"] as const;
+const CANDIDATE_FILENAMES = [
+	"chowbea.config.ts",
+	"chowbea.config.mts",
+	"chowbea.config.mjs",
+	"chowbea.config.js",
+] as const;
+
+/**
+ * Identity helper for `chowbea.config.ts` — gives hook functions full
+ * autocomplete and type-checking against `GenerationHooks`.
+ */
+export function defineConfig(config: GenerationHooks): GenerationHooks {
+	return config;
+}
 
 async function fileExists(filePath: string): Promise<boolean> {
 	try {
@@ -43,10 +61,82 @@ async function fileExists(filePath: string): Promise<boolean> {
 	}
 }
 
+function isTypeScriptConfig(filename: string): boolean {
+	return filename.endsWith(".ts") || filename.endsWith(".mts");
+}
+
+/**
+ * Compile TypeScript source to ESM JavaScript. Prefers Node's built-in type
+ * stripping; falls back to the `typescript` compiler on runtimes without it.
+ */
+async function compileTypeScript(
+	source: string,
+	filename: string,
+): Promise<string> {
+	const strip = (
+		nodeModule as {
+			stripTypeScriptTypes?: (
+				code: string,
+				options?: { mode?: "strip" | "transform" },
+			) => string;
+		}
+	).stripTypeScriptTypes;
+	if (typeof strip === "function") {
+		return strip(source, { mode: "transform" });
+	}
+
+	let ts: typeof import("typescript");
+	try {
+		ts = (await import("typescript")).default;
+	} catch {
+		throw new ConfigError(
+			`Cannot load ${filename}: no TypeScript compiler available`,
+			"Install typescript, upgrade to Node >= 22.13, or rename the file to chowbea.config.mjs.",
+		);
+	}
+
+	return ts.transpileModule(source, {
+		fileName: filename,
+		compilerOptions: {
+			module: ts.ModuleKind.ESNext,
+			target: ts.ScriptTarget.ES2022,
+			verbatimModuleSyntax: false,
+		},
+	}).outputText;
+}
+
+/**
+ * Dynamic-import a config file. TypeScript files are compiled into a
+ * sibling temp `.mjs` file that is removed once the import settles.
+ */
+async function importConfigFile(
+	filePath: string,
+	filename: string,
+): Promise<unknown> {
+	if (!isTypeScriptConfig(filename)) {
+		return import(pathToFileURL(filePath).href);
+	}
+
+	const source = await readFile(filePath, "utf8");
+	const compiled = await compileTypeScript(source, filename);
+	const tempPath = path.join(
+		path.dirname(filePath),
+		`.${filename}.${randomBytes(4).toString("hex")}.mjs`,
+	);
+
+	await writeFile(tempPath, compiled, "utf8");
+	try {
+		return await import(pathToFileURL(tempPath).href);
+	} finally {
+		await rm(tempPath, { force: true });
+	}
+}
+
 /**
- * Look for a `chowbea.config.{mjs,js}` next to `api.config.toml`, dynamic-
- * import it, and return its `GenerationHooks`. Returns an empty object if
- * no config file is present (the common case).
+ * Look for a `chowbea.config.{ts,mts,mjs,js}` next to `api.config.toml`,
+ * compile it if it is TypeScript, dynamic-import it, and return its
+ * `GenerationHooks`. Returns an empty object if no config file is present
+ * (the common case).
  *
  * Throws `ConfigError` only if a config file is present but malformed —
  * a missing file is silent.
@@ -63,8 +153,9 @@ export async function loadHooks(
 
 		let mod: unknown;
 		try {
-			mod = await import(pathToFileURL(filePath).href);
+			mod = await importConfigFile(filePath, filename);
 		} catch (err) {
+			if (err instanceof ConfigError) throw err;
 			const message = err instanceof Error ? err.message : String(err);
 			throw new ConfigError(
 				`Failed to load ${filename}: ${message}`,
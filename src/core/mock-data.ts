@@ -0,0 +1,412 @@
+/**
+ * Deterministic mock payloads for `api.mocks.ts` and the `mock` server.
+ *
+ * A response body is the spec's own `example`/`examples` when it has one,
+ * otherwise it is synthesized from the schema. Synthesis draws from a PRNG
+ * seeded per operation, so regenerating an unchanged spec produces the
+ * same payloads.
+ */
+
+import { HTTP_METHODS } from "./http-methods.js";
+import { MAX_SCHEMA_DEPTH, pickJsonContent, resolveObject, resolveRef } from "./ref-utils.js";
+
+/**
+ * The mocked success response of one operation.
+ */
+export interface MockOperation {
+	operationId: string;
+	method: string;
+	path: string;
+	/** Status of the primary success response (first 2xx with JSON, else first 2xx, else 200) */
+	status: number;
+	/** Whether the response has a JSON body */
+	hasBody: boolean;
+	/** The example body (only meaningful when `hasBody`) */
+	body: unknown;
+}
+
+/** A PRNG returning floats in [0, 1). */
+type Rng = () => number;
+
+/** Returned in place of a value whose schema recurses into itself. */
+const CYCLE = Symbol("cycle");
+
+const WORDS = [
+	"alpha",
+	"bravo",
+	"charlie",
+	"delta",
+	"echo",
+	"foxtrot",
+	"golf",
+	"hotel",
+	"india",
+	"juliet",
+	"kilo",
+	"lima",
+];
+
+/**
+ * Creates a mulberry32 PRNG seeded with the FNV-1a hash of `seed`.
+ */
+export function createRng(seed: string): Rng {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	let state = hash >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/** An integer in [min, max]. */
+function randomInt(rng: Rng, min: number, max: number): number {
+	return min + Math.floor(rng() * (max - min + 1));
+}
+
+function pick<T>(rng: Rng, values: readonly T[]): T {
+	return values[Math.floor(rng() * values.length)] as T;
+}
+
+interface SynthContext {
+	spec: unknown;
+	rng: Rng;
+	/** `$ref`s currently being expanded, for cycle detection */
+	stack: string[];
+}
+
+function synthesizeString(schema: Record<string, unknown>, rng: Rng): string {
+	const n = randomInt(rng, 1, 999);
+	const day = new Date(Date.UTC(2024, 0, 1) + randomInt(rng, 0, 364) * 86_400_000 + n * 60_000);
+	let value: string;
+	switch (schema.format) {
+		case "date-time":
+			return day.toISOString();
+		case "date":
+			return day.toISOString().slice(0, 10);
+		case "time":
+			return day.toISOString().slice(11, 19);
+		case "email":
+			return `${pick(rng, WORDS)}${n}@example.com`;
+		case "uuid": {
+			const hex = Array.from({ length: 32 }, () => randomInt(rng, 0, 15).toString(16)).join("");
+			return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20)}`;
+		}
+		case "uri":
+		case "url":
+			return `https://example.com/${pick(rng, WORDS)}/${n}`;
+		case "hostname":
+			return `${pick(rng, WORDS)}.example.com`;
+		case "ipv4":
+			return `192.0.2.${n % 255}`;
+		case "ipv6":
+			return `2001:db8::${n.toString(16)}`;
+		case "byte":
+			value = Buffer.from(pick(rng, WORDS)).toString("base64");
+			break;
+		default:
+			value = `${pick(rng, WORDS)}-${n}`;
+	}
+
+	const minLength = typeof schema.minLength === "number" ? schema.minLength : 0;
+	const maxLength = typeof schema.maxLength === "number" ? schema.maxLength : undefined;
+	if (value.length < minLength) value = value.padEnd(minLength, "x");
+	if (maxLength !== undefined) value = value.slice(0, maxLength);
+	return value;
+}
+
+function synthesizeNumber(schema: Record<string, unknown>, rng: Rng, integer: boolean): number {
+	const step = integer ? 1 : 0.01;
+	// 3.1 uses numeric exclusive bounds; 3.0 uses boolean flags on minimum/maximum.
+	let min =
+		typeof schema.exclusiveMinimum === "number"
+			? schema.exclusiveMinimum + step
+			: typeof schema.minimum === "number"
+			? schema.minimum + (schema.exclusiveMinimum === true ? step : 0)
+			: undefined;
+	let max =
+		typeof schema.exclusiveMaximum === "number"
+			? schema.exclusiveMaximum - step
+			: typeof schema.maximum === "number"
+			? schema.maximum - (schema.exclusiveMaximum === true ? step : 0)
+			: undefined;
+	min ??= max !== undefined ? Math.min(0, max) : integer ? 1 : 0;
+	max ??= min + (integer ? 1000 : 100);
+
+	const multipleOf = typeof schema.multipleOf === "number" && schema.multipleOf > 0 ? schema.multipleOf : undefined;
+	if (multipleOf !== undefined) {
+		const low = Math.ceil(min / multipleOf);
+		const high = Math.floor(max / multipleOf);
+		return high >= low ? randomInt(rng, low, high) * multipleOf : min;
+	}
+	if (integer) {
+		const low = Math.ceil(min);
+		const high = Math.floor(max);
+		return high >= low ? randomInt(rng, low, high) : low;
+	}
+	return Math.round((min + rng() * (max - min)) * 100) / 100;
+}
+
+/**
+ * Builds an example value for `schema`. Properties marked `writeOnly` are
+ * left out, since the value is a response body.
+ */
+function synthesize(schema: unknown, ctx: SynthContext, depth: number): unknown {
+	if (schema === null || typeof schema !== "object") return null;
+	const s = schema as Record<string, unknown>;
+
+	if (typeof s.$ref === "string") {
+		if (ctx.stack.includes(s.$ref) || depth > MAX_SCHEMA_DEPTH) return CYCLE;
+		ctx.stack.push(s.$ref);
+		const value = synthesize(resolveRef(s.$ref, ctx.spec), ctx, depth + 1);
+		ctx.stack.pop();
+		return value;
+	}
+
+	if (s.example !== undefined) return s.example;
+	if (Array.isArray(s.examples) && s.examples.length > 0) return s.examples[0];
+	if (s.const !== undefined) return s.const;
+	if (s.default !== undefined) return s.default;
+	if (Array.isArray(s.enum) && s.enum.length > 0) {
+		const values = s.enum.filter((value) => value !== null);
+		return values.length > 0 ? pick(ctx.rng, values) : null;
+	}
+
+	if (Array.isArray(s.allOf)) {
+		const parts = s.allOf.map((part) => synthesize(part, ctx, depth + 1));
+		const objects = parts.filter(
+			(part): part is Record<string, unknown> =>
+				typeof part === "object" && part !== null && !Array.isArray(part),
+		);
+		if (objects.length === parts.length && objects.length > 0) {
+			return Object.assign({}, ...objects);
+		}
+		return parts.find((part) => part !== CYCLE) ?? CYCLE;
+	}
+	const variants = Array.isArray(s.oneOf) ? s.oneOf : Array.isArray(s.anyOf) ? s.anyOf : undefined;
+	if (variants) {
+		// The first variant that isn't `null` (3.1 nullable unions) or a cycle.
+		for (const variant of variants) {
+			if ((variant as Record<string, unknown> | null)?.type === "null") continue;
+			const value = synthesize(variant, ctx, depth + 1);
+			if (value !== CYCLE) return value;
+		}
+		return null;
+	}
+
+	const type = Array.isArray(s.type)
+		? s.type.find((t) => t !== "null")
+		: s.type ?? (s.properties ? "object" : s.items || s.prefixItems ? "array" : undefined);
+
+	switch (type) {
+		case "string":
+			return synthesizeString(s, ctx.rng);
+		case "integer":
+			return synthesizeNumber(s, ctx.rng, true);
+		case "number":
+			return synthesizeNumber(s, ctx.rng, false);
+		case "boolean":
+			return ctx.rng() < 0.5;
+		case "null":
+			return null;
+		case "array": {
+			// 3.1 tuples: one value per `prefixItems` entry, then `items`
+			// only as far as `minItems` asks.
+			if (Array.isArray(s.prefixItems)) {
+				const items = s.prefixItems.map((entry) => {
+					const value = synthesize(entry, ctx, depth + 1);
+					return value === CYCLE ? null : value;
+				});
+				const minItems = typeof s.minItems === "number" ? s.minItems : 0;
+				while (items.length < minItems && s.items && typeof s.items === "object") {
+					const item = synthesize(s.items, ctx, depth + 1);
+					if (item === CYCLE) break;
+					items.push(item);
+				}
+				return items;
+			}
+			const minItems = typeof s.minItems === "number" ? s.minItems : 1;
+			const maxItems = typeof s.maxItems === "number" ? s.maxItems : minItems + 1;
+			const count = randomInt(ctx.rng, minItems, Math.max(minItems, Math.min(maxItems, minItems + 2)));
+			const items: unknown[] = [];
+			for (let i = 0; i < count; i++) {
+				const item = synthesize(s.items, ctx, depth + 1);
+				if (item === CYCLE) return [];
+				items.push(item);
+			}
+			return items;
+		}
+		case "object": {
+			const result: Record<string, unknown> = {};
+			const required = new Set(Array.isArray(s.required) ? s.required : []);
+			const properties = (s.properties ?? {}) as Record<string, unknown>;
+			for (const [name, property] of Object.entries(properties)) {
+				if ((property as Record<string, unknown> | null)?.writeOnly === true) continue;
+				const value = synthesize(property, ctx, depth + 1);
+				// A required self-reference can't be satisfied finitely.
+				if (value === CYCLE) {
+					if (required.has(name)) result[name] = null;
+					continue;
+				}
+				result[name] = value;
+			}
+			if (
+				Object.keys(properties).length === 0 &&
+				typeof s.additionalProperties === "object" &&
+				s.additionalProperties !== null
+			) {
+				const value = synthesize(s.additionalProperties, ctx, depth + 1);
+				if (value !== CYCLE) result[pick(ctx.rng, WORDS)] = value;
+			}
+			return result;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Example value for a schema. Cycles that can't be expanded become `null`.
+ */
+export function synthesizeExample(schema: unknown, spec: unknown, rng: Rng): unknown {
+	const value = synthesize(schema, { spec, rng, stack: [] }, 0);
+	return value === CYCLE ? null : value;
+}
+
+/**
+ * Example body for a JSON media type entry: its `example`, the named or
+ * first of its `examples`, or a value synthesized from its schema.
+ */
+function mediaTypeExample(
+	entry: Record<string, unknown>,
+	spec: unknown,
+	rng: Rng,
+	exampleName?: string,
+): unknown {
+	if (entry.examples && typeof entry.examples === "object") {
+		const examples = entry.examples as Record<string, unknown>;
+		const named = exampleName !== undefined ? examples[exampleName] : undefined;
+		if (named && typeof named === "object") {
+			const resolved = resolveObject(named as Record<string, unknown>, spec);
+			if (resolved.value !== undefined) return resolved.value;
+		}
+	}
+	if (entry.example !== undefined) return entry.example;
+	if (entry.examples && typeof entry.examples === "object") {
+		for (const example of Object.values(entry.examples as Record<string, unknown>)) {
+			if (!example || typeof example !== "object") continue;
+			const resolved = resolveObject(example as Record<string, unknown>, spec);
+			if (resolved.value !== undefined) return resolved.value;
+		}
+	}
+	return synthesizeExample(entry.schema, spec, rng);
+}
+
+/**
+ * A mocked response picked from an operation's `responses`.
+ */
+export interface MockResponse {
+	status: number;
+	/** Media type of the JSON body, when there is one */
+	mediaType?: string;
+	hasBody: boolean;
+	body: unknown;
+}
+
+/**
+ * Picks and fills in a response of `operation`. Without `code` this is the
+ * primary success response (first 2xx with JSON, else first 2xx, else a
+ * body-less 200). With `code` it is that status, its `NXX` range or
+ * `default`, or null when none is documented. `example` selects a named
+ * entry of the media type's `examples`.
+ */
+export function resolveMockResponse(
+	operation: Record<string, unknown>,
+	spec: unknown,
+	rng: Rng,
+	prefer: { code?: number; example?: string } = {},
+): MockResponse | null {
+	const responses = (operation.responses ?? {}) as Record<string, unknown>;
+	const resolve = (key: string) =>
+		resolveObject((responses[key] ?? {}) as Record<string, unknown>, spec);
+
+	let status: number;
+	let response: Record<string, unknown> | undefined;
+	if (prefer.code !== undefined) {
+		const key = [String(prefer.code), `${String(prefer.code)[0]}XX`, "default"].find(
+			(candidate) => candidate in responses,
+		);
+		if (key === undefined) return null;
+		status = prefer.code;
+		response = resolve(key);
+	} else {
+		const successes = Object.keys(responses)
+			.filter((key) => /^2\d\d$/.test(key))
+			.map((key) => ({ status: Number(key), response: resolve(key) }));
+		const primary =
+			successes.find(({ response }) =>
+				pickJsonContent(response.content as Record<string, unknown> | undefined),
+			) ?? successes[0];
+		status = primary?.status ?? 200;
+		response = primary?.response;
+	}
+
+	const json = pickJsonContent(response?.content as Record<string, unknown> | undefined);
+	if (!json) return { status, hasBody: false, body: undefined };
+	return {
+		status,
+		mediaType: json.mediaType,
+		hasBody: true,
+		body: mediaTypeExample(json.entry, spec, rng, prefer.example),
+	};
+}
+
+/**
+ * Collects the mocked success response of every operation that has an
+ * operationId. `seed` is mixed into each operation's PRNG seed.
+ */
+export function collectMockOperations(spec: unknown, seed = ""): MockOperation[] {
+	const operations: MockOperation[] = [];
+	if (spec === null || typeof spec !== "object") return operations;
+	const paths = ((spec as Record<string, unknown>).paths ?? {}) as Record<string, unknown>;
+
+	for (const [path, pathItem] of Object.entries(paths)) {
+		if (!pathItem || typeof pathItem !== "object") continue;
+		for (const method of HTTP_METHODS) {
+			const operation = (pathItem as Record<string, unknown>)[method] as
+				| Record<string, unknown>
+				| undefined;
+			if (!operation || typeof operation.operationId !== "string") continue;
+
+			const response = resolveMockResponse(
+				operation,
+				spec,
+				createRng(mockSeed(seed, operation.operationId)),
+			) as MockResponse;
+			operations.push({
+				operationId: operation.operationId,
+				method,
+				path,
+				status: response.status,
+				hasBody: response.hasBody,
+				body: response.body,
+			});
+		}
+	}
+
+	return operations;
+}
+
+/**
+ * PRNG seed of one operation, shared by `api.mocks.ts` and the `mock`
+ * server so both serve the same payloads.
+ */
+export function mockSeed(seed: string, operationKey: string): string {
+	return `${seed}:${operationKey}`;
+}
@@ -0,0 +1,576 @@
+/**
+ * Local mock server for the `mock` command.
+ *
+ * Requests are routed by path template and method to the spec's
+ * operations. Path, query and header parameters and JSON bodies are
+ * checked against their schemas (400 with the issues on failure), and
+ * responses come from `mock-data.ts`: the spec's examples, or payloads
+ * synthesized from the response schema.
+ *
+ * A `Prefer: code=404` request header picks another documented response;
+ * `Prefer: example=name` picks a named example.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+
+import type { Logger } from "../adapters/logger-interface.js";
+import { HTTP_METHODS } from "./http-methods.js";
+import { createRng, mockSeed, resolveMockResponse } from "./mock-data.js";
+import { pickJsonContent, resolveObject, resolveRef } from "./ref-utils.js";
+
+/**
+ * A request value that doesn't match the spec. `pointer` starts with the
+ * parameter location (`/path`, `/query`, `/header`) or `/body`.
+ */
+export interface MockIssue {
+	pointer: string;
+	message: string;
+}
+
+/**
+ * One operation the server can answer.
+ */
+export interface MockRoute {
+	method: string;
+	/** Path template as written in the spec, e.g. `/pets/{petId}` */
+	path: string;
+	pattern: RegExp;
+	paramNames: string[];
+	operation: Record<string, unknown>;
+	/** Path-level and operation parameters, operation ones taking precedence */
+	parameters: Record<string, unknown>[];
+	/**
+	 * Key mixed into the PRNG seed: the name api.mocks.ts uses (see
+	 * `operationIds`), else the operationId, else `METHOD path`
+	 */
+	seedKey: string;
+}
+
+export interface MockServerOptions {
+	/** Seed mixed into every synthesized payload (default: none) */
+	seed?: string;
+	/**
+	 * Operation names the generator made up or qualified, by `METHOD /path`
+	 * (api.manifest.json), so payloads match api.mocks.ts
+	 */
+	operationIds?: Record<string, string>;
+	/** Milliseconds to wait before every response */
+	delayMs?: number;
+	/** Receives one line per request */
+	logger?: Logger;
+}
+
+/** Refs nested deeper than this while validating are assumed to be cycles. */
+const MAX_VALIDATION_DEPTH = 64;
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the routes of every operation in `spec`. Routes with fewer path
+ * parameters come first, so `/pets/mine` wins over `/pets/{petId}`.
+ */
+export function buildMockRoutes(spec: unknown, operationIds: Record<string, string> = {}): MockRoute[] {
+	const routes: MockRoute[] = [];
+	if (spec === null || typeof spec !== "object") return routes;
+	const paths = ((spec as Record<string, unknown>).paths ?? {}) as Record<string, unknown>;
+
+	for (const [path, rawPathItem] of Object.entries(paths)) {
+		if (!rawPathItem || typeof rawPathItem !== "object") continue;
+		const pathItem = resolveObject(rawPathItem as Record<string, unknown>, spec);
+
+		const paramNames: string[] = [];
+		const source = path
+			.split(/(\{[^}]+\})/)
+			.map((part) => {
+				const match = /^\{([^}]+)\}$/.exec(part);
+				if (!match) return escapeRegExp(part);
+				paramNames.push(match[1] as string);
+				return "([^/]+)";
+			})
+			.join("");
+		const pattern = new RegExp(`^${source}/?$`);
+
+		for (const method of HTTP_METHODS) {
+			const operation = pathItem[method] as Record<string, unknown> | undefined;
+			if (!operation || typeof operation !== "object") continue;
+
+			const parameters = new Map<string, Record<string, unknown>>();
+			for (const list of [pathItem.parameters, operation.parameters]) {
+				if (!Array.isArray(list)) continue;
+				for (const raw of list) {
+					if (!raw || typeof raw !== "object") continue;
+					const parameter = resolveObject(raw as Record<string, unknown>, spec);
+					parameters.set(`${String(parameter.in)}:${String(parameter.name)}`, parameter);
+				}
+			}
+
+			routes.push({
+				method,
+				path,
+				pattern,
+				paramNames,
+				operation,
+				parameters: [...parameters.values()],
+				seedKey:
+					operationIds[`${method.toUpperCase()} ${path}`] ??
+					(typeof operation.operationId === "string"
+						? operation.operationId
+						: `${method.toUpperCase()} ${path}`),
+			});
+		}
+	}
+
+	return routes.sort((a, b) => a.paramNames.length - b.paramNames.length);
+}
+
+/**
+ * Path prefix of the first `servers` entry (`/v1` for
+ * `https://api.example.com/v1`), or "" when there is none.
+ */
+function serverBasePath(spec: unknown): string {
+	const servers = (spec as Record<string, unknown> | null)?.servers;
+	const url = Array.isArray(servers) ? (servers[0] as Record<string, unknown> | undefined)?.url : undefined;
+	if (typeof url !== "string") return "";
+	try {
+		return new URL(url, "http://localhost").pathname.replace(/\/+$/, "");
+	} catch {
+		return "";
+	}
+}
+
+type RouteMatch =
+	| { route: MockRoute; params: Record<string, string> }
+	| { allowed: string[] }
+	| null;
+
+/**
+ * Finds the route for a request. Returns the methods the path does allow
+ * when only the method doesn't match, and null when no path matches.
+ */
+export function matchMockRoute(
+	routes: MockRoute[],
+	method: string,
+	pathname: string,
+	basePath = "",
+): RouteMatch {
+	const candidates = [pathname];
+	if (basePath && pathname.startsWith(basePath)) {
+		candidates.push(pathname.slice(basePath.length) || "/");
+	}
+
+	const allowed = new Set<string>();
+	for (const candidate of candidates) {
+		for (const route of routes) {
+			const match = route.pattern.exec(candidate);
+			if (!match) continue;
+			if (route.method !== method) {
+				allowed.add(route.method.toUpperCase());
+				continue;
+			}
+			const params: Record<string, string> = {};
+			route.paramNames.forEach((name, index) => {
+				const value = match[index + 1] as string;
+				try {
+					params[name] = decodeURIComponent(value);
+				} catch {
+					params[name] = value;
+				}
+			});
+			return { route, params };
+		}
+	}
+	return allowed.size > 0 ? { allowed: [...allowed] } : null;
+}
+
+function schemaTypes(schema: Record<string, unknown>): string[] {
+	if (Array.isArray(schema.type)) return schema.type.filter((t): t is string => typeof t === "string");
+	if (typeof schema.type === "string") return [schema.type];
+	if (schema.properties) return ["object"];
+	if (schema.items) return ["array"];
+	return [];
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return typeof value === "object" && value !== null && !Array.isArray(value);
+		case "null":
+			return value === null;
+		default:
+			return typeof value === type;
+	}
+}
+
+/**
+ * Checks `value` against `schema`, covering types, nullability, enums,
+ * compositions, bounds, lengths, patterns, required and unknown
+ * properties. Properties marked `readOnly` aren't expected in requests.
+ */
+export function validateMockValue(
+	schema: unknown,
+	value: unknown,
+	spec: unknown,
+	pointer = "",
+	depth = 0,
+): MockIssue[] {
+	if (schema === null || typeof schema !== "object" || depth > MAX_VALIDATION_DEPTH) return [];
+	const s = schema as Record<string, unknown>;
+	if (typeof s.$ref === "string") {
+		return validateMockValue(resolveRef(s.$ref, spec), value, spec, pointer, depth + 1);
+	}
+
+	const issue = (message: string): MockIssue[] => [{ pointer, message }];
+	const types = schemaTypes(s);
+	if (
+		value === null &&
+		(s.nullable === true ||
+			types.includes("null") ||
+			(Array.isArray(s.enum) && s.enum.includes(null)))
+	) {
+		return [];
+	}
+
+	const issues: MockIssue[] = [];
+	if (Array.isArray(s.allOf)) {
+		for (const part of s.allOf) issues.push(...validateMockValue(part, value, spec, pointer, depth + 1));
+	}
+	const variants = Array.isArray(s.oneOf) ? s.oneOf : Array.isArray(s.anyOf) ? s.anyOf : undefined;
+	if (
+		variants &&
+		!variants.some((variant) => validateMockValue(variant, value, spec, pointer, depth + 1).length === 0)
+	) {
+		issues.push({ pointer, message: "Doesn't match any of the allowed schemas" });
+	}
+
+	if (Array.isArray(s.enum) && !s.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		return issue(`Must be one of: ${s.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+	}
+	if (s.const !== undefined && JSON.stringify(s.const) !== JSON.stringify(value)) {
+		return issue(`Must be ${JSON.stringify(s.const)}`);
+	}
+	if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+		return issue(`Expected ${types.join(" or ")}, got ${typeOf(value)}`);
+	}
+
+	if (typeof value === "string") {
+		if (typeof s.minLength === "number" && value.length < s.minLength) {
+			issues.push({ pointer, message: `Must be at least ${s.minLength} characters` });
+		}
+		if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+			issues.push({ pointer, message: `Must be at most ${s.maxLength} characters` });
+		}
+		if (typeof s.pattern === "string") {
+			try {
+				if (!new RegExp(s.pattern, "u").test(value)) {
+					issues.push({ pointer, message: `Must match ${s.pattern}` });
+				}
+			} catch {
+				// Patterns JS can't compile aren't checked.
+			}
+		}
+	} else if (typeof value === "number") {
+		const below =
+			typeof s.exclusiveMinimum === "number"
+				? value <= s.exclusiveMinimum
+				: typeof s.minimum === "number" &&
+					(s.exclusiveMinimum === true ? value <= s.minimum : value < s.minimum);
+		const above =
+			typeof s.exclusiveMaximum === "number"
+				? value >= s.exclusiveMaximum
+				: typeof s.maximum === "number" &&
+					(s.exclusiveMaximum === true ? value >= s.maximum : value > s.maximum);
+		if (below) issues.push({ pointer, message: "Below the minimum" });
+		if (above) issues.push({ pointer, message: "Above the maximum" });
+	} else if (Array.isArray(value)) {
+		if (typeof s.minItems === "number" && value.length < s.minItems) {
+			issues.push({ pointer, message: `Must have at least ${s.minItems} items` });
+		}
+		if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+			issues.push({ pointer, message: `Must have at most ${s.maxItems} items` });
+		}
+		value.forEach((item, index) => {
+			issues.push(...validateMockValue(s.items, item, spec, `${pointer}/${index}`, depth + 1));
+		});
+	} else if (typeof value === "object" && value !== null) {
+		const record = value as Record<string, unknown>;
+		const properties = (s.properties ?? {}) as Record<string, unknown>;
+		const readOnly = (name: string) => {
+			const property = properties[name] as Record<string, unknown> | undefined;
+			const resolved =
+				typeof property?.$ref === "string"
+					? (resolveRef(property.$ref, spec) as Record<string, unknown> | undefined)
+					: property;
+			return property?.readOnly === true || resolved?.readOnly === true;
+		};
+		const escape = (name: string) => name.replace(/~/g, "~0").replace(/\//g, "~1");
+
+		for (const name of Array.isArray(s.required) ? s.required : []) {
+			if (typeof name === "string" && !(name in record) && !readOnly(name)) {
+				issues.push({ pointer: `${pointer}/${escape(name)}`, message: "Required" });
+			}
+		}
+		for (const [name, item] of Object.entries(record)) {
+			const path = `${pointer}/${escape(name)}`;
+			if (name in properties) {
+				issues.push(...validateMockValue(properties[name], item, spec, path, depth + 1));
+			} else if (s.additionalProperties === false) {
+				issues.push({ pointer: path, message: "Unknown property" });
+			} else if (typeof s.additionalProperties === "object") {
+				issues.push(...validateMockValue(s.additionalProperties, item, spec, path, depth + 1));
+			}
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Converts a raw parameter string to the type its schema declares, so it
+ * can be validated like a JSON value. Unconvertible input is returned as
+ * is and fails the type check.
+ */
+function coerceParameter(raw: string, schema: Record<string, unknown>): unknown {
+	const types = schemaTypes(schema);
+	if (types.includes("integer") || types.includes("number")) {
+		return raw.trim() !== "" && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+	}
+	if (types.includes("boolean")) {
+		return raw === "true" ? true : raw === "false" ? false : raw;
+	}
+	return raw;
+}
+
+/**
+ * Validates the path, query and header parameters of a request.
+ */
+function validateParameters(
+	route: MockRoute,
+	pathParams: Record<string, string>,
+	url: URL,
+	headers: IncomingMessage["headers"],
+	spec: unknown,
+): MockIssue[] {
+	const issues: MockIssue[] = [];
+
+	for (const parameter of route.parameters) {
+		const name = String(parameter.name);
+		const location = String(parameter.in);
+		const schema = resolveObject((parameter.schema ?? {}) as Record<string, unknown>, spec);
+		const itemSchema = resolveObject((schema.items ?? {}) as Record<string, unknown>, spec);
+		const isArray = schemaTypes(schema).includes("array");
+
+		let raw: string[];
+		if (location === "path") {
+			raw = name in pathParams ? [pathParams[name] as string] : [];
+		} else if (location === "query") {
+			raw = url.searchParams.getAll(name);
+		} else if (location === "header") {
+			const header = headers[name.toLowerCase()];
+			raw = header === undefined ? [] : Array.isArray(header) ? header : [header];
+		} else {
+			continue;
+		}
+
+		const pointer = `/${location}/${name}`;
+		if (raw.length === 0) {
+			if (parameter.required === true) issues.push({ pointer, message: "Required" });
+			continue;
+		}
+
+		const value = isArray
+			? raw
+					.flatMap((entry) => (location === "query" && parameter.explode !== false ? [entry] : entry.split(",")))
+					.map((entry) => coerceParameter(entry, itemSchema))
+			: coerceParameter(raw[0] as string, schema);
+		issues.push(...validateMockValue(schema, value, spec, pointer));
+	}
+
+	return issues;
+}
+
+/**
+ * Parses and validates a JSON request body. Bodies of other media types
+ * are accepted as they are.
+ */
+function validateBody(route: MockRoute, rawBody: string, spec: unknown): MockIssue[] {
+	if (!route.operation.requestBody) return [];
+	const requestBody = resolveObject(route.operation.requestBody as Record<string, unknown>, spec);
+
+	if (rawBody.length === 0) {
+		return requestBody.required === true ? [{ pointer: "/body", message: "Required" }] : [];
+	}
+
+	const json = pickJsonContent(requestBody.content as Record<string, unknown> | undefined);
+	if (!json) return [];
+
+	let body: unknown;
+	try {
+		body = JSON.parse(rawBody);
+	} catch {
+		return [{ pointer: "/body", message: "Not valid JSON" }];
+	}
+	return validateMockValue(json.entry.schema, body, spec, "/body");
+}
+
+/**
+ * Reads `Prefer: code=404, example=notFound` into its parts.
+ */
+function parsePrefer(header: string | string[] | undefined): { code?: string; example?: string } {
+	const prefer: { code?: string; example?: string } = {};
+	for (const part of [header ?? ""].flat().join(",").split(/[,;]/)) {
+		const [key, ...rest] = part.split("=");
+		const value = rest.join("=").trim().replace(/^"(.*)"$/, "$1");
+		const name = key?.trim().toLowerCase();
+		if (name === "code") prefer.code = value;
+		if (name === "example") prefer.example = value;
+	}
+	return prefer;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => chunks.push(chunk));
+		req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+		req.on("error", reject);
+	});
+}
+
+function sendJson(
+	res: ServerResponse,
+	status: number,
+	body: unknown,
+	headers: Record<string, string> = {},
+): void {
+	if (body === undefined) {
+		res.writeHead(status, headers).end();
+		return;
+	}
+	res
+		.writeHead(status, { "content-type": "application/json", ...headers })
+		.end(JSON.stringify(body));
+}
+
+/**
+ * Creates (but doesn't start) a mock server for `spec`. Every response
+ * allows cross-origin requests, so apps on another port can call it.
+ */
+export function createMockServer(spec: unknown, options: MockServerOptions = {}): Server {
+	const routes = buildMockRoutes(spec, options.operationIds);
+	const basePath = serverBasePath(spec);
+	const seed = options.seed ?? "";
+
+	async function handle(req: IncomingMessage, res: ServerResponse): Promise<number> {
+		const method = (req.method ?? "GET").toLowerCase();
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const rawBody = await readBody(req);
+
+		res.setHeader("access-control-allow-origin", req.headers.origin ?? "*");
+		res.setHeader("access-control-allow-credentials", "true");
+		res.setHeader("access-control-expose-headers", "*");
+
+		const match = matchMockRoute(routes, method, url.pathname, basePath);
+
+		// CORS preflight, unless the spec defines the OPTIONS operation itself.
+		if (method === "options" && req.headers["access-control-request-method"] && !(match && "route" in match)) {
+			res
+				.writeHead(204, {
+					"access-control-allow-methods": match ? match.allowed.join(", ") : "*",
+					"access-control-allow-headers": req.headers["access-control-request-headers"] ?? "*",
+					"access-control-max-age": "600",
+				})
+				.end();
+			return 204;
+		}
+
+		if (!match) {
+			sendJson(res, 404, { message: `No operation matches ${method.toUpperCase()} ${url.pathname}` });
+			return 404;
+		}
+		if ("allowed" in match) {
+			sendJson(
+				res,
+				405,
+				{ message: `${url.pathname} doesn't support ${method.toUpperCase()}` },
+				{ allow: match.allowed.join(", ") },
+			);
+			return 405;
+		}
+
+		const { route, params } = match;
+		const issues = [
+			...validateParameters(route, params, url, req.headers, spec),
+			...validateBody(route, rawBody, spec),
+		];
+		if (issues.length > 0) {
+			sendJson(res, 400, { message: "Request doesn't match the spec", issues });
+			return 400;
+		}
+
+		const prefer = parsePrefer(req.headers.prefer);
+		if (prefer.code !== undefined && !/^[1-5]\d\d$/.test(prefer.code)) {
+			sendJson(res, 400, { message: `Prefer: code=${prefer.code} isn't an HTTP status` });
+			return 400;
+		}
+		const response = resolveMockResponse(
+			route.operation,
+			spec,
+			createRng(mockSeed(seed, route.seedKey)),
+			{
+				...(prefer.code !== undefined ? { code: Number(prefer.code) } : {}),
+				...(prefer.example !== undefined ? { example: prefer.example } : {}),
+			},
+		);
+		if (!response) {
+			sendJson(res, 400, {
+				message: `${route.method.toUpperCase()} ${route.path} documents no ${prefer.code} response`,
+			});
+			return 400;
+		}
+
+		if (options.delayMs) {
+			await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+		}
+		if (!response.hasBody || response.status === 204 || response.status === 304) {
+			sendJson(res, response.status, undefined);
+		} else {
+			const mediaType = response.mediaType ?? "application/json";
+			sendJson(res, response.status, response.body, {
+				"content-type": mediaType.includes("*") ? "application/json" : mediaType,
+			});
+		}
+		return response.status;
+	}
+
+	return createServer((req, res) => {
+		const start = Date.now();
+		handle(req, res).then(
+			(status) => {
+				options.logger?.info(
+					{ status, ms: Date.now() - start },
+					`${req.method ?? "GET"} ${req.url ?? "/"}`,
+				);
+			},
+			(error: unknown) => {
+				options.logger?.error(
+					`${req.method ?? "GET"} ${req.url ?? "/"}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				if (!res.headersSent) sendJson(res, 500, { message: "Mock server error" });
+			},
+		);
+	});
+}
@@ -0,0 +1,620 @@
+/**
+ * OpenAPI Overlay 1.0 support — patches a spec we can't edit (vendor specs
+ * with missing operationIds, wrong nullability, bogus enums) before it is
+ * cached, so every command sees the patched document.
+ *
+ * Targets are JSONPath expressions. The supported subset covers what
+ * overlays use in practice:
+ *
+ * - `$`, `.name`, `['name']` / `["name"]`, `[0]`, `[-1]`, `['a','b']`
+ * - wildcards `.*` / `[*]` and recursive descent `..name` / `..*`
+ * - filters `[?(@.in == 'query')]`, `[?@.deprecated]`, with `==`, `!=`,
+ *   `<`, `<=`, `>`, `>=`, `!`, `&&`, `||` and parentheses
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+
+import { OverlayError } from "./errors.js";
+
+/**
+ * A single overlay action.
+ */
+export interface OverlayAction {
+	/** JSONPath selecting the nodes to update or remove */
+	target: string;
+	description?: string;
+	/** Object merged into each selected object, or entry appended to each selected array */
+	update?: unknown;
+	/** Removes each selected node from its parent */
+	remove?: boolean;
+}
+
+/**
+ * An OpenAPI Overlay 1.0 document.
+ */
+export interface OverlayDocument {
+	overlay: string;
+	info: { title: string; version: string };
+	extends?: string;
+	actions: OverlayAction[];
+}
+
+/**
+ * An overlay file loaded from `overlays` in api.config.toml.
+ */
+export interface LoadedOverlay {
+	/** Path as configured (relative to the project root) */
+	path: string;
+	document: OverlayDocument;
+	/** SHA256 of the file content — part of the cache fingerprint */
+	hash: string;
+}
+
+/**
+ * What applying one overlay did. Stored in the cache metadata so `status`
+ * and `validate` can report it without re-running the overlay.
+ */
+export interface AppliedOverlay {
+	path: string;
+	title: string;
+	hash: string;
+	/** Number of actions in the overlay */
+	actions: number;
+	/** Targets of actions that selected no node */
+	unmatched: string[];
+}
+
+/**
+ * Loads and validates overlay files, in order, relative to the project root.
+ */
+export async function loadOverlays(
+	overlayPaths: string[] | undefined,
+	projectRoot: string,
+): Promise<LoadedOverlay[]> {
+	const overlays: LoadedOverlay[] = [];
+	for (const overlayPath of overlayPaths ?? []) {
+		let content: string;
+		try {
+			content = await readFile(path.resolve(projectRoot, overlayPath), "utf8");
+		} catch (error) {
+			throw new OverlayError(
+				overlayPath,
+				`cannot read file (${error instanceof Error ? error.message : String(error)})`,
+			);
+		}
+
+		let document: unknown;
+		try {
+			// YAML is a superset of JSON, so one parser covers both.
+			document = parseYaml(content);
+		} catch (error) {
+			throw new OverlayError(
+				overlayPath,
+				`not valid JSON or YAML (${error instanceof Error ? error.message : String(error)})`,
+			);
+		}
+
+		overlays.push({
+			path: overlayPath,
+			document: validateOverlayDocument(document, overlayPath),
+			hash: createHash("sha256").update(content).digest("hex"),
+		});
+	}
+	return overlays;
+}
+
+/**
+ * Checks the shape of an overlay document and returns it typed.
+ */
+function validateOverlayDocument(
+	document: unknown,
+	overlayPath: string,
+): OverlayDocument {
+	if (document === null || typeof document !== "object" || Array.isArray(document)) {
+		throw new OverlayError(overlayPath, "must be an object");
+	}
+	const doc = document as Record<string, unknown>;
+
+	if (typeof doc.overlay !== "string" || !doc.overlay.startsWith("1.")) {
+		throw new OverlayError(
+			overlayPath,
+			'missing "overlay" version field (only Overlay 1.x is supported)',
+		);
+	}
+	const info = doc.info as Record<string, unknown> | undefined;
+	if (!info || typeof info.title !== "string" || typeof info.version !== "string") {
+		throw new OverlayError(overlayPath, "info.title and info.version are required");
+	}
+	if (!Array.isArray(doc.actions) || doc.actions.length === 0) {
+		throw new OverlayError(overlayPath, "actions must be a non-empty array");
+	}
+
+	doc.actions.forEach((action: unknown, index) => {
+		const a = action as Record<string, unknown> | null;
+		if (!a || typeof a !== "object" || typeof a.target !== "string") {
+			throw new OverlayError(overlayPath, `actions[${index}].target must be a string`);
+		}
+		if (a.remove !== undefined && typeof a.remove !== "boolean") {
+			throw new OverlayError(overlayPath, `actions[${index}].remove must be a boolean`);
+		}
+		if (a.update === undefined && a.remove !== true) {
+			throw new OverlayError(
+				overlayPath,
+				`actions[${index}] needs an update or remove: true`,
+			);
+		}
+		try {
+			parseJsonPath(a.target);
+		} catch (error) {
+			throw new OverlayError(
+				overlayPath,
+				`actions[${index}].target: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	});
+
+	return doc as unknown as OverlayDocument;
+}
+
+/**
+ * Applies overlays in order to a copy of `spec`. Actions within an overlay
+ * run sequentially, so later actions see earlier changes.
+ *
+ * `update` deep-merges into objects (nested objects merge, everything else
+ * is replaced) and is appended to arrays; `remove: true` deletes the node
+ * from its parent and takes precedence over `update`.
+ */
+export function applyOverlays(
+	spec: unknown,
+	overlays: LoadedOverlay[],
+): { spec: unknown; applied: AppliedOverlay[] } {
+	let result = structuredClone(spec);
+	const applied: AppliedOverlay[] = [];
+
+	for (const overlay of overlays) {
+		const unmatched: string[] = [];
+		for (const action of overlay.document.actions) {
+			const nodes = queryJsonPath(result, action.target);
+			if (nodes.length === 0) {
+				unmatched.push(action.target);
+				continue;
+			}
+
+			if (action.remove === true) {
+				// Splice array entries from the back so earlier indexes stay valid.
+				const ordered = [...nodes].sort((a, b) =>
+					typeof a.key === "number" && typeof b.key === "number" ? b.key - a.key : 0,
+				);
+				for (const node of ordered) {
+					if (node.parent === null) {
+						result = undefined;
+					} else if (Array.isArray(node.parent)) {
+						node.parent.splice(node.key as number, 1);
+					} else {
+						delete node.parent[node.key as string];
+					}
+				}
+				continue;
+			}
+
+			for (const node of nodes) {
+				const update = structuredClone(action.update);
+				if (Array.isArray(node.value)) {
+					node.value.push(update);
+				} else if (isPlainObject(node.value) && isPlainObject(update)) {
+					mergeInto(node.value, update);
+				} else if (node.parent === null) {
+					result = update;
+				} else {
+					(node.parent as Record<string | number, unknown>)[node.key] = update;
+				}
+			}
+		}
+
+		applied.push({
+			path: overlay.path,
+			title: overlay.document.info.title,
+			hash: overlay.hash,
+			actions: overlay.document.actions.length,
+			unmatched,
+		});
+	}
+
+	return { spec: result, applied };
+}
+
+/**
+ * Identity of a set of overlays, compared against the cache to decide
+ * whether a conditional (304) fetch is still safe.
+ */
+export function overlayFingerprint(
+	overlays: Array<Pick<LoadedOverlay, "path" | "hash">> | undefined,
+): string {
+	return (overlays ?? []).map((o) => `${o.path}:${o.hash}`).join("\n");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function mergeInto(target: Record<string, unknown>, update: Record<string, unknown>): void {
+	for (const [key, value] of Object.entries(update)) {
+		const existing = target[key];
+		if (isPlainObject(existing) && isPlainObject(value)) {
+			mergeInto(existing, value);
+		} else {
+			target[key] = value;
+		}
+	}
+}
+
+// ---------------------------------------------------------------------------
+// JSONPath
+// ---------------------------------------------------------------------------
+
+/** A node selected by a JSONPath query, with the slot it lives in. */
+interface JsonPathNode {
+	value: unknown;
+	parent: Record<string, unknown> | unknown[] | null;
+	key: string | number;
+}
+
+type Segment =
+	| { kind: "child"; selectors: Selector[] }
+	| { kind: "descendant"; selectors: Selector[] };
+
+type Selector =
+	| { kind: "name"; name: string }
+	| { kind: "index"; index: number }
+	| { kind: "wildcard" }
+	| { kind: "filter"; expression: FilterExpression };
+
+type FilterExpression =
+	| { kind: "or" | "and"; left: FilterExpression; right: FilterExpression }
+	| { kind: "not"; operand: FilterExpression }
+	| { kind: "exists"; path: Array<string | number> }
+	| {
+			kind: "compare";
+			operator: "==" | "!=" | "<" | "<=" | ">" | ">=";
+			left: FilterOperand;
+			right: FilterOperand;
+	  };
+
+type FilterOperand =
+	| { kind: "path"; path: Array<string | number> }
+	| { kind: "literal"; value: unknown };
+
+/**
+ * Selects the nodes of `document` matched by a JSONPath expression.
+ */
+export function queryJsonPath(document: unknown, expression: string): JsonPathNode[] {
+	let nodes: JsonPathNode[] = [{ value: document, parent: null, key: "$" }];
+
+	for (const segment of parseJsonPath(expression)) {
+		const next: JsonPathNode[] = [];
+		for (const node of nodes) {
+			const candidates = segment.kind === "descendant" ? [node, ...descendants(node)] : [node];
+			for (const candidate of candidates) {
+				for (const selector of segment.selectors) {
+					next.push(...select(candidate, selector));
+				}
+			}
+		}
+		nodes = next;
+	}
+
+	// A slot reached twice (e.g. via `..`) is only patched once.
+	const seen = new Map<unknown, Set<string | number>>();
+	return nodes.filter((node) => {
+		const keys = seen.get(node.parent) ?? new Set<string | number>();
+		if (keys.has(node.key)) return false;
+		keys.add(node.key);
+		seen.set(node.parent, keys);
+		return true;
+	});
+}
+
+function children(node: JsonPathNode): JsonPathNode[] {
+	const { value } = node;
+	if (Array.isArray(value)) {
+		return value.map((item, index) => ({ value: item, parent: value, key: index }));
+	}
+	if (isPlainObject(value)) {
+		return Object.entries(value).map(([key, item]) => ({
+			value: item,
+			parent: value,
+			key,
+		}));
+	}
+	return [];
+}
+
+function descendants(node: JsonPathNode): JsonPathNode[] {
+	const result: JsonPathNode[] = [];
+	for (const child of children(node)) {
+		result.push(child, ...descendants(child));
+	}
+	return result;
+}
+
+function select(node: JsonPathNode, selector: Selector): JsonPathNode[] {
+	const { value } = node;
+	switch (selector.kind) {
+		case "wildcard":
+			return children(node);
+		case "name":
+			return isPlainObject(value) && Object.hasOwn(value, selector.name)
+				? [{ value: value[selector.name], parent: value, key: selector.name }]
+				: [];
+		case "index": {
+			if (!Array.isArray(value)) return [];
+			const index = selector.index < 0 ? value.length + selector.index : selector.index;
+			return index >= 0 && index < value.length
+				? [{ value: value[index], parent: value, key: index }]
+				: [];
+		}
+		case "filter":
+			return children(node).filter((child) =>
+				evaluateFilter(selector.expression, child.value),
+			);
+	}
+}
+
+function resolveRelative(current: unknown, steps: Array<string | number>): { found: boolean; value: unknown } {
+	let value = current;
+	for (const step of steps) {
+		if (typeof step === "number" && Array.isArray(value)) {
+			if (step >= value.length) return { found: false, value: undefined };
+			value = value[step];
+		} else if (isPlainObject(value) && Object.hasOwn(value, String(step))) {
+			value = value[String(step)];
+		} else {
+			return { found: false, value: undefined };
+		}
+	}
+	return { found: true, value };
+}
+
+function evaluateFilter(expression: FilterExpression, current: unknown): boolean {
+	switch (expression.kind) {
+		case "or":
+			return evaluateFilter(expression.left, current) || evaluateFilter(expression.right, current);
+		case "and":
+			return evaluateFilter(expression.left, current) && evaluateFilter(expression.right, current);
+		case "not":
+			return !evaluateFilter(expression.operand, current);
+		case "exists":
+			return resolveRelative(current, expression.path).found;
+		case "compare": {
+			const operand = (o: FilterOperand) =>
+				o.kind === "literal" ? o.value : resolveRelative(current, o.path).value;
+			const left = operand(expression.left);
+			const right = operand(expression.right);
+			switch (expression.operator) {
+				case "==":
+					return left === right;
+				case "!=":
+					return left !== right;
+				default: {
+					if (
+						!(typeof left === "number" && typeof right === "number") &&
+						!(typeof left === "string" && typeof right === "string")
+					) {
+						return false;
+					}
+					if (expression.operator === "<") return left < right;
+					if (expression.operator === "<=") return left <= right;
+					if (expression.operator === ">") return left > right;
+					return left >= right;
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Parses a JSONPath expression into segments. Throws an `Error` describing
+ * the first unsupported or malformed construct.
+ */
+function parseJsonPath(expression: string): Segment[] {
+	const parser = new JsonPathParser(expression);
+	return parser.parse();
+}
+
+const NAME_CHAR = /[A-Za-z0-9_$\-]/;
+
+class JsonPathParser {
+	private pos = 0;
+
+	constructor(private readonly input: string) {}
+
+	parse(): Segment[] {
+		this.skipSpace();
+		if (this.input[this.pos] !== "$") {
+			throw new Error(`JSONPath must start with "$": ${this.input}`);
+		}
+		this.pos++;
+
+		const segments: Segment[] = [];
+		while (this.skipSpace(), this.pos < this.input.length) {
+			if (this.input.startsWith("..", this.pos)) {
+				this.pos += 2;
+				const selectors =
+					this.input[this.pos] === "[" ? this.bracket() : [this.dotSelector()];
+				segments.push({ kind: "descendant", selectors });
+			} else if (this.input[this.pos] === ".") {
+				this.pos++;
+				segments.push({ kind: "child", selectors: [this.dotSelector()] });
+			} else if (this.input[this.pos] === "[") {
+				segments.push({ kind: "child", selectors: this.bracket() });
+			} else {
+				throw this.error("unexpected character");
+			}
+		}
+		return segments;
+	}
+
+	private error(message: string): Error {
+		return new Error(`${message} at position ${this.pos} in ${this.input}`);
+	}
+
+	private skipSpace(): void {
+		while (this.input[this.pos] === " ") this.pos++;
+	}
+
+	private dotSelector(): Selector {
+		if (this.input[this.pos] === "*") {
+			this.pos++;
+			return { kind: "wildcard" };
+		}
+		const name = this.name();
+		if (!name) throw this.error("expected a property name");
+		return { kind: "name", name };
+	}
+
+	private name(): string {
+		const start = this.pos;
+		while (this.pos < this.input.length && NAME_CHAR.test(this.input[this.pos] as string)) {
+			this.pos++;
+		}
+		return this.input.slice(start, this.pos);
+	}
+
+	private bracket(): Selector[] {
+		this.expect("[");
+		const selectors: Selector[] = [];
+		do {
+			this.skipSpace();
+			selectors.push(this.bracketSelector());
+			this.skipSpace();
+		} while (this.input[this.pos] === "," && ++this.pos);
+		this.expect("]");
+		return selectors;
+	}
+
+	private bracketSelector(): Selector {
+		const char = this.input[this.pos];
+		if (char === "*") {
+			this.pos++;
+			return { kind: "wildcard" };
+		}
+		if (char === "'" || char === '"') {
+			return { kind: "name", name: this.string() };
+		}
+		if (char === "?") {
+			this.pos++;
+			this.skipSpace();
+			return { kind: "filter", expression: this.orExpression() };
+		}
+		const match = /^-?\d+/.exec(this.input.slice(this.pos));
+		if (match) {
+			this.pos += match[0].length;
+			return { kind: "index", index: Number(match[0]) };
+		}
+		throw this.error("unsupported selector");
+	}
+
+	private string(): string {
+		const quote = this.input[this.pos];
+		this.pos++;
+		let value = "";
+		while (this.pos < this.input.length && this.input[this.pos] !== quote) {
+			if (this.input[this.pos] === "\\") this.pos++;
+			value += this.input[this.pos];
+			this.pos++;
+		}
+		this.expect(quote as string);
+		return value;
+	}
+
+	private expect(char: string): void {
+		if (this.input[this.pos] !== char) throw this.error(`expected "${char}"`);
+		this.pos++;
+	}
+
+	private orExpression(): FilterExpression {
+		let left = this.andExpression();
+		while ((this.skipSpace(), this.input.startsWith("||", this.pos))) {
+			this.pos += 2;
+			left = { kind: "or", left, right: this.andExpression() };
+		}
+		return left;
+	}
+
+	private andExpression(): FilterExpression {
+		let left = this.unaryExpression();
+		while ((this.skipSpace(), this.input.startsWith("&&", this.pos))) {
+			this.pos += 2;
+			left = { kind: "and", left, right: this.unaryExpression() };
+		}
+		return left;
+	}
+
+	private unaryExpression(): FilterExpression {
+		this.skipSpace();
+		if (this.input[this.pos] === "!" && this.input[this.pos + 1] !== "=") {
+			this.pos++;
+			return { kind: "not", operand: this.unaryExpression() };
+		}
+		if (this.input[this.pos] === "(") {
+			this.pos++;
+			const inner = this.orExpression();
+			this.skipSpace();
+			this.expect(")");
+			return inner;
+		}
+
+		const left = this.operand();
+		this.skipSpace();
+		const operator = /^(==|!=|<=|>=|<|>)/.exec(this.input.slice(this.pos))?.[0] as
+			| "=="
+			| "!="
+			| "<="
+			| ">="
+			| "<"
+			| ">"
+			| undefined;
+		if (!operator) {
+			if (left.kind !== "path") throw this.error("a literal needs a comparison");
+			return { kind: "exists", path: left.path };
+		}
+		this.pos += operator.length;
+		this.skipSpace();
+		return { kind: "compare", operator, left, right: this.operand() };
+	}
+
+	private operand(): FilterOperand {
+		const char = this.input[this.pos];
+		if (char === "@") {
+			this.pos++;
+			const steps: Array<string | number> = [];
+			while (this.input[this.pos] === "." || this.input[this.pos] === "[") {
+				if (this.input[this.pos] === ".") {
+					this.pos++;
+					const name = this.name();
+					if (!name) throw this.error("expected a property name");
+					steps.push(name);
+				} else {
+					const [selector] = this.bracket();
+					if (selector?.kind === "name") steps.push(selector.name);
+					else if (selector?.kind === "index") steps.push(selector.index);
+					else throw this.error("only names and indexes are supported after @");
+				}
+			}
+			return { kind: "path", path: steps };
+		}
+		if (char === "'" || char === '"') {
+			return { kind: "literal", value: this.string() };
+		}
+		const rest = this.input.slice(this.pos);
+		const literal = /^(true|false|null|-?\d+(\.\d+)?)/.exec(rest)?.[0];
+		if (literal) {
+			this.pos += literal.length;
+			return { kind: "literal", value: JSON.parse(literal) };
+		}
+		throw this.error("expected @, a string, a number, true, false or null");
+	}
+}
@@ -20,6 +20,16 @@ export interface SchemaDetail {
 	default?: unknown;
 	oneOf?: SchemaDetail[];
 	anyOf?: SchemaDetail[];
+	/** `const` value (3.1) */
+	const?: unknown;
+	/** Tuple element schemas from `prefixItems` (3.1) */
+	prefixItems?: SchemaDetail[];
+	/** `additionalProperties`, or `unevaluatedProperties` (3.1) when unset */
+	additionalProperties?: boolean | SchemaDetail;
+	/** `if` / `then` / `else` (3.1) */
+	conditional?: { if?: SchemaDetail; then?: SchemaDetail; else?: SchemaDetail };
+	/** `examples` (3.1), or the 3.0 `example` as a single entry */
+	examples?: unknown[];
 	truncated?: boolean;
 }
 
@@ -158,7 +168,9 @@ export function pickJsonContent(
  *
  * Handles `$ref` pointers, circular references (via `visited` set),
  * `allOf` / `oneOf` / `anyOf` compositions, object properties, and array
- * items.  Truncates when `maxDepth` is reached.
+ * items, plus the OpenAPI 3.1 keywords: type arrays, `const`,
+ * `prefixItems`, `if` / `then` / `else`, `unevaluatedProperties` and
+ * `examples`. Truncates when `maxDepth` is reached.
  */
 export function resolveSchema(
 	rawSchema: unknown,
@@ -222,10 +234,15 @@ export function resolveSchema(
 		const types = schema.type as string[];
 		nullable = types.includes("null");
 		const nonNull = types.filter((t) => t !== "null");
-		type = nonNull[0] ?? "unknown";
+		// Several non-null types (`["string", "integer"]`) read as a union.
+		type = nonNull.length > 0 ? nonNull.join(" | ") : types.length > 0 ? "null" : "unknown";
 	} else if (typeof schema.type === "string") {
 		type = schema.type;
-	} else if (schema.oneOf || schema.anyOf || schema.allOf) {
+	} else if (schema.const !== undefined) {
+		type = schema.const === null ? "null" : Array.isArray(schema.const) ? "array" : typeof schema.const;
+	} else if (schema.prefixItems) {
+		type = "array";
+	} else if (schema.oneOf || schema.anyOf || schema.allOf || schema.if) {
 		type = "composite";
 	}
 
@@ -243,9 +260,15 @@ export function resolveSchema(
 	if (Array.isArray(schema.enum)) {
 		detail.enum = (schema.enum as unknown[]).map(String);
 	}
+	if (schema.const !== undefined) detail.const = schema.const;
+	if (Array.isArray(schema.examples)) {
+		detail.examples = schema.examples;
+	} else if (schema.example !== undefined) {
+		detail.examples = [schema.example];
+	}
 
-	// --- Object properties ---
-	if (type === "object" || schema.properties) {
+	// --- Object properties (a bare `required` counts: 3.1 `then` / `else`) ---
+	if (type === "object" || schema.properties || Array.isArray(schema.required)) {
 		const props = schema.properties as Record<string, unknown> | undefined;
 		if (props && typeof props === "object") {
 			detail.type = "object";
@@ -262,16 +285,41 @@ export function resolveSchema(
 				(r): r is string => typeof r === "string",
 			);
 		}
+		const additional = schema.additionalProperties ?? schema.unevaluatedProperties;
+		if (typeof additional === "boolean") {
+			detail.additionalProperties = additional;
+		} else if (additional && typeof additional === "object") {
+			detail.additionalProperties =
+				resolveSchema(additional, spec, depth + 1, maxDepth, new Set(visited)) ?? true;
+		}
 	}
 
 	// --- Array items ---
 	if (type === "array" || schema.items) {
-		if (schema.items) {
+		if (schema.items && typeof schema.items === "object") {
 			detail.type = "array";
 			detail.items = resolveSchema(schema.items, spec, depth + 1, maxDepth, new Set(visited)) ?? undefined;
 		}
 	}
 
+	// --- Tuples (3.1) ---
+	if (Array.isArray(schema.prefixItems)) {
+		detail.type = "array";
+		detail.prefixItems = (schema.prefixItems as unknown[])
+			.map((s) => resolveSchema(s, spec, depth + 1, maxDepth, new Set(visited)))
+			.filter((s): s is SchemaDetail => s !== null);
+	}
+
+	// --- Conditionals (3.1) ---
+	if (schema.if || schema.then || schema.else) {
+		const conditional: NonNullable<SchemaDetail["conditional"]> = {};
+		for (const key of ["if", "then", "else"] as const) {
+			const resolved = resolveSchema(schema[key], spec, depth + 1, maxDepth, new Set(visited));
+			if (resolved) conditional[key] = resolved;
+		}
+		detail.conditional = conditional;
+	}
+
 	// --- Composition keywords ---
 	if (Array.isArray(schema.oneOf)) {
 		detail.oneOf = (schema.oneOf as unknown[])
@@ -0,0 +1,599 @@
+/**
+ * Swagger 2.0 → OpenAPI 3.0 conversion.
+ *
+ * openapi-typescript and the rest of the generator only read OpenAPI 3, so
+ * legacy Swagger 2.0 specs are converted once, when they're loaded. The
+ * cache and everything downstream only ever see the converted document.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Result of converting a Swagger 2.0 spec.
+ */
+export interface Swagger2Conversion {
+	spec: JsonObject;
+	/** Constructs that have no exact OpenAPI 3 equivalent, one per line */
+	warnings: string[];
+}
+
+/** OpenAPI version emitted by the converter. */
+export const CONVERTED_OPENAPI_VERSION = "3.0.3";
+
+/** Operation methods Swagger 2.0 allows on a path item. */
+const SWAGGER2_METHODS = [
+	"get",
+	"put",
+	"post",
+	"delete",
+	"options",
+	"head",
+	"patch",
+] as const;
+
+const FORM_MEDIA_TYPES = new Set([
+	"application/x-www-form-urlencoded",
+	"multipart/form-data",
+]);
+
+const DEFAULT_MEDIA_TYPES = ["application/json"];
+
+/** Swagger 2.0 pointer prefixes and their OpenAPI 3 components. */
+const REF_PREFIXES: Array<[string, string]> = [
+	["#/definitions/", "#/components/schemas/"],
+	["#/parameters/", "#/components/parameters/"],
+	["#/responses/", "#/components/responses/"],
+];
+
+/** Parameter keywords that describe the value — they move into `schema`. */
+const PARAMETER_SCHEMA_KEYS = new Set([
+	"type",
+	"format",
+	"items",
+	"default",
+	"maximum",
+	"exclusiveMaximum",
+	"minimum",
+	"exclusiveMinimum",
+	"maxLength",
+	"minLength",
+	"pattern",
+	"maxItems",
+	"minItems",
+	"uniqueItems",
+	"enum",
+	"multipleOf",
+]);
+
+/** Swagger 2.0 OAuth2 `flow` → OpenAPI 3 `flows` key. */
+const OAUTH2_FLOWS: Record<string, string> = {
+	implicit: "implicit",
+	password: "password",
+	application: "clientCredentials",
+	accessCode: "authorizationCode",
+};
+
+/**
+ * Returns true for a Swagger 2.0 document (`swagger: "2.0"`, or the number
+ * `2` when an unquoted YAML `swagger: 2.0` was parsed).
+ */
+export function isSwagger2(spec: unknown): spec is JsonObject {
+	if (spec === null || typeof spec !== "object" || Array.isArray(spec)) {
+		return false;
+	}
+	const version = (spec as JsonObject).swagger;
+	return version === "2.0" || version === 2;
+}
+
+function isObject(value: unknown): value is JsonObject {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
+
+function asObject(value: unknown): JsonObject {
+	return isObject(value) ? value : {};
+}
+
+function mediaTypes(value: unknown): string[] | undefined {
+	return Array.isArray(value) && value.length > 0
+		? value.filter((v): v is string => typeof v === "string")
+		: undefined;
+}
+
+/** Copies `x-` vendor extensions from `source` onto `target`. */
+function copyExtensions(source: JsonObject, target: JsonObject): JsonObject {
+	for (const [key, value] of Object.entries(source)) {
+		if (key.startsWith("x-")) target[key] = value;
+	}
+	return target;
+}
+
+/** Rewrites a `#/definitions/…`-style pointer to its components location. */
+function rewriteRef(ref: string): string {
+	for (const [from, to] of REF_PREFIXES) {
+		if (ref.startsWith(from)) return to + ref.slice(from.length);
+	}
+	return ref;
+}
+
+/**
+ * Copies a Swagger 2.0 schema as OpenAPI 3.0: refs point into components,
+ * `x-nullable` becomes `nullable`, `type: file` becomes a binary string and
+ * a string `discriminator` becomes `{ propertyName }`.
+ */
+export function convertSchema(schema: unknown): unknown {
+	if (!isObject(schema)) return schema;
+
+	const result: JsonObject = {};
+	for (const [key, value] of Object.entries(schema)) {
+		switch (key) {
+			case "$ref":
+				result.$ref = typeof value === "string" ? rewriteRef(value) : value;
+				break;
+			case "x-nullable":
+				result.nullable = value;
+				break;
+			case "discriminator":
+				result.discriminator =
+					typeof value === "string" ? { propertyName: value } : value;
+				break;
+			case "properties":
+				result.properties = Object.fromEntries(
+					Object.entries(asObject(value)).map(([name, property]) => [
+						name,
+						convertSchema(property),
+					]),
+				);
+				break;
+			case "items":
+			case "additionalProperties":
+			case "not":
+				result[key] = convertSchema(value);
+				break;
+			case "allOf":
+			case "anyOf":
+			case "oneOf":
+				result[key] = asArray(value).map(convertSchema);
+				break;
+			case "collectionFormat":
+				// Only meaningful on parameters; handled by convertParameter.
+				break;
+			default:
+				result[key] = value;
+		}
+	}
+
+	if (result.type === "file") {
+		result.type = "string";
+		result.format = "binary";
+	}
+	return result;
+}
+
+/**
+ * Splits a non-body parameter into OpenAPI 3 `schema` plus serialization
+ * `style` / `explode` derived from `collectionFormat`.
+ */
+function convertParameter(
+	parameter: JsonObject,
+	where: string,
+	warnings: string[],
+): JsonObject {
+	const schema: JsonObject = {};
+	const result: JsonObject = {};
+
+	for (const [key, value] of Object.entries(parameter)) {
+		if (PARAMETER_SCHEMA_KEYS.has(key)) {
+			schema[key] = value;
+		} else if (key === "collectionFormat" || key === "allowEmptyValue") {
+			// Handled below / dropped.
+		} else {
+			result[key] = value;
+		}
+	}
+	if (parameter.allowEmptyValue !== undefined && parameter.in === "query") {
+		result.allowEmptyValue = parameter.allowEmptyValue;
+	}
+	result.schema = convertSchema(schema);
+
+	if (schema.type === "array") {
+		const format = (parameter.collectionFormat as string | undefined) ?? "csv";
+		switch (format) {
+			case "csv":
+				if (parameter.in === "query" || parameter.in === "cookie") {
+					result.style = "form";
+					result.explode = false;
+				}
+				break;
+			case "multi":
+				result.style = "form";
+				result.explode = true;
+				break;
+			case "ssv":
+				result.style = "spaceDelimited";
+				break;
+			case "pipes":
+				result.style = "pipeDelimited";
+				break;
+			default:
+				warnings.push(
+					`${where}: parameter "${String(parameter.name)}" uses collectionFormat "${format}", which OpenAPI 3 cannot express; serialized as csv`,
+				);
+		}
+	}
+
+	return result;
+}
+
+/** Schema of a single formData parameter, including its description. */
+function formDataPropertySchema(parameter: JsonObject): unknown {
+	const schema: JsonObject = {};
+	for (const [key, value] of Object.entries(parameter)) {
+		if (PARAMETER_SCHEMA_KEYS.has(key)) schema[key] = value;
+	}
+	if (typeof parameter.description === "string") {
+		schema.description = parameter.description;
+	}
+	return convertSchema(schema);
+}
+
+/**
+ * Converts a response: `schema` and `examples` move into a `content` map
+ * keyed by the operation's `produces`, headers gain a `schema`.
+ */
+function convertResponse(response: unknown, produces: string[]): unknown {
+	if (!isObject(response)) return response;
+	if (typeof response.$ref === "string") {
+		return { $ref: rewriteRef(response.$ref) };
+	}
+
+	const result: JsonObject = {
+		description: typeof response.description === "string" ? response.description : "",
+	};
+
+	if (response.schema !== undefined) {
+		const examples = asObject(response.examples);
+		result.content = Object.fromEntries(
+			produces.map((mediaType) => [
+				mediaType,
+				{
+					schema: convertSchema(response.schema),
+					...(examples[mediaType] !== undefined
+						? { example: examples[mediaType] }
+						: {}),
+				},
+			]),
+		);
+	}
+
+	if (isObject(response.headers)) {
+		result.headers = Object.fromEntries(
+			Object.entries(response.headers).map(([name, header]) => {
+				const { description, ...schema } = asObject(header);
+				return [
+					name,
+					{
+						...(typeof description === "string" ? { description } : {}),
+						schema: convertSchema(schema),
+					},
+				];
+			}),
+		);
+	}
+
+	return copyExtensions(response, result);
+}
+
+/** Converts `securityDefinitions` entries to `securitySchemes`. */
+function convertSecurityScheme(
+	name: string,
+	scheme: JsonObject,
+	warnings: string[],
+): JsonObject {
+	const description =
+		typeof scheme.description === "string" ? { description: scheme.description } : {};
+
+	switch (scheme.type) {
+		case "basic":
+			return copyExtensions(scheme, { type: "http", scheme: "basic", ...description });
+		case "apiKey":
+			return copyExtensions(scheme, {
+				type: "apiKey",
+				name: scheme.name,
+				in: scheme.in,
+				...description,
+			});
+		case "oauth2": {
+			const flow = OAUTH2_FLOWS[String(scheme.flow)];
+			if (!flow) {
+				warnings.push(
+					`securityDefinitions.${name}: unknown OAuth2 flow "${String(scheme.flow)}"`,
+				);
+			}
+			return copyExtensions(scheme, {
+				type: "oauth2",
+				...description,
+				flows: flow
+					? {
+							[flow]: {
+								...(scheme.authorizationUrl !== undefined
+									? { authorizationUrl: scheme.authorizationUrl }
+									: {}),
+								...(scheme.tokenUrl !== undefined
+									? { tokenUrl: scheme.tokenUrl }
+									: {}),
+								scopes: asObject(scheme.scopes),
+							},
+						}
+					: {},
+			});
+		}
+		default:
+			warnings.push(
+				`securityDefinitions.${name}: unknown type "${String(scheme.type)}" copied as-is`,
+			);
+			return scheme;
+	}
+}
+
+/** Builds `servers` from `schemes`, `host` and `basePath`. */
+function convertServers(spec: JsonObject): JsonObject[] {
+	const basePath = typeof spec.basePath === "string" ? spec.basePath : "";
+	if (typeof spec.host !== "string" || spec.host === "") {
+		return [{ url: basePath || "/" }];
+	}
+	const schemes = mediaTypes(spec.schemes) ?? ["https"];
+	return schemes.map((scheme) => ({ url: `${scheme}://${spec.host}${basePath}` }));
+}
+
+/**
+ * Converts a Swagger 2.0 spec to OpenAPI 3.0.
+ *
+ * - `definitions` → `components.schemas`, shared `parameters` / `responses`
+ *   → their components, `securityDefinitions` → `components.securitySchemes`
+ * - `body` and `formData` parameters → `requestBody`, keyed by `consumes`
+ * - response `schema` → `content`, keyed by `produces`
+ * - `host` / `basePath` / `schemes` → `servers`
+ *
+ * Entries already under `components` (e.g. hoisted there by the `$ref`
+ * bundler) are treated as Swagger 2.0 and converted alongside.
+ */
+export function convertSwagger2(spec: JsonObject): Swagger2Conversion {
+	const warnings: string[] = [];
+	const components = asObject(spec.components);
+
+	const sharedParameters = {
+		...asObject(components.parameters),
+		...asObject(spec.parameters),
+	};
+	const globalConsumes = mediaTypes(spec.consumes) ?? DEFAULT_MEDIA_TYPES;
+	const globalProduces = mediaTypes(spec.produces) ?? DEFAULT_MEDIA_TYPES;
+
+	/** Follows a `#/parameters/X` ref so body/formData params can be inlined. */
+	const resolveParameter = (parameter: unknown): JsonObject => {
+		const p = asObject(parameter);
+		if (typeof p.$ref !== "string") return p;
+		const name = rewriteRef(p.$ref).replace("#/components/parameters/", "");
+		const target = sharedParameters[name];
+		return isObject(target) ? target : p;
+	};
+
+	const paths: JsonObject = {};
+	for (const [route, rawItem] of Object.entries(asObject(spec.paths))) {
+		if (!isObject(rawItem)) {
+			paths[route] = rawItem;
+			continue;
+		}
+
+		// Path-level body/formData parameters can't stay on the path item
+		// in OpenAPI 3 — push them down into every operation instead.
+		const pathParameters: JsonObject[] = [];
+		const inheritedBody: JsonObject[] = [];
+		for (const parameter of asArray(rawItem.parameters)) {
+			const resolved = resolveParameter(parameter);
+			if (resolved.in === "body" || resolved.in === "formData") {
+				inheritedBody.push(resolved);
+			} else {
+				pathParameters.push(asObject(parameter));
+			}
+		}
+
+		const item: JsonObject = {};
+		for (const [key, value] of Object.entries(rawItem)) {
+			if (key === "parameters") {
+				if (pathParameters.length > 0) {
+					item.parameters = pathParameters.map((p) =>
+						typeof p.$ref === "string"
+							? { $ref: rewriteRef(p.$ref) }
+							: convertParameter(p, route, warnings),
+					);
+				}
+			} else if ((SWAGGER2_METHODS as readonly string[]).includes(key)) {
+				item[key] = convertOperation(
+					asObject(value),
+					`${key.toUpperCase()} ${route}`,
+					inheritedBody,
+				);
+			} else {
+				item[key] = value;
+			}
+		}
+		paths[route] = item;
+	}
+
+	function convertOperation(
+		operation: JsonObject,
+		where: string,
+		inheritedBody: JsonObject[],
+	): JsonObject {
+		const consumes = mediaTypes(operation.consumes) ?? globalConsumes;
+		const produces = mediaTypes(operation.produces) ?? globalProduces;
+
+		const parameters: unknown[] = [];
+		const formData: JsonObject[] = [];
+		let body: JsonObject | undefined;
+
+		const own = asArray(operation.parameters);
+		const ownBodyNames = new Set(
+			own
+				.map(resolveParameter)
+				.filter((p) => p.in === "body" || p.in === "formData")
+				.map((p) => `${String(p.in)}:${String(p.name)}`),
+		);
+		const inherited = inheritedBody.filter(
+			(p) => !ownBodyNames.has(`${String(p.in)}:${String(p.name)}`),
+		);
+
+		for (const parameter of [...inherited, ...own]) {
+			const resolved = resolveParameter(parameter);
+			if (resolved.in === "body") {
+				body = resolved;
+			} else if (resolved.in === "formData") {
+				formData.push(resolved);
+			} else if (isObject(parameter) && typeof parameter.$ref === "string") {
+				parameters.push({ $ref: rewriteRef(parameter.$ref) });
+			} else {
+				parameters.push(convertParameter(resolved, where, warnings));
+			}
+		}
+
+		const result: JsonObject = {};
+		for (const [key, value] of Object.entries(operation)) {
+			switch (key) {
+				case "parameters":
+				case "consumes":
+				case "produces":
+					break;
+				case "schemes":
+					warnings.push(`${where}: per-operation schemes are not supported and were dropped`);
+					break;
+				case "responses":
+					result.responses = Object.fromEntries(
+						Object.entries(asObject(value)).map(([status, response]) => [
+							status,
+							convertResponse(response, produces),
+						]),
+					);
+					break;
+				default:
+					result[key] = value;
+			}
+		}
+
+		if (parameters.length > 0) result.parameters = parameters;
+
+		if (body && formData.length > 0) {
+			warnings.push(`${where}: has both body and formData parameters; kept the body`);
+		}
+
+		if (body) {
+			const bodyTypes = consumes.filter((type) => !FORM_MEDIA_TYPES.has(type));
+			result.requestBody = copyExtensions(body, {
+				...(typeof body.description === "string"
+					? { description: body.description }
+					: {}),
+				...(body.required === true ? { required: true } : {}),
+				content: Object.fromEntries(
+					(bodyTypes.length > 0 ? bodyTypes : DEFAULT_MEDIA_TYPES).map(
+						(mediaType) => [mediaType, { schema: convertSchema(body?.schema) }],
+					),
+				),
+			});
+		} else if (formData.length > 0) {
+			const hasFile = formData.some((p) => p.type === "file");
+			const declared = consumes.filter((type) => FORM_MEDIA_TYPES.has(type));
+			const formTypes =
+				declared.length > 0
+					? declared
+					: [hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+			if (hasFile && !formTypes.includes("multipart/form-data")) {
+				warnings.push(`${where}: file upload without multipart/form-data in consumes`);
+			}
+			const required = formData
+				.filter((p) => p.required === true)
+				.map((p) => String(p.name));
+			const schema = {
+				type: "object",
+				properties: Object.fromEntries(
+					formData.map((p) => [String(p.name), formDataPropertySchema(p)]),
+				),
+				...(required.length > 0 ? { required } : {}),
+			};
+			result.requestBody = {
+				...(required.length > 0 ? { required: true } : {}),
+				content: Object.fromEntries(formTypes.map((type) => [type, { schema }])),
+			};
+		}
+
+		return result;
+	}
+
+	const schemas = Object.fromEntries(
+		Object.entries({
+			...asObject(components.schemas),
+			...asObject(spec.definitions),
+		}).map(([name, schema]) => [name, convertSchema(schema)]),
+	);
+
+	// Shared body/formData parameters were inlined into each operation.
+	const parameters = Object.fromEntries(
+		Object.entries(sharedParameters)
+			.filter(([, p]) => {
+				const where = asObject(p).in;
+				return where !== "body" && where !== "formData";
+			})
+			.map(([name, p]) => [
+				name,
+				convertParameter(asObject(p), `parameters.${name}`, warnings),
+			]),
+	);
+
+	const responses = Object.fromEntries(
+		Object.entries({
+			...asObject(components.responses),
+			...asObject(spec.responses),
+		}).map(([name, response]) => [name, convertResponse(response, globalProduces)]),
+	);
+
+	const securitySchemes = Object.fromEntries(
+		Object.entries({
+			...asObject(components.securitySchemes),
+			...asObject(spec.securityDefinitions),
+		}).map(([name, scheme]) => [
+			name,
+			convertSecurityScheme(name, asObject(scheme), warnings),
+		]),
+	);
+
+	const convertedComponents: JsonObject = { ...components };
+	for (const [key, section] of Object.entries({
+		schemas,
+		parameters,
+		responses,
+		securitySchemes,
+	})) {
+		if (Object.keys(section).length > 0) {
+			convertedComponents[key] = section;
+		} else {
+			delete convertedComponents[key];
+		}
+	}
+
+	const result: JsonObject = {
+		openapi: CONVERTED_OPENAPI_VERSION,
+		info: spec.info,
+		...(spec.externalDocs !== undefined ? { externalDocs: spec.externalDocs } : {}),
+		servers: convertServers(spec),
+		...(spec.tags !== undefined ? { tags: spec.tags } : {}),
+		...(spec.security !== undefined ? { security: spec.security } : {}),
+		paths,
+		...(Object.keys(convertedComponents).length > 0
+			? { components: convertedComponents }
+			: {}),
+	};
+
+	return { spec: copyExtensions(spec, result), warnings };
+}
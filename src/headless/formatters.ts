@@ -5,7 +5,7 @@
  */
 
 import pc from "picocolors";
-import type { StatusResult } from "../core/actions/status.js";
+import type { ApiStatus, StatusResult } from "../core/actions/status.js";
 import { formatTimeAgo } from "../core/actions/status.js";
 import type { DiffResult } from "../core/actions/diff.js";
 import type { PluginsResult } from "../core/actions/plugins.js";
@@ -29,9 +29,6 @@ function pad(label: string): string {
  */
 export function formatStatusOutput(result: StatusResult): string {
 	const lines: string[] = [];
-	const yes = pc.green("yes");
-	const no = pc.red("no");
-	const missing = pc.red("missing");
 
 	lines.push("");
 	lines.push(`  ${pc.bold("chowbea-axios status")}`);
@@ -51,6 +48,47 @@ export function formatStatusOutput(result: StatusResult): string {
 	lines.push(
 		`  ${pc.cyan("\u25cf")} ${pc.bold(pc.cyan(pad("config")))}${result.configPath}${result.wasCreated ? pc.yellow(" (created)") : ""}`,
 	);
+	if (result.profile) {
+		lines.push(
+			`${INDENT}${pc.dim("profile:")} ${pc.magenta(result.profile)}`,
+		);
+	} else if (result.profiles.length > 0) {
+		lines.push(
+			`${INDENT}${pc.dim("profile:")} none ${pc.dim(`(available: ${result.profiles.join(", ")})`)}`,
+		);
+	}
+
+	if (!result.apis) {
+		lines.push(...formatApiStatus(result));
+		return lines.join("\n");
+	}
+
+	lines.push(
+		`${INDENT}${pc.dim("apis:")} ${pc.yellow(String(result.apis.length))}`,
+	);
+	lines.push("");
+
+	// One block per [[apis]] entry
+	for (const api of result.apis) {
+		lines.push(
+			`  ${pc.cyan("\u25cf")} ${pc.bold(pc.cyan(pad("api")))}${api.name}`,
+		);
+		lines.push(...formatApiStatus(api));
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Formats the per-API part of the status output: source, output folder,
+ * spec cache, endpoint statistics, and generated/client files.
+ */
+function formatApiStatus(result: ApiStatus): string[] {
+	const lines: string[] = [];
+	const yes = pc.green("yes");
+	const no = pc.red("no");
+	const missing = pc.red("missing");
+
 	lines.push(
 		`${INDENT}${pc.dim("endpoint:")} ${pc.cyan(result.endpoint)}`,
 	);
@@ -77,6 +115,17 @@ export function formatStatusOutput(result: StatusResult): string {
 		);
 	}
 
+	// Overlays applied to the cached spec, in order
+	for (const overlay of result.cacheMetadata?.overlays ?? []) {
+		const unmatched =
+			overlay.unmatched.length > 0
+				? pc.yellow(` (${overlay.unmatched.length} unmatched)`)
+				: "";
+		lines.push(
+			`${INDENT}${pc.dim("overlay:")} ${pc.cyan(overlay.path)} ${pc.dim(`${overlay.title}, ${overlay.actions} actions`)}${unmatched}`,
+		);
+	}
+
 	// Endpoint statistics — render only the method buckets that have
 	// non-zero counts, in canonical order. Includes OPTIONS/HEAD/TRACE
 	// for issue #31.
@@ -103,6 +152,12 @@ export function formatStatusOutput(result: StatusResult): string {
 		}
 		lines.push(`${INDENT}${methods.join("  ")}`);
 	}
+	if (result.filterCounts) {
+		const { kept, dropped } = result.filterCounts;
+		lines.push(
+			`${INDENT}${pc.dim("filter:")} ${pc.yellow(String(kept))} kept, ${pc.yellow(String(dropped))} dropped`,
+		);
+	}
 	lines.push("");
 
 	// Generated files section
@@ -151,7 +206,7 @@ export function formatStatusOutput(result: StatusResult): string {
 	}
 
 	lines.push("");
-	return lines.join("\n");
+	return lines;
 }
 
 /**
@@ -159,6 +214,20 @@ export function formatStatusOutput(result: StatusResult): string {
  * Replicates the diff display logic from commands/diff.ts.
  */
 export function formatDiffSummary(result: DiffResult): string {
+	if (!result.apis) {
+		return formatApiDiff(result);
+	}
+
+	// One section per [[apis]] entry
+	return result.apis
+		.map((api) => `\n  ${pc.bold(pc.cyan(api.name))}\n${formatApiDiff(api)}`)
+		.join("\n");
+}
+
+/**
+ * Formats the diff of a single API.
+ */
+function formatApiDiff(result: Omit<DiffResult, "apis">): string {
 	const lines: string[] = [];
 
 	if (result.identical) {
@@ -26,6 +26,7 @@ import {
 import { executeDiff } from "../core/actions/diff.js";
 import { executeValidate } from "../core/actions/validate.js";
 import { executeWatch } from "../core/actions/watch.js";
+import { executeMock } from "../core/actions/mock.js";
 import { executeResolve } from "../core/actions/resolve.js";
 import type { ResolveActionOptions } from "../core/actions/resolve.js";
 import { executeDoctor } from "../core/actions/doctor.js";
@@ -48,6 +49,7 @@ const COMMANDS = [
 	"diff",
 	"validate",
 	"watch",
+	"mock",
 	"resolve",
 	"doctor",
 	"init",
@@ -72,6 +74,7 @@ function printHelp(): void {
     diff         Compare current vs new spec and show changes
     validate     Validate the OpenAPI spec
     watch        Watch for spec changes and auto-regenerate
+    mock         Serve the cached spec from a local mock server
     resolve      Resolve a merge conflict by regenerating generated files
     doctor       Check (and --fix) generated cache files wrongly tracked in git
     init         Initialize chowbea-axios in your project
@@ -83,6 +86,7 @@ function printHelp(): void {
     -h, --help       Show help
         --version    Show version
         --headless   Force headless mode (auto-detected in non-TTY)
+        --profile    Apply a [profiles.<name>] table (or set CHOWBEA_PROFILE)
 
   Run 'chowbea-axios <command> --help' for command-specific flags.
 `);
@@ -95,6 +99,7 @@ function printCommandHelp(command: CommandName): void {
 
   ${"\x1b[1m"}FLAGS${"\x1b[0m"}
     -c, --config <path>    Path to api.config.toml
+    -a, --api <name>       Only fetch one [[apis]] entry
     -e, --endpoint <url>   Override API endpoint URL
     -s, --spec-file <path> Use local spec file instead of fetching
     -f, --force            Force regeneration even if spec hasn't changed
@@ -109,6 +114,7 @@ function printCommandHelp(command: CommandName): void {
 
   ${"\x1b[1m"}FLAGS${"\x1b[0m"}
     -c, --config <path>    Path to api.config.toml
+    -a, --api <name>       Only generate one [[apis]] entry
     -s, --spec-file <path> Use local spec file
     -n, --dry-run          Show what would be generated without writing
         --types-only       Generate only TypeScript types
@@ -121,6 +127,7 @@ function printCommandHelp(command: CommandName): void {
 
   ${"\x1b[1m"}FLAGS${"\x1b[0m"}
     -c, --config <path>  Path to api.config.toml
+    -a, --api <name>     Only show one [[apis]] entry
     -q, --quiet          Suppress non-error output
     -v, --verbose        Show detailed output
 `,
@@ -129,6 +136,7 @@ function printCommandHelp(command: CommandName): void {
 
   ${"\x1b[1m"}FLAGS${"\x1b[0m"}
     -c, --config <path>  Path to api.config.toml
+    -a, --api <name>     Only diff one [[apis]] entry
     -s, --spec <path>    Path to new spec file to compare against
     -q, --quiet          Suppress non-error output
     -v, --verbose        Show detailed output
@@ -138,6 +146,7 @@ function printCommandHelp(command: CommandName): void {
 
   ${"\x1b[1m"}FLAGS${"\x1b[0m"}
     -c, --config <path>  Path to api.config.toml
+    -a, --api <name>     Only validate one [[apis]] entry
     -s, --spec <path>    Path to spec file to validate
         --strict         Treat warnings as errors
     -q, --quiet          Suppress non-error output
@@ -148,9 +157,26 @@ function printCommandHelp(command: CommandName): void {
 
   ${"\x1b[1m"}FLAGS${"\x1b[0m"}
     -c, --config <path>     Path to api.config.toml
+    -a, --api <name>        Only watch one [[apis]] entry
     -i, --interval <ms>     Polling interval in milliseconds
     -q, --quiet             Suppress non-error output
     -d, --debug             Enable debug logging
+`,
+		mock: `
+  ${"\x1b[1m"}chowbea-axios mock${"\x1b[0m"} - Serve the cached spec from a local mock server
+
+  ${"\x1b[1m"}FLAGS${"\x1b[0m"}
+    -c, --config <path>     Path to api.config.toml
+    -a, --api <name>        Only serve one [[apis]] entry
+    -p, --port <number>     Port to listen on (default: 4010, one more per extra API)
+        --host <host>       Host to bind (default: 127.0.0.1)
+        --delay <ms>        Wait before every response
+        --seed <text>       Seed for synthesized payloads
+    -q, --quiet             Suppress non-error output
+    -v, --verbose           Show detailed output
+
+  Send 'Prefer: code=404' to get another documented response,
+  or 'Prefer: example=<name>' to pick a named example.
 `,
 		init: `
   ${"\x1b[1m"}chowbea-axios init${"\x1b[0m"} - Initialize chowbea-axios in your project
@@ -240,6 +266,7 @@ async function handleFetch(args: string[]): Promise<void> {
 		args,
 		options: {
 			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
 			endpoint: { type: "string", short: "e" },
 			"spec-file": { type: "string", short: "s" },
 			force: { type: "boolean", short: "f", default: false },
@@ -260,6 +287,7 @@ async function handleFetch(args: string[]): Promise<void> {
 
 	const options: FetchActionOptions = {
 		configPath: values.config,
+		api: values.api,
 		endpoint: values.endpoint,
 		specFile: values["spec-file"],
 		force: values.force ?? false,
@@ -288,6 +316,7 @@ async function handleGenerate(args: string[]): Promise<void> {
 		args,
 		options: {
 			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
 			"spec-file": { type: "string", short: "s" },
 			"dry-run": { type: "boolean", short: "n", default: false },
 			"types-only": { type: "boolean", default: false },
@@ -306,6 +335,7 @@ async function handleGenerate(args: string[]): Promise<void> {
 
 	const options: GenerateActionOptions = {
 		configPath: values.config,
+		api: values.api,
 		specFile: values["spec-file"],
 		dryRun: values["dry-run"] ?? false,
 		typesOnly: values["types-only"] ?? false,
@@ -395,6 +425,7 @@ async function handleStatus(args: string[]): Promise<void> {
 		args,
 		options: {
 			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
 			quiet: { type: "boolean", short: "q", default: false },
 			verbose: { type: "boolean", short: "v", default: false },
 		},
@@ -408,7 +439,10 @@ async function handleStatus(args: string[]): Promise<void> {
 	const logger = createLogger({ level });
 
 	try {
-		const result = await executeStatus({ configPath: values.config }, logger);
+		const result = await executeStatus(
+			{ configPath: values.config, api: values.api },
+			logger,
+		);
 		console.log(formatStatusOutput(result));
 	} catch (error) {
 		logger.error(formatError(error));
@@ -421,6 +455,7 @@ async function handleDiff(args: string[]): Promise<void> {
 		args,
 		options: {
 			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
 			spec: { type: "string", short: "s" },
 			quiet: { type: "boolean", short: "q", default: false },
 			verbose: { type: "boolean", short: "v", default: false },
@@ -436,7 +471,7 @@ async function handleDiff(args: string[]): Promise<void> {
 
 	try {
 		const result = await executeDiff(
-			{ configPath: values.config, specFile: values.spec },
+			{ configPath: values.config, api: values.api, specFile: values.spec },
 			logger,
 		);
 		console.log(formatDiffSummary(result));
@@ -451,6 +486,7 @@ async function handleValidate(args: string[]): Promise<void> {
 		args,
 		options: {
 			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
 			spec: { type: "string", short: "s" },
 			strict: { type: "boolean", default: false },
 			quiet: { type: "boolean", short: "q", default: false },
@@ -469,6 +505,7 @@ async function handleValidate(args: string[]): Promise<void> {
 		const result = await executeValidate(
 			{
 				configPath: values.config,
+				api: values.api,
 				specFile: values.spec,
 				strict: values.strict,
 			},
@@ -483,11 +520,11 @@ async function handleValidate(args: string[]): Promise<void> {
 		}
 
 		for (const issue of result.errors) {
-			logger.error(`[${issue.path}] ${issue.message}`);
+			logger.error(`${issue.api ? `${issue.api} ` : ""}[${issue.path}] ${issue.message}`);
 		}
 
 		for (const issue of result.warnings) {
-			logger.warn(`[${issue.path}] ${issue.message}`);
+			logger.warn(`${issue.api ? `${issue.api} ` : ""}[${issue.path}] ${issue.message}`);
 		}
 
 		if (!result.valid) {
@@ -504,6 +541,7 @@ async function handleWatch(args: string[]): Promise<void> {
 		args,
 		options: {
 			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
 			interval: { type: "string", short: "i" },
 			quiet: { type: "boolean", short: "q", default: false },
 			debug: { type: "boolean", short: "d", default: false },
@@ -536,6 +574,7 @@ async function handleWatch(args: string[]): Promise<void> {
 		await executeWatch(
 			{
 				configPath: values.config,
+				api: values.api,
 				intervalMs,
 				debug: values.debug,
 				signal: controller.signal,
@@ -550,6 +589,72 @@ async function handleWatch(args: string[]): Promise<void> {
 	}
 }
 
+async function handleMock(args: string[]): Promise<void> {
+	const { values } = parseArgs({
+		args,
+		options: {
+			config: { type: "string", short: "c" },
+			api: { type: "string", short: "a" },
+			port: { type: "string", short: "p" },
+			host: { type: "string" },
+			delay: { type: "string" },
+			seed: { type: "string" },
+			quiet: { type: "boolean", short: "q", default: false },
+			verbose: { type: "boolean", short: "v", default: false },
+		},
+		strict: true,
+	});
+
+	const level = getLogLevel({
+		quiet: values.quiet,
+		verbose: values.verbose,
+	});
+	const logger = createLogger({ level });
+
+	const port = values.port !== undefined ? Number(values.port) : undefined;
+	if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+		console.error(`Invalid port value: "${values.port}". Must be a number from 0 to 65535.`);
+		process.exitCode = 1;
+		return;
+	}
+
+	const delayMs = values.delay !== undefined ? Number(values.delay) : undefined;
+	if (delayMs !== undefined && (!Number.isFinite(delayMs) || delayMs < 0)) {
+		console.error(`Invalid delay value: "${values.delay}". Must be a non-negative number of milliseconds.`);
+		process.exitCode = 1;
+		return;
+	}
+
+	// Setup SIGINT handler for graceful shutdown
+	const controller = new AbortController();
+	const onSigint = () => {
+		controller.abort();
+	};
+	process.on("SIGINT", onSigint);
+	process.on("SIGTERM", onSigint);
+
+	try {
+		await executeMock(
+			{
+				configPath: values.config,
+				api: values.api,
+				port,
+				host: values.host,
+				delayMs,
+				seed: values.seed,
+				signal: controller.signal,
+			},
+			logger,
+		);
+	} catch (error) {
+		logger.error(formatError(error));
+		process.exitCode = 1;
+	} finally {
+		process.off("SIGINT", onSigint);
+		process.off("SIGTERM", onSigint);
+	}
+}
+
 async function handleInit(args: string[]): Promise<void> {
 	const { values } = parseArgs({
 		args,
@@ -817,6 +922,9 @@ export async function runHeadless(
 		case "watch":
 			await handleWatch(commandArgs);
 			break;
+		case "mock":
+			await handleMock(commandArgs);
+			break;
 		case "resolve":
 			await handleResolve(commandArgs);
 			break;
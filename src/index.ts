@@ -1,4 +1,6 @@
 /**
- * chowbea-axios -- CLI entry point.
+ * chowbea-axios -- CLI entry point and `chowbea.config.ts` helpers.
  */
 export { route } from "./router.js";
+export { defineConfig } from "./core/hooks-loader.js";
+export type { GenerationHooks } from "./core/generator.js";
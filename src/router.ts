@@ -1,6 +1,7 @@
 import { spawnSync } from "node:child_process";
 import { fileURLToPath } from "node:url";
 import { resolve, dirname } from "node:path";
+import { PROFILE_ENV_VAR } from "./core/config.js";
 import { commandExists, resolveCommand } from "./core/pm.js";
 import {
 	decideDelegation,
@@ -93,6 +94,33 @@ function maybeDelegateToLocal(argv: string[]): void {
 	process.exit(1);
 }
 
+/**
+ * Pulls the global `--profile <name>` / `--profile=<name>` flag out of the
+ * args and exports it as CHOWBEA_PROFILE, so every loadConfig call — in the
+ * headless runner, the TUI, and a Bun relaunch — applies the same profile.
+ * Returns the remaining args.
+ */
+function extractProfileFlag(args: string[]): string[] {
+	const rest: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--profile") {
+			const value = args[i + 1];
+			if (value === undefined || value.startsWith("-")) {
+				console.error("--profile requires a profile name");
+				process.exit(1);
+			}
+			process.env[PROFILE_ENV_VAR] = value;
+			i++;
+		} else if (arg.startsWith("--profile=")) {
+			process.env[PROFILE_ENV_VAR] = arg.slice("--profile=".length);
+		} else {
+			rest.push(arg);
+		}
+	}
+	return rest;
+}
+
 /**
  * Command router -- dispatches to TUI dashboard or headless CLI.
  */
@@ -100,7 +128,7 @@ export async function route(argv: string[]): Promise<void> {
 	// Local-first: hand off to a project-local install before anything else.
 	maybeDelegateToLocal(argv);
 
-	const args = argv.slice(2); // strip runtime and script path
+	const args = extractProfileFlag(argv.slice(2)); // strip runtime and script path
 	const command = args.find((a) => !a.startsWith("-"));
 	const hasFlag =
 		args.includes("--version") ||
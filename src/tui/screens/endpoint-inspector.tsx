@@ -56,6 +56,10 @@ function getStatusColor(statusCode: string): string {
 /** Format a SchemaDetail into a compact type string (e.g. "string", "object", "integer[]"). */
 function formatSchemaType(schema: SchemaDetail | undefined): string {
 	if (!schema) return "any";
+	if (schema.const !== undefined) return JSON.stringify(schema.const);
+	if (schema.prefixItems) {
+		return `[${schema.prefixItems.map((item) => item.refName ?? item.type).join(", ")}]`;
+	}
 	if (schema.type === "array" && schema.items) {
 		const inner = schema.items.refName ?? schema.items.type ?? "any";
 		return `${inner}[]`;
@@ -11,6 +11,7 @@ import {
 	type FetchActionResult,
 } from "../../core/actions/fetch.js";
 import { loadConfig } from "../../core/config.js";
+import { FetchAbortedError } from "../../core/errors.js";
 import { interpolateEnvVars } from "../../core/fetcher.js";
 import { createTuiLogger, type LogEntry } from "../adapters/tui-logger.js";
 import { formatDuration } from "../../adapters/logger-interface.js";
@@ -29,6 +30,7 @@ export function FetchGenerateScreen() {
 	const forceRef = useRef(false);
 	forceRef.current = force;
 	const runningRef = useRef(false);
+	const abortRef = useRef<AbortController | null>(null);
 
 	const executeFetchWithAuth = useCallback(
 		(auth?: { username: string; password: string }) => {
@@ -38,6 +40,8 @@ export function FetchGenerateScreen() {
 			setError(null);
 
 			const { logger, getLogs } = createTuiLogger("info");
+			const controller = new AbortController();
+			abortRef.current = controller;
 
 			const logInterval = setInterval(() => {
 				setLogs(getLogs());
@@ -50,6 +54,7 @@ export function FetchGenerateScreen() {
 					typesOnly: false,
 					operationsOnly: false,
 					auth,
+					signal: controller.signal,
 				},
 				logger,
 			)
@@ -62,11 +67,16 @@ export function FetchGenerateScreen() {
 				.catch((e: unknown) => {
 					clearInterval(logInterval);
 					setLogs(getLogs());
+					if (e instanceof FetchAbortedError) {
+						setPhase("idle");
+						return;
+					}
 					const msg = e instanceof Error ? e.message : String(e);
 					setError(msg);
 					setPhase("error");
 				})
 				.finally(() => {
+					abortRef.current = null;
 					runningRef.current = false;
 					setUsernameDraft("");
 					setPasswordDraft("");
@@ -153,6 +163,10 @@ export function FetchGenerateScreen() {
 				setResolvedUsername(undefined);
 				runningRef.current = false;
 			}
+		} else if (phase === "running") {
+			if (key.name === "escape") {
+				abortRef.current?.abort();
+			}
 		}
 	});
 
@@ -216,7 +230,10 @@ export function FetchGenerateScreen() {
 			)}
 
 			{phase === "running" && (
-				<text fg={colors.info}>Fetching and generating...</text>
+				<box flexDirection="row">
+					<text fg={colors.info}>{"Fetching and generating... "}</text>
+					<text fg={colors.fgDim}>{"Esc cancel"}</text>
+				</box>
 			)}
 
 			{/* Live log output */}
@@ -151,6 +151,14 @@ export function HomeScreen() {
 						<text fg={colors.fgDim}>{"  config    "}</text>
 						<text fg={colors.fg}>{result.configPath}</text>
 					</box>
+					{(result.profile || result.profiles.length > 0) && (
+						<box flexDirection="row">
+							<text fg={colors.fgDim}>{"  profile   "}</text>
+							<text fg={result.profile ? colors.accentAlt : colors.fgDim}>
+								{result.profile ?? "none"}
+							</text>
+						</box>
+					)}
 				</box>
 
 				{/* Spec Cache card */}
@@ -33,6 +33,20 @@ const INTERNAL_SCRIPTS = new Set([
 	"postshrinkwrap",
 ]);
 
+/**
+ * chowbea-axios commands offered next to the package.json scripts. They
+ * re-run this CLI (same runtime and entry) in headless mode, so they work
+ * without a local install or a package.json script.
+ */
+const BUILTIN_SCRIPTS: ScriptEntry[] = [
+	{ name: "chowbea-axios mock", command: cliCommand("mock") },
+];
+
+function cliCommand(args: string): string {
+	const entry = process.argv[1] ? ` ${JSON.stringify(process.argv[1])}` : "";
+	return `${JSON.stringify(process.execPath)}${entry} ${args} --headless`;
+}
+
 interface ProcessScreenProps {
 	setInputMode?: (v: boolean) => void;
 }
@@ -75,6 +89,7 @@ export function ProcessScreen({ setInputMode }: ProcessScreenProps) {
 			const entries: ScriptEntry[] = Object.entries(pkg.scripts ?? {})
 				.filter(([name]) => !INTERNAL_SCRIPTS.has(name))
 				.map(([name, command]) => ({ name, command }));
+			entries.push(...BUILTIN_SCRIPTS);
 
 			setScripts((prev) => {
 				const prevKey = prev
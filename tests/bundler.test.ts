@@ -0,0 +1,278 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { hasExternalRefs } from "../src/core/bundler.js";
+import { SpecRefError } from "../src/core/errors.js";
+import { fetchOpenApiSpec, loadLocalSpec } from "../src/core/fetcher.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
+
+/** Writes `files` (relative path → content) into a temp dir. */
+async function withSpecFiles<T>(
+	files: Record<string, string>,
+	fn: (dir: string) => Promise<T>,
+): Promise<T> {
+	const dir = join(
+		tmpdir(),
+		`chowbea-bundler-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+	);
+	try {
+		for (const [file, content] of Object.entries(files)) {
+			await mkdir(dirname(join(dir, file)), { recursive: true });
+			await writeFile(join(dir, file), content, "utf8");
+		}
+		return await fn(dir);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+const ROOT = `openapi: 3.0.3
+info: { title: Split, version: 1.0.0 }
+paths:
+  /users:
+    $ref: ./paths/users.yaml
+components:
+  schemas:
+    Team:
+      $ref: ./schemas/team.yaml#/Team
+`;
+
+const USERS_PATH = `get:
+  operationId: listUsers
+  parameters:
+    - $ref: ../common.yaml#/Limit
+  responses:
+    "200":
+      description: ok
+      content:
+        application/json:
+          schema:
+            type: array
+            items:
+              $ref: ../schemas/user.yaml#/User
+    default:
+      $ref: ../common.yaml#/ErrorResponse
+`;
+
+const USER = `User:
+  type: object
+  properties:
+    id: { type: string }
+    team:
+      $ref: ./team.yaml#/Team
+    manager:
+      $ref: "#/User"
+`;
+
+const TEAM = `Team:
+  type: object
+  properties:
+    members:
+      type: array
+      items:
+        $ref: ./user.yaml#/User
+`;
+
+const COMMON = `Limit:
+  name: limit
+  in: query
+  schema: { type: integer }
+ErrorResponse:
+  description: error
+  content:
+    application/json:
+      schema:
+        $ref: "#/Error"
+Error:
+  type: object
+  properties:
+    message: { type: string }
+`;
+
+const SPLIT_SPEC = {
+	"openapi.yaml": ROOT,
+	"paths/users.yaml": USERS_PATH,
+	"schemas/user.yaml": USER,
+	"schemas/team.yaml": TEAM,
+	"common.yaml": COMMON,
+};
+
+type Spec = {
+	paths: Record<string, Record<string, any>>;
+	components: Record<string, Record<string, any>>;
+};
+
+describe("loadLocalSpec — external $ref bundling", () => {
+	it("hoists refs into components and inlines path items", async () => {
+		await withSpecFiles(SPLIT_SPEC, async (dir) => {
+			const { spec, buffer } = await loadLocalSpec(join(dir, "openapi.yaml"));
+			const bundled = spec as Spec;
+
+			expect(hasExternalRefs(bundled)).toBe(false);
+			expect(JSON.parse(buffer.toString("utf8"))).toEqual(bundled);
+
+			const get = bundled.paths["/users"]?.get;
+			expect(get.parameters).toEqual([{ $ref: "#/components/parameters/Limit" }]);
+			expect(
+				get.responses["200"].content["application/json"].schema.items,
+			).toEqual({ $ref: "#/components/schemas/User" });
+			expect(get.responses.default).toEqual({
+				$ref: "#/components/responses/ErrorResponse",
+			});
+
+			expect(Object.keys(bundled.components.schemas).sort()).toEqual([
+				"Error",
+				"Team",
+				"User",
+			]);
+			expect(bundled.components.parameters?.Limit.name).toBe("limit");
+			expect(
+				bundled.components.responses?.ErrorResponse.content["application/json"]
+					.schema,
+			).toEqual({ $ref: "#/components/schemas/Error" });
+		});
+	});
+
+	it("keeps root component names and turns cross-file cycles into local refs", async () => {
+		await withSpecFiles(SPLIT_SPEC, async (dir) => {
+			const { spec } = await loadLocalSpec(join(dir, "openapi.yaml"));
+			const { schemas } = (spec as Spec).components;
+
+			expect(schemas.Team.properties.members.items).toEqual({
+				$ref: "#/components/schemas/User",
+			});
+			expect(schemas.User.properties.team).toEqual({
+				$ref: "#/components/schemas/Team",
+			});
+			expect(schemas.User.properties.manager).toEqual({
+				$ref: "#/components/schemas/User",
+			});
+		});
+	});
+
+	it("suffixes hoisted names that collide", async () => {
+		await withSpecFiles(
+			{
+				"openapi.json": JSON.stringify({
+					openapi: "3.0.3",
+					info: { title: "X", version: "1" },
+					paths: {},
+					components: {
+						schemas: {
+							Error: { type: "string" },
+							Pair: {
+								type: "object",
+								properties: {
+									a: { $ref: "./a.json#/Error" },
+									b: { $ref: "./b.json#/Error" },
+								},
+							},
+						},
+					},
+				}),
+				"a.json": JSON.stringify({ Error: { type: "integer" } }),
+				"b.json": JSON.stringify({ Error: { type: "boolean" } }),
+			},
+			async (dir) => {
+				const { spec } = await loadLocalSpec(join(dir, "openapi.json"));
+				const { schemas } = (spec as Spec).components;
+				expect(schemas.Pair.properties).toEqual({
+					a: { $ref: "#/components/schemas/Error2" },
+					b: { $ref: "#/components/schemas/Error3" },
+				});
+				expect(schemas.Error).toEqual({ type: "string" });
+				expect(schemas.Error3).toEqual({ type: "boolean" });
+			},
+		);
+	});
+
+	it("names the referencing file when a target is missing", async () => {
+		await withSpecFiles(
+			{ ...SPLIT_SPEC, "schemas/team.yaml": TEAM.replace("user.yaml", "nobody.yaml") },
+			async (dir) => {
+				const error = await loadLocalSpec(join(dir, "openapi.yaml")).catch(
+					(e: unknown) => e,
+				);
+				expect(error).toBeInstanceOf(SpecRefError);
+				expect((error as SpecRefError).file).toBe(join(dir, "schemas", "team.yaml"));
+				expect((error as SpecRefError).message).toContain("nobody.yaml");
+			},
+		);
+	});
+
+	it("rejects a JSON pointer that does not resolve", async () => {
+		await withSpecFiles(
+			{ ...SPLIT_SPEC, "schemas/user.yaml": USER.replace("#/User", "#/Missing") },
+			async (dir) => {
+				await expect(loadLocalSpec(join(dir, "openapi.yaml"))).rejects.toThrow(
+					/has nothing at #\/Missing/,
+				);
+			},
+		);
+	});
+
+	it("detects path item refs that inline each other", async () => {
+		await withSpecFiles(
+			{
+				"openapi.yaml": ROOT.replace("./paths/users.yaml", "./paths/a.yaml"),
+				"paths/a.yaml": "$ref: ./b.yaml\n",
+				"paths/b.yaml": "$ref: ./a.yaml\n",
+				"schemas/team.yaml": "Team: { type: object }\n",
+			},
+			async (dir) => {
+				await expect(loadLocalSpec(join(dir, "openapi.yaml"))).rejects.toThrow(
+					/circular reference/,
+				);
+			},
+		);
+	});
+});
+
+describe("fetchOpenApiSpec — external $ref bundling", () => {
+	it("fetches same-origin refs with the spec's headers and refuses file: refs", async () => {
+		const authorization: Record<string, string | undefined> = {};
+		let root = JSON.stringify({
+			openapi: "3.0.3",
+			info: { title: "X", version: "1" },
+			paths: {},
+			components: { schemas: { Pet: { $ref: "./schemas.json#/Pet" } } },
+		});
+		const server = createServer((req, res) => {
+			authorization[req.url ?? ""] = req.headers.authorization;
+			res.end(
+				req.url === "/schemas.json"
+					? JSON.stringify({ Pet: { type: "object" } })
+					: root,
+			);
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		const { port } = server.address() as AddressInfo;
+		const options = {
+			endpoint: `http://127.0.0.1:${port}/openapi.json`,
+			specPath: join(tmpdir(), "chowbea-never-written.json"),
+			cachePath: join(tmpdir(), "chowbea-never-written.cache.json"),
+			logger: SILENT_LOGGER,
+			authHeaders: { Authorization: "Bearer t" },
+			retryConfig: { maxAttempts: 1, baseDelay: 1, backoffMultiplier: 1 },
+		};
+
+		try {
+			const result = await fetchOpenApiSpec(options);
+			const spec = JSON.parse(result.buffer.toString("utf8")) as Spec;
+			expect(spec.components.schemas.Pet).toEqual({ type: "object" });
+			expect(authorization["/schemas.json"]).toBe("Bearer t");
+
+			root = root.replace("./schemas.json", "file:///etc/hosts");
+			await expect(fetchOpenApiSpec(options)).rejects.toThrow(
+				/remote spec cannot reference local files/,
+			);
+		} finally {
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	});
+});
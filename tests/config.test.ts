@@ -9,6 +9,9 @@ import {
 	DEFAULT_INSTANCE_CONFIG,
 	generateConfigTemplate,
 	loadConfig,
+	PROFILE_ENV_VAR,
+	resolveSpecSource,
+	selectApis,
 } from "../src/core/config.js";
 
 describe("DEFAULT_INSTANCE_CONFIG (#28)", () => {
@@ -62,28 +65,28 @@ describe("generateConfigTemplate (#27 — TOML escaping)", () => {
 	});
 });
 
-describe("loadConfig (#39 — no auto-create without opt-in)", () => {
-	async function withTempProject<T>(
-		fn: (root: string, configPath: string) => Promise<T>,
-	): Promise<T> {
-		const root = join(
-			tmpdir(),
-			`chowbea-loadconfig-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-		);
-		await mkdir(root, { recursive: true });
-		await writeFile(
-			join(root, "package.json"),
-			JSON.stringify({ name: "test", version: "0.0.0" }),
-			"utf8",
-		);
-		const configPath = join(root, "api.config.toml");
-		try {
-			return await fn(root, configPath);
-		} finally {
-			await rm(root, { recursive: true, force: true });
-		}
+async function withTempProject<T>(
+	fn: (root: string, configPath: string) => Promise<T>,
+): Promise<T> {
+	const root = join(
+		tmpdir(),
+		`chowbea-loadconfig-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+	);
+	await mkdir(root, { recursive: true });
+	await writeFile(
+		join(root, "package.json"),
+		JSON.stringify({ name: "test", version: "0.0.0" }),
+		"utf8",
+	);
+	const configPath = join(root, "api.config.toml");
+	try {
+		return await fn(root, configPath);
+	} finally {
+		await rm(root, { recursive: true, force: true });
 	}
+}
 
+describe("loadConfig (#39 — no auto-create without opt-in)", () => {
 	it("throws ConfigError when the file is missing and autoCreate is not set", async () => {
 		await withTempProject(async (_root, configPath) => {
 			await expect(loadConfig(configPath)).rejects.toThrow(
@@ -121,3 +124,998 @@ describe("loadConfig (#39 — no auto-create without opt-in)", () => {
 		});
 	});
 });
+
+describe("loadConfig — [[apis]] entries", () => {
+	const MULTI_API = `poll_interval_ms = 5000
+
+[output]
+folder = "src/api"
+
+[instance]
+base_url_env = "API_BASE_URL"
+auth_mode = "none"
+
+[fetch.headers]
+X-Team = "web"
+
+[[apis]]
+name = "users"
+api_endpoint = "https://users.example.com/openapi.json"
+
+[[apis]]
+name = "billing"
+spec_file = "./specs/billing.yaml"
+
+[apis.output]
+folder = "src/billing-api"
+
+[apis.instance]
+base_url_env = "BILLING_BASE_URL"
+`;
+
+	it("resolves each entry, inheriting root [instance]/[fetch] and defaulting the folder", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, MULTI_API, "utf8");
+			const { config } = await loadConfig(configPath);
+
+			// The root spec source is optional once [[apis]] is used.
+			expect(config.api_endpoint).toBeUndefined();
+			expect(config.apis).toHaveLength(2);
+
+			const [users, billing] = config.apis ?? [];
+			expect(users.name).toBe("users");
+			expect(users.api_endpoint).toBe("https://users.example.com/openapi.json");
+			expect(users.output.folder).toBe(join("src/api", "users"));
+			expect(users.instance.auth_mode).toBe("none");
+			expect(users.fetch?.headers).toEqual({ "X-Team": "web" });
+			expect(users.poll_interval_ms).toBe(5000);
+
+			expect(billing.spec_file).toBe("./specs/billing.yaml");
+			expect(billing.output.folder).toBe("src/billing-api");
+			// Entry keys override the root; unspecified keys are inherited.
+			expect(billing.instance.base_url_env).toBe("BILLING_BASE_URL");
+			expect(billing.instance.auth_mode).toBe("none");
+		});
+	});
+
+	it("rejects duplicate API names", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 5000
+[[apis]]
+name = "users"
+api_endpoint = "https://a.example.com/openapi.json"
+[[apis]]
+name = "users"
+api_endpoint = "https://b.example.com/openapi.json"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/duplicate API name "users"/,
+			);
+		});
+	});
+
+	it("rejects an entry without a spec source", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 5000
+[[apis]]
+name = "users"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toMatchObject({
+				field: "apis.users.api_endpoint",
+			});
+		});
+	});
+
+	it("rejects two entries writing to the same output folder", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 5000
+[[apis]]
+name = "a"
+api_endpoint = "https://a.example.com/openapi.json"
+[apis.output]
+folder = "src/api/shared"
+[[apis]]
+name = "b"
+api_endpoint = "https://b.example.com/openapi.json"
+[apis.output]
+folder = "src/api/shared"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/share the output folder/,
+			);
+		});
+	});
+
+	it("round-trips through generateConfigTemplate", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, MULTI_API, "utf8");
+			const { config } = await loadConfig(configPath);
+
+			await writeFile(configPath, generateConfigTemplate(config), "utf8");
+			const reloaded = await loadConfig(configPath);
+			expect(reloaded.config.apis?.map((api) => api.name)).toEqual([
+				"users",
+				"billing",
+			]);
+			expect(reloaded.config.apis?.[1].instance.base_url_env).toBe(
+				"BILLING_BASE_URL",
+			);
+		});
+	});
+
+	it("round-trips per-entry [apis.fetch] overrides", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`${MULTI_API}
+[apis.fetch]
+timeout_ms = 5000
+max_bytes = 1048576
+
+[apis.fetch.auth]
+type = "oauth2-client-credentials"
+token_url = "https://auth.example.com/token"
+client_id = "$BILLING_CLIENT_ID"
+scopes = ["spec:read"]
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+
+			await writeFile(configPath, generateConfigTemplate(config), "utf8");
+			const reloaded = await loadConfig(configPath);
+			expect(reloaded.config.fetch).toEqual({ headers: { "X-Team": "web" } });
+			expect(reloaded.config.apis?.map((api) => api.fetch)).toEqual([
+				{ headers: { "X-Team": "web" } },
+				{
+					headers: { "X-Team": "web" },
+					timeout_ms: 5000,
+					max_bytes: 1048576,
+					auth: {
+						type: "oauth2-client-credentials",
+						token_url: "https://auth.example.com/token",
+						client_id: "$BILLING_CLIENT_ID",
+						client_secret: undefined,
+						scopes: ["spec:read"],
+					},
+				},
+			]);
+		});
+	});
+});
+
+describe("loadConfig — [fetch] limits", () => {
+	const withFetch = (section: string) => `api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[fetch]
+${section}
+`;
+
+	it("reads timeout_ms and max_bytes", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				withFetch("timeout_ms = 5000\nmax_bytes = 1048576"),
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.fetch).toEqual({ timeout_ms: 5000, max_bytes: 1048576 });
+		});
+	});
+
+	it("rejects non-positive or fractional values", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, withFetch("timeout_ms = 0"), "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/fetch\.timeout_ms must be a positive integer/,
+			);
+
+			await writeFile(configPath, withFetch("max_bytes = 1.5"), "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/fetch\.max_bytes must be a positive integer/,
+			);
+		});
+	});
+});
+
+describe("loadConfig — spec_command", () => {
+	const withCommand = (lines: string) => `${lines}
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+`;
+
+	it("accepts spec_command as the only spec source and resolves its cwd", async () => {
+		await withTempProject(async (root, configPath) => {
+			await writeFile(
+				configPath,
+				withCommand('spec_command = "node scripts/dump-spec.js"\nspec_command_cwd = "backend"'),
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.spec_command).toBe("node scripts/dump-spec.js");
+			expect(resolveSpecSource(config, root)).toEqual({
+				type: "command",
+				command: "node scripts/dump-spec.js",
+				cwd: join(root, "backend"),
+			});
+		});
+	});
+
+	it("lets spec_file and --spec-file take priority over spec_command", async () => {
+		await withTempProject(async (root, configPath) => {
+			await writeFile(
+				configPath,
+				withCommand('spec_command = "make spec"\nspec_file = "openapi.yaml"'),
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(resolveSpecSource(config, root)).toEqual({
+				type: "local",
+				path: join(root, "openapi.yaml"),
+			});
+		});
+	});
+
+	it("rejects an empty command and a cwd without a command", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				withCommand('api_endpoint = "https://example.com/openapi.json"\nspec_command = "  "'),
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/spec_command must be a non-empty string/,
+			);
+
+			await writeFile(
+				configPath,
+				withCommand('api_endpoint = "https://example.com/openapi.json"\nspec_command_cwd = "backend"'),
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/spec_command_cwd must be a string and requires spec_command/,
+			);
+		});
+	});
+
+	it("round-trips spec_command through the generated template", () => {
+		const parsed = toml.parse(
+			generateConfigTemplate({
+				...DEFAULT_CONFIG,
+				api_endpoint: undefined,
+				spec_command: 'python -c "print(1)"',
+			}),
+		) as Record<string, unknown>;
+		expect(parsed.spec_command).toBe('python -c "print(1)"');
+		expect(parsed.api_endpoint).toBeUndefined();
+	});
+});
+
+describe("loadConfig — overlays", () => {
+	const OUTPUT = `
+[output]
+folder = "src/api"
+`;
+	const BASE = `api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+${OUTPUT}`;
+
+	it("accepts overlays at the root and on [[apis]] entries", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`overlays = ["overlays/a.yaml", "overlays/b.yaml"]\n${BASE}`,
+				"utf8",
+			);
+			expect((await loadConfig(configPath)).config.overlays).toEqual([
+				"overlays/a.yaml",
+				"overlays/b.yaml",
+			]);
+
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+${OUTPUT}
+[[apis]]
+name = "vendor"
+api_endpoint = "https://vendor.example.com/openapi.json"
+overlays = ["vendor-fixes.yaml"]
+
+[[apis]]
+name = "own"
+spec_file = "openapi.yaml"
+`,
+				"utf8",
+			);
+			const [vendor, own] = (await loadConfig(configPath)).config.apis ?? [];
+			expect(vendor?.overlays).toEqual(["vendor-fixes.yaml"]);
+			expect(own?.overlays).toBeUndefined();
+		});
+	});
+
+	it("rejects non-string entries and root overlays alongside [[apis]]", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, `overlays = "fixes.yaml"\n${BASE}`, "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/overlays must be an array of overlay file paths/,
+			);
+
+			await writeFile(
+				configPath,
+				`overlays = ["fixes.yaml"]
+poll_interval_ms = 10000
+${OUTPUT}
+[[apis]]
+name = "users"
+api_endpoint = "https://example.com/openapi.json"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/overlays must be set on each \[\[apis\]\] entry/,
+			);
+		});
+	});
+
+	it("round-trips overlays through the generated template", () => {
+		const parsed = toml.parse(
+			generateConfigTemplate({ ...DEFAULT_CONFIG, overlays: ["fixes.yaml"] }),
+		) as Record<string, unknown>;
+		expect(parsed.overlays).toEqual(["fixes.yaml"]);
+	});
+});
+
+describe("loadConfig — [filter]", () => {
+	const withFilter = (filter: string, rest = "") => `api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[filter]
+${filter}
+${rest}`;
+
+	it("reads filter lists and inherits them into [[apis]] entries", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				withFilter(
+					'include_tags = ["public"]\nexclude_extensions = ["x-internal"]',
+					`
+[[apis]]
+name = "shop"
+api_endpoint = "https://shop.example.com/openapi.json"
+
+[apis.filter]
+include_tags = ["public", "account"]
+`,
+				),
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.filter).toEqual({
+				include_tags: ["public"],
+				exclude_extensions: ["x-internal"],
+			});
+			expect(config.apis?.[0]?.filter).toEqual({
+				include_tags: ["public", "account"],
+				exclude_extensions: ["x-internal"],
+			});
+		});
+	});
+
+	it("rejects unknown keys and non-array values", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, withFilter('include_tag = ["public"]'), "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(/unknown filter key "include_tag"/);
+
+			await writeFile(configPath, withFilter('exclude_paths = "/internal/**"'), "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/filter.exclude_paths must be an array of non-empty strings/,
+			);
+		});
+	});
+
+	it("round-trips [filter] through the generated template", () => {
+		const filter = { include_tags: ["public"], exclude_paths: ["/internal/**"] };
+		const parsed = toml.parse(generateConfigTemplate({ ...DEFAULT_CONFIG, filter })) as Record<
+			string,
+			unknown
+		>;
+		expect(parsed.filter).toEqual(filter);
+		expect(
+			toml.parse(generateConfigTemplate(DEFAULT_CONFIG)) as Record<string, unknown>,
+		).not.toHaveProperty("filter");
+	});
+});
+
+describe("loadConfig — [validation]", () => {
+	it("is absent by default and inherited by [[apis]] entries", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+
+[validation]
+mode = "warn"
+request_bodies = true
+
+[[apis]]
+name = "users"
+api_endpoint = "https://users.example.com/openapi.json"
+
+[[apis]]
+name = "billing"
+api_endpoint = "https://billing.example.com/openapi.json"
+
+[apis.validation]
+mode = "enforce"
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.apis?.map((api) => api.validation)).toEqual([
+				{ mode: "warn", request_bodies: true },
+				{ mode: "enforce", request_bodies: true },
+			]);
+		});
+	});
+
+	it("rejects an unknown mode", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[validation]
+mode = "strict"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(/validation.mode must be one of/);
+		});
+	});
+
+	it("round-trips through the generated template", () => {
+		const config = { ...DEFAULT_CONFIG, validation: { mode: "enforce" as const } };
+		const parsed = toml.parse(generateConfigTemplate(config)) as Record<string, unknown>;
+		expect(parsed.validation).toEqual({ mode: "enforce" });
+		expect(
+			(toml.parse(generateConfigTemplate(DEFAULT_CONFIG)) as Record<string, unknown>).validation,
+		).toBeUndefined();
+	});
+});
+
+describe("loadConfig — [operations]", () => {
+	it("is inherited by [[apis]] entries, which can override it", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+
+[operations]
+group_by = "tag"
+
+[[apis]]
+name = "users"
+api_endpoint = "https://users.example.com/openapi.json"
+
+[[apis]]
+name = "billing"
+api_endpoint = "https://billing.example.com/openapi.json"
+
+[apis.operations]
+fallback_group = "misc"
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.apis?.map((api) => api.operations)).toEqual([
+				{ group_by: "tag" },
+				{ group_by: "tag", fallback_group: "misc" },
+			]);
+		});
+	});
+
+	it("rejects an unknown grouping and a fallback group that isn't an identifier", async () => {
+		await withTempProject(async (_root, configPath) => {
+			const write = (section: string) =>
+				writeFile(
+					configPath,
+					`api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[operations]
+${section}
+`,
+					"utf8",
+				);
+			await write(`group_by = "path"`);
+			await expect(loadConfig(configPath)).rejects.toThrow(/operations.group_by must be one of "none", "tag"/);
+			await write(`fallback_group = "no tag"`);
+			await expect(loadConfig(configPath)).rejects.toThrow(/operations.fallback_group must be a valid identifier/);
+		});
+	});
+
+	it("accepts naming strategies and templates that name the path", async () => {
+		await withTempProject(async (_root, configPath) => {
+			const write = (naming: string) =>
+				writeFile(
+					configPath,
+					`api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[operations]
+naming = ${JSON.stringify(naming)}
+`,
+					"utf8",
+				);
+			for (const naming of ["skip", "method_path", "{method}_{path}", "{Path}{Method}"]) {
+				await write(naming);
+				expect((await loadConfig(configPath)).config.operations).toEqual({ naming });
+			}
+			for (const naming of ["{method}", "{method}{Route}", "camel"]) {
+				await write(naming);
+				await expect(loadConfig(configPath)).rejects.toThrow(/operations.naming must be/);
+			}
+		});
+	});
+
+	it("round-trips through the generated template", () => {
+		const operations = { group_by: "tag" as const, fallback_group: "misc" };
+		const parsed = toml.parse(generateConfigTemplate({ ...DEFAULT_CONFIG, operations })) as Record<string, unknown>;
+		expect(parsed.operations).toEqual(operations);
+		expect(
+			(toml.parse(generateConfigTemplate(DEFAULT_CONFIG)) as Record<string, unknown>).operations,
+		).toBeUndefined();
+	});
+});
+
+describe("loadConfig — [scalars]", () => {
+	it("is inherited by [[apis]] entries, which can extend it", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+
+[scalars]
+date-time = "Date"
+
+[[apis]]
+name = "users"
+api_endpoint = "https://users.example.com/openapi.json"
+
+[[apis]]
+name = "billing"
+api_endpoint = "https://billing.example.com/openapi.json"
+
+[apis.scalars]
+int64 = "bigint"
+uuid = "Uuid"
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.apis?.map((api) => api.scalars)).toEqual([
+				{ "date-time": "Date" },
+				{ "date-time": "Date", int64: "bigint", uuid: "Uuid" },
+			]);
+		});
+	});
+
+	it("rejects a target that is neither a runtime type nor a brand name", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[scalars]
+uuid = "string"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/scalars.uuid must be "Date", "bigint" or a PascalCase brand name/,
+			);
+		});
+	});
+
+	it("round-trips through the generated template", () => {
+		const scalars = { "date-time": "Date", int64: "bigint" };
+		const parsed = toml.parse(generateConfigTemplate({ ...DEFAULT_CONFIG, scalars })) as Record<string, unknown>;
+		expect(parsed.scalars).toEqual(scalars);
+		expect(
+			(toml.parse(generateConfigTemplate(DEFAULT_CONFIG)) as Record<string, unknown>).scalars,
+		).toBeUndefined();
+	});
+});
+
+describe("loadConfig — [output] emitter flags", () => {
+	it("reads the flags and lets [[apis]] entries inherit or override it", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+zod = true
+tanstack_query = true
+
+[[apis]]
+name = "users"
+api_endpoint = "https://users.example.com/openapi.json"
+
+[[apis]]
+name = "billing"
+api_endpoint = "https://billing.example.com/openapi.json"
+
+[apis.output]
+folder = "src/billing"
+zod = false
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.output.zod).toBe(true);
+			expect(config.apis?.map((api) => api.output)).toEqual([
+				{ folder: join("src/api", "users"), zod: true, tanstack_query: true },
+				{ folder: "src/billing", zod: false, tanstack_query: true },
+			]);
+		});
+	});
+
+	it("rejects a non-boolean value", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+zod = "yes"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(/output.zod must be a boolean/);
+		});
+	});
+
+	it("round-trips through the generated template", () => {
+		const enabled = toml.parse(
+			generateConfigTemplate({
+				...DEFAULT_CONFIG,
+				output: {
+					folder: "src/api",
+					zod: true,
+					tanstack_query: true,
+					msw: true,
+					enum_objects: true,
+					split_by_tag: true,
+				},
+			}),
+		) as { output: Record<string, unknown> };
+		expect(enabled.output).toEqual({
+			folder: "src/api",
+			zod: true,
+			tanstack_query: true,
+			msw: true,
+			enum_objects: true,
+			split_by_tag: true,
+		});
+
+		const disabled = toml.parse(generateConfigTemplate(DEFAULT_CONFIG)) as {
+			output: Record<string, unknown>;
+		};
+		expect(disabled.output).toEqual({ folder: "src/api" });
+	});
+});
+
+describe("loadConfig — [instance] transport", () => {
+	it("reads the transport and lets [[apis]] entries override it", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+
+[instance]
+transport = "fetch"
+
+[[apis]]
+name = "edge"
+api_endpoint = "https://edge.example.com/openapi.json"
+
+[[apis]]
+name = "web"
+api_endpoint = "https://web.example.com/openapi.json"
+
+[apis.instance]
+transport = "axios"
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath);
+			expect(config.instance.transport).toBe("fetch");
+			expect(config.apis?.map((api) => api.instance.transport)).toEqual(["fetch", "axios"]);
+		});
+	});
+
+	it("rejects an unknown transport", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[instance]
+transport = "xhr"
+`,
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toMatchObject({
+				field: "instance.transport",
+			});
+		});
+	});
+
+	it("round-trips through the generated template", () => {
+		const fetch = toml.parse(
+			generateConfigTemplate({
+				...DEFAULT_CONFIG,
+				instance: { ...DEFAULT_INSTANCE_CONFIG, transport: "fetch" },
+			}),
+		) as { instance: Record<string, unknown> };
+		expect(fetch.instance.transport).toBe("fetch");
+
+		const axios = toml.parse(generateConfigTemplate(DEFAULT_CONFIG)) as {
+			instance: Record<string, unknown>;
+		};
+		expect(axios.instance.transport).toBeUndefined();
+	});
+});
+
+describe("loadConfig — [fetch.auth] types", () => {
+	const withAuth = (section: string) => `api_endpoint = "https://example.com/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[fetch.auth]
+${section}
+`;
+
+	it("accepts bearer, header and oauth2-client-credentials", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, withAuth(`type = "bearer"\ntoken = "$TOKEN"`), "utf8");
+			expect((await loadConfig(configPath)).config.fetch?.auth).toEqual({
+				type: "bearer",
+				token: "$TOKEN",
+			});
+
+			await writeFile(
+				configPath,
+				withAuth(`type = "header"\nname = "X-API-Key"\nvalue = "$KEY"`),
+				"utf8",
+			);
+			expect((await loadConfig(configPath)).config.fetch?.auth).toEqual({
+				type: "header",
+				name: "X-API-Key",
+				value: "$KEY",
+			});
+
+			await writeFile(
+				configPath,
+				withAuth(`type = "oauth2-client-credentials"
+token_url = "https://auth.example.com/oauth/token"
+client_id = "$CLIENT_ID"
+client_secret = "$CLIENT_SECRET"
+scopes = ["openapi:read"]`),
+				"utf8",
+			);
+			expect((await loadConfig(configPath)).config.fetch?.auth).toEqual({
+				type: "oauth2-client-credentials",
+				token_url: "https://auth.example.com/oauth/token",
+				client_id: "$CLIENT_ID",
+				client_secret: "$CLIENT_SECRET",
+				scopes: ["openapi:read"],
+			});
+		});
+	});
+
+	it("rejects unknown types and missing required keys", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, withAuth(`type = "digest"`), "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/fetch\.auth\.type must be one of "basic", "bearer", "header", "oauth2-client-credentials"/,
+			);
+
+			await writeFile(configPath, withAuth(`type = "header"\nvalue = "x"`), "utf8");
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/fetch\.auth\.name is required for type "header"/,
+			);
+
+			await writeFile(
+				configPath,
+				withAuth(`type = "oauth2-client-credentials"\nclient_id = "x"`),
+				"utf8",
+			);
+			await expect(loadConfig(configPath)).rejects.toThrow(
+				/fetch\.auth\.token_url is required/,
+			);
+		});
+	});
+});
+
+describe("selectApis", () => {
+	const users = { ...DEFAULT_CONFIG, name: "users" };
+	const billing = { ...DEFAULT_CONFIG, name: "billing" };
+	const multi = { ...DEFAULT_CONFIG, apis: [users, billing] };
+
+	it("returns the root config when no [[apis]] are declared", () => {
+		expect(selectApis(DEFAULT_CONFIG)).toEqual([DEFAULT_CONFIG]);
+	});
+
+	it("returns every entry by default, or the one named by --api", () => {
+		expect(selectApis(multi)).toEqual([users, billing]);
+		expect(selectApis(multi, "billing")).toEqual([billing]);
+	});
+
+	it("throws ConfigError for an unknown name, listing the configured APIs", () => {
+		try {
+			selectApis(multi, "orders");
+			expect.unreachable();
+		} catch (err) {
+			expect((err as Error).message).toMatch(/Unknown API "orders"/);
+			expect((err as { recoveryHint?: string }).recoveryHint).toMatch(
+				/users, billing/,
+			);
+		}
+	});
+
+	it("rejects --api on a single-API config", () => {
+		expect(() => selectApis(DEFAULT_CONFIG, "users")).toThrow(
+			/no \[\[apis\]\] entries/,
+		);
+	});
+});
+
+describe("loadConfig — [profiles]", () => {
+	const PROFILED = `api_endpoint = "http://localhost:3000/openapi.json"
+poll_interval_ms = 10000
+
+[output]
+folder = "src/api"
+
+[instance]
+base_url_env = "API_BASE_URL"
+
+[profiles.staging]
+api_endpoint = "https://staging.example.com/openapi.json"
+
+[profiles.staging.instance]
+timeout = 5000
+
+[profiles.release]
+spec_file = "./specs/frozen.json"
+`;
+
+	it("applies the profile named by the option, merging sections key-by-key", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, PROFILED, "utf8");
+			const { config } = await loadConfig(configPath, { profile: "staging" });
+			expect(config.profile).toBe("staging");
+			expect(config.api_endpoint).toBe("https://staging.example.com/openapi.json");
+			expect(config.instance.timeout).toBe(5000);
+			expect(config.instance.base_url_env).toBe("API_BASE_URL");
+		});
+	});
+
+	it("falls back to CHOWBEA_PROFILE, and an empty option disables profiles", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, PROFILED, "utf8");
+			const previous = process.env[PROFILE_ENV_VAR];
+			process.env[PROFILE_ENV_VAR] = "release";
+			try {
+				const fromEnv = await loadConfig(configPath);
+				expect(fromEnv.config.profile).toBe("release");
+				expect(fromEnv.config.spec_file).toBe("./specs/frozen.json");
+
+				const base = await loadConfig(configPath, { profile: "" });
+				expect(base.config.profile).toBeUndefined();
+				expect(base.config.spec_file).toBeUndefined();
+			} finally {
+				if (previous === undefined) delete process.env[PROFILE_ENV_VAR];
+				else process.env[PROFILE_ENV_VAR] = previous;
+			}
+		});
+	});
+
+	it("throws ConfigError for an unknown profile, listing the declared ones", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, PROFILED, "utf8");
+			await expect(
+				loadConfig(configPath, { profile: "prod" }),
+			).rejects.toMatchObject({
+				code: "CONFIG_ERROR",
+				recoveryHint: "Available profiles: staging, release",
+			});
+		});
+	});
+
+	it("overrides a single [[apis]] entry via [profiles.<name>.apis.<api>]", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(
+				configPath,
+				`poll_interval_ms = 10000
+[[apis]]
+name = "users"
+api_endpoint = "http://localhost:4000/openapi.json"
+[[apis]]
+name = "billing"
+api_endpoint = "http://localhost:5000/openapi.json"
+
+[profiles.staging.apis.users]
+api_endpoint = "https://users.staging.example.com/openapi.json"
+`,
+				"utf8",
+			);
+			const { config } = await loadConfig(configPath, { profile: "staging" });
+			expect(config.apis?.map((api) => api.api_endpoint)).toEqual([
+				"https://users.staging.example.com/openapi.json",
+				"http://localhost:5000/openapi.json",
+			]);
+		});
+	});
+
+	it("keeps [profiles] tables when the base config is saved back", async () => {
+		await withTempProject(async (_root, configPath) => {
+			await writeFile(configPath, PROFILED, "utf8");
+			const { config } = await loadConfig(configPath, { profile: "" });
+			await writeFile(configPath, generateConfigTemplate(config), "utf8");
+
+			const staging = await loadConfig(configPath, { profile: "staging" });
+			expect(staging.config.api_endpoint).toBe(
+				"https://staging.example.com/openapi.json",
+			);
+			expect(staging.config.instance.timeout).toBe(5000);
+		});
+	});
+});
@@ -0,0 +1,161 @@
+import { mkdir, readFile, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { PromptProvider } from "../src/core/actions/init.js";
+import { resolveAuthHeaders } from "../src/core/actions/fetch.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
+
+let dir: string;
+let tokenCachePath: string;
+
+beforeEach(async () => {
+	dir = join(
+		tmpdir(),
+		`chowbea-fetch-auth-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+	);
+	await mkdir(dir, { recursive: true });
+	tokenCachePath = join(dir, "_internal", ".oauth-token.json");
+});
+
+afterEach(async () => {
+	await rm(dir, { recursive: true, force: true });
+	delete process.env.CHOWBEA_TEST_TOKEN;
+	delete process.env.CHOWBEA_TEST_SECRET;
+});
+
+/** Token endpoint that records each form body and issues numbered tokens. */
+async function withTokenServer<T>(
+	expiresIn: number | undefined,
+	fn: (url: string, bodies: URLSearchParams[]) => Promise<T>,
+): Promise<T> {
+	const bodies: URLSearchParams[] = [];
+	const readBody = async (req: IncomingMessage) => {
+		let raw = "";
+		for await (const chunk of req) raw += chunk;
+		return new URLSearchParams(raw);
+	};
+	const server = createServer(async (req, res) => {
+		bodies.push(await readBody(req));
+		res.setHeader("Content-Type", "application/json");
+		res.end(
+			JSON.stringify({
+				access_token: `token-${bodies.length}`,
+				token_type: "Bearer",
+				...(expiresIn !== undefined ? { expires_in: expiresIn } : {}),
+			}),
+		);
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	try {
+		return await fn(`http://127.0.0.1:${port}/oauth/token`, bodies);
+	} finally {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	}
+}
+
+describe("resolveAuthHeaders", () => {
+	it("builds a Bearer header from an env-interpolated token", async () => {
+		process.env.CHOWBEA_TEST_TOKEN = "s3cret";
+		const headers = await resolveAuthHeaders(
+			{ type: "bearer", token: "$CHOWBEA_TEST_TOKEN" },
+			{ logger: SILENT_LOGGER, tokenCachePath },
+		);
+		expect(headers).toEqual({ Authorization: "Bearer s3cret" });
+	});
+
+	it("sends an arbitrary header for type = header", async () => {
+		const headers = await resolveAuthHeaders(
+			{ type: "header", name: "X-API-Key", value: "literal-key" },
+			{ logger: SILENT_LOGGER, tokenCachePath },
+		);
+		expect(headers).toEqual({ "X-API-Key": "literal-key" });
+	});
+
+	it("prompts for a missing secret when a prompt provider is available", async () => {
+		const prompts = {
+			password: async () => "typed-key",
+		} as unknown as PromptProvider;
+		const headers = await resolveAuthHeaders(
+			{ type: "header", name: "X-API-Key", value: "$CHOWBEA_TEST_TOKEN" },
+			{ logger: SILENT_LOGGER, prompts, tokenCachePath },
+		);
+		expect(headers).toEqual({ "X-API-Key": "typed-key" });
+	});
+
+	it("fails fast without prompts when the referenced env var is unset", async () => {
+		await expect(
+			resolveAuthHeaders(
+				{ type: "bearer", token: "$CHOWBEA_TEST_TOKEN" },
+				{ logger: SILENT_LOGGER, tokenCachePath },
+			),
+		).rejects.toThrow(/Bearer token for spec fetching is not set/);
+	});
+});
+
+describe("resolveAuthHeaders — oauth2-client-credentials", () => {
+	it("requests a token with the client credentials and scopes, then caches it", async () => {
+		process.env.CHOWBEA_TEST_SECRET = "client-secret";
+		await withTokenServer(3600, async (url, bodies) => {
+			const auth = {
+				type: "oauth2-client-credentials" as const,
+				token_url: url,
+				client_id: "docs-reader",
+				client_secret: "${CHOWBEA_TEST_SECRET}",
+				scopes: ["openapi:read", "docs"],
+			};
+
+			const first = await resolveAuthHeaders(auth, {
+				logger: SILENT_LOGGER,
+				tokenCachePath,
+			});
+			expect(first).toEqual({ Authorization: "Bearer token-1" });
+			expect(Object.fromEntries(bodies[0])).toEqual({
+				grant_type: "client_credentials",
+				client_id: "docs-reader",
+				client_secret: "client-secret",
+				scope: "openapi:read docs",
+			});
+
+			const cached = JSON.parse(await readFile(tokenCachePath, "utf8"));
+			expect(cached.accessToken).toBe("token-1");
+
+			const second = await resolveAuthHeaders(auth, {
+				logger: SILENT_LOGGER,
+				tokenCachePath,
+			});
+			expect(second).toEqual({ Authorization: "Bearer token-1" });
+			expect(bodies).toHaveLength(1);
+
+			// A different scope set must not reuse the cached token.
+			await resolveAuthHeaders(
+				{ ...auth, scopes: ["openapi:write"] },
+				{ logger: SILENT_LOGGER, tokenCachePath },
+			);
+			expect(bodies).toHaveLength(2);
+		});
+	});
+
+	it("refreshes a token that is about to expire", async () => {
+		await withTokenServer(30, async (url, bodies) => {
+			const auth = {
+				type: "oauth2-client-credentials" as const,
+				token_url: url,
+				client_id: "id",
+				client_secret: "secret",
+			};
+			await resolveAuthHeaders(auth, { logger: SILENT_LOGGER, tokenCachePath });
+			const again = await resolveAuthHeaders(auth, {
+				logger: SILENT_LOGGER,
+				tokenCachePath,
+			});
+			expect(again).toEqual({ Authorization: "Bearer token-2" });
+			expect(bodies).toHaveLength(2);
+		});
+	});
+});
@@ -1,14 +1,27 @@
 import { mkdir, rm, writeFile } from "node:fs/promises";
+import { createServer, type RequestListener } from "node:http";
+import type { AddressInfo } from "node:net";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
 
 import {
+	FetchAbortedError,
+	FetchTimeoutError,
+	SpecCommandError,
+	SpecTooLargeError,
+} from "../src/core/errors.js";
+import {
+	fetchOpenApiSpec,
 	hasLocalSpec,
+	loadCacheMetadata,
 	loadLocalSpec,
 	normalizeSpecBuffer,
 	parseSpecContent,
+	runSpecCommand,
+	saveSpec,
 } from "../src/core/fetcher.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
 
 const SAMPLE_JSON = `{
   "openapi": "3.0.3",
@@ -190,3 +203,350 @@ describe("loadLocalSpec (#23)", () => {
 		});
 	});
 });
+
+describe("fetchOpenApiSpec limits — timeout_ms, max_bytes, AbortSignal", () => {
+	async function withServer<T>(
+		handler: RequestListener,
+		fn: (url: string, requests: () => number) => Promise<T>,
+	): Promise<T> {
+		let count = 0;
+		const server = createServer((req, res) => {
+			count++;
+			handler(req, res);
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		const { port } = server.address() as AddressInfo;
+		try {
+			return await fn(`http://127.0.0.1:${port}/openapi.json`, () => count);
+		} finally {
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	}
+
+	const opts = (endpoint: string) => ({
+		endpoint,
+		specPath: join(tmpdir(), "chowbea-never-written.json"),
+		cachePath: join(tmpdir(), "chowbea-never-written.cache.json"),
+		logger: SILENT_LOGGER,
+		retryConfig: { maxAttempts: 3, baseDelay: 1, backoffMultiplier: 1 },
+	});
+
+	it("streams a spec that fits within the limits", async () => {
+		await withServer(
+			(_req, res) => res.end(SAMPLE_JSON),
+			async (url) => {
+				const result = await fetchOpenApiSpec({ ...opts(url), maxBytes: 1024 });
+				expect(JSON.parse(result.buffer.toString("utf8")).openapi).toBe("3.0.3");
+			},
+		);
+	});
+
+	it("throws FetchTimeoutError when the server never responds", async () => {
+		await withServer(
+			() => {},
+			async (url, requests) => {
+				await expect(
+					fetchOpenApiSpec({ ...opts(url), timeoutMs: 50 }),
+				).rejects.toBeInstanceOf(FetchTimeoutError);
+				expect(requests()).toBe(3);
+			},
+		);
+	});
+
+	it("aborts a chunked body past max_bytes without retrying", async () => {
+		await withServer(
+			(_req, res) => {
+				res.write("x".repeat(600));
+				res.write("x".repeat(600));
+				res.end();
+			},
+			async (url, requests) => {
+				await expect(
+					fetchOpenApiSpec({ ...opts(url), maxBytes: 1000 }),
+				).rejects.toBeInstanceOf(SpecTooLargeError);
+				expect(requests()).toBe(1);
+			},
+		);
+	});
+
+	it("rejects an oversized Content-Length before reading the body", async () => {
+		await withServer(
+			(_req, res) => {
+				res.setHeader("Content-Length", "5000");
+				res.end("x".repeat(5000));
+			},
+			async (url) => {
+				await expect(
+					fetchOpenApiSpec({ ...opts(url), maxBytes: 1000 }),
+				).rejects.toThrow(/1000-byte limit/);
+			},
+		);
+	});
+
+	it("throws FetchAbortedError when the caller's signal aborts mid-fetch", async () => {
+		await withServer(
+			() => {},
+			async (url, requests) => {
+				const controller = new AbortController();
+				setTimeout(() => controller.abort(), 50);
+				await expect(
+					fetchOpenApiSpec({ ...opts(url), signal: controller.signal }),
+				).rejects.toBeInstanceOf(FetchAbortedError);
+				expect(requests()).toBe(1);
+			},
+		);
+	});
+});
+
+describe("fetchOpenApiSpec — conditional requests (ETag / Last-Modified)", () => {
+	const ETAG = '"v1"';
+	const LAST_MODIFIED = "Wed, 21 Oct 2026 07:28:00 GMT";
+
+	async function withCacheDir<T>(
+		fn: (paths: { specPath: string; cachePath: string }) => Promise<T>,
+	): Promise<T> {
+		const dir = join(
+			tmpdir(),
+			`chowbea-conditional-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		);
+		await mkdir(dir, { recursive: true });
+		try {
+			return await fn({
+				specPath: join(dir, "openapi.json"),
+				cachePath: join(dir, ".api-cache.json"),
+			});
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	}
+
+	/** Serves SAMPLE_JSON, honoring validators when `withValidators` is set. */
+	async function withSpecServer<T>(
+		withValidators: () => boolean,
+		fn: (url: string, seen: Array<Record<string, unknown>>) => Promise<T>,
+	): Promise<T> {
+		const seen: Array<Record<string, unknown>> = [];
+		const server = createServer((req, res) => {
+			seen.push({ ...req.headers });
+			if (withValidators()) {
+				if (req.headers["if-none-match"] === ETAG) {
+					res.statusCode = 304;
+					res.end();
+					return;
+				}
+				res.setHeader("ETag", ETAG);
+				res.setHeader("Last-Modified", LAST_MODIFIED);
+			}
+			res.end(SAMPLE_JSON);
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		const { port } = server.address() as AddressInfo;
+		try {
+			return await fn(`http://127.0.0.1:${port}/openapi.json`, seen);
+		} finally {
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	}
+
+	async function fetchAndSave(
+		url: string,
+		paths: { specPath: string; cachePath: string },
+		force = false,
+	) {
+		const result = await fetchOpenApiSpec({
+			endpoint: url,
+			...paths,
+			logger: SILENT_LOGGER,
+			force,
+		});
+		if (result.hasChanged) {
+			await saveSpec({ ...result, endpoint: url, ...paths });
+		}
+		return result;
+	}
+
+	it("stores validators and treats a 304 as unchanged", async () => {
+		await withCacheDir(async (paths) => {
+			await withSpecServer(
+				() => true,
+				async (url, seen) => {
+					const first = await fetchAndSave(url, paths);
+					expect(first.hasChanged).toBe(true);
+					expect(await loadCacheMetadata(paths.cachePath)).toMatchObject({
+						etag: ETAG,
+						lastModified: LAST_MODIFIED,
+					});
+
+					const second = await fetchAndSave(url, paths);
+					expect(seen[1]["if-none-match"]).toBe(ETAG);
+					expect(seen[1]["if-modified-since"]).toBe(LAST_MODIFIED);
+					expect(second).toMatchObject({
+						hasChanged: false,
+						notModified: true,
+						fromCache: false,
+						hash: first.hash,
+					});
+					expect(second.buffer.equals(first.buffer)).toBe(true);
+				},
+			);
+		});
+	});
+
+	it("falls back to hash comparison when the server sends no validators", async () => {
+		await withCacheDir(async (paths) => {
+			await withSpecServer(
+				() => false,
+				async (url, seen) => {
+					await fetchAndSave(url, paths);
+					const second = await fetchAndSave(url, paths);
+					expect(seen[1]["if-none-match"]).toBeUndefined();
+					expect(second.hasChanged).toBe(false);
+					expect(second.notModified).toBeUndefined();
+				},
+			);
+		});
+	});
+
+	it("records validators the server starts sending for an unchanged spec", async () => {
+		await withCacheDir(async (paths) => {
+			let validators = false;
+			await withSpecServer(
+				() => validators,
+				async (url) => {
+					await fetchAndSave(url, paths);
+					validators = true;
+					await fetchAndSave(url, paths);
+					expect((await loadCacheMetadata(paths.cachePath))?.etag).toBe(ETAG);
+				},
+			);
+		});
+	});
+
+	it("drops validators the server stops sending", async () => {
+		await withCacheDir(async (paths) => {
+			let validators = true;
+			await withSpecServer(
+				() => validators,
+				async (url, seen) => {
+					await fetchAndSave(url, paths);
+					validators = false;
+					const second = await fetchAndSave(url, paths);
+					expect(second.etag).toBeUndefined();
+					expect(second.lastModified).toBeUndefined();
+					expect((await loadCacheMetadata(paths.cachePath))?.etag).toBeUndefined();
+
+					await fetchAndSave(url, paths);
+					expect(seen[2]["if-none-match"]).toBeUndefined();
+				},
+			);
+		});
+	});
+
+	it("keeps the cached overlays on a 304", async () => {
+		const overlays = [
+			{
+				path: "fix.yaml",
+				hash: "f1x",
+				document: {
+					overlay: "1.0.0",
+					info: { title: "Fix", version: "1.0.0" },
+					actions: [{ target: "$.info", update: { description: "patched" } }],
+				},
+			},
+		];
+		await withCacheDir(async (paths) => {
+			await withSpecServer(
+				() => true,
+				async (url) => {
+					const fetchSpec = () =>
+						fetchOpenApiSpec({ endpoint: url, ...paths, logger: SILENT_LOGGER, overlays });
+					const first = await fetchSpec();
+					await saveSpec({ ...first, endpoint: url, ...paths });
+
+					const second = await fetchSpec();
+					expect(second.notModified).toBe(true);
+					expect(second.overlays).toEqual(first.overlays);
+					expect(second.overlays).toHaveLength(1);
+				},
+			);
+		});
+	});
+
+	it("skips validators when forced", async () => {
+		await withCacheDir(async (paths) => {
+			await withSpecServer(
+				() => true,
+				async (url, seen) => {
+					await fetchAndSave(url, paths);
+					const forced = await fetchAndSave(url, paths, true);
+					expect(seen[1]["if-none-match"]).toBeUndefined();
+					expect(forced.notModified).toBeUndefined();
+				},
+			);
+		});
+	});
+});
+
+describe("runSpecCommand — spec from a local command", () => {
+	/** Shell command that prints `text` via the running node binary. */
+	const print = (text: string) =>
+		`"${process.execPath}" -e "process.stdout.write(Buffer.from('${Buffer.from(text).toString("base64")}', 'base64'))"`;
+
+	const opts = (command: string) => ({
+		command,
+		cwd: tmpdir(),
+		cachePath: join(tmpdir(), "chowbea-never-written.cache.json"),
+		logger: SILENT_LOGGER,
+	});
+
+	it("captures JSON or YAML stdout as a normalized JSON spec", async () => {
+		for (const sample of [SAMPLE_JSON, SAMPLE_YAML]) {
+			const result = await runSpecCommand(opts(print(sample)));
+			expect(result.hasChanged).toBe(true);
+			expect(JSON.parse(result.buffer.toString("utf8")).openapi).toBe("3.0.3");
+		}
+	});
+
+	it("reports unchanged when the output hash matches the cache", async () => {
+		const dir = join(
+			tmpdir(),
+			`chowbea-spec-command-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		);
+		await mkdir(dir, { recursive: true });
+		try {
+			const cachePath = join(dir, ".api-cache.json");
+			const first = await runSpecCommand({ ...opts(print(SAMPLE_JSON)), cachePath });
+			await saveSpec({
+				buffer: first.buffer,
+				hash: first.hash,
+				specPath: join(dir, "openapi.json"),
+				cachePath,
+				endpoint: "command",
+			});
+			const second = await runSpecCommand({ ...opts(print(SAMPLE_JSON)), cachePath });
+			expect(second.hasChanged).toBe(false);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("throws SpecCommandError on a non-zero exit or unparseable output", async () => {
+		await expect(
+			runSpecCommand(opts(`"${process.execPath}" -e "process.exit(3)"`)),
+		).rejects.toBeInstanceOf(SpecCommandError);
+		await expect(
+			runSpecCommand(opts(print("not a spec"))),
+		).rejects.toBeInstanceOf(SpecCommandError);
+	});
+
+	it("kills a command that exceeds timeoutMs", async () => {
+		await expect(
+			runSpecCommand({
+				...opts(`"${process.execPath}" -e "setTimeout(() => {}, 10000)"`),
+				timeoutMs: 200,
+			}),
+		).rejects.toBeInstanceOf(SpecCommandError);
+	});
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { filterSpec, globToRegExp } from "../src/core/filter.js";
+import { runGenerator } from "./helpers/run-generator.js";
+
+const ok = (ref: string) => ({
+	"200": {
+		description: "ok",
+		content: { "application/json": { schema: { $ref: `#/components/schemas/${ref}` } } },
+	},
+});
+
+const SPEC = {
+	openapi: "3.0.3",
+	info: { title: "Shop", version: "1.0.0" },
+	paths: {
+		"/products": {
+			get: { operationId: "listProducts", tags: ["public"], responses: ok("ProductList") },
+		},
+		"/account": {
+			get: { operationId: "getAccount", tags: ["account"], responses: ok("Account") },
+			delete: {
+				operationId: "deleteAccount",
+				tags: ["account"],
+				"x-internal": true,
+				responses: { "204": { description: "gone" } },
+			},
+		},
+		"/admin/users/{id}": {
+			get: { operationId: "getAdminUser", tags: ["admin"], responses: ok("AdminUser") },
+		},
+		"/health": {
+			"x-internal": true,
+			get: { operationId: "health", responses: { "200": { description: "ok" } } },
+		},
+	},
+	components: {
+		schemas: {
+			Product: { type: "object", properties: { id: { type: "string" } } },
+			ProductList: { type: "array", items: { $ref: "#/components/schemas/Product" } },
+			Account: { type: "object", properties: { id: { type: "string" } } },
+			AdminUser: {
+				type: "object",
+				properties: { account: { $ref: "#/components/schemas/Account" }, role: { type: "string" } },
+			},
+			AuditEntry: { type: "object", properties: { at: { type: "string" } } },
+		},
+	},
+};
+
+type Spec = typeof SPEC & { paths: Record<string, Record<string, unknown>> };
+
+const operationIds = (spec: unknown) =>
+	Object.values((spec as Spec).paths).flatMap((item) =>
+		Object.values(item)
+			.filter((op): op is { operationId: string } => typeof op === "object" && op !== null)
+			.map((op) => op.operationId),
+	);
+
+describe("globToRegExp", () => {
+	it("keeps * within a segment and lets ** span segments", () => {
+		expect(globToRegExp("/admin/*").test("/admin/users")).toBe(true);
+		expect(globToRegExp("/admin/*").test("/admin/users/{id}")).toBe(false);
+		expect(globToRegExp("/admin/**").test("/admin/users/{id}")).toBe(true);
+		expect(globToRegExp("/admin/**").test("/admin")).toBe(true);
+		expect(globToRegExp("get*").test("getAccount")).toBe(true);
+		expect(globToRegExp("/users/{id}").test("/users/{id}")).toBe(true);
+	});
+});
+
+describe("filterSpec", () => {
+	it("returns the spec untouched without a filter", () => {
+		const { spec, summary } = filterSpec(SPEC, undefined);
+		expect(spec).toBe(SPEC);
+		expect(summary).toEqual({ kept: 5, dropped: 0 });
+	});
+
+	it("keeps only included tags and prunes schemas only they used", () => {
+		const { spec, summary } = filterSpec(SPEC, { include_tags: ["public", "account"] });
+		expect(summary).toEqual({ kept: 3, dropped: 2 });
+		expect(operationIds(spec)).toEqual(["listProducts", "getAccount", "deleteAccount"]);
+		expect(Object.keys((spec as Spec).paths)).toEqual(["/products", "/account"]);
+		// AdminUser lost its only operation; AuditEntry was never referenced.
+		expect(Object.keys((spec as Spec).components.schemas)).toEqual([
+			"Product",
+			"ProductList",
+			"Account",
+			"AuditEntry",
+		]);
+	});
+
+	it("requires every include list and applies excludes afterwards", () => {
+		const { spec } = filterSpec(SPEC, {
+			include_paths: ["/account", "/admin/**"],
+			include_operation_ids: ["get*"],
+			exclude_tags: ["admin"],
+		});
+		expect(operationIds(spec)).toEqual(["getAccount"]);
+	});
+
+	it("drops operations and path items flagged by a vendor extension", () => {
+		const { spec, summary } = filterSpec(SPEC, {
+			exclude_extensions: ["x-internal"],
+			exclude_operation_ids: ["*Admin*"],
+		});
+		expect(summary).toEqual({ kept: 2, dropped: 3 });
+		expect(operationIds(spec)).toEqual(["listProducts", "getAccount"]);
+	});
+});
+
+describe("generate — [filter]", () => {
+	it("emits only kept operations into operations, contracts and types", async () => {
+		const { operations, contracts, types, cleanup } = await runGenerator(SPEC, undefined, {
+			filter: { include_tags: ["account"], exclude_extensions: ["x-internal"] },
+		});
+		try {
+			expect(operations).toContain("getAccount");
+			expect(operations).not.toContain("listProducts");
+			expect(operations).not.toContain("deleteAccount");
+			expect(contracts).not.toContain("getAdminUser");
+			expect(types).toContain("getAccount");
+			expect(types).not.toContain("AdminUser");
+			expect(types).not.toContain('"/products"');
+		} finally {
+			await cleanup();
+		}
+	}, 30_000);
+});
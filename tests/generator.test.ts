@@ -1,7 +1,16 @@
-import { readFile } from "node:fs/promises";
+import { readFile, writeFile } from "node:fs/promises";
+import ts from "typescript";
 import { describe, expect, it } from "vitest";
 
-import { runClientFiles, runGenerator } from "./helpers/run-generator.js";
+import type { Logger } from "../src/adapters/logger-interface.js";
+import { generate } from "../src/core/generator.js";
+import {
+	makeTempPaths,
+	readSplitFiles,
+	runClientFiles,
+	runGenerator,
+	SILENT_LOGGER,
+} from "./helpers/run-generator.js";
 
 const FIXTURE_DIR = new URL("./fixtures/", import.meta.url);
 
@@ -44,6 +53,1063 @@ describe("generator: end-to-end snapshots", () => {
 	});
 });
 
+describe("generator: discriminated unions", () => {
+	const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "Payments", version: "1.0.0" },
+		paths: {
+			"/orders": {
+				get: {
+					operationId: "getOrder",
+					responses: { "200": { description: "ok", content: { "application/json": { schema: ref("Order") } } } },
+				},
+			},
+		},
+		components: {
+			schemas: {
+				Payment: {
+					oneOf: [ref("Card"), ref("BankTransfer"), ref("Wallet")],
+					discriminator: {
+						propertyName: "kind",
+						mapping: {
+							card: "#/components/schemas/Card",
+							bank_transfer: "#/components/schemas/BankTransfer",
+							sepa: "#/components/schemas/BankTransfer",
+						},
+					},
+				},
+				PaymentBase: {
+					type: "object",
+					required: ["kind"],
+					properties: { kind: { type: "string" }, amount: { type: "number" } },
+				},
+				Card: { type: "object", properties: { kind: { type: "string" }, last4: { type: "string" } } },
+				BankTransfer: { allOf: [ref("PaymentBase"), { type: "object", properties: { iban: { type: "string" } } }] },
+				Wallet: { type: "object", properties: { kind: { type: "string" } } },
+				Order: { type: "object", properties: { payment: ref("Payment") } },
+			},
+		},
+	};
+
+	it("emits named variants carrying the literal discriminant, and type guards", async () => {
+		const { contracts, cleanup } = await runGenerator(spec);
+		try {
+			// A plain object branch has its property replaced (and required).
+			expect(contracts).toContain('export type PaymentCard = {\n\tkind: "card";\n\tlast4?: string;\n};');
+			// Other branches are intersected with the literal; mapped values share a branch.
+			expect(contracts).toMatch(/export type PaymentBankTransfer = \{[^]*?\} & \{\n\tkind: "bank_transfer" \| "sepa";\n\};/);
+			// Unmapped $ref branches use the schema name.
+			expect(contracts).toContain('export type PaymentWallet = {\n\tkind: "Wallet";\n};');
+			expect(contracts).toContain("export type Payment = PaymentCard | PaymentBankTransfer | PaymentWallet;");
+			expect(contracts).toContain(
+				'export function isPaymentBankTransfer(value: Payment): value is PaymentBankTransfer {\n\treturn value.kind === "bank_transfer" || value.kind === "sepa";\n}',
+			);
+			// Inlined uses narrow too.
+			expect(contracts).toMatch(/payment\?: \{\n\t\tkind: "card";/);
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("keeps openapi-typescript's discriminator patches out of the variants", async () => {
+		// A filter keeps the spec in memory, shared with openapi-typescript.
+		const described = {
+			...spec,
+			components: {
+				schemas: {
+					...spec.components.schemas,
+					Card: {
+						type: "object",
+						properties: { kind: { type: "string", description: "Payment kind" }, last4: { type: "string" } },
+					},
+				},
+			},
+		};
+		const { contracts, cleanup } = await runGenerator(described, undefined, {
+			filter: { exclude_paths: ["/internal/**"] },
+		});
+		try {
+			expect(contracts).not.toContain("openapi-typescript");
+			expect(contracts).toContain('export type PaymentCard = {\n\t/** Payment kind */\n\tkind: "card";\n\tlast4?: string;\n};');
+			expect(contracts).toContain('export type PaymentWallet = {\n\tkind: "Wallet";\n};');
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: OpenAPI 3.1 contracts", () => {
+	it("handles type arrays, const, prefixItems, $defs, conditionals, unevaluatedProperties and examples", async () => {
+		const coord = { $ref: "#/components/schemas/Shape/$defs/Coord" };
+		const spec = {
+			openapi: "3.1.0",
+			info: { title: "Shapes", version: "1.0.0" },
+			paths: {
+				"/shapes": {
+					get: {
+						operationId: "getShape",
+						responses: {
+							"200": {
+								description: "ok",
+								content: { "application/json": { schema: { $ref: "#/components/schemas/Shape" } } },
+							},
+						},
+					},
+				},
+			},
+			components: {
+				schemas: {
+					Shape: {
+						type: "object",
+						required: ["kind", "origin"],
+						properties: {
+							kind: { const: "point" },
+							origin: { prefixItems: [coord, coord], items: { type: "string" } },
+							label: { type: ["string", "null"], description: "Display name", examples: ["home"] },
+							meta: { type: "object", unevaluatedProperties: { type: "boolean" } },
+						},
+						$defs: { Coord: { type: "number" } },
+					},
+					MaybeShape: { type: ["object", "null"], properties: { id: { type: "string" } } },
+					Address: {
+						type: "object",
+						properties: { country: { type: "string" } },
+						if: { properties: { country: { const: "US" } } },
+						then: { required: ["zip"], properties: { zip: { type: "string" } } },
+						else: { required: ["postcode"], properties: { postcode: { type: "string" } } },
+					},
+					Gated: {
+						type: "object",
+						properties: { country: { type: "string" } },
+						if: { properties: { country: { const: "US" } } },
+						then: { required: ["zip"] },
+						else: { required: ["postcode"] },
+					},
+				},
+			},
+		};
+		const { contracts, cleanup } = await runGenerator(spec);
+		try {
+			expect(contracts).toContain('\tkind: "point";');
+			expect(contracts).toContain("\torigin: [number, number, ...string[]];");
+			expect(contracts).toContain('\t/** Display name @example "home" */\n\tlabel?: string | null;');
+			expect(contracts).toContain("\tmeta?: Record<string, boolean>;");
+			expect(contracts).toContain("export type MaybeShape = {\n\tid?: string;\n} | null;");
+			expect(contracts).toMatch(
+				/export type Address = \{\n\tcountry\?: string;\n\} & \(\(\{\n\tcountry\?: "US";\n\} & \{\n\tzip: string;\n\}\) \| \{\n\tpostcode: string;\n\}\);/,
+			);
+			// Branches that only carry `required` have no type to add.
+			expect(contracts).toContain("export type Gated = {\n\tcountry?: string;\n};");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("covers the same keywords in zod schemas and warns about if/then/else", async () => {
+		const spec = {
+			openapi: "3.1.0",
+			info: { title: "Shapes", version: "1.0.0" },
+			paths: {
+				"/shapes": { get: { operationId: "listShapes", responses: { "204": { description: "ok" } } } },
+			},
+			components: {
+				schemas: {
+					Shape: {
+						type: "object",
+						properties: {
+							kind: { const: "point" },
+							origin: { prefixItems: [{ type: "number" }, { type: "number" }], items: { type: "string" } },
+							meta: { type: "object", unevaluatedProperties: { type: "boolean" } },
+						},
+					},
+					Address: {
+						type: "object",
+						properties: { country: { type: "string" } },
+						if: { properties: { country: { const: "US" } } },
+						then: { required: ["zip"] },
+						else: { required: ["postcode"] },
+					},
+				},
+			},
+		};
+		const { paths, cleanup } = await makeTempPaths();
+		try {
+			const warnings: Array<{ context: unknown; message: string }> = [];
+			const logger = {
+				...SILENT_LOGGER,
+				warn: ((context: unknown, message: string) => {
+					warnings.push({ context, message });
+				}) as Logger["warn"],
+			};
+			await writeFile(paths.spec, JSON.stringify(spec), "utf8");
+			await generate({ paths, logger, zod: true });
+			const schemas = await readFile(paths.schemas, "utf8");
+			expect(schemas).toContain('kind: z.literal("point").optional(),');
+			expect(schemas).toContain("origin: z.tuple([z.number(), z.number()]).rest(z.string()).optional(),");
+			expect(schemas).toContain("meta: z.record(z.string(), z.boolean()).optional(),");
+			expect(schemas).toContain("export const Address = z.object({\n\tcountry: z.string().optional(),\n});");
+			expect(warnings).toEqual([
+				{
+					context: { schema: "Address", keywords: "if/then/else" },
+					message: "zod schema can't express these keywords; runtime validation skips them",
+				},
+			]);
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("maps type arrays and $defs pointers in zod schemas", async () => {
+		const spec = {
+			openapi: "3.1.0",
+			info: { title: "People", version: "1.0.0" },
+			paths: {
+				"/people": { get: { operationId: "listPeople", responses: { "204": { description: "ok" } } } },
+			},
+			components: {
+				schemas: {
+					Person: {
+						type: "object",
+						properties: {
+							name: { type: ["string", "null"] },
+							age: { type: ["integer", "string"] },
+							address: {
+								type: ["object", "null"],
+								properties: { street: { $ref: "#/components/schemas/Person/$defs/Street" } },
+							},
+							parent: { $ref: "#/components/schemas/Person" },
+						},
+						$defs: { Street: { type: "string" } },
+					},
+				},
+			},
+		};
+		const { schemas, cleanup } = await runGenerator(spec, undefined, { zod: true });
+		try {
+			expect(schemas).toContain("name: z.string().nullable().optional(),");
+			expect(schemas).toContain("age: z.union([z.number().int(), z.string()]).optional(),");
+			expect(schemas).toContain("address: z.object({\n\t\tstreet: z.string().optional(),\n\t}).nullable().optional(),");
+			// Person is recursive, so its annotation spells out the same shapes.
+			expect(schemas).toContain("\tname?: string | null;\n\tage?: number | string;\n\taddress?: {\n\t\tstreet?: string;\n\t} | null;");
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: readOnly / writeOnly contracts", () => {
+	const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+	const json = (schema: unknown) => ({ "application/json": { schema } });
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "Users", version: "1.0.0" },
+		paths: {
+			"/users": {
+				post: {
+					operationId: "createUser",
+					requestBody: { required: true, content: json(ref("User")) },
+					responses: { "201": { description: "created", content: json(ref("User")) } },
+				},
+			},
+		},
+		components: {
+			schemas: {
+				User: {
+					type: "object",
+					required: ["id", "createdAt", "email", "password"],
+					properties: {
+						id: { type: "string", readOnly: true },
+						createdAt: { type: "string", readOnly: true },
+						email: { type: "string" },
+						password: { type: "string", writeOnly: true },
+						manager: ref("User"),
+					},
+				},
+				Team: { type: "object", properties: { members: { type: "array", items: ref("User") } } },
+				Tag: { type: "object", properties: { label: { type: "string" } } },
+			},
+		},
+	};
+
+	it("emits Input variants and uses them for request bodies", async () => {
+		const { contracts, schemas, cleanup } = await runGenerator(spec, undefined, { zod: true });
+		try {
+			expect(contracts).toContain(
+				"export interface User {\n\tid: string;\n\tcreatedAt: string;\n\temail: string;\n\tmanager?: {",
+			);
+			expect(contracts).toContain("export interface UserInput {\n\temail: string;\n\tpassword: string;\n\tmanager?: {");
+			// Cycles in a request shape name the Input variant.
+			expect(contracts).toContain("\t\tmanager?: UserInput;");
+			// Nested directional schemas make the parent directional too.
+			expect(contracts).toContain("export interface TeamInput {");
+			expect(contracts).not.toContain("TagInput");
+
+			expect(contracts).toContain(
+				"export type CreateUserBody = {\n\temail: string;\n\tpassword: string;\n\tmanager?: UserInput;\n};",
+			);
+			expect(contracts).toContain(
+				"export type CreateUserResponse201 = {\n\tid: string;\n\tcreatedAt: string;\n\temail: string;\n\tmanager?: User;\n};",
+			);
+			// The shared zod schema requires neither.
+			expect(schemas).toContain("\tid: z.string().optional(),");
+			expect(schemas).toContain("\tpassword: z.string().optional(),");
+			expect(schemas).toContain("\temail: z.string(),");
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: enum objects (output.enum_objects)", () => {
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "Orders", version: "1.0.0" },
+		paths: {
+			"/orders": {
+				get: {
+					operationId: "listOrders",
+					parameters: [{ name: "sort", in: "query", schema: { type: "string", enum: ["asc", "desc"] } }],
+					responses: {
+						"200": {
+							description: "ok",
+							content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } },
+						},
+					},
+				},
+			},
+		},
+		components: {
+			schemas: {
+				OrderStatus: {
+					type: "string",
+					enum: ["active", "in_progress"],
+					"x-enum-varnames": ["Active", "Pending"],
+					"x-enum-descriptions": ["Being placed"],
+				},
+				Order: {
+					type: "object",
+					required: ["status"],
+					properties: {
+						status: { $ref: "#/components/schemas/OrderStatus" },
+						channel: { type: "string", enum: ["web", "in-store"] },
+						sort: { type: "string", enum: ["asc", "desc"] },
+						kind: { type: "string", enum: ["order"] },
+					},
+				},
+			},
+		},
+	};
+
+	it("emits const objects for named and inline enums, sharing identical ones", async () => {
+		const { contracts, cleanup } = await runGenerator(spec, undefined, { enumObjects: true });
+		try {
+			expect(contracts).toContain(
+				'export const OrderStatus = {\n\t/** Being placed */\n\tActive: "active",\n\tPending: "in_progress",\n} as const;\nexport type OrderStatus = typeof OrderStatus[keyof typeof OrderStatus];',
+			);
+			expect(contracts).toContain('/** Enum: Order.channel */\nexport const OrderChannel = {\n\tWeb: "web",\n\tInStore: "in-store",\n} as const;');
+			expect(contracts).toContain("\tstatus: OrderStatus;\n\tchannel?: OrderChannel;\n\tsort?: OrderSort;");
+			// Single-value enums stay literal.
+			expect(contracts).toContain('\tkind?: "order";');
+			// The identical query parameter enum reuses Order.sort's object.
+			expect(contracts).toContain("export type ListOrdersQueryParams = {\n\tsort?: OrderSort;\n};");
+			expect(contracts.match(/export const OrderSort =/g)).toHaveLength(1);
+		} finally {
+			await cleanup();
+		}
+
+		const plain = await runGenerator(spec);
+		try {
+			expect(plain.contracts).not.toContain("export const");
+			expect(plain.contracts).toContain('\tchannel?: "web" | "in-store";');
+		} finally {
+			await plain.cleanup();
+		}
+	});
+});
+
+describe("generator: scalars ([scalars])", () => {
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "Orders", version: "1.0.0" },
+		paths: {
+			"/orders/{id}": {
+				get: {
+					operationId: "getOrder",
+					parameters: [
+						{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+						{ name: "since", in: "query", schema: { type: "string", format: "date-time" } },
+					],
+					responses: {
+						"200": {
+							description: "ok",
+							content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } },
+						},
+					},
+				},
+			},
+			"/ping": {
+				get: {
+					operationId: "ping",
+					responses: { "200": { description: "ok", content: { "application/json": { schema: { type: "string" } } } } },
+				},
+			},
+		},
+		components: {
+			schemas: {
+				Order: {
+					type: "object",
+					required: ["id", "createdAt", "total"],
+					properties: {
+						id: { type: "string", format: "uuid" },
+						createdAt: { type: "string", format: "date-time" },
+						total: { type: "integer", format: "int64" },
+						parent: { $ref: "#/components/schemas/Order" },
+					},
+				},
+			},
+		},
+	};
+	const scalars = { "date-time": "Date", int64: "bigint", uuid: "Uuid" };
+
+	it("types mapped formats in api.types.ts and api.contracts.ts", async () => {
+		const { types, contracts, cleanup } = await runGenerator(spec, undefined, { scalars });
+		try {
+			expect(types).toContain("createdAt: Date;");
+			expect(types).toContain("total: bigint;");
+			expect(types).toMatch(/id: string & \{\s+readonly __brand: "Uuid";\s+\};/);
+			expect(contracts).toContain('/** Scalar: uuid */\nexport type Uuid = string & { readonly __brand: "Uuid" };');
+			expect(contracts).toContain("\tid: Uuid;\n\tcreatedAt: Date;\n\ttotal: bigint;");
+			expect(contracts).toContain("export type GetOrderQueryParams = {\n\tsince?: Date;\n};");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("wires revivers and serializers into operations that carry Date or bigint values", async () => {
+		const { operations, cleanup } = await runGenerator(spec, undefined, { scalars });
+		try {
+			expect(operations).toContain(
+				'getOrder: {"response":{"properties":{"createdAt":"date-time","total":"int64","parent":{"ref":"Order"}}},"params":{"properties":{"since":"date-time"}}},',
+			);
+			expect(operations).toContain('Order: {"properties":{"createdAt":"date-time","total":"int64","parent":{"ref":"Order"}}},');
+			expect(operations).toContain(
+				'=> revived(apiClient.get("/orders/{id}", pathParams, serializedParams(config, operationScalars.getOrder.params)), operationScalars.getOrder.response),',
+			);
+			// Brands are type-only, and operations without scalars are untouched.
+			expect(operations).not.toContain('"uuid"');
+			expect(operations).toContain('=> apiClient.get("/ping", config),');
+		} finally {
+			await cleanup();
+		}
+
+		const branded = await runGenerator(spec, undefined, { scalars: { uuid: "Uuid" } });
+		try {
+			expect(branded.operations).not.toContain("-- Scalars --");
+		} finally {
+			await branded.cleanup();
+		}
+	});
+
+	it("revives bigints only from exact wire values", async () => {
+		const { operations, cleanup } = await runGenerator(spec, undefined, { scalars });
+		try {
+			const codec = operations.match(/^ {2}int64: (\{[\s\S]+?\n {2}\}),$/m)?.[1];
+			expect(codec).toBeDefined();
+			const { revive, serialize } = new Function(
+				ts.transpile(`return ${codec};`, { target: ts.ScriptTarget.ES2022 }),
+			)() as { revive: (value: unknown) => unknown; serialize: (value: unknown) => unknown };
+
+			expect(revive("9007199254740993")).toBe(9007199254740993n);
+			expect(revive(42)).toBe(42n);
+			// Past 2^53 JSON.parse has already rounded the number; reviving
+			// it would hand out a wrong bigint.
+			const rounded = JSON.parse("9007199254740993") as number;
+			expect(revive(rounded)).toBe(rounded);
+			expect(revive("12.5")).toBe("12.5");
+			expect(serialize(9007199254740993n)).toBe("9007199254740993");
+			expect(serialize(42n)).toBe(42);
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("keys queries and types mock payloads in their JSON form", async () => {
+		const { queries, mocks, cleanup } = await runGenerator(spec, undefined, {
+			scalars,
+			tanstackQuery: true,
+			msw: true,
+		});
+		try {
+			expect(queries).toContain('(["api", operationId, keyed(variables)] as const)');
+			const helper = queries?.match(/^function keyed[\s\S]+?\n\}$/m)?.[0];
+			expect(helper).toBeDefined();
+			const keyed = new Function(ts.transpile(`${helper}\nreturn keyed;`, { target: ts.ScriptTarget.ES2022 }))() as (
+				value: unknown,
+			) => unknown;
+			const since = new Date("2024-01-01T00:00:00Z");
+			const key = keyed({ params: { total: 9007199254740993n, ids: [1n], since } });
+			expect(key).toEqual({ params: { total: "9007199254740993", ids: ["1"], since } });
+			expect(() => JSON.stringify(key)).not.toThrow();
+
+			expect(mocks).toContain("type Wire<T> = T extends Date ? string : T extends bigint ? number | string");
+			expect(mocks).toContain("  getOrder: payload<Wire<GetOrderResponse>>(");
+			expect(mocks).toContain("  getOrder: (body?: Wire<GetOrderResponse>, init?: ResponseInit): HttpHandler =>");
+			// Wire<T> is T itself for contracts with nothing to convert.
+			expect(mocks).toContain("  ping: payload<Wire<PingResponse>>(");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("accepts the number or digit-string wire form of bigints in zod schemas", async () => {
+		const { schemas, contracts, cleanup } = await runGenerator(spec, undefined, { scalars, zod: true });
+		try {
+			expect(schemas).toContain("total: z.union([z.number().int(), z.string().regex(/^-?\\d+$/)]),");
+			// Order is recursive, so its annotation mirrors the wire form too.
+			expect(schemas).toContain("\ttotal: number | string;");
+			expect(contracts).toContain("\ttotal: bigint;");
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: tag namespaces ([operations] group_by)", () => {
+	const ok = { "200": { description: "ok", content: { "application/json": { schema: { type: "string" } } } } };
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "Shop", version: "1.0.0" },
+		paths: {
+			"/users/current": { get: { operationId: "getById", tags: ["users"], responses: ok } },
+			"/orders/latest": { get: { operationId: "getById", tags: ["Orders"], responses: ok } },
+			"/users": { post: { operationId: "createUser", tags: ["users"], responses: ok } },
+			"/accounts": { get: { operationId: "listAccounts", tags: ["User Accounts"], responses: ok } },
+			"/health": { get: { operationId: "health", responses: ok } },
+		},
+	};
+	const grouped = { operationsConfig: { group_by: "tag" as const } };
+
+	it("groups operations by first tag and keeps flat aliases", async () => {
+		const { operations, queries, cleanup } = await runGenerator(spec, undefined, {
+			...grouped,
+			tanstackQuery: true,
+		});
+		try {
+			expect(operations).toContain("export const createOperations = (apiClient: ApiClient) => {\n  const namespaces = {");
+			expect(operations).toMatch(/ {4}default: \{\n[^]*? {6}health: \(/);
+			expect(operations).toMatch(/ {4}userAccounts: \{\n[^]*? {6}listAccounts: \(/);
+			expect(operations).toContain(
+				"    ...namespaces,\n    // Flat aliases: api.op.getUser is api.op.users.getUser\n    createUser: namespaces.users.createUser,",
+			);
+			expect(operations).toContain("    health: namespaces.default.health,");
+			expect(queries).toContain("unwrap(api.op.userAccounts.listAccounts(");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("qualifies an operationId repeated across namespaces", async () => {
+		const { operations, contracts, types, manifest, cleanup } = await runGenerator(spec, undefined, grouped);
+		try {
+			expect(operations).toContain(
+				'      getById: (config?: AxiosRequestConfig): Promise<Result<UsersGetByIdResponse>> => apiClient.get("/users/current", config),',
+			);
+			expect(operations).toContain("Promise<Result<OrdersGetByIdResponse>>");
+			expect(contracts).toContain("export type OrdersGetByIdResponse = OrdersGetByIdResponse200;");
+			expect(types).toContain('get: operations["usersGetById"];');
+			// Repeated ids have no flat alias.
+			expect(operations).not.toMatch(/^ {4}(getById|usersGetById):/m);
+			expect(JSON.parse(manifest as string).qualifiedOperationIds).toEqual({
+				"GET /users/current": "usersGetById",
+				"GET /orders/latest": "ordersGetById",
+			});
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("still rejects collisions within one namespace", async () => {
+		const colliding = {
+			...spec,
+			paths: {
+				...spec.paths,
+				"/users/me": { get: { operationId: "get-by-id", tags: ["users"], responses: ok } },
+				"/users/all": { get: { operationId: "get_by_id", tags: ["users"], responses: ok } },
+			},
+		};
+		await expect(runGenerator(colliding, undefined, grouped)).rejects.toThrow(
+			/OperationId collision detected in namespace "users"/,
+		);
+	});
+
+	it("uses fallback_group for untagged operations", async () => {
+		const { operations, cleanup } = await runGenerator(spec, undefined, {
+			operationsConfig: { group_by: "tag", fallback_group: "misc" },
+		});
+		try {
+			expect(operations).toContain("    health: namespaces.misc.health,");
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: operations without an operationId ([operations] naming)", () => {
+	const ok = { "200": { description: "ok", content: { "application/json": { schema: { type: "string" } } } } };
+	const userId = { name: "user_id", in: "path", required: true, schema: { type: "string" } };
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "FastAPI", version: "1.0.0" },
+		paths: {
+			"/users": { get: { responses: ok } },
+			"/users/{user_id}": {
+				get: { parameters: [userId], responses: ok },
+				delete: { parameters: [userId], responses: ok },
+			},
+			"/v1/users": { get: { operationId: "getUsers", responses: ok } },
+		},
+	};
+
+	it("skips them by default", async () => {
+		const { operations, manifest, cleanup } = await runGenerator(spec);
+		try {
+			expect(operations).toContain("  getUsers: (");
+			expect(operations).not.toContain("getUsersByUserId");
+			expect(manifest).toBeUndefined();
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("names them from method and path, suffixing names the spec already uses", async () => {
+		const { operations, contracts, types, manifest, cleanup } = await runGenerator(spec, undefined, {
+			operationsConfig: { naming: "method_path" },
+		});
+		try {
+			expect(operations).toContain('  getUsers2: (config?: AxiosRequestConfig): Promise<Result<GetUsers2Response>> => apiClient.get("/users", config),');
+			expect(operations).toContain("  getUsersByUserId: (pathParams: GetUsersByUserIdPathParams");
+			expect(operations).toContain("  deleteUsersByUserId: (pathParams: DeleteUsersByUserIdPathParams");
+			expect(operations).toContain('  getUsers: (config?: AxiosRequestConfig): Promise<Result<GetUsersResponse>> => apiClient.get("/v1/users", config),');
+			expect(contracts).toContain("export type GetUsersByUserIdPathParams = {");
+			expect(types).toContain('get: operations["getUsersByUserId"];');
+			expect(JSON.parse(manifest as string).synthesizedOperationIds).toEqual({
+				"GET /users": "getUsers2",
+				"GET /users/{user_id}": "getUsersByUserId",
+				"DELETE /users/{user_id}": "deleteUsersByUserId",
+			});
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("fills in a naming template", async () => {
+		const { operations, cleanup } = await runGenerator(spec, undefined, {
+			operationsConfig: { naming: "{path}{Method}" },
+		});
+		try {
+			expect(operations).toContain("  usersGet: (");
+			expect(operations).toContain("  usersByUserIdDelete: (");
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: split_by_tag output ([output] split_by_tag)", () => {
+	const user = { $ref: "#/components/schemas/User" };
+	const id = { name: "id", in: "path", required: true, schema: { type: "string" } };
+	const spec = {
+		openapi: "3.0.3",
+		info: { title: "Shop", version: "1.0.0" },
+		paths: {
+			"/users/{id}": {
+				get: {
+					operationId: "getUser",
+					tags: ["User Accounts"],
+					parameters: [id],
+					responses: { "200": { description: "ok", content: { "application/json": { schema: user } } } },
+				},
+			},
+			"/orders": {
+				post: {
+					operationId: "createOrder",
+					tags: ["orders"],
+					requestBody: { content: { "application/json": { schema: { type: "object", properties: { note: { type: "string" } } } } } },
+					responses: { "201": { description: "ok" } },
+				},
+			},
+			"/health": { get: { operationId: "health", responses: { "204": { description: "ok" } } } },
+		},
+		components: {
+			schemas: {
+				User: {
+					type: "object",
+					required: ["id"],
+					properties: { id: { type: "string" }, status: { $ref: "#/components/schemas/Status" } },
+				},
+				Status: { type: "string", enum: ["active", "banned"] },
+			},
+		},
+	};
+
+	it("emits standalone functions and contracts per tag behind a barrel", async () => {
+		const { operations, contracts, split, cleanup } = await runGenerator(spec, undefined, {
+			splitByTag: true,
+			enumObjects: true,
+		});
+		try {
+			const files = split as Record<string, string>;
+			expect(Object.keys(files).sort()).toEqual([
+				"api.request.ts",
+				"default/operations.ts",
+				"index.ts",
+				"orders/contracts.ts",
+				"orders/operations.ts",
+				"userAccounts/contracts.ts",
+				"userAccounts/operations.ts",
+			]);
+			expect(files["userAccounts/operations.ts"]).toContain(
+				'export const getUser = (pathParams: GetUserPathParams, config?: AxiosRequestConfig): Promise<Result<GetUserResponse>> => request("get", "/users/{id}", { pathParams, config })',
+			);
+			expect(files["userAccounts/operations.ts"]).toContain('import { request } from "../api.request"');
+			expect(files["orders/operations.ts"]).toContain('request("post", "/orders", { data, config })');
+			expect(files["default/operations.ts"]).not.toContain("./contracts");
+			expect(files["api.request.ts"]).toContain('import { axiosInstance } from "../api.instance"');
+			expect(files["api.request.ts"]).not.toContain('from "../api.client"');
+			expect(files["index.ts"]).toContain(
+				'export * from "./default/operations"\nexport * from "./orders/operations"\nexport * from "./userAccounts/operations"\n',
+			);
+
+			// Shared models stay in api.contracts.ts, which re-exports each tag's contracts.
+			expect(files["userAccounts/contracts.ts"]).toContain('import type { Status } from "../api.contracts";');
+			expect(files["userAccounts/contracts.ts"]).toContain("export type GetUserPathParams = {");
+			expect(contracts).toContain("export const Status = {");
+			expect(contracts).not.toContain("export type GetUserPathParams");
+			expect(contracts).toContain('export * from "./orders/contracts";\nexport * from "./userAccounts/contracts";');
+
+			// api.op is unchanged.
+			expect(operations).toContain("export const createOperations = (apiClient: ApiClient) => ({");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("inlines [scalars] plans into the standalone functions", async () => {
+		const dated = {
+			...spec,
+			components: {
+				schemas: { User: { type: "object", properties: { createdAt: { type: "string", format: "date-time" } } } },
+			},
+		};
+		const { split, cleanup } = await runGenerator(dated, undefined, {
+			splitByTag: true,
+			scalars: { "date-time": "Date" },
+		});
+		try {
+			const files = split as Record<string, string>;
+			expect(files["userAccounts/operations.ts"]).toContain(
+				'=> revived(request("get", "/users/{id}", { pathParams, config }), {"properties":{"createdAt":"date-time"}})',
+			);
+			expect(files["api.request.ts"]).toContain("export async function revived<T>(");
+			expect(files["api.request.ts"]).not.toContain("operationScalars");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("types the operations with FetchRequestConfig under transport = \"fetch\"", async () => {
+		const { operations, split, cleanup } = await runGenerator(spec, undefined, {
+			splitByTag: true,
+			transport: "fetch",
+		});
+		try {
+			const files = split as Record<string, string>;
+			expect(operations).toContain('import type { FetchRequestConfig } from "../api.instance"');
+			expect(operations).toContain('type RequestConfig<Q> = Omit<FetchRequestConfig, "params"> & {');
+			expect(files["userAccounts/operations.ts"]).toContain('import type { FetchRequestConfig } from "../../api.instance"');
+			expect(files["api.request.ts"]).toContain('import { fetchInstance } from "../api.instance"');
+			expect(files["api.request.ts"]).toContain("fetchInstance.request<T>({");
+			for (const content of [operations, ...Object.values(files)]) {
+				expect(content).not.toContain('from "axios"');
+			}
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("removes the folders of tags that are gone, and everything once turned off", async () => {
+		const { paths, cleanup } = await makeTempPaths();
+		try {
+			const run = async (input: object, splitByTag: boolean) => {
+				await writeFile(paths.spec, JSON.stringify(input), "utf8");
+				await generate({ paths, logger: SILENT_LOGGER, splitByTag });
+				return readSplitFiles(paths.generated);
+			};
+			await run(spec, true);
+			const { "/orders": _orders, ...remaining } = spec.paths;
+			const files = await run({ ...spec, paths: remaining }, true);
+			expect(Object.keys(files).filter((file) => file.startsWith("orders/"))).toEqual([]);
+			expect(await run(spec, false)).toEqual({});
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: zod schemas (output.zod)", () => {
+	it("edge-cases — api.schemas.ts snapshot", async () => {
+		const spec = await loadFixture("edge-cases.json");
+		const { schemas, cleanup } = await runGenerator(spec, undefined, { zod: true });
+		try {
+			expect(schemas).toMatchSnapshot("api.schemas.ts");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("uses contracts names, z.lazy for cycles and honours nullable, allOf and oneOf", async () => {
+		const spec = {
+			openapi: "3.0.3",
+			info: { title: "Zod", version: "1.0.0" },
+			paths: {
+				"/nodes": {
+					get: {
+						operationId: "listNodes",
+						parameters: [
+							{ name: "limit", in: "query", schema: { type: "integer" } },
+							{ name: "kind", in: "query", required: true, schema: { type: "string", enum: ["a", "b"] } },
+						],
+						responses: {
+							"200": {
+								description: "ok",
+								content: {
+									"application/json": {
+										schema: { type: "array", items: { $ref: "#/components/schemas/Node" } },
+									},
+								},
+							},
+						},
+					},
+				},
+			},
+			components: {
+				schemas: {
+					Node: {
+						type: "object",
+						required: ["id"],
+						properties: {
+							id: { type: "string" },
+							parent: { allOf: [{ $ref: "#/components/schemas/Node" }], nullable: true },
+							value: { oneOf: [{ type: "string" }, { type: "number" }] },
+							note: { type: "string", nullable: true },
+						},
+					},
+					Labelled: {
+						allOf: [
+							{ $ref: "#/components/schemas/Tag" },
+							{ type: "object", properties: { label: { type: "string" } } },
+						],
+					},
+					Tag: { type: "object", properties: { name: { type: "string" } } },
+				},
+			},
+		};
+		const { schemas, cleanup } = await runGenerator(spec, undefined, { zod: true });
+		try {
+			expect(schemas).toContain('import { z } from "zod";');
+			expect(schemas).toContain(
+				"export type Node = {\n\tid: string;\n\tparent?: Node | null;\n\tvalue?: string | number;\n\tnote?: string | null;\n};",
+			);
+			expect(schemas).toContain("export const Node: z.ZodType<Node> = z.object({");
+			expect(schemas).toContain("parent: z.lazy(() => Node).nullable().optional(),");
+			expect(schemas).toContain("value: z.union([z.string(), z.number()]).optional(),");
+			expect(schemas).toContain("note: z.string().nullable().optional(),");
+			// Components are referenced by name, declared before their dependents.
+			expect(schemas).toMatch(/export const Tag = [^]*export const Labelled = Tag\.and\(z\.object\(/);
+			expect(schemas).not.toContain("export const Tag: z.ZodType");
+			expect(schemas).toContain("export const ListNodesResponse = z.array(Node);");
+			expect(schemas).toContain('kind: z.enum(["a", "b"]),');
+			expect(schemas).toContain("limit: z.number().int().optional(),");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("is not written unless enabled", async () => {
+		const spec = await loadFixture("petstore.json");
+		const { schemas, cleanup } = await runGenerator(spec);
+		try {
+			expect(schemas).toBeUndefined();
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: TanStack Query options (output.tanstack_query)", () => {
+	it("petstore — api.queries.ts snapshot", async () => {
+		const spec = await loadFixture("petstore.json");
+		const { queries, cleanup } = await runGenerator(spec, undefined, { tanstackQuery: true });
+		try {
+			expect(queries).toMatchSnapshot("api.queries.ts");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("splits GET into queries, the rest into mutations, and quotes non-identifier ids", async () => {
+		const spec = {
+			openapi: "3.0.3",
+			info: { title: "Ping", version: "1.0.0" },
+			paths: {
+				"/status": {
+					get: { operationId: "get-status", responses: { "204": { description: "ok" } } },
+					put: { operationId: "setStatus", responses: { "204": { description: "ok" } } },
+				},
+			},
+		};
+		const { queries, cleanup } = await runGenerator(spec, undefined, { tanstackQuery: true });
+		try {
+			expect(queries).toContain('"get-status": () => operationKey("get-status"),');
+			expect(queries).toContain('queryKey: apiQueryKeys["get-status"](),');
+			expect(queries).toContain('queryFn: ({ signal }) => unwrap(api.op["get-status"]({ ...config, signal })),');
+			expect(queries).toContain("mutationFn: () => unwrap(api.op.setStatus(config)),");
+			// No operation needs a contract, so nothing is imported from api.contracts.
+			expect(queries).not.toContain("./api.contracts");
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: MSW handlers (output.msw)", () => {
+	it("petstore — api.mocks.ts snapshot", async () => {
+		const spec = await loadFixture("petstore.json");
+		const { mocks, cleanup } = await runGenerator(spec, undefined, { msw: true });
+		try {
+			expect(mocks).toMatchSnapshot("api.mocks.ts");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("registers static paths before parameterized ones", async () => {
+		const ok = { "200": { description: "ok", content: { "application/json": { schema: { type: "string" } } } } };
+		const spec = {
+			openapi: "3.0.3",
+			info: { title: "Order", version: "1.0.0" },
+			paths: {
+				"/pets/{pet-id}": { get: { operationId: "getPet", responses: ok } },
+				"/pets/mine": { get: { operationId: "getMyPet", responses: ok } },
+			},
+		};
+		const { mocks, cleanup } = await runGenerator(spec, undefined, { msw: true });
+		try {
+			expect(mocks).toContain('http.get("*/pets/:pet_id"');
+			expect(mocks).toMatch(/mockApi\.getMyPet\(\),\n {2}mockApi\.getPet\(\),/);
+		} finally {
+			await cleanup();
+		}
+	});
+});
+
+describe("generator: runtime validation ([validation])", () => {
+	it("enforce routes responses through validated() with the zod schemas", async () => {
+		const spec = await loadFixture("petstore.json");
+		const { operations, schemas, cleanup } = await runGenerator(spec, undefined, {
+			validation: { mode: "enforce" },
+		});
+		try {
+			expect(schemas).toContain("export const GetPetByIdResponse =");
+			expect(operations).toContain('import * as schemas from "./api.schemas"');
+			expect(operations).toContain('import type { ApiError, Result } from "../api.error"');
+			expect(operations).toContain("const VALIDATION_ENABLED = true");
+			expect(operations).toContain("const VALIDATION_ENFORCED = true");
+			expect(operations).toContain('"RESPONSE_VALIDATION_ERROR"');
+			expect(operations).toContain(
+				'validated({ method: "GET", url: "/pets/{petId}" }, () => apiClient.get("/pets/{petId}", pathParams, config), { response: schemas.GetPetByIdResponse })',
+			);
+			// Request bodies are only checked with request_bodies = true.
+			expect(operations).not.toContain("body: { schema:");
+			// No 2xx JSON response and no checked body: the call is left as-is.
+			expect(operations).toContain('apiClient.delete("/pets/{petId}", pathParams, config),');
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("enforce accepts the null a 3.1 type array allows", async () => {
+		const spec = {
+			openapi: "3.1.0",
+			info: { title: "Users", version: "1.0.0" },
+			paths: {
+				"/users/{id}": {
+					get: {
+						operationId: "getUser",
+						parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+						responses: {
+							"200": {
+								description: "ok",
+								content: {
+									"application/json": {
+										schema: {
+											type: "object",
+											required: ["address"],
+											properties: {
+												address: { type: ["object", "null"], properties: { city: { type: "string" } } },
+											},
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+			},
+		};
+		const { operations, schemas, cleanup } = await runGenerator(spec, undefined, {
+			validation: { mode: "enforce" },
+		});
+		try {
+			expect(operations).toContain("{ response: schemas.GetUserResponse }");
+			expect(schemas).toContain(
+				"export const GetUserResponse = z.object({\n\taddress: z.object({\n\t\tcity: z.string().optional(),\n\t}).nullable(),\n});",
+			);
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("warn checks request bodies too and skips production builds", async () => {
+		const spec = await loadFixture("petstore.json");
+		const { operations, cleanup } = await runGenerator(spec, undefined, {
+			validation: { mode: "warn", request_bodies: true },
+			envAccessor: "import.meta.env",
+		});
+		try {
+			expect(operations).toContain('const VALIDATION_ENABLED = import.meta.env.MODE !== "production"');
+			expect(operations).toContain("const VALIDATION_ENFORCED = false");
+			expect(operations).toContain("body: { schema: schemas.CreatePetBody, data }");
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("off leaves the operations file untouched", async () => {
+		const spec = await loadFixture("petstore.json");
+		const off = await runGenerator(spec, undefined, { validation: { mode: "off" } });
+		const plain = await runGenerator(spec);
+		try {
+			expect(off.schemas).toBeUndefined();
+			expect(off.operations).toBe(plain.operations);
+		} finally {
+			await off.cleanup();
+			await plain.cleanup();
+		}
+	});
+});
+
 describe("generator: client files (api.helpers.ts, api.instance.ts, api.error.ts, api.client.ts)", () => {
 	it("default instance config snapshot", async () => {
 		const { helpers, instance, error, client, cleanup } =
@@ -93,6 +1159,44 @@ describe("generator: client files (api.helpers.ts, api.instance.ts, api.error.ts
 			await cleanup();
 		}
 	});
+
+	it("transport=fetch emits a fetch client without importing axios", async () => {
+		const { instance, error, client, cleanup } = await runClientFiles({
+			transport: "fetch",
+			timeout: 15000,
+		});
+		try {
+			expect(instance).toContain("export const fetchInstance = createFetchInstance({");
+			expect(instance).toMatch(/timeout: 15000,/);
+			expect(instance).toContain("AbortSignal.timeout(config.timeout)");
+			expect(instance).toContain("export function serializeParams(params: unknown): string {");
+			expect(error).toContain('import { FetchError, type FetchResponse } from "./api.instance";');
+			expect(error).toContain("if (err instanceof FetchError) {");
+			expect(client).toContain('import { fetchInstance, type FetchRequestConfig } from "./api.instance";');
+			expect(client).toContain("fetchInstance.get<ResponseData<P, \"get\">>(");
+			for (const content of [instance, error, client]) {
+				expect(content).not.toMatch(/from "axios"|axiosInstance/);
+			}
+		} finally {
+			await cleanup();
+		}
+	});
+
+	it("transport=fetch attaches the bearer token through middleware", async () => {
+		const { instance, cleanup } = await runClientFiles({
+			transport: "fetch",
+			auth_mode: "bearer-localstorage",
+			token_key: "my-token-key",
+		});
+		try {
+			expect(instance).toMatch(/export const tokenKey = "my-token-key";/);
+			expect(instance).toContain("fetchInstance.use({\n\tonRequest(config) {");
+			expect(instance).toMatch(/localStorage\.getItem\(tokenKey\)/);
+			expect(instance).not.toMatch(/interceptors/);
+		} finally {
+			await cleanup();
+		}
+	});
 });
 
 describe("generator: known-bug regression markers", () => {
@@ -1,4 +1,4 @@
-import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
@@ -11,7 +11,7 @@ import type { InstanceConfig } from "../../src/core/config.js";
 import { DEFAULT_INSTANCE_CONFIG } from "../../src/core/config.js";
 import type { Logger } from "../../src/adapters/logger-interface.js";
 
-const SILENT_LOGGER: Logger = {
+export const SILENT_LOGGER: Logger = {
 	level: "silent",
 	header: () => {},
 	step: () => {},
@@ -47,9 +47,14 @@ export async function makeTempPaths(): Promise<{
 		generated: generatedDir,
 		spec: join(internalDir, "openapi.json"),
 		cache: join(internalDir, ".api-cache.json"),
+		oauthToken: join(internalDir, ".oauth-token.json"),
 		types: join(generatedDir, "api.types.ts"),
 		operations: join(generatedDir, "api.operations.ts"),
 		contracts: join(generatedDir, "api.contracts.ts"),
+		schemas: join(generatedDir, "api.schemas.ts"),
+		queries: join(generatedDir, "api.queries.ts"),
+		mocks: join(generatedDir, "api.mocks.ts"),
+		manifest: join(generatedDir, "api.manifest.json"),
 		helpers: join(root, "api.helpers.ts"),
 		instance: join(root, "api.instance.ts"),
 		error: join(root, "api.error.ts"),
@@ -77,26 +82,75 @@ export async function makeTempPaths(): Promise<{
 export async function runGenerator(
 	spec: object,
 	hooks?: GenerationHooks,
+	options: Omit<Parameters<typeof generate>[0], "paths" | "logger" | "hooks"> = {},
 ): Promise<{
 	operations: string;
 	contracts: string;
 	types: string;
+	/** api.schemas.ts, when `options.zod` or `options.validation` asks for it */
+	schemas?: string;
+	/** api.queries.ts, when `options.tanstackQuery` is set */
+	queries?: string;
+	/** api.mocks.ts, when `options.msw` is set */
+	mocks?: string;
+	/** api.manifest.json, when an operation name didn't come from the spec */
+	manifest?: string;
+	/** The `options.splitByTag` files, by path relative to `_generated/` */
+	split?: Record<string, string>;
 	cleanup: () => Promise<void>;
 }> {
 	const { paths, cleanup } = await makeTempPaths();
 	try {
 		await writeFile(paths.spec, JSON.stringify(spec, null, 2), "utf8");
-		await generate({ paths, logger: SILENT_LOGGER, hooks });
+		await generate({ ...options, paths, logger: SILENT_LOGGER, hooks });
 		const operations = await readFile(paths.operations, "utf8");
 		const contracts = await readFile(paths.contracts, "utf8");
 		const types = await readFile(paths.types, "utf8");
-		return { operations, contracts, types, cleanup };
+		const schemas =
+			options.zod || (options.validation && options.validation.mode !== "off")
+				? await readFile(paths.schemas, "utf8")
+				: undefined;
+		const queries = options.tanstackQuery
+			? await readFile(paths.queries, "utf8")
+			: undefined;
+		const mocks = options.msw ? await readFile(paths.mocks, "utf8") : undefined;
+		const manifest = await readFile(paths.manifest, "utf8").catch(() => undefined);
+		const split = options.splitByTag ? await readSplitFiles(paths.generated) : undefined;
+		return {
+			operations,
+			contracts,
+			types,
+			...(schemas !== undefined ? { schemas } : {}),
+			...(queries !== undefined ? { queries } : {}),
+			...(mocks !== undefined ? { mocks } : {}),
+			...(manifest !== undefined ? { manifest } : {}),
+			...(split !== undefined ? { split } : {}),
+			cleanup,
+		};
 	} catch (err) {
 		await cleanup();
 		throw err;
 	}
 }
 
+/**
+ * Read the `[output] split_by_tag` files under `generatedDir`, by path
+ * relative to it: api.request.ts, index.ts and every group folder.
+ */
+export async function readSplitFiles(generatedDir: string): Promise<Record<string, string>> {
+	const files: Record<string, string> = {};
+	for (const entry of await readdir(generatedDir, { withFileTypes: true })) {
+		if (entry.isDirectory()) {
+			for (const file of await readdir(join(generatedDir, entry.name))) {
+				files[`${entry.name}/${file}`] = await readFile(join(generatedDir, entry.name, file), "utf8");
+			}
+		} else if (entry.name === "api.request.ts" || entry.name === "index.ts") {
+			files[entry.name] = await readFile(join(generatedDir, entry.name), "utf8");
+		}
+	}
+	return files;
+}
+
 /**
  * Run `generateClientFiles` against the given instance config.
  * Returns the contents of each emitted file.
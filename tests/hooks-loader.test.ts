@@ -1,18 +1,18 @@
 /**
- * L5c — chowbea.config.{mjs,js} loader tests.
+ * L5c — chowbea.config.{ts,mts,mjs,js} loader tests.
  *
  * Covers discovery, dynamic-import, validation, and the precedence rule
  * between named exports and `export default`.
  */
 
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, readdir, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 import { ConfigError } from "../src/core/errors.js";
-import { loadHooks } from "../src/core/hooks-loader.js";
+import { defineConfig, loadHooks } from "../src/core/hooks-loader.js";
 import type { Logger } from "../src/adapters/logger-interface.js";
 
 const SILENT_LOGGER: Logger = {
@@ -143,4 +143,59 @@ export default { transform: defaultTransform };`,
 			/Failed to load chowbea.config.mjs/,
 		);
 	});
+
+	it("loads a TypeScript chowbea.config.ts and removes the compiled temp file", async () => {
+		await writeFile(
+			join(projectRoot, "chowbea.config.ts"),
+			`interface SchemaLike { format?: string }
+
+const marker: string = "from-ts";
+
+export default {
+	transform(schemaObject: SchemaLike): string | undefined {
+		return schemaObject.format === "date-time" ? marker : undefined;
+	},
+};`,
+		);
+
+		const hooks = await loadHooks(projectRoot, SILENT_LOGGER);
+		// biome-ignore lint/suspicious/noExplicitAny: test introspection
+		expect((hooks.transform as any)({ format: "date-time" })).toBe("from-ts");
+		expect(await readdir(projectRoot)).toEqual(["chowbea.config.ts"]);
+	});
+
+	it("loads chowbea.config.mts and prefers TypeScript configs over .mjs", async () => {
+		await writeFile(
+			join(projectRoot, "chowbea.config.mts"),
+			`export const transform = (): string => "from-mts";`,
+		);
+		await writeFile(
+			join(projectRoot, "chowbea.config.mjs"),
+			`export const transform = () => "from-mjs";`,
+		);
+
+		const hooks = await loadHooks(projectRoot, SILENT_LOGGER);
+		// biome-ignore lint/suspicious/noExplicitAny: test introspection
+		expect((hooks.transform as any)()).toBe("from-mts");
+	});
+
+	it("reports load failures in a TypeScript config by its own filename", async () => {
+		await writeFile(
+			join(projectRoot, "chowbea.config.ts"),
+			`throw new Error("boom");`,
+		);
+
+		await expect(loadHooks(projectRoot, SILENT_LOGGER)).rejects.toThrow(
+			/Failed to load chowbea.config.ts: boom/,
+		);
+		expect(await readdir(projectRoot)).toEqual(["chowbea.config.ts"]);
+	});
+});
+
+describe("defineConfig", () => {
+	it("returns the hooks object unchanged", () => {
+		const transform = () => undefined;
+		const config = { transform };
+		expect(defineConfig(config)).toBe(config);
+	});
 });
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { collectMockOperations, createRng, synthesizeExample } from "../src/core/mock-data.js";
+
+const json = (schema: unknown, extra: Record<string, unknown> = {}) => ({
+	description: "ok",
+	content: { "application/json": { schema, ...extra } },
+});
+
+const SPEC = {
+	openapi: "3.0.3",
+	info: { title: "Mocks", version: "1.0.0" },
+	paths: {
+		"/users/{id}": {
+			get: {
+				operationId: "getUser",
+				responses: { "404": { description: "missing" }, "200": json({ $ref: "#/components/schemas/User" }) },
+			},
+			delete: { operationId: "deleteUser", responses: { "204": { description: "gone" } } },
+		},
+		"/status": {
+			get: {
+				operationId: "getStatus",
+				responses: { "200": json({ type: "string" }, { examples: { up: { value: "up" } } }) },
+			},
+		},
+	},
+	components: {
+		schemas: {
+			User: {
+				type: "object",
+				required: ["id", "role", "age"],
+				properties: {
+					id: { type: "string", format: "uuid" },
+					role: { type: "string", enum: ["admin", "member"] },
+					age: { type: "integer", minimum: 18, maximum: 20 },
+					score: { type: "number", multipleOf: 0.5, minimum: 1, maximum: 2 },
+					handle: { type: "string", minLength: 12, maxLength: 12 },
+					createdAt: { type: "string", format: "date-time" },
+					password: { type: "string", writeOnly: true },
+					nickname: { type: "string", example: "ace" },
+					manager: { $ref: "#/components/schemas/User" },
+					reports: { type: "array", items: { $ref: "#/components/schemas/User" } },
+				},
+			},
+		},
+	},
+};
+
+describe("synthesizeExample", () => {
+	it("respects enums, formats, bounds, lengths and examples", () => {
+		const [getUser] = collectMockOperations(SPEC);
+		const user = getUser?.body as Record<string, unknown>;
+
+		expect(user.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-a[0-9a-f]{3}-[0-9a-f]{12}$/);
+		expect(["admin", "member"]).toContain(user.role);
+		expect(user.age).toBeGreaterThanOrEqual(18);
+		expect(user.age).toBeLessThanOrEqual(20);
+		expect(Number.isInteger(user.age)).toBe(true);
+		expect([1, 1.5, 2]).toContain(user.score);
+		expect(user.handle).toHaveLength(12);
+		expect(new Date(user.createdAt as string).toISOString()).toBe(user.createdAt);
+		expect(user.nickname).toBe("ace");
+		expect(user).not.toHaveProperty("password");
+		// Self-references stop instead of recursing forever.
+		expect(user).not.toHaveProperty("manager");
+		expect(user.reports).toEqual([]);
+	});
+
+	it("is deterministic for a seed and varies across seeds", () => {
+		const schema = { type: "array", minItems: 3, maxItems: 3, items: { type: "integer" } };
+		const first = synthesizeExample(schema, {}, createRng("a"));
+		expect(synthesizeExample(schema, {}, createRng("a"))).toEqual(first);
+		expect(synthesizeExample(schema, {}, createRng("b"))).not.toEqual(first);
+	});
+
+	it("sets a required self-reference to null", () => {
+		const spec = {
+			components: {
+				schemas: {
+					Node: {
+						type: "object",
+						required: ["next"],
+						properties: { next: { $ref: "#/components/schemas/Node" } },
+					},
+				},
+			},
+		};
+		expect(synthesizeExample({ $ref: "#/components/schemas/Node" }, spec, createRng(""))).toEqual({
+			next: null,
+		});
+	});
+
+	it("fills 3.1 tuples position by position", () => {
+		const tuple = synthesizeExample(
+			{ prefixItems: [{ type: "string", enum: ["x"] }, { type: "integer" }] },
+			{},
+			createRng(""),
+		) as unknown[];
+		expect(tuple).toHaveLength(2);
+		expect(tuple[0]).toBe("x");
+		expect(Number.isInteger(tuple[1])).toBe(true);
+
+		const padded = synthesizeExample(
+			{ type: "array", prefixItems: [{ type: "boolean" }], items: { type: "string", enum: ["y"] }, minItems: 3 },
+			{},
+			createRng(""),
+		) as unknown[];
+		expect(padded.slice(1)).toEqual(["y", "y"]);
+		expect(typeof padded[0]).toBe("boolean");
+	});
+});
+
+describe("collectMockOperations", () => {
+	it("picks the first 2xx response and prefers media type examples", () => {
+		const operations = collectMockOperations(SPEC);
+		expect(operations.map(({ operationId, status, hasBody }) => ({ operationId, status, hasBody }))).toEqual([
+			{ operationId: "getUser", status: 200, hasBody: true },
+			{ operationId: "deleteUser", status: 204, hasBody: false },
+			{ operationId: "getStatus", status: 200, hasBody: true },
+		]);
+		expect(operations[2]?.body).toBe("up");
+	});
+
+	it("produces the same payloads on every run", () => {
+		expect(collectMockOperations(SPEC, "seed")).toEqual(collectMockOperations(SPEC, "seed"));
+	});
+});
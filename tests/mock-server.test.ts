@@ -0,0 +1,294 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { executeMock } from "../src/core/actions/mock.js";
+import { SpecNotFoundError } from "../src/core/errors.js";
+import { collectMockOperations } from "../src/core/mock-data.js";
+import { createMockServer } from "../src/core/mock-server.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
+
+const SPEC = {
+	openapi: "3.0.3",
+	info: { title: "Mock server", version: "1.0.0" },
+	servers: [{ url: "https://api.example.com/v1" }],
+	paths: {
+		"/pets": {
+			get: {
+				operationId: "listPets",
+				parameters: [
+					{ name: "limit", in: "query", schema: { type: "integer", maximum: 50 } },
+					{ name: "x-tenant", in: "header", required: true, schema: { type: "string" } },
+				],
+				responses: {
+					"200": {
+						description: "ok",
+						content: {
+							"application/json": { schema: { type: "array", items: { $ref: "#/components/schemas/Pet" } } },
+						},
+					},
+				},
+			},
+			post: {
+				operationId: "createPet",
+				requestBody: {
+					required: true,
+					content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+				},
+				responses: {
+					"201": {
+						description: "created",
+						content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+					},
+				},
+			},
+		},
+		"/pets/mine": {
+			get: { operationId: "listMyPets", responses: { "204": { description: "none" } } },
+		},
+		"/pets/{petId}": {
+			get: {
+				operationId: "getPet",
+				parameters: [{ name: "petId", in: "path", required: true, schema: { type: "integer" } }],
+				responses: {
+					"200": {
+						description: "ok",
+						content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+					},
+					"404": {
+						description: "missing",
+						content: {
+							"application/json": {
+								schema: { type: "object" },
+								examples: {
+									gone: { value: { message: "gone" } },
+									never: { value: { message: "never existed" } },
+								},
+							},
+						},
+					},
+				},
+			},
+		},
+	},
+	components: {
+		schemas: {
+			Pet: {
+				type: "object",
+				required: ["id", "name"],
+				additionalProperties: false,
+				properties: {
+					id: { type: "integer", readOnly: true },
+					name: { type: "string", minLength: 1 },
+					tag: { type: "string", enum: ["cat", "dog"] },
+				},
+			},
+		},
+	},
+};
+
+describe("createMockServer", () => {
+	const server = createMockServer(SPEC, { seed: "test" });
+	let baseUrl = "";
+
+	beforeAll(async () => {
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	});
+
+	it("routes by path template and method, serving the same payloads as api.mocks.ts", async () => {
+		const response = await fetch(`${baseUrl}/pets/7`);
+		expect(response.status).toBe(200);
+		const getPet = collectMockOperations(SPEC, "test").find((op) => op.operationId === "getPet");
+		expect(await response.json()).toEqual(getPet?.body);
+
+		expect((await fetch(`${baseUrl}/pets/mine`)).status).toBe(204);
+		// The `servers` base path is accepted too.
+		expect((await fetch(`${baseUrl}/v1/pets/7`)).status).toBe(200);
+	});
+
+	it("answers unknown paths with 404 and unsupported methods with 405", async () => {
+		expect((await fetch(`${baseUrl}/owners`)).status).toBe(404);
+		const response = await fetch(`${baseUrl}/pets/7`, { method: "DELETE" });
+		expect(response.status).toBe(405);
+		expect(response.headers.get("allow")).toBe("GET");
+	});
+
+	it("rejects parameters and bodies that don't match the spec", async () => {
+		const params = await fetch(`${baseUrl}/pets?limit=500`);
+		expect(params.status).toBe(400);
+		expect(((await params.json()) as { issues: unknown[] }).issues).toEqual([
+			{ pointer: "/query/limit", message: "Above the maximum" },
+			{ pointer: "/header/x-tenant", message: "Required" },
+		]);
+
+		expect((await fetch(`${baseUrl}/pets/abc`)).status).toBe(400);
+
+		const body = await fetch(`${baseUrl}/pets`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ name: "", tag: "fish", owner: "me" }),
+		});
+		expect(body.status).toBe(400);
+		expect(((await body.json()) as { issues: unknown[] }).issues).toEqual([
+			{ pointer: "/body/name", message: "Must be at least 1 characters" },
+			{ pointer: "/body/tag", message: 'Must be one of: "cat", "dog"' },
+			{ pointer: "/body/owner", message: "Unknown property" },
+		]);
+
+		// `id` is readOnly, so it isn't required in the request.
+		const valid = await fetch(`${baseUrl}/pets`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ name: "Rex" }),
+		});
+		expect(valid.status).toBe(201);
+	});
+
+	it("picks documented responses and examples with Prefer", async () => {
+		const notFound = await fetch(`${baseUrl}/pets/7`, { headers: { prefer: "code=404" } });
+		expect(notFound.status).toBe(404);
+		expect(await notFound.json()).toEqual({ message: "gone" });
+
+		const named = await fetch(`${baseUrl}/pets/7`, { headers: { prefer: "code=404, example=never" } });
+		expect(await named.json()).toEqual({ message: "never existed" });
+
+		const undocumented = await fetch(`${baseUrl}/pets/7`, { headers: { prefer: "code=500" } });
+		expect(undocumented.status).toBe(400);
+		expect(await undocumented.json()).toEqual({ message: "GET /pets/{petId} documents no 500 response" });
+	});
+
+	it("answers CORS preflights", async () => {
+		const response = await fetch(`${baseUrl}/pets`, {
+			method: "OPTIONS",
+			headers: { origin: "http://localhost:5173", "access-control-request-method": "POST" },
+		});
+		expect(response.status).toBe(204);
+		expect(response.headers.get("access-control-allow-origin")).toBe("http://localhost:5173");
+		expect(response.headers.get("access-control-allow-methods")).toBe("GET, POST");
+	});
+
+	it("waits --delay milliseconds before responding", async () => {
+		const slow = createMockServer(SPEC, { delayMs: 50 });
+		await new Promise<void>((resolve) => slow.listen(0, "127.0.0.1", resolve));
+		try {
+			const start = Date.now();
+			await fetch(`http://127.0.0.1:${(slow.address() as AddressInfo).port}/pets/mine`);
+			expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+		} finally {
+			await new Promise<void>((resolve) => slow.close(() => resolve()));
+		}
+	});
+});
+
+const CONFIG = `poll_interval_ms = 10000
+api_endpoint = "http://localhost:3000/openapi.json"
+
+[output]
+folder = "api"
+`;
+
+describe("executeMock", () => {
+	it("serves the cached spec until aborted, and fails without one", async () => {
+		const root = join(tmpdir(), `chowbea-mock-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+		await mkdir(join(root, "api", "_internal"), { recursive: true });
+		await writeFile(join(root, "package.json"), JSON.stringify({ name: "consumer" }), "utf8");
+		await writeFile(join(root, "api.config.toml"), CONFIG, "utf8");
+		const configPath = join(root, "api.config.toml");
+		const orig = process.cwd();
+		process.chdir(root);
+
+		try {
+			await expect(executeMock({ configPath, port: 0 }, SILENT_LOGGER)).rejects.toBeInstanceOf(
+				SpecNotFoundError,
+			);
+
+			await writeFile(join(root, "api", "_internal", "openapi.json"), JSON.stringify(SPEC), "utf8");
+			const controller = new AbortController();
+			let url = "";
+			const running = executeMock(
+				{
+					configPath,
+					port: 0,
+					signal: controller.signal,
+					onListening: (listening) => {
+						url = listening;
+					},
+				},
+				SILENT_LOGGER,
+			);
+			await expect.poll(() => url).not.toBe("");
+			expect((await fetch(`${url}/pets/mine`)).status).toBe(204);
+
+			controller.abort();
+			await running;
+			await expect(fetch(`${url}/pets/mine`)).rejects.toThrow();
+		} finally {
+			process.chdir(orig);
+			await rm(root, { recursive: true, force: true });
+		}
+	});
+
+	it("seeds operations with the names api.mocks.ts was generated with", async () => {
+		const root = join(tmpdir(), `chowbea-mock-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+		await mkdir(join(root, "api", "_internal"), { recursive: true });
+		await mkdir(join(root, "api", "_generated"), { recursive: true });
+		await writeFile(join(root, "package.json"), JSON.stringify({ name: "consumer" }), "utf8");
+		await writeFile(join(root, "api.config.toml"), CONFIG, "utf8");
+		const configPath = join(root, "api.config.toml");
+		const orig = process.cwd();
+		process.chdir(root);
+
+		const getOwner = {
+			responses: {
+				"200": {
+					description: "ok",
+					content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+				},
+			},
+		};
+		const spec = { ...SPEC, paths: { ...SPEC.paths, "/owners/{ownerId}": { get: getOwner } } };
+		try {
+			await writeFile(join(root, "api", "_internal", "openapi.json"), JSON.stringify(spec), "utf8");
+			await writeFile(
+				join(root, "api", "_generated", "api.manifest.json"),
+				JSON.stringify({ synthesizedOperationIds: { "GET /owners/{ownerId}": "getOwnersById" } }),
+				"utf8",
+			);
+			const controller = new AbortController();
+			let url = "";
+			const running = executeMock(
+				{
+					configPath,
+					port: 0,
+					signal: controller.signal,
+					onListening: (listening) => {
+						url = listening;
+					},
+				},
+				SILENT_LOGGER,
+			);
+			await expect.poll(() => url).not.toBe("");
+
+			// api.mocks.ts collects from the spec with the generated names filled in.
+			const named = {
+				...spec,
+				paths: { ...spec.paths, "/owners/{ownerId}": { get: { ...getOwner, operationId: "getOwnersById" } } },
+			};
+			const expected = collectMockOperations(named).find((op) => op.operationId === "getOwnersById");
+			expect(await (await fetch(`${url}/owners/1`)).json()).toEqual(expected?.body);
+
+			controller.abort();
+			await running;
+		} finally {
+			process.chdir(orig);
+			await rm(root, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,92 @@
+import { existsSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { executeGenerate } from "../src/core/actions/generate.js";
+import { executeStatus } from "../src/core/actions/status.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
+
+const PETSTORE_PATH = fileURLToPath(
+	new URL("./fixtures/petstore.json", import.meta.url),
+);
+
+const CONFIG = `poll_interval_ms = 10000
+
+[output]
+folder = "api"
+
+[[apis]]
+name = "pets"
+spec_file = ${JSON.stringify(PETSTORE_PATH)}
+
+[[apis]]
+name = "store"
+spec_file = ${JSON.stringify(PETSTORE_PATH)}
+`;
+
+async function withProject<T>(fn: (root: string) => Promise<T>): Promise<T> {
+	const root = join(
+		tmpdir(),
+		`chowbea-multi-api-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+	);
+	await mkdir(root, { recursive: true });
+	await writeFile(
+		join(root, "package.json"),
+		JSON.stringify({ name: "consumer", version: "0.0.0" }),
+		"utf8",
+	);
+	await writeFile(join(root, "api.config.toml"), CONFIG, "utf8");
+
+	const orig = process.cwd();
+	process.chdir(root);
+	try {
+		return await fn(root);
+	} finally {
+		process.chdir(orig);
+		await rm(root, { recursive: true, force: true });
+	}
+}
+
+const GENERATE = { dryRun: false, typesOnly: false, operationsOnly: false };
+
+describe("[[apis]] — multi-API actions", () => {
+	it("generate runs every entry into its own folder and aggregates the results", async () => {
+		await withProject(async (root) => {
+			const result = await executeGenerate(GENERATE, SILENT_LOGGER);
+
+			expect(result.apis?.map((api) => api.name)).toEqual(["pets", "store"]);
+			expect(result.operationCount).toBe(
+				(result.apis ?? []).reduce((sum, api) => sum + api.operationCount, 0),
+			);
+			for (const name of ["pets", "store"]) {
+				expect(
+					existsSync(join(root, "api", name, "_generated", "api.operations.ts")),
+				).toBe(true);
+			}
+		});
+	}, 30_000);
+
+	it("--api limits generate and status to one entry", async () => {
+		await withProject(async (root) => {
+			const result = await executeGenerate(
+				{ ...GENERATE, api: "store" },
+				SILENT_LOGGER,
+			);
+			expect(result.apis?.map((api) => api.name)).toEqual(["store"]);
+			expect(existsSync(join(root, "api", "pets"))).toBe(false);
+
+			const status = await executeStatus({}, SILENT_LOGGER);
+			expect(status.apis?.map((api) => [api.name, api.specExists])).toEqual([
+				["pets", false],
+				["store", true],
+			]);
+
+			const single = await executeStatus({ api: "store" }, SILENT_LOGGER);
+			expect(single.apis).toHaveLength(1);
+			expect(single.name).toBe("store");
+		});
+	}, 30_000);
+});
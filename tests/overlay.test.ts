@@ -0,0 +1,249 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import type { Logger } from "../src/adapters/logger-interface.js";
+import { OverlayError } from "../src/core/errors.js";
+import { loadCacheMetadata, loadLocalSpecFile, saveSpec } from "../src/core/fetcher.js";
+import {
+	applyOverlays,
+	type LoadedOverlay,
+	loadOverlays,
+	queryJsonPath,
+} from "../src/core/overlay.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
+
+const SPEC = {
+	openapi: "3.0.3",
+	info: { title: "Vendor", version: "1.0.0" },
+	paths: {
+		"/users": {
+			get: {
+				parameters: [
+					{ name: "limit", in: "query" },
+					{ name: "X-Trace", in: "header" },
+					{ name: "page", in: "query", deprecated: true },
+				],
+				responses: { "200": { description: "ok" } },
+			},
+			post: { operationId: "createUser", responses: { "201": { description: "created" } } },
+		},
+	},
+	components: {
+		schemas: {
+			User: {
+				type: "object",
+				properties: {
+					id: { type: "string" },
+					nickname: { type: "string" },
+					age: { type: "integer", minimum: 0 },
+				},
+			},
+		},
+	},
+};
+
+function overlay(actions: unknown[], path = "fixes.yaml"): LoadedOverlay {
+	return {
+		path,
+		hash: "h",
+		document: {
+			overlay: "1.0.0",
+			info: { title: "Fixes", version: "1" },
+			actions: actions as LoadedOverlay["document"]["actions"],
+		},
+	};
+}
+
+describe("queryJsonPath", () => {
+	const values = (expression: string) =>
+		queryJsonPath(SPEC, expression).map((node) => node.value);
+
+	it("selects names, quoted names, indexes and wildcards", () => {
+		expect(values("$.paths['/users'].post.operationId")).toEqual(["createUser"]);
+		expect(values('$.paths["/users"].get.parameters[-1].name')).toEqual(["page"]);
+		expect(values("$.components.schemas.User.properties.*.type")).toEqual([
+			"string",
+			"string",
+			"integer",
+		]);
+	});
+
+	it("supports recursive descent", () => {
+		expect(values("$..operationId")).toEqual(["createUser"]);
+		expect(values("$..responses[*].description")).toEqual(["ok", "created"]);
+	});
+
+	it("evaluates filters with comparisons, existence and boolean operators", () => {
+		const names = (expression: string) =>
+			values(expression).map((p) => (p as { name: string }).name);
+		expect(names("$.paths.*.get.parameters[?(@.in == 'query')]")).toEqual([
+			"limit",
+			"page",
+		]);
+		expect(names("$..parameters[?@.deprecated]")).toEqual(["page"]);
+		expect(names("$..parameters[?(!@.deprecated && @.in != 'header')]")).toEqual([
+			"limit",
+		]);
+		expect(values("$..properties[?(@.minimum >= 0)].type")).toEqual(["integer"]);
+	});
+
+	it("rejects expressions outside the supported subset", () => {
+		expect(() => queryJsonPath(SPEC, "paths")).toThrow();
+		expect(() => queryJsonPath(SPEC, "$.paths[")).toThrow();
+	});
+});
+
+describe("applyOverlays", () => {
+	it("deep-merges updates into objects without touching the input", () => {
+		const { spec } = applyOverlays(SPEC, [
+			overlay([
+				{
+					target: "$.paths['/users'].get",
+					update: { operationId: "listUsers", responses: { "200": { description: "Users" } } },
+				},
+			]),
+		]);
+		const get = (spec as typeof SPEC).paths["/users"].get as Record<string, any>;
+		expect(get.operationId).toBe("listUsers");
+		expect(get.responses["200"]).toEqual({ description: "Users" });
+		expect(get.parameters).toHaveLength(3);
+		expect((SPEC.paths["/users"].get as Record<string, unknown>).operationId).toBeUndefined();
+	});
+
+	it("appends updates to arrays and removes matched nodes", () => {
+		const { spec } = applyOverlays(SPEC, [
+			overlay([
+				{ target: "$..parameters[?(@.in == 'header')]", remove: true },
+				{ target: "$..parameters[?@.deprecated]", remove: true },
+				{ target: "$.paths['/users'].get.parameters", update: { name: "cursor", in: "query" } },
+				{ target: "$.components.schemas.User.properties.nickname", remove: true, update: {} },
+			]),
+		]);
+		const result = spec as typeof SPEC;
+		expect(result.paths["/users"].get.parameters.map((p) => p.name)).toEqual([
+			"limit",
+			"cursor",
+		]);
+		expect(Object.keys(result.components.schemas.User.properties)).toEqual(["id", "age"]);
+	});
+
+	it("applies overlays in order and reports targets that matched nothing", () => {
+		const { spec, applied } = applyOverlays(SPEC, [
+			overlay([{ target: "$.info", update: { title: "First" } }], "a.yaml"),
+			overlay(
+				[
+					{ target: "$.info", update: { title: "Second" } },
+					{ target: "$.paths['/gone'].get", update: { deprecated: true } },
+				],
+				"b.yaml",
+			),
+		]);
+		expect((spec as typeof SPEC).info.title).toBe("Second");
+		expect(applied).toEqual([
+			{ path: "a.yaml", title: "Fixes", hash: "h", actions: 1, unmatched: [] },
+			{
+				path: "b.yaml",
+				title: "Fixes",
+				hash: "h",
+				actions: 2,
+				unmatched: ["$.paths['/gone'].get"],
+			},
+		]);
+	});
+});
+
+describe("loadOverlays", () => {
+	it("parses YAML overlays and rejects invalid documents", async () => {
+		const dir = join(
+			tmpdir(),
+			`chowbea-overlay-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		);
+		await mkdir(dir, { recursive: true });
+		try {
+			await writeFile(
+				join(dir, "ok.yaml"),
+				"overlay: 1.0.0\ninfo: { title: Ok, version: '1' }\nactions:\n  - target: $.info\n    update: { x-patched: true }\n",
+				"utf8",
+			);
+			const [loaded] = await loadOverlays(["ok.yaml"], dir);
+			expect(loaded?.path).toBe("ok.yaml");
+			expect(loaded?.document.actions).toHaveLength(1);
+			expect(loaded?.hash).toMatch(/^[0-9a-f]{64}$/);
+
+			await writeFile(
+				join(dir, "bad.yaml"),
+				"overlay: 1.0.0\ninfo: { title: Bad, version: '1' }\nactions:\n  - target: $.info\n",
+				"utf8",
+			);
+			const error = await loadOverlays(["bad.yaml"], dir).catch((e: unknown) => e);
+			expect(error).toBeInstanceOf(OverlayError);
+			expect((error as OverlayError).message).toContain("needs an update or remove: true");
+
+			await expect(loadOverlays(["missing.yaml"], dir)).rejects.toThrow(
+				/cannot read file/,
+			);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("loadLocalSpecFile — overlays", () => {
+	it("caches the patched spec and treats an overlay edit as a change", async () => {
+		const dir = join(
+			tmpdir(),
+			`chowbea-overlay-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		);
+		await mkdir(dir, { recursive: true });
+		const warnings: string[] = [];
+		const logger: Logger = {
+			...SILENT_LOGGER,
+			warn: ((message: string) => {
+				warnings.push(message);
+			}) as Logger["warn"],
+		};
+		const options = {
+			localPath: join(dir, "openapi.json"),
+			specPath: join(dir, "cached.json"),
+			cachePath: join(dir, "cache.json"),
+			logger,
+		};
+		try {
+			await writeFile(options.localPath, JSON.stringify(SPEC), "utf8");
+
+			const first = await loadLocalSpecFile({
+				...options,
+				overlays: [overlay([{ target: "$.info", update: { title: "Patched" } }])],
+			});
+			expect(JSON.parse(first.buffer.toString("utf8")).info.title).toBe("Patched");
+			expect(first.hasChanged).toBe(true);
+			await saveSpec({
+				buffer: first.buffer,
+				hash: first.hash,
+				endpoint: options.localPath,
+				specPath: options.specPath,
+				cachePath: options.cachePath,
+				overlays: first.overlays,
+			});
+			expect(await loadCacheMetadata(options.cachePath)).toMatchObject({
+				overlays: [{ path: "fixes.yaml", unmatched: [] }],
+			});
+
+			const second = await loadLocalSpecFile({
+				...options,
+				overlays: [
+					{
+						...overlay([{ target: "$.servers", update: { url: "x" } }]),
+						hash: "h2",
+					},
+				],
+			});
+			expect(second.hasChanged).toBe(true);
+			expect(warnings).toEqual(["Overlay fixes.yaml: target $.servers matched nothing"]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -196,6 +196,42 @@ describe("resolveSchema", () => {
 		expect(result?.nullable).toBe(true);
 	});
 
+	it("understands OpenAPI 3.1 const, prefixItems, conditionals and examples", () => {
+		const spec31 = {
+			components: {
+				schemas: {
+					Point: { $defs: { Coord: { type: "number" } } },
+				},
+			},
+		};
+		const schema = {
+			type: "object",
+			properties: {
+				kind: { const: "point" },
+				at: {
+					prefixItems: [
+						{ $ref: "#/components/schemas/Point/$defs/Coord" },
+						{ $ref: "#/components/schemas/Point/$defs/Coord" },
+					],
+				},
+				id: { type: ["string", "integer"], examples: ["a1", 7] },
+			},
+			unevaluatedProperties: { type: "string" },
+			if: { properties: { kind: { const: "point" } } },
+			then: { required: ["at"] },
+		};
+		const result = resolveSchema(schema, spec31, 0, 8, new Set());
+		expect(result?.properties?.kind).toMatchObject({ type: "string", const: "point" });
+		expect(result?.properties?.at?.type).toBe("array");
+		expect(result?.properties?.at?.prefixItems?.map((item) => [item.type, item.refName])).toEqual([
+			["number", "Coord"],
+			["number", "Coord"],
+		]);
+		expect(result?.properties?.id).toMatchObject({ type: "string | integer", examples: ["a1", 7] });
+		expect(result?.additionalProperties).toMatchObject({ type: "string" });
+		expect(result?.conditional?.then?.required).toEqual(["at"]);
+	});
+
 	it("captures OpenAPI 3.0 nullable shorthand", () => {
 		const schema = { type: "string", nullable: true };
 		const result = resolveSchema(schema, spec, 0, 8, new Set());
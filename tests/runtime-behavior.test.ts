@@ -48,9 +48,14 @@ async function makePaths(): Promise<{
 		generated,
 		spec: join(internal, "openapi.json"),
 		cache: join(internal, ".api-cache.json"),
+		oauthToken: join(internal, ".oauth-token.json"),
 		types: join(generated, "api.types.ts"),
 		operations: join(generated, "api.operations.ts"),
 		contracts: join(generated, "api.contracts.ts"),
+		schemas: join(generated, "api.schemas.ts"),
+		queries: join(generated, "api.queries.ts"),
+		mocks: join(generated, "api.mocks.ts"),
+		manifest: join(generated, "api.manifest.json"),
 		helpers: join(root, "api.helpers.ts"),
 		instance: join(root, "api.instance.ts"),
 		error: join(root, "api.error.ts"),
@@ -165,6 +170,29 @@ describe("generateClientFiles instance-drift detection (#40)", () => {
 		}
 	});
 
+	it("warns when transport changes after generation", async () => {
+		const { paths, cleanup } = await makePaths();
+		try {
+			const { logger } = captureLogger();
+			await generateClientFiles({
+				paths,
+				instanceConfig: DEFAULT_INSTANCE_CONFIG,
+				logger,
+			});
+			const { logger: l2, warns } = captureLogger();
+			await generateClientFiles({
+				paths,
+				instanceConfig: { ...DEFAULT_INSTANCE_CONFIG, transport: "fetch" },
+				logger: l2,
+			});
+			const drift = warns.find((w) => /out of sync/.test(w.msg));
+			expect(drift?.msg).toMatch(/transport/);
+			expect(drift?.msg).not.toMatch(/timeout|with_credentials/);
+		} finally {
+			await cleanup();
+		}
+	});
+
 	it("force=true rewrites the file and does not warn", async () => {
 		const { paths, cleanup } = await makePaths();
 		try {
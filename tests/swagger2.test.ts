@@ -0,0 +1,240 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import type { Logger } from "../src/adapters/logger-interface.js";
+import { loadLocalSpec } from "../src/core/fetcher.js";
+import { convertSwagger2, isSwagger2 } from "../src/core/swagger2.js";
+import { SILENT_LOGGER } from "./helpers/logger.js";
+import { runGenerator } from "./helpers/run-generator.js";
+
+const PETSTORE_V2 = {
+	swagger: "2.0",
+	info: { title: "Legacy Pets", version: "1.0.0" },
+	host: "pets.example.com",
+	basePath: "/v1",
+	schemes: ["https"],
+	consumes: ["application/json"],
+	produces: ["application/json"],
+	securityDefinitions: {
+		basicAuth: { type: "basic" },
+		oauth: {
+			type: "oauth2",
+			flow: "application",
+			tokenUrl: "https://auth.example.com/token",
+			scopes: { "pets:read": "Read pets" },
+		},
+	},
+	parameters: {
+		PetId: { name: "petId", in: "path", required: true, type: "integer", format: "int64" },
+		PetBody: { name: "pet", in: "body", required: true, schema: { $ref: "#/definitions/Pet" } },
+	},
+	responses: {
+		NotFound: { description: "Not found", schema: { $ref: "#/definitions/Error" } },
+	},
+	paths: {
+		"/pets": {
+			get: {
+				operationId: "listPets",
+				parameters: [
+					{ name: "tags", in: "query", type: "array", items: { type: "string" } },
+					{ name: "ids", in: "query", type: "array", items: { type: "integer" }, collectionFormat: "multi" },
+				],
+				responses: {
+					"200": {
+						description: "ok",
+						schema: { type: "array", items: { $ref: "#/definitions/Pet" } },
+						headers: { "X-Total": { type: "integer", description: "Total pets" } },
+					},
+				},
+			},
+			post: {
+				operationId: "createPet",
+				parameters: [{ $ref: "#/parameters/PetBody" }],
+				responses: { "201": { description: "created", schema: { $ref: "#/definitions/Pet" } } },
+			},
+		},
+		"/pets/{petId}": {
+			parameters: [{ $ref: "#/parameters/PetId" }],
+			get: {
+				operationId: "getPet",
+				responses: {
+					"200": { description: "ok", schema: { $ref: "#/definitions/Pet" } },
+					"404": { $ref: "#/responses/NotFound" },
+				},
+			},
+		},
+		"/pets/{petId}/photo": {
+			post: {
+				operationId: "uploadPhoto",
+				consumes: ["multipart/form-data"],
+				parameters: [
+					{ $ref: "#/parameters/PetId" },
+					{ name: "file", in: "formData", type: "file", required: true },
+					{ name: "caption", in: "formData", type: "string", description: "Alt text" },
+				],
+				responses: { "204": { description: "uploaded" } },
+			},
+		},
+	},
+	definitions: {
+		Pet: {
+			type: "object",
+			required: ["id", "name"],
+			discriminator: "kind",
+			properties: {
+				id: { type: "integer", format: "int64" },
+				name: { type: "string" },
+				kind: { type: "string" },
+				nickname: { type: "string", "x-nullable": true },
+			},
+		},
+		Error: { type: "object", properties: { message: { type: "string" } } },
+	},
+};
+
+type Converted = {
+	openapi: string;
+	servers: unknown;
+	paths: Record<string, Record<string, any>>;
+	components: Record<string, Record<string, any>>;
+};
+
+describe("isSwagger2", () => {
+	it("recognises quoted and unquoted-YAML versions only", () => {
+		expect(isSwagger2({ swagger: "2.0" })).toBe(true);
+		expect(isSwagger2({ swagger: 2 })).toBe(true);
+		expect(isSwagger2({ openapi: "3.0.3" })).toBe(false);
+		expect(isSwagger2(null)).toBe(false);
+	});
+});
+
+describe("convertSwagger2", () => {
+	const { spec, warnings } = convertSwagger2(structuredClone(PETSTORE_V2));
+	const converted = spec as unknown as Converted;
+
+	it("maps host/basePath/schemes to servers and definitions to components", () => {
+		expect(converted.openapi).toBe("3.0.3");
+		expect(converted.servers).toEqual([{ url: "https://pets.example.com/v1" }]);
+		expect(converted.components.schemas?.Pet.discriminator).toEqual({
+			propertyName: "kind",
+		});
+		expect(converted.components.schemas?.Pet.properties.nickname).toEqual({
+			type: "string",
+			nullable: true,
+		});
+		expect(warnings).toEqual([]);
+	});
+
+	it("turns body parameters into a requestBody keyed by consumes", () => {
+		expect(converted.paths["/pets"]?.post.parameters).toBeUndefined();
+		expect(converted.paths["/pets"]?.post.requestBody).toEqual({
+			required: true,
+			content: {
+				"application/json": { schema: { $ref: "#/components/schemas/Pet" } },
+			},
+		});
+		// Shared body parameters are inlined, not kept as components.
+		expect(Object.keys(converted.components.parameters ?? {})).toEqual(["PetId"]);
+	});
+
+	it("turns formData parameters into a multipart object schema", () => {
+		const upload = converted.paths["/pets/{petId}/photo"]?.post;
+		expect(upload.parameters).toEqual([{ $ref: "#/components/parameters/PetId" }]);
+		expect(upload.requestBody.content["multipart/form-data"].schema).toEqual({
+			type: "object",
+			properties: {
+				file: { type: "string", format: "binary" },
+				caption: { type: "string", description: "Alt text" },
+			},
+			required: ["file"],
+		});
+	});
+
+	it("moves response schemas and headers under content keyed by produces", () => {
+		const ok = converted.paths["/pets"]?.get.responses["200"];
+		expect(ok.content["application/json"].schema.items).toEqual({
+			$ref: "#/components/schemas/Pet",
+		});
+		expect(ok.headers["X-Total"]).toEqual({
+			description: "Total pets",
+			schema: { type: "integer" },
+		});
+		expect(converted.paths["/pets/{petId}"]?.get.responses["404"]).toEqual({
+			$ref: "#/components/responses/NotFound",
+		});
+	});
+
+	it("derives query parameter style from collectionFormat", () => {
+		const [tags, ids] = converted.paths["/pets"]?.get.parameters;
+		expect(tags).toMatchObject({ style: "form", explode: false, schema: { type: "array" } });
+		expect(ids).toMatchObject({ style: "form", explode: true });
+	});
+
+	it("converts security definitions", () => {
+		expect(converted.components.securitySchemes).toEqual({
+			basicAuth: { type: "http", scheme: "basic" },
+			oauth: {
+				type: "oauth2",
+				flows: {
+					clientCredentials: {
+						tokenUrl: "https://auth.example.com/token",
+						scopes: { "pets:read": "Read pets" },
+					},
+				},
+			},
+		});
+	});
+
+	it("warns about constructs OpenAPI 3 cannot express", () => {
+		const legacy = structuredClone(PETSTORE_V2) as Record<string, any>;
+		legacy.paths["/pets"].get.parameters[0].collectionFormat = "tsv";
+		expect(convertSwagger2(legacy).warnings).toEqual([
+			'GET /pets: parameter "tags" uses collectionFormat "tsv", which OpenAPI 3 cannot express; serialized as csv',
+		]);
+	});
+
+	it("generates a typed client from the converted spec", async () => {
+		const { operations, contracts, cleanup } = await runGenerator(spec);
+		try {
+			expect(operations).toContain("createPet");
+			expect(operations).toContain("uploadPhoto");
+			expect(contracts).toContain("Pet");
+		} finally {
+			await cleanup();
+		}
+	}, 30_000);
+});
+
+describe("loadLocalSpec — Swagger 2.0 input", () => {
+	it("converts before caching and reports warnings through the logger", async () => {
+		const dir = join(
+			tmpdir(),
+			`chowbea-swagger2-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		);
+		await mkdir(dir, { recursive: true });
+		const warnings: string[] = [];
+		const logger: Logger = {
+			...SILENT_LOGGER,
+			warn: ((message: string) => {
+				warnings.push(message);
+			}) as Logger["warn"],
+		};
+		try {
+			const legacy = structuredClone(PETSTORE_V2) as Record<string, any>;
+			legacy.paths["/pets"].get.schemes = ["http"];
+			const specPath = join(dir, "swagger.json");
+			await writeFile(specPath, JSON.stringify(legacy), "utf8");
+
+			const { spec, buffer } = await loadLocalSpec(specPath, { logger });
+			expect((spec as Converted).openapi).toBe("3.0.3");
+			expect(JSON.parse(buffer.toString("utf8")).swagger).toBeUndefined();
+			expect(warnings).toEqual([
+				"Swagger 2.0 conversion: GET /pets: per-operation schemes are not supported and were dropped",
+			]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
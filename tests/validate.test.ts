@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { validateSpec } from "../src/core/actions/validate.js";
+
+const json = (schema: unknown) => ({
+	description: "ok",
+	content: { "application/json": { schema } },
+});
+
+describe("validateSpec — type quality", () => {
+	it("accepts OpenAPI 3.1 tuples, maps, consts and conditionals", () => {
+		const spec = {
+			openapi: "3.1.0",
+			info: { title: "3.1", version: "1.0.0" },
+			paths: {
+				"/tuple": { get: { operationId: "tuple", responses: { "200": json({ prefixItems: [{ type: "number" }] }) } } },
+				"/map": {
+					get: {
+						operationId: "map",
+						responses: { "200": json({ type: "object", unevaluatedProperties: { type: "string" } }) },
+					},
+				},
+				"/const": { get: { operationId: "constant", responses: { "200": json({ const: "ok" }) } } },
+				"/conditional": {
+					get: {
+						operationId: "conditional",
+						responses: {
+							"200": json({
+								type: "object",
+								if: { required: ["a"] },
+								then: { required: ["b"] },
+								else: { required: ["c"] },
+							}),
+						},
+					},
+				},
+				"/stub": { get: { operationId: "stub", responses: { "200": json({ type: "object" }) } } },
+			},
+		};
+
+		const typeQuality = validateSpec(spec).issues.filter((issue) => issue.category === "type-quality");
+		expect(typeQuality.map((issue) => issue.path)).toEqual(["/paths/stub/get/responses/200"]);
+	});
+});